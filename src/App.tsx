@@ -5,40 +5,57 @@
  * R-OSSE Waveguide Designer with TypeScript and React
  */
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { Toaster, toast } from 'sonner'
 import { AppLayout } from './components/layout/AppLayout'
 import { ControlPanel } from './components/layout/ControlPanel'
 import { VisualizationPanel } from './components/layout/VisualizationPanel'
+import { ComparisonProvider } from './context/ComparisonContext'
+import { OptimizerProvider } from './context/OptimizerContext'
+import { SweepProvider } from './context/SweepContext'
 import { useWaveguide, WaveguideProvider } from './context/WaveguideContext'
+import { useAutosave } from './hooks/useAutosave'
 import { decompressStateFromURL } from './lib/export/urlSharing'
+import type { WaveguideState } from './lib/types/waveguide'
+
+/**
+ * Design given by a share link ('design' URL parameter).
+ *
+ * @returns Decoded design (null without one), and whether a link was given
+ *   but could not be read
+ */
+function readSharedDesign(): { state: WaveguideState | null; failed: boolean } {
+  const designParam = new URLSearchParams(window.location.search).get('design')
+  if (!designParam) return { state: null, failed: false }
+  try {
+    const state = decompressStateFromURL(designParam)
+    return { state, failed: !state }
+  } catch (error) {
+    console.error('Failed to load design from URL:', error)
+    return { state: null, failed: true }
+  }
+}
 
 /**
  * App content with access to context
  */
 function AppContent() {
   const { dispatch } = useWaveguide()
+  const [shared] = useState(readSharedDesign)
+
+  // Restore the autosaved design unless a shared design is being opened (a
+  // broken link falls back to it, so the next autosave cannot overwrite it)
+  useAutosave(!shared.state)
 
-  // Load design from URL parameter on mount
+  // Load the shared design on mount
   useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search)
-    const designParam = urlParams.get('design')
-
-    if (designParam) {
-      try {
-        const state = decompressStateFromURL(designParam)
-        if (state) {
-          dispatch({ type: 'LOAD_FROM_FILE', state })
-          toast.success('Design loaded from shared link')
-        } else {
-          toast.error('Invalid share link - using default design')
-        }
-      } catch (error) {
-        console.error('Failed to load design from URL:', error)
-        toast.error('Failed to load design from URL')
-      }
+    if (shared.state) {
+      dispatch({ type: 'LOAD_FROM_FILE', state: shared.state })
+      toast.success('Design loaded from shared link')
+    } else if (shared.failed) {
+      toast.error('Invalid share link - restoring your last design')
     }
-  }, [dispatch])
+  }, [shared, dispatch])
 
   return (
     <AppLayout>
@@ -51,8 +68,14 @@ function AppContent() {
 function App() {
   return (
     <WaveguideProvider>
-      <Toaster position="top-right" richColors closeButton />
-      <AppContent />
+      <ComparisonProvider>
+        <OptimizerProvider>
+          <SweepProvider>
+            <Toaster position="top-right" richColors closeButton />
+            <AppContent />
+          </SweepProvider>
+        </OptimizerProvider>
+      </ComparisonProvider>
     </WaveguideProvider>
   )
 }
@@ -0,0 +1,278 @@
+/**
+ * Horn Designer Command Line
+ * ==========================
+ *
+ * Headless entry point for build pipelines: validates project YAML files,
+ * reports their metrics as JSON and exports them in every format of the
+ * app, without a browser. Designs saved by older versions are upgraded
+ * exactly as on import in the app.
+ *
+ * Exit codes:
+ * - 0: success
+ * - 1: a design is invalid (validation errors or no valid geometry)
+ * - 2: usage error, unreadable input or unwritable output
+ * - 3: internal error (a bug in the command line, not in the design)
+ *
+ * Built by `npm run build:cli` into dist-cli/horn-designer.js.
+ */
+
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { EXPORT_FORMATS, type ExportFormat, findFormat } from '../lib/export/formats'
+import { formatValidationErrors, importFromYAML } from '../lib/export/yaml'
+import { areaProfile, areaRoughness } from '../lib/math/area'
+import { designMetrics } from '../lib/math/comparison'
+import { buildDesignGeometry, type DesignGeometry } from '../lib/math/design'
+import { computeMeshMetrics } from '../lib/math/mesh'
+import { analyzePathLengths } from '../lib/math/pathLength'
+import { buildExportMesh, checkManifold, isClosedExport, manifoldIssues } from '../lib/math/trimesh'
+import type { WaveguideState } from '../lib/types/waveguide'
+
+/** Process exit codes */
+const EXIT_OK = 0
+const EXIT_INVALID = 1
+const EXIT_USAGE = 2
+const EXIT_INTERNAL = 3
+
+const USAGE = `Usage: horn-designer <command> [options]
+
+Commands:
+  validate <design.yaml>...           Check designs (schema, values and geometry)
+  metrics <design.yaml> [--pretty]    Print the key figures of a design as JSON
+  export <design.yaml> --format <f>   Write the design in one or more formats
+         [--out <file|dir|->]         (comma-separated, or "all"; default: all)
+
+Formats:
+${EXPORT_FORMATS.map(({ id, description }) => `  ${id.padEnd(10)}${description}`).join('\n')}
+
+Exit codes: 0 success, 1 invalid design, 2 usage or file error, 3 internal error`
+
+/**
+ * Error that ends the command with a usage or file exit code.
+ */
+class UsageError extends Error {}
+
+/**
+ * A design read from disk, upgraded and validated.
+ */
+interface LoadedDesign {
+  file: string
+  state: WaveguideState
+  geometry: DesignGeometry
+}
+
+function warn(message: string): void {
+  process.stderr.write(`warning: ${message}\n`)
+}
+
+async function readText(file: string): Promise<string> {
+  try {
+    return await readFile(file, 'utf8')
+  } catch (error) {
+    throw new UsageError(`Cannot read ${file}: ${(error as Error).message}`)
+  }
+}
+
+/**
+ * Read a design; prints the problems and returns null when it is invalid.
+ */
+async function loadDesign(file: string): Promise<LoadedDesign | null> {
+  const result = importFromYAML(await readText(file))
+  for (const warning of result.validation?.warnings ?? []) warn(`${file}: ${warning}`)
+
+  if (!result.success || !result.state) {
+    const details = result.validation ? formatValidationErrors(result.validation) : ''
+    process.stderr.write(`${file}: ${result.error}\n${details ? `${details}\n` : ''}`)
+    return null
+  }
+
+  const geometry = buildDesignGeometry(result.state)
+  if (!geometry) {
+    process.stderr.write(`${file}: the guide parameters give no valid geometry\n`)
+    return null
+  }
+  return { file, state: result.state, geometry }
+}
+
+async function validateCommand(files: string[]): Promise<number> {
+  if (files.length === 0) throw new UsageError('validate needs at least one design file')
+
+  let exitCode = EXIT_OK
+  for (const file of files) {
+    const design = await loadDesign(file)
+    process.stdout.write(`${design ? 'valid' : 'invalid'}  ${file}\n`)
+    if (!design) exitCode = EXIT_INVALID
+  }
+  return exitCode
+}
+
+/**
+ * Key figures of a design (lengths in mm, areas in mm², delays in µs).
+ */
+function metricsReport({ file, state, geometry }: LoadedDesign) {
+  const { meshData, exportMeshData, hData, vData } = geometry
+  const mesh = computeMeshMetrics(meshData)
+  const figures = designMetrics(meshData)
+  const paths = analyzePathLengths(meshData)
+  const manifold = checkManifold(buildExportMesh(exportMeshData, state.shellParams))
+
+  return {
+    file,
+    throatDiameter: (mesh?.throat ?? 0) * 2,
+    depth: figures?.depth ?? 0,
+    depthMismatch: mesh?.depthMismatch ?? 0,
+    mouthWidth: figures?.mouthWidth ?? 0,
+    mouthHeight: figures?.mouthHeight ?? 0,
+    mouthArea: figures?.mouthArea ?? 0,
+    lengthH: hData.L,
+    lengthV: vData.L,
+    pathSpread: paths.maxDifference,
+    groupDelay: paths.groupDelay,
+    areaRoughness: areaRoughness(areaProfile(meshData)),
+    exportMesh: {
+      rings: exportMeshData.rings.length,
+      slices: exportMeshData.numSlices,
+      vertices: manifold.vertices,
+      triangles: manifold.triangles,
+      issues: manifoldIssues(manifold, isClosedExport(state.shellParams)),
+    },
+  }
+}
+
+async function metricsCommand(files: string[], pretty: boolean): Promise<number> {
+  if (files.length !== 1) throw new UsageError('metrics needs exactly one design file')
+
+  const design = await loadDesign(files[0])
+  if (!design) return EXIT_INVALID
+  process.stdout.write(`${JSON.stringify(metricsReport(design), null, pretty ? 2 : undefined)}\n`)
+  return EXIT_OK
+}
+
+/**
+ * Formats named by --format.
+ */
+function selectFormats(option: string | undefined): ExportFormat[] {
+  if (!option || option === 'all') return EXPORT_FORMATS
+  return option.split(',').map((id) => {
+    const format = findFormat(id.trim())
+    if (!format) throw new UsageError(`Unknown format "${id}" (see --help)`)
+    return format
+  })
+}
+
+async function isDirectory(target: string): Promise<boolean> {
+  try {
+    return (await stat(target)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+async function exportCommand(
+  files: string[],
+  formatOption: string | undefined,
+  out: string | undefined,
+): Promise<number> {
+  if (files.length !== 1) throw new UsageError('export needs exactly one design file')
+  const formats = selectFormats(formatOption)
+  if (out === '-' && formats.length !== 1) {
+    throw new UsageError('--out - (standard output) needs exactly one format')
+  }
+
+  const design = await loadDesign(files[0])
+  if (!design) return EXIT_INVALID
+
+  // One format may go to a file; otherwise --out is a directory
+  const name = path.basename(files[0]).replace(/\.ya?ml$/i, '')
+  const toDirectory =
+    out === undefined || formats.length > 1 || out.endsWith(path.sep) || (await isDirectory(out))
+  const directory = toDirectory ? (out ?? '.') : path.dirname(out)
+  try {
+    await mkdir(directory, { recursive: true })
+  } catch (error) {
+    throw new UsageError(`Cannot create ${directory}: ${(error as Error).message}`)
+  }
+
+  let exitCode = EXIT_OK
+  for (const format of formats) {
+    const output = format.write(design.state, design.geometry)
+    if (!output) {
+      process.stderr.write(`${files[0]}: nothing to export as ${format.id}\n`)
+      exitCode = EXIT_INVALID
+      continue
+    }
+    for (const warning of output.warnings) warn(warning)
+
+    if (out === '-') {
+      process.stdout.write(output.data)
+      continue
+    }
+    const target =
+      toDirectory || out === undefined ? path.join(directory, `${name}${format.suffix}`) : out
+    try {
+      await writeFile(target, output.data)
+    } catch (error) {
+      throw new UsageError(`Cannot write ${target}: ${(error as Error).message}`)
+    }
+    process.stdout.write(`${format.id.padEnd(10)}${target}\n`)
+  }
+  return exitCode
+}
+
+/**
+ * Run the command line.
+ *
+ * @param args - Arguments after the program name
+ * @returns Process exit code
+ */
+export async function main(args: string[]): Promise<number> {
+  try {
+    const { positionals, values } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f' },
+        out: { type: 'string', short: 'o' },
+        pretty: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+    const [command, ...files] = positionals
+
+    if (values.help || !command) {
+      process.stdout.write(`${USAGE}\n`)
+      return values.help ? EXIT_OK : EXIT_USAGE
+    }
+
+    switch (command) {
+      case 'validate':
+        return await validateCommand(files)
+      case 'metrics':
+        return await metricsCommand(files, values.pretty ?? false)
+      case 'export':
+        return await exportCommand(files, values.format, values.out)
+      default:
+        throw new UsageError(`Unknown command "${command}" (see --help)`)
+    }
+  } catch (error) {
+    if (
+      error instanceof UsageError ||
+      (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')
+    ) {
+      process.stderr.write(`${(error as Error).message}\n`)
+      return EXIT_USAGE
+    }
+    throw error
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code
+  })
+  .catch((error: unknown) => {
+    const message = error instanceof Error ? (error.stack ?? error.message) : String(error)
+    process.stderr.write(`Internal error: ${message}\n`)
+    process.exitCode = EXIT_INTERNAL
+  })
@@ -0,0 +1,232 @@
+/**
+ * Comparison Panel Component
+ * ==========================
+ *
+ * Pins a reference design (A) from the current state, a YAML file or a
+ * share link (library designs are pinned from the Library panel) and lists
+ * how the current design (B) differs: changed parameters and metric deltas.
+ * The reference is overlaid in the Guides, Cross-Sections and 3D views.
+ */
+
+import { type ChangeEvent, useMemo, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { useComparison } from '../../context/ComparisonContext'
+import { useWaveguide } from '../../context/WaveguideContext'
+import { useMeshData } from '../../hooks/useMeshData'
+import { useReferenceMesh } from '../../hooks/useReferenceMesh'
+import { colors } from '../../lib/design-tokens'
+import { decompressStateFromURL, designParamFromLink } from '../../lib/export/urlSharing'
+import { formatValidationErrors, importFromYAML } from '../../lib/export/yaml'
+import { diffStates, formatValue } from '../../lib/history'
+import { compareMetrics, designMetrics } from '../../lib/math/comparison'
+import { ParameterSection } from './ParameterSection'
+
+export function ComparisonPanel() {
+  const { state, dispatch } = useWaveguide()
+  const { pin, clear } = useComparison()
+  const { meshData } = useMeshData()
+  const { reference, metrics: refMetrics } = useReferenceMesh()
+  const [link, setLink] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const metrics = useMemo(() => designMetrics(meshData), [meshData])
+  const changes = useMemo(
+    () => (reference ? diffStates(reference.state, state) : []),
+    [reference, state],
+  )
+  const deltas = refMetrics && metrics ? compareMetrics(refMetrics, metrics) : []
+
+  const buttonStyle = {
+    padding: '6px 8px',
+    background: colors.panelHeaderBg,
+    border: `1px solid ${colors.panelBorderMedium}`,
+    color: colors.primary,
+    fontFamily: 'inherit',
+  }
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    e.target.value = ''
+
+    const result = importFromYAML(await file.text())
+    if (!result.success || !result.state) {
+      toast.error(
+        result.validation
+          ? formatValidationErrors(result.validation)
+          : (result.error ?? 'Import failed'),
+        { duration: 10000 },
+      )
+      return
+    }
+    pin(result.state, file.name)
+  }
+
+  const handlePinLink = () => {
+    const pinned = decompressStateFromURL(designParamFromLink(link))
+    if (!pinned) {
+      toast.error('Invalid share link')
+      return
+    }
+    pin(pinned, 'Shared link')
+    setLink('')
+  }
+
+  // Make A the working design and pin the previous working design as A
+  const handleSwap = () => {
+    if (!reference) return
+    dispatch({
+      type: 'LOAD_FROM_FILE',
+      state: { ...reference.state, visualizationMode: state.visualizationMode },
+    })
+    pin(state, `Before swap (${reference.name})`)
+  }
+
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`
+
+  return (
+    <ParameterSection title="Compare">
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept=".yaml,.yml"
+        onChange={handleFileSelect}
+        style={{ display: 'none' }}
+      />
+
+      <div className="flex gap-[4px] mb-[4px]">
+        <button
+          type="button"
+          onClick={() => pin(state, `Pinned ${new Date().toLocaleTimeString()}`)}
+          title="Pin the current design as reference A"
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={buttonStyle}
+        >
+          ⌖ PIN CURRENT
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          title="Pin a project YAML file as reference A"
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={buttonStyle}
+        >
+          ▲ YAML
+        </button>
+      </div>
+      <div className="flex gap-[4px] mb-[5px]">
+        <input
+          type="text"
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && link.trim() && handlePinLink()}
+          placeholder="Paste share link"
+          className="flex-1 min-w-0 text-xxs px-[6px] rounded-[4px] border"
+          style={{
+            color: colors.foreground,
+            borderColor: colors.panelBorderMedium,
+            background: colors.background,
+          }}
+        />
+        <button
+          type="button"
+          onClick={handlePinLink}
+          disabled={!link.trim()}
+          className="rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle}
+        >
+          PIN
+        </button>
+      </div>
+
+      {!reference ? (
+        <div className="text-tiny" style={{ color: colors.textSubtleDark }}>
+          Pin a design (or ⇄ a library design) to overlay it in the Guides, Cross-Sections and 3D
+          views
+        </div>
+      ) : (
+        <>
+          <div
+            className="flex items-center gap-[4px] rounded-[3px] mb-[5px] text-xxs"
+            style={{ padding: '3px 5px', border: `1px solid ${colors.referenceBorder}` }}
+          >
+            <span className="font-bold truncate flex-1" style={{ color: colors.reference }}>
+              A: {reference.name}
+            </span>
+            <button
+              type="button"
+              onClick={handleSwap}
+              title="Swap: edit A, pin the current design"
+              className="cursor-pointer"
+              style={{ ...buttonStyle, padding: '1px 5px' }}
+            >
+              ⇄
+            </button>
+            <button
+              type="button"
+              onClick={clear}
+              title="Stop comparing"
+              className="cursor-pointer"
+              style={{ ...buttonStyle, padding: '1px 5px' }}
+            >
+              ✕
+            </button>
+          </div>
+
+          <table className="w-full text-tiny mb-[5px]" style={{ color: colors.textSubtle }}>
+            <thead>
+              <tr className="uppercase tracking-[1px]">
+                <th className="text-left font-normal">Metric</th>
+                <th className="text-right font-normal" style={{ color: colors.reference }}>
+                  A
+                </th>
+                <th className="text-right font-normal">B</th>
+                <th className="text-right font-normal">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deltas.map(({ key, label, unit, reference: a, current: b, delta }) => (
+                <tr key={key}>
+                  <td>
+                    {label} [{unit}]
+                  </td>
+                  <td className="text-right">{a.toFixed(1)}</td>
+                  <td className="text-right">{b.toFixed(1)}</td>
+                  <td
+                    className="text-right font-bold"
+                    style={{
+                      color:
+                        Math.abs(delta) < 0.05 ? colors.textSubtleDark : colors.secondaryForeground,
+                    }}
+                  >
+                    {signed(delta)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div
+            className="text-tiny uppercase tracking-[1px] mb-[2px]"
+            style={{ color: colors.textSubtle }}
+          >
+            {changes.length === 0 ? 'No parameter changes' : `${changes.length} changed`}
+          </div>
+          <div className="max-h-[160px] overflow-y-auto scrollbar-thin">
+            {changes.map(({ path, before, after }) => (
+              <div
+                key={path}
+                className="text-tiny truncate"
+                style={{ color: colors.textSubtle }}
+                title={`${path}: ${formatValue(before)} → ${formatValue(after)}`}
+              >
+                {path}: <span style={{ color: colors.reference }}>{formatValue(before)}</span> →{' '}
+                {formatValue(after)}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </ParameterSection>
+  )
+}
@@ -2,14 +2,27 @@
  * Export Buttons Component
  * ========================
  *
- * CSV and OBJ export action buttons.
+ * CSV, OBJ, STL, 3MF, STEP, Gmsh, Hornresp and baffle cutout export action buttons.
  */
 
 import { useExport } from '../../hooks/useExport'
 import { colors } from '../../lib/design-tokens'
 
 export function ExportButtons() {
-  const { exportCSV, exportOBJ, exportSTL, hasData } = useExport()
+  const {
+    exportCSV,
+    exportOBJ,
+    exportSTL,
+    export3MF,
+    exportSTEP,
+    stepReport,
+    exportMSH,
+    exportGEO,
+    exportHornresp,
+    exportCutoutDXF,
+    exportCutoutSVG,
+    hasData,
+  } = useExport()
 
   return (
     <div className="space-y-[4px] mb-[7px]">
@@ -47,10 +60,44 @@ export function ExportButtons() {
         </button>
       </div>
 
-      {/* Bottom row: STL */}
+      {/* Middle row: STL and 3MF */}
+      <div className="flex gap-[4px]">
+        <button
+          type="button"
+          onClick={exportSTL}
+          disabled={!hasData}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▼ STL
+        </button>
+        <button
+          type="button"
+          onClick={export3MF}
+          disabled={!hasData}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▼ 3MF (3D Printing)
+        </button>
+      </div>
+
+      {/* STEP (exact B-spline geometry) */}
       <button
         type="button"
-        onClick={exportSTL}
+        onClick={exportSTEP}
         disabled={!hasData}
         className="w-full rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
         style={{
@@ -61,8 +108,100 @@ export function ExportButtons() {
           fontFamily: 'inherit',
         }}
       >
-        ▼ STL (3D Printing / CAD)
+        ▼ STEP (CAD solid)
       </button>
+      {stepReport && (
+        <div className="text-[0.625rem] text-text-subtle-dark">
+          STEP {stepReport.solid ? 'solid' : 'surface'} · max deviation{' '}
+          {stepReport.maxDeviation.toFixed(3)} mm
+          {stepReport.omitted.length > 0 && ` · without ${stepReport.omitted.join(', ')}`}
+        </div>
+      )}
+
+      {/* Gmsh simulation mesh and parametric geometry */}
+      <div className="flex gap-[4px]">
+        <button
+          type="button"
+          onClick={exportMSH}
+          disabled={!hasData}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▼ GMSH .MSH (BEM)
+        </button>
+        <button
+          type="button"
+          onClick={exportGEO}
+          disabled={!hasData}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▼ GMSH .GEO
+        </button>
+      </div>
+
+      {/* Hornresp (1D area expansion) */}
+      <button
+        type="button"
+        onClick={exportHornresp}
+        disabled={!hasData}
+        className="w-full rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+        style={{
+          padding: '9px',
+          background: colors.panelHeaderBg,
+          border: `1px solid ${colors.panelBorderMedium}`,
+          color: colors.primary,
+          fontFamily: 'inherit',
+        }}
+      >
+        ▼ HORNRESP (AREA PROFILE)
+      </button>
+
+      {/* Bottom row: baffle cutout */}
+      <div className="flex gap-[4px]">
+        <button
+          type="button"
+          onClick={exportCutoutDXF}
+          disabled={!hasData}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▼ CUTOUT DXF
+        </button>
+        <button
+          type="button"
+          onClick={exportCutoutSVG}
+          disabled={!hasData}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▼ CUTOUT SVG
+        </button>
+      </div>
     </div>
   )
 }
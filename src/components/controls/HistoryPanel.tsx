@@ -0,0 +1,134 @@
+/**
+ * History Panel Component
+ * =======================
+ *
+ * Undo/redo buttons, named checkpoints and the list of history steps with
+ * the parameters each step changed.
+ */
+
+import { useState } from 'react'
+import { useWaveguide } from '../../context/WaveguideContext'
+import { colors } from '../../lib/design-tokens'
+import { formatValue } from '../../lib/history'
+import { ParameterSection } from './ParameterSection'
+
+/** Changed parameters listed per step before collapsing */
+const MAX_CHANGES_SHOWN = 4
+
+export function HistoryPanel() {
+  const { history, undo, redo, goTo, nameStep } = useWaveguide()
+  const [checkpoint, setCheckpoint] = useState('')
+  const { entries, index } = history
+
+  const buttonStyle = {
+    padding: '6px',
+    background: colors.panelHeaderBg,
+    border: `1px solid ${colors.panelBorderMedium}`,
+    color: colors.primary,
+    fontFamily: 'inherit',
+  }
+
+  const handleName = () => {
+    nameStep(index, checkpoint)
+    setCheckpoint('')
+  }
+
+  return (
+    <ParameterSection title="History">
+      <div className="flex gap-[4px] mb-[5px]">
+        <button
+          type="button"
+          onClick={undo}
+          disabled={index === 0}
+          title="Undo (Ctrl+Z)"
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle}
+        >
+          ↶ UNDO
+        </button>
+        <button
+          type="button"
+          onClick={redo}
+          disabled={index === entries.length - 1}
+          title="Redo (Ctrl+Shift+Z)"
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle}
+        >
+          ↷ REDO
+        </button>
+      </div>
+
+      <div className="flex gap-[4px] mb-[5px]">
+        <input
+          type="text"
+          value={checkpoint}
+          onChange={(e) => setCheckpoint(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleName()}
+          placeholder={entries[index].name ?? 'Checkpoint name'}
+          className="flex-1 min-w-0 text-xxs px-[6px] rounded-[4px] border"
+          style={{
+            color: colors.foreground,
+            borderColor: colors.panelBorderMedium,
+            background: colors.background,
+          }}
+        />
+        <button
+          type="button"
+          onClick={handleName}
+          className="rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{ ...buttonStyle, padding: '6px 8px' }}
+        >
+          ★ NAME
+        </button>
+      </div>
+
+      <div className="max-h-[220px] overflow-y-auto scrollbar-thin space-y-[2px]">
+        {entries
+          .map((entry, i) => ({ entry, i }))
+          .reverse()
+          .map(({ entry, i }) => (
+            <button
+              type="button"
+              key={`${i}-${entry.time}`}
+              onClick={() => goTo(i)}
+              className="block w-full text-left rounded-[3px] cursor-pointer"
+              style={{
+                padding: '3px 5px',
+                background: i === index ? colors.primary08 : 'transparent',
+                border: `1px solid ${i === index ? colors.primary : 'transparent'}`,
+                opacity: i > index ? 0.45 : 1,
+                fontFamily: 'inherit',
+              }}
+            >
+              <div className="flex text-xxs">
+                <span
+                  className="font-bold"
+                  style={{ color: entry.name ? colors.primary : colors.secondaryForeground }}
+                >
+                  {entry.name ? `★ ${entry.name}` : (entry.label ?? `Step ${i}`)}
+                </span>
+                <span className="ml-auto" style={{ color: colors.textSubtleDark }}>
+                  {new Date(entry.time).toLocaleTimeString()}
+                </span>
+              </div>
+              {entry.changes.slice(0, MAX_CHANGES_SHOWN).map(({ path, before, after }) => (
+                <div
+                  key={path}
+                  className="text-tiny truncate"
+                  style={{ color: colors.textSubtle }}
+                  title={`${path}: ${formatValue(before)} → ${formatValue(after)}`}
+                >
+                  {path}: {formatValue(before)} → {formatValue(after)}
+                </div>
+              ))}
+              {entry.changes.length > MAX_CHANGES_SHOWN && (
+                <div className="text-tiny" style={{ color: colors.textSubtleDark }}>
+                  +{entry.changes.length - MAX_CHANGES_SHOWN} more
+                </div>
+              )}
+            </button>
+          ))}
+      </div>
+    </ParameterSection>
+  )
+}
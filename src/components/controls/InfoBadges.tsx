@@ -2,16 +2,21 @@
  * Info Badges Component
  * =====================
  *
- * Displays computed metrics (throat, depth, mouth dimensions, coverage).
+ * Displays computed metrics (throat, depth, mouth dimensions, coverage),
+ * the depth mismatch between the H and V guides and the spread of the wall
+ * path lengths.
  */
 
 import { useWaveguide } from '../../context/WaveguideContext'
 import { useMeshData } from '../../hooks/useMeshData'
+import { PATH_PHASE_FREQUENCY, usePathLength } from '../../hooks/usePathLength'
 import { colors } from '../../lib/design-tokens'
+import { pathPhase } from '../../lib/math/pathLength'
 
 export function InfoBadges() {
   const { metrics } = useMeshData()
   const { state } = useWaveguide()
+  const { pathLength } = usePathLength()
 
   if (!metrics) {
     return null
@@ -25,7 +30,21 @@ export function InfoBadges() {
       'Coverage',
       `${Math.round(state.horizontal.a_deg * 2)}°×${Math.round(state.vertical.a_deg * 2)}°`,
     ],
+    [
+      'Δ Depth V−H',
+      `${metrics.depthMismatch >= 0 ? '+' : ''}${metrics.depthMismatch.toFixed(1)}mm`,
+    ],
+    ['Depth Mode', state.depthMode === 'true' ? 'True profile' : 'Common'],
   ]
+  if (pathLength) {
+    info.push(
+      ['Path Δ Max', `${pathLength.maxDifference.toFixed(1)}mm`],
+      [
+        `Phase @${PATH_PHASE_FREQUENCY / 1000}k`,
+        `${Math.round(pathPhase(pathLength.maxDifference, PATH_PHASE_FREQUENCY))}°`,
+      ],
+    )
+  }
 
   return (
     <div className="grid grid-cols-2 gap-[3px] mb-[7px]">
@@ -0,0 +1,177 @@
+/**
+ * Inverse Design Panel Component
+ * ==============================
+ *
+ * Solves the R-OSSE guides from target mouth size, maximum depth, throat
+ * diameter and coverage, and proposes the result as a list of parameter
+ * changes to apply.
+ */
+
+import { useMemo, useState } from 'react'
+import { useWaveguide } from '../../context/WaveguideContext'
+import { useMeshData } from '../../hooks/useMeshData'
+import { colors } from '../../lib/design-tokens'
+import { diffStates, formatValue } from '../../lib/history'
+import {
+  type InverseResult,
+  type InverseTargets,
+  inverseIssues,
+  solveGuides,
+} from '../../lib/math/inverse'
+import type { WaveguideState } from '../../lib/types/waveguide'
+import { ParameterSection } from './ParameterSection'
+
+/** Target fields in display order */
+const FIELDS: { key: keyof InverseTargets; label: string; unit: string }[] = [
+  { key: 'mouthWidth', label: 'Mouth W', unit: 'mm' },
+  { key: 'mouthHeight', label: 'Mouth H', unit: 'mm' },
+  { key: 'maxDepth', label: 'Max depth', unit: 'mm' },
+  { key: 'throatDiameter', label: 'Throat Ø', unit: 'mm' },
+  { key: 'coverageH', label: 'Coverage H', unit: '°' },
+  { key: 'coverageV', label: 'Coverage V', unit: '°' },
+]
+
+/**
+ * Targets that reproduce the current design.
+ */
+function currentTargets(state: WaveguideState, depth: number): InverseTargets {
+  return {
+    mouthWidth: state.horizontal.R * 2,
+    mouthHeight: state.vertical.R * 2,
+    maxDepth: Math.ceil(depth),
+    throatDiameter: state.horizontal.r0 * 2,
+    coverageH: state.horizontal.a_deg * 2,
+    coverageV: state.vertical.a_deg * 2,
+  }
+}
+
+export function InverseDesignPanel() {
+  const { state, dispatch } = useWaveguide()
+  const { metrics } = useMeshData()
+  const [targets, setTargets] = useState<InverseTargets>(() =>
+    currentTargets(state, metrics?.depth ?? 100),
+  )
+  const [result, setResult] = useState<InverseResult | null>(null)
+
+  const issues = inverseIssues(targets)
+  const changes = useMemo(
+    () =>
+      result
+        ? diffStates(state, { ...state, horizontal: result.horizontal, vertical: result.vertical })
+        : [],
+    [state, result],
+  )
+
+  const buttonStyle = {
+    padding: '6px 8px',
+    background: colors.panelHeaderBg,
+    border: `1px solid ${colors.panelBorderMedium}`,
+    color: colors.primary,
+    fontFamily: 'inherit',
+  }
+
+  const setTarget = (key: keyof InverseTargets, text: string) => {
+    setTargets({ ...targets, [key]: parseFloat(text) })
+    setResult(null)
+  }
+
+  const handleApply = () => {
+    if (!result) return
+    dispatch({ type: 'SET_GUIDES', horizontal: result.horizontal, vertical: result.vertical })
+    setResult(null)
+  }
+
+  return (
+    <ParameterSection title="Inverse Design">
+      <div className="grid grid-cols-2 gap-x-[6px] gap-y-[3px] mb-[5px]">
+        {FIELDS.map(({ key, label, unit }) => (
+          <label key={key} className="flex items-center gap-[3px] text-tiny">
+            <span className="flex-1 truncate" style={{ color: colors.textSubtle }}>
+              {label}
+            </span>
+            <input
+              type="number"
+              value={Number.isFinite(targets[key]) ? Number(targets[key].toFixed(1)) : ''}
+              onChange={(e) => setTarget(key, e.target.value)}
+              className="w-[48px] text-tiny px-[3px] rounded-[3px] border text-right"
+              style={{
+                color: colors.foreground,
+                borderColor: colors.panelBorderMedium,
+                background: colors.background,
+              }}
+            />
+            <span className="w-[12px]" style={{ color: colors.textSubtleDark }}>
+              {unit}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {issues.map((issue) => (
+        <div key={issue} className="text-tiny" style={{ color: colors.diagonalMod }}>
+          {issue}
+        </div>
+      ))}
+
+      <div className="flex gap-[4px] mb-[5px]">
+        <button
+          type="button"
+          onClick={() => setResult(solveGuides(state, targets))}
+          disabled={issues.length > 0}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle}
+        >
+          ◎ SOLVE
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setTargets(currentTargets(state, metrics?.depth ?? targets.maxDepth))
+            setResult(null)
+          }}
+          title="Fill in the targets of the current design"
+          className="rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={buttonStyle}
+        >
+          ↺ CURRENT
+        </button>
+      </div>
+
+      {result && (
+        <>
+          <div className="text-tiny mb-[2px]" style={{ color: colors.textSubtle }}>
+            L<sub>H</sub> {result.lengthH.toFixed(1)} mm · L<sub>V</sub> {result.lengthV.toFixed(1)}{' '}
+            mm · depth {result.depth.toFixed(1)} mm
+          </div>
+          {result.issues.map((issue) => (
+            <div key={issue} className="text-tiny" style={{ color: colors.diagonalMod }}>
+              {issue}
+            </div>
+          ))}
+          <div className="max-h-[140px] overflow-y-auto scrollbar-thin mb-[5px]">
+            {changes.length === 0 && (
+              <div className="text-tiny" style={{ color: colors.textSubtleDark }}>
+                The current guides already meet the targets
+              </div>
+            )}
+            {changes.map(({ path, before, after }) => (
+              <div key={path} className="text-tiny truncate" style={{ color: colors.textSubtle }}>
+                {path}: {formatValue(before)} →{' '}
+                <span style={{ color: colors.secondaryForeground }}>{formatValue(after)}</span>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={changes.length === 0}
+            className="w-full rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+            style={buttonStyle}
+          >
+            ✓ APPLY {changes.length} CHANGES
+          </button>
+        </>
+      )}
+    </ParameterSection>
+  )
+}
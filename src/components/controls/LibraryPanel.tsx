@@ -0,0 +1,257 @@
+/**
+ * Library Panel Component
+ * =======================
+ *
+ * Design library stored in the browser: save the current design with tags,
+ * search, open recent designs, compare, rename, tag, duplicate and delete.
+ */
+
+import { useState } from 'react'
+import { useWaveguide } from '../../context/WaveguideContext'
+import { useDesignLibrary } from '../../hooks/useDesignLibrary'
+import { useMeshData } from '../../hooks/useMeshData'
+import { colors } from '../../lib/design-tokens'
+import { parseTags, recentDesigns, searchDesigns } from '../../lib/storage/designLibrary'
+import { renderThumbnail } from '../visualizations/draw3D'
+import { ParameterSection } from './ParameterSection'
+
+export function LibraryPanel() {
+  const { state } = useWaveguide()
+  const { meshData } = useMeshData()
+  const { designs, current, save, update, open, compare, rename, setTags, duplicate, remove } =
+    useDesignLibrary()
+  const [name, setName] = useState('')
+  const [tags, setTagsText] = useState('')
+  const [query, setQuery] = useState('')
+
+  const thumbnail = () => (meshData ? renderThumbnail(meshData, state.diagonalMod.enabled) : '')
+  const results = searchDesigns(designs, query)
+  const recent = recentDesigns(designs)
+
+  const buttonStyle = {
+    padding: '6px 8px',
+    background: colors.panelHeaderBg,
+    border: `1px solid ${colors.panelBorderMedium}`,
+    color: colors.primary,
+    fontFamily: 'inherit',
+  }
+  const inputStyle = {
+    color: colors.foreground,
+    borderColor: colors.panelBorderMedium,
+    background: colors.background,
+  }
+  const actionStyle = {
+    background: 'transparent',
+    border: 'none',
+    color: colors.textSubtle,
+    fontFamily: 'inherit',
+    padding: '0 3px',
+  }
+
+  const handleSave = () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    save(trimmed, parseTags(tags), thumbnail())
+    setName('')
+    setTagsText('')
+  }
+
+  const handleRename = (id: string, oldName: string) => {
+    const newName = window.prompt('Rename design', oldName)?.trim()
+    if (newName) rename(id, newName)
+  }
+
+  const handleTags = (id: string, oldTags: string[]) => {
+    const text = window.prompt('Tags (comma separated)', oldTags.join(', '))
+    if (text !== null) setTags(id, parseTags(text))
+  }
+
+  const handleDelete = (id: string, designName: string) => {
+    if (window.confirm(`Delete "${designName}" from the library?`)) remove(id)
+  }
+
+  return (
+    <ParameterSection title="Library">
+      <div className="flex gap-[4px] mb-[4px]">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Design name"
+          className="flex-1 min-w-0 text-xxs px-[6px] rounded-[4px] border"
+          style={inputStyle}
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle}
+        >
+          ＋ SAVE
+        </button>
+      </div>
+      <input
+        type="text"
+        value={tags}
+        onChange={(e) => setTagsText(e.target.value)}
+        placeholder="Tags, comma separated"
+        className="w-full text-xxs px-[6px] py-[3px] mb-[4px] rounded-[4px] border"
+        style={inputStyle}
+      />
+      {current && (
+        <button
+          type="button"
+          onClick={() => update(thumbnail())}
+          className="w-full rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer mb-[4px]"
+          style={buttonStyle}
+        >
+          ↻ UPDATE "{current.name}"
+        </button>
+      )}
+
+      {recent.length > 0 && (
+        <div className="mb-[4px]">
+          <div className="text-tiny uppercase tracking-[1px]" style={{ color: colors.textSubtle }}>
+            Recently opened
+          </div>
+          <div className="flex flex-wrap gap-[3px] mt-[2px]">
+            {recent.map((design) => (
+              <button
+                type="button"
+                key={design.id}
+                onClick={() => open(design.id)}
+                className="rounded-[3px] text-tiny cursor-pointer"
+                style={{ ...buttonStyle, padding: '2px 5px' }}
+              >
+                {design.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={`Search ${designs.length} designs by name or tag`}
+        className="w-full text-xxs px-[6px] py-[3px] mb-[4px] rounded-[4px] border"
+        style={inputStyle}
+      />
+
+      <div className="max-h-[260px] overflow-y-auto scrollbar-thin space-y-[3px]">
+        {results.length === 0 && (
+          <div className="text-tiny" style={{ color: colors.textSubtleDark }}>
+            {designs.length === 0 ? 'No saved designs yet' : 'No matching designs'}
+          </div>
+        )}
+        {results.map((design) => (
+          <div
+            key={design.id}
+            className="flex gap-[5px] rounded-[3px]"
+            style={{
+              padding: '3px',
+              border: `1px solid ${design.id === current?.id ? colors.primary : colors.panelBorderLight}`,
+            }}
+          >
+            <button
+              type="button"
+              onClick={() => open(design.id)}
+              title="Open"
+              className="shrink-0 cursor-pointer"
+              style={{ background: 'transparent', border: 'none', padding: 0 }}
+            >
+              {design.thumbnail ? (
+                <img src={design.thumbnail} alt="" className="w-[56px] h-[42px] rounded-[2px]" />
+              ) : (
+                <div
+                  className="w-[56px] h-[42px] rounded-[2px]"
+                  style={{ background: colors.background }}
+                />
+              )}
+            </button>
+            <div className="flex-1 min-w-0">
+              <button
+                type="button"
+                onClick={() => open(design.id)}
+                className="block w-full text-left text-xxs font-bold truncate cursor-pointer"
+                style={{ ...actionStyle, padding: 0, color: colors.secondaryForeground }}
+              >
+                {design.name}
+              </button>
+              <div className="text-tiny truncate" style={{ color: colors.textSubtleDark }}>
+                {new Date(design.modified).toLocaleString()}
+              </div>
+              <div className="flex flex-wrap gap-[2px] mt-[1px]">
+                {design.tags.map((tag) => (
+                  <button
+                    type="button"
+                    key={tag}
+                    onClick={() => setQuery(tag)}
+                    className="text-tiny rounded-[2px] cursor-pointer"
+                    style={{
+                      ...actionStyle,
+                      background: colors.secondary,
+                      color: colors.textSubtle,
+                    }}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-col text-tiny">
+              <button
+                type="button"
+                onClick={() => compare(design.id, design.name)}
+                title="Compare with the current design"
+                className="cursor-pointer"
+                style={actionStyle}
+              >
+                ⇄
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRename(design.id, design.name)}
+                title="Rename"
+                className="cursor-pointer"
+                style={actionStyle}
+              >
+                ✎
+              </button>
+              <button
+                type="button"
+                onClick={() => handleTags(design.id, design.tags)}
+                title="Edit tags"
+                className="cursor-pointer"
+                style={actionStyle}
+              >
+                #
+              </button>
+              <button
+                type="button"
+                onClick={() => duplicate(design.id)}
+                title="Duplicate"
+                className="cursor-pointer"
+                style={actionStyle}
+              >
+                ⧉
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(design.id, design.name)}
+                title="Delete"
+                className="cursor-pointer"
+                style={actionStyle}
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </ParameterSection>
+  )
+}
@@ -6,13 +6,34 @@
  */
 
 import { useWaveguide } from '../../context/WaveguideContext'
+import { useMeshData } from '../../hooks/useMeshData'
 import { MESH_RESOLUTION_PARAMS } from '../../lib/config/parameterConfig'
+import { colors } from '../../lib/design-tokens'
+import { elementSize } from '../../lib/math/simulationMesh'
+import type { RingDistribution } from '../../lib/types/waveguide'
 import { ParameterSection } from './ParameterSection'
 import { ParameterSlider } from './ParameterSlider'
 
 export function MeshResolutionSection() {
   const { state, dispatch } = useWaveguide()
-  const { rings, slices } = state.meshResolution
+  const { exportMeshData } = useMeshData()
+  const {
+    rings,
+    slices,
+    distribution,
+    adaptive,
+    tolerance,
+    stepTolerance,
+    maxFrequency,
+    elementsPerWavelength,
+  } = state.meshResolution
+
+  const distributions: { id: RingDistribution; label: string }[] = [
+    { id: 'uniform-t', label: 'UNIFORM t' },
+    { id: 'uniform-depth', label: 'DEPTH' },
+    { id: 'arc-length', label: 'ARC LENGTH' },
+    { id: 'curvature', label: 'CURVATURE' },
+  ]
 
   // Calculate total vertices for info display
   const totalVertices = (rings + 1) * (slices + 1)
@@ -32,9 +53,103 @@ export function MeshResolutionSection() {
         {...MESH_RESOLUTION_PARAMS.slices}
         onChange={(value) => dispatch({ type: 'UPDATE_MESH_RESOLUTION', param: 'slices', value })}
       />
+      <div className="text-[0.625rem] text-text-subtle-dark mb-[3px]">ring spacing</div>
+      <div className="grid grid-cols-2 gap-[4px] mb-[4px]">
+        {distributions.map(({ id, label }) => (
+          <button
+            type="button"
+            key={id}
+            onClick={() => dispatch({ type: 'SET_RING_DISTRIBUTION', distribution: id })}
+            className="rounded-[3px] text-micro font-bold cursor-pointer"
+            style={{
+              background: distribution === id ? colors.primary08 : colors.secondary,
+              border: `1px solid ${distribution === id ? colors.primary : colors.border}`,
+              padding: '3px 6px',
+              color: distribution === id ? colors.primary : colors.textDisabled,
+              fontFamily: 'inherit',
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
       <div className="text-[0.625rem] text-text-subtle-dark mt-1">
         {totalVertices.toLocaleString()} vertices · {totalFaces.toLocaleString()} faces
       </div>
+
+      {/* Adaptive export tessellation */}
+      <div className="flex items-center gap-2 mt-[7px] mb-[7px]">
+        <input
+          type="checkbox"
+          id="mesh-adaptive"
+          checked={adaptive}
+          onChange={(e) => dispatch({ type: 'UPDATE_MESH_ADAPTIVE', value: e.target.checked })}
+          className="cursor-pointer"
+          style={{ accentColor: colors.primary }}
+        />
+        <label
+          htmlFor="mesh-adaptive"
+          className="text-xs cursor-pointer"
+          style={{ color: colors.mutedForeground }}
+        >
+          Adaptive tessellation for export
+        </label>
+      </div>
+      {adaptive && (
+        <>
+          <ParameterSlider
+            label="tolerance"
+            value={tolerance}
+            {...MESH_RESOLUTION_PARAMS.tolerance}
+            onChange={(value) =>
+              dispatch({ type: 'UPDATE_MESH_RESOLUTION', param: 'tolerance', value })
+            }
+          />
+          {exportMeshData && (
+            <div className="text-[0.625rem] text-text-subtle-dark mt-1">
+              Export: {exportMeshData.rings.length.toLocaleString()} rings ×{' '}
+              {exportMeshData.numSlices.toLocaleString()} slices ·{' '}
+              {(exportMeshData.rings.length * (exportMeshData.numSlices + 1)).toLocaleString()}{' '}
+              vertices ·{' '}
+              {((exportMeshData.rings.length - 1) * exportMeshData.numSlices).toLocaleString()}{' '}
+              faces
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Exact-geometry export */}
+      <div className="mt-[7px]">
+        <ParameterSlider
+          label="STEP tolerance"
+          value={stepTolerance}
+          {...MESH_RESOLUTION_PARAMS.stepTolerance}
+          onChange={(value) =>
+            dispatch({ type: 'UPDATE_MESH_RESOLUTION', param: 'stepTolerance', value })
+          }
+        />
+      </div>
+
+      {/* Simulation mesh (Gmsh export) */}
+      <ParameterSlider
+        label="max frequency (Gmsh)"
+        value={maxFrequency}
+        {...MESH_RESOLUTION_PARAMS.maxFrequency}
+        onChange={(value) =>
+          dispatch({ type: 'UPDATE_MESH_RESOLUTION', param: 'maxFrequency', value })
+        }
+      />
+      <ParameterSlider
+        label="elements / wavelength"
+        value={elementsPerWavelength}
+        {...MESH_RESOLUTION_PARAMS.elementsPerWavelength}
+        onChange={(value) =>
+          dispatch({ type: 'UPDATE_MESH_RESOLUTION', param: 'elementsPerWavelength', value })
+        }
+      />
+      <div className="text-[0.625rem] text-text-subtle-dark mt-1">
+        Element size {elementSize(maxFrequency, elementsPerWavelength).toFixed(2)} mm
+      </div>
     </ParameterSection>
   )
 }
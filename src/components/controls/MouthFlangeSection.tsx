@@ -0,0 +1,70 @@
+/**
+ * Mouth Flange Controls
+ * =====================
+ *
+ * Controls for the mouth roll-back and flat baffle flange.
+ *
+ * The flange continues the wall past the mouth with a rounded arc and
+ * ends in a flat baffle plane with a rectangular outer edge.
+ */
+
+import { useWaveguide } from '../../context/WaveguideContext'
+import { MOUTH_FLANGE_PARAMS } from '../../lib/config/parameterConfig'
+import { colors } from '../../lib/design-tokens'
+import { ParameterSection } from './ParameterSection'
+import { ParameterSlider } from './ParameterSlider'
+
+export function MouthFlangeSection() {
+  const { state, dispatch } = useWaveguide()
+  const { enabled, radius, width, height } = state.mouthFlange
+
+  return (
+    <ParameterSection title="MOUTH FLANGE">
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center gap-2 mb-[7px]">
+        <input
+          type="checkbox"
+          id="flange-enabled"
+          checked={enabled}
+          onChange={(e) => dispatch({ type: 'UPDATE_FLANGE_ENABLED', value: e.target.checked })}
+          className="cursor-pointer"
+          style={{ accentColor: colors.primary }}
+        />
+        <label
+          htmlFor="flange-enabled"
+          className="text-xs cursor-pointer"
+          style={{ color: colors.mutedForeground }}
+        >
+          Roll-back into a flat baffle
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <ParameterSlider
+            label="roll-back radius"
+            value={radius}
+            {...MOUTH_FLANGE_PARAMS.radius}
+            onChange={(value) => dispatch({ type: 'UPDATE_FLANGE_NUMBER', param: 'radius', value })}
+          />
+          <ParameterSlider
+            label="baffle width"
+            value={width}
+            {...MOUTH_FLANGE_PARAMS.width}
+            onChange={(value) => dispatch({ type: 'UPDATE_FLANGE_NUMBER', param: 'width', value })}
+          />
+          <ParameterSlider
+            label="baffle height"
+            value={height}
+            {...MOUTH_FLANGE_PARAMS.height}
+            onChange={(value) => dispatch({ type: 'UPDATE_FLANGE_NUMBER', param: 'height', value })}
+          />
+
+          <div className="text-[0.625rem] text-text-subtle-dark mt-2">
+            {width}×{height}mm baffle · included in 3D view and STL/OBJ export
+          </div>
+        </>
+      )}
+    </ParameterSection>
+  )
+}
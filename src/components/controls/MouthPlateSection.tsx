@@ -0,0 +1,92 @@
+/**
+ * Mouth Mounting Plate Controls
+ * ==============================
+ *
+ * Controls for the baffle mounting plate around the mouth.
+ *
+ * The plate is part of the shell export: a flat rectangular plate in the
+ * mouth plane with counterbored screw holes for front-mounting the
+ * waveguide. The matching baffle cutout is exported as DXF/SVG.
+ */
+
+import { useWaveguide } from '../../context/WaveguideContext'
+import { useMeshData } from '../../hooks/useMeshData'
+import { MOUTH_PLATE_PARAMS } from '../../lib/config/parameterConfig'
+import { colors } from '../../lib/design-tokens'
+import { generateShellMesh } from '../../lib/math/shell'
+import type { MouthPlateParams } from '../../lib/types/waveguide'
+import { ParameterSection } from './ParameterSection'
+import { ParameterSlider } from './ParameterSlider'
+
+export function MouthPlateSection() {
+  const { state, dispatch } = useWaveguide()
+  const { meshData } = useMeshData()
+  const shellEnabled = state.shellParams.enabled
+  const plate = state.shellParams.mouthPlate
+
+  const sliders: { param: keyof Omit<MouthPlateParams, 'enabled'>; label: string }[] = [
+    { param: 'thickness', label: 'plate thickness' },
+    { param: 'margin', label: 'margin' },
+    { param: 'cornerRadius', label: 'corner radius' },
+    { param: 'screwsX', label: 'screws top/bottom' },
+    { param: 'screwsY', label: 'screws left/right' },
+    { param: 'screwInset', label: 'screw inset' },
+    { param: 'screwDiameter', label: 'screw hole' },
+    { param: 'counterboreDiameter', label: 'counterbore' },
+    { param: 'counterboreDepth', label: 'counterbore depth' },
+    { param: 'cutoutClearance', label: 'cutout clearance' },
+  ]
+
+  const issues =
+    plate.enabled && meshData
+      ? (generateShellMesh(meshData, state.shellParams)?.mouthPlateIssues ?? [])
+      : []
+
+  return (
+    <ParameterSection title="MOUTH PLATE">
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center gap-2 mb-[7px]">
+        <input
+          type="checkbox"
+          id="plate-enabled"
+          checked={plate.enabled}
+          onChange={(e) => dispatch({ type: 'UPDATE_PLATE_ENABLED', value: e.target.checked })}
+          className="cursor-pointer"
+          style={{ accentColor: colors.primary }}
+        />
+        <label
+          htmlFor="plate-enabled"
+          className="text-xs cursor-pointer"
+          style={{ color: colors.mutedForeground }}
+        >
+          Baffle mounting plate at mouth
+        </label>
+      </div>
+
+      {plate.enabled && (
+        <>
+          {sliders.map(({ param, label }) => (
+            <ParameterSlider
+              key={param}
+              label={label}
+              value={plate[param]}
+              {...MOUTH_PLATE_PARAMS[param]}
+              onChange={(value) => dispatch({ type: 'UPDATE_PLATE_NUMBER', param, value })}
+            />
+          ))}
+
+          {issues.map((issue) => (
+            <div key={issue} className="text-[0.625rem] mt-1" style={{ color: colors.hGuide }}>
+              ⚠ {issue} (not exported)
+            </div>
+          ))}
+          {!shellEnabled && (
+            <div className="text-[0.625rem] text-text-subtle-dark mt-1">
+              Enable wall thickness to export the plate
+            </div>
+          )}
+        </>
+      )}
+    </ParameterSection>
+  )
+}
@@ -0,0 +1,248 @@
+/**
+ * Optimizer Panel Component
+ * =========================
+ *
+ * Sets up and runs the design optimizer: free parameters, search method,
+ * objective weights and depth budget. The best candidate is previewed in
+ * the 3D view while the search runs and can be accepted or discarded at
+ * any time.
+ */
+
+import { useState } from 'react'
+import { useOptimizer } from '../../context/OptimizerContext'
+import { useWaveguide } from '../../context/WaveguideContext'
+import { colors } from '../../lib/design-tokens'
+import { FREE_FIELDS } from '../../lib/optimizer/fields'
+import { OBJECTIVES } from '../../lib/optimizer/objectives'
+import {
+  DEFAULT_OPTIMIZER_CONFIG,
+  type OptimizerConfig,
+  type OptimizerMethod,
+  optimizerIssues,
+} from '../../lib/optimizer/optimizer'
+import { ParameterSection } from './ParameterSection'
+
+const METHODS: { id: OptimizerMethod; label: string }[] = [
+  { id: 'nelder-mead', label: 'Nelder–Mead' },
+  { id: 'cma-es', label: 'CMA-ES' },
+]
+
+/** Free fields grouped by their parameter group, in control panel order */
+const FIELD_GROUPS = FREE_FIELDS.reduce<{ group: string; fields: typeof FREE_FIELDS }[]>(
+  (groups, field) => {
+    const group = field.label.split(' ')[0]
+    const last = groups[groups.length - 1]
+    if (last?.group === group) last.fields.push(field)
+    else groups.push({ group, fields: [field] })
+    return groups
+  },
+  [],
+)
+
+export function OptimizerPanel() {
+  const { state } = useWaveguide()
+  const { status, evaluations, best, startScore, error, run, stop, accept, discard } =
+    useOptimizer()
+  const [config, setConfig] = useState<OptimizerConfig>(DEFAULT_OPTIMIZER_CONFIG)
+
+  const issues = optimizerIssues(config)
+  const running = status === 'running'
+
+  const buttonStyle = {
+    padding: '6px 8px',
+    background: colors.panelHeaderBg,
+    border: `1px solid ${colors.panelBorderMedium}`,
+    color: colors.primary,
+    fontFamily: 'inherit',
+  }
+  const inputStyle = {
+    color: colors.foreground,
+    borderColor: colors.panelBorderMedium,
+    background: colors.background,
+  }
+  const toggleStyle = (on: boolean) => ({
+    background: on ? colors.primary08 : colors.secondary,
+    border: `1px solid ${on ? colors.primary : colors.border}`,
+    padding: '1px 4px',
+    color: on ? colors.primary : colors.textDisabled,
+    fontFamily: 'inherit',
+  })
+
+  const toggleField = (path: string) =>
+    setConfig({
+      ...config,
+      free: config.free.includes(path)
+        ? config.free.filter((p) => p !== path)
+        : [...config.free, path],
+    })
+
+  return (
+    <ParameterSection title="Optimizer">
+      <div className="grid grid-cols-2 gap-[4px] mb-[5px]">
+        {METHODS.map(({ id, label }) => (
+          <button
+            type="button"
+            key={id}
+            onClick={() => setConfig({ ...config, method: id })}
+            disabled={running}
+            className="rounded-[3px] text-micro font-bold cursor-pointer disabled:opacity-40"
+            style={{ ...toggleStyle(config.method === id), padding: '3px 6px' }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-tiny mb-[2px]" style={{ color: colors.textSubtle }}>
+        Free parameters ({config.free.length})
+      </div>
+      <div className="max-h-[120px] overflow-y-auto scrollbar-thin mb-[5px]">
+        {FIELD_GROUPS.map(({ group, fields }) => (
+          <div key={group} className="flex flex-wrap items-center gap-[2px] mb-[2px]">
+            <span className="w-[30px] text-tiny" style={{ color: colors.textSubtleDark }}>
+              {group}
+            </span>
+            {fields.map((field) => (
+              <button
+                type="button"
+                key={field.path}
+                onClick={() => toggleField(field.path)}
+                disabled={running}
+                title={`${field.path} (${field.min}–${field.max})`}
+                className="rounded-[3px] text-tiny cursor-pointer disabled:opacity-40"
+                style={toggleStyle(config.free.includes(field.path))}
+              >
+                {field.label.slice(group.length + 1)}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-[6px] gap-y-[3px] mb-[5px]">
+        {OBJECTIVES.map(({ id, label, description }) => (
+          <label key={id} className="flex items-center gap-[3px] text-tiny" title={description}>
+            <span className="flex-1 truncate" style={{ color: colors.textSubtle }}>
+              {label}
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={Number.isFinite(config.weights[id]) ? config.weights[id] : ''}
+              onChange={(e) =>
+                setConfig({
+                  ...config,
+                  weights: { ...config.weights, [id]: parseFloat(e.target.value) },
+                })
+              }
+              disabled={running}
+              className="w-[40px] text-tiny px-[3px] rounded-[3px] border text-right"
+              style={inputStyle}
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-[3px] text-tiny">
+          <span className="flex-1 truncate" style={{ color: colors.textSubtle }}>
+            Depth ≤ mm
+          </span>
+          <input
+            type="number"
+            value={Number.isFinite(config.depthBudget) ? config.depthBudget : ''}
+            onChange={(e) => setConfig({ ...config, depthBudget: parseFloat(e.target.value) })}
+            disabled={running}
+            className="w-[40px] text-tiny px-[3px] rounded-[3px] border text-right"
+            style={inputStyle}
+          />
+        </label>
+        <label className="flex items-center gap-[3px] text-tiny">
+          <span className="flex-1 truncate" style={{ color: colors.textSubtle }}>
+            Evals
+          </span>
+          <input
+            type="number"
+            step={100}
+            value={Number.isFinite(config.maxEvaluations) ? config.maxEvaluations : ''}
+            onChange={(e) => setConfig({ ...config, maxEvaluations: parseInt(e.target.value, 10) })}
+            disabled={running}
+            className="w-[40px] text-tiny px-[3px] rounded-[3px] border text-right"
+            style={inputStyle}
+          />
+        </label>
+      </div>
+
+      {issues.map((issue) => (
+        <div key={issue} className="text-tiny" style={{ color: colors.diagonalMod }}>
+          {issue}
+        </div>
+      ))}
+
+      <div className="flex gap-[4px] mb-[5px]">
+        {running ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+            style={buttonStyle}
+          >
+            ■ STOP
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => run(state, config)}
+            disabled={issues.length > 0}
+            className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+            style={buttonStyle}
+          >
+            ▶ RUN
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={accept}
+          disabled={!best || best.evaluation === 0}
+          title="Apply the best candidate to the design"
+          className="rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle}
+        >
+          ✓ ACCEPT
+        </button>
+        <button
+          type="button"
+          onClick={discard}
+          disabled={!best && !running}
+          title="Stop and drop the candidate"
+          className="rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle}
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-tiny" style={{ color: colors.diagonalMod }}>
+          {error}
+        </div>
+      )}
+      {best && (
+        <div className="text-tiny" style={{ color: colors.textSubtle }}>
+          <div>
+            {running ? 'Running' : status === 'stopped' ? 'Stopped' : 'Done'} · {evaluations} /{' '}
+            {config.maxEvaluations} evals
+          </div>
+          <div>
+            score {startScore?.toFixed(3)} →{' '}
+            <span style={{ color: colors.secondaryForeground }}>{best.score.toFixed(3)}</span>
+          </div>
+          <div style={{ color: colors.textSubtleDark }}>
+            {OBJECTIVES.map(({ id, label }) => `${label} ${best.terms[id].toFixed(2)}`).join(' · ')}
+          </div>
+          {best.evaluation === 0 && !running && (
+            <div style={{ color: colors.textSubtleDark }}>No better design found</div>
+          )}
+        </div>
+      )}
+    </ParameterSection>
+  )
+}
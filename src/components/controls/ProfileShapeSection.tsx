@@ -1,5 +1,7 @@
 import { useWaveguide } from '../../context/WaveguideContext'
 import { ROSSE_PARAMS } from '../../lib/config/parameterConfig'
+import { colors } from '../../lib/design-tokens'
+import type { DepthMode } from '../../lib/types/waveguide'
 import { ParameterSection } from './ParameterSection'
 import { ParameterSlider } from './ParameterSlider'
 
@@ -7,6 +9,11 @@ export function ProfileShapeSection() {
   const { state, dispatch } = useWaveguide()
   const h = state.horizontal
 
+  const depthModes: { id: DepthMode; label: string }[] = [
+    { id: 'common', label: 'COMMON DEPTH' },
+    { id: 'true', label: 'TRUE PROFILE' },
+  ]
+
   return (
     <ParameterSection title="PROFILE SHAPE">
       <ParameterSlider
@@ -45,6 +52,30 @@ export function ProfileShapeSection() {
           dispatch({ type: 'UPDATE_V_PARAM', param: 'q', value })
         }}
       />
+      <div className="flex gap-[4px] mt-[2px]">
+        {depthModes.map(({ id, label }) => (
+          <button
+            type="button"
+            key={id}
+            onClick={() => dispatch({ type: 'SET_DEPTH_MODE', mode: id })}
+            className="flex-1 rounded-[3px] text-micro font-bold cursor-pointer"
+            style={{
+              background: state.depthMode === id ? colors.primary08 : colors.secondary,
+              border: `1px solid ${state.depthMode === id ? colors.primary : colors.border}`,
+              padding: '3px 6px',
+              color: state.depthMode === id ? colors.primary : colors.textDisabled,
+              fontFamily: 'inherit',
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="text-[0.625rem] text-text-subtle-dark mt-1">
+        {state.depthMode === 'true'
+          ? 'Each direction follows its own guide depth'
+          : 'Flat mouth plane at the H guide depth'}
+      </div>
     </ParameterSection>
   )
 }
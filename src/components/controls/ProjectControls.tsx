@@ -2,37 +2,31 @@
  * Project Controls Component
  * ==========================
  *
- * Import/Export project files (YAML) and share designs via URL.
+ * Import/Export project files (YAML), ATH configs, and share designs via URL.
  */
 
 import { type ChangeEvent, useRef } from 'react'
 import { toast } from 'sonner'
 import { useWaveguide } from '../../context/WaveguideContext'
+import { downloadATH, downloadYAML } from '../../download'
 import { colors } from '../../lib/design-tokens'
+import { importFromATH } from '../../lib/export/ath'
 import { generateShareableURL } from '../../lib/export/urlSharing'
-import { exportToYAML, formatValidationErrors, importFromYAML } from '../../lib/export/yaml'
+import { formatValidationErrors, importFromYAML } from '../../lib/export/yaml'
 
 const MAX_YAML_SIZE = 100 * 1024 // 100KB
 
 export function ProjectControls() {
   const { state, dispatch } = useWaveguide()
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const athInputRef = useRef<HTMLInputElement>(null)
 
   /**
    * Export current design to YAML file
    */
   const handleExportYAML = () => {
     try {
-      const yamlContent = exportToYAML(state)
-      const blob = new Blob([yamlContent], { type: 'text/yaml;charset=utf-8' })
-      const url = URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `horn-design-${Date.now()}.yaml`
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      URL.revokeObjectURL(url)
+      downloadYAML(state, `horn-design-${Date.now()}.yaml`)
 
       toast.success('Project exported successfully')
     } catch (error) {
@@ -77,6 +71,71 @@ export function ProjectControls() {
       if (confirmed && result.state) {
         dispatch({ type: 'LOAD_FROM_FILE', state: result.state })
         toast.success('Design loaded successfully')
+        const warnings = result.validation?.warnings ?? []
+        if (warnings.length > 0) {
+          toast.warning(`Upgraded from an older version:\n  • ${warnings.join('\n  • ')}`, {
+            duration: 10000,
+          })
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      toast.error(`Import failed: ${message}`)
+    }
+  }
+
+  /**
+   * Export current design to an ATH config file
+   */
+  const handleExportATH = () => {
+    try {
+      downloadATH(state, `horn-design-${Date.now()}.cfg`)
+      toast.success('ATH config exported')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      toast.error(`Export failed: ${message}`)
+    }
+  }
+
+  /**
+   * Import an ATH config (R-OSSE profile, morph and mesh) into the current design
+   */
+  const handleATHSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    // Clear the input so the same file can be selected again
+    e.target.value = ''
+
+    if (file.size > MAX_YAML_SIZE) {
+      toast.error(`File too large (${(file.size / 1024).toFixed(1)}KB). Maximum is 100KB.`)
+      return
+    }
+
+    try {
+      const result = importFromATH(await file.text(), state)
+
+      if (!result.success) {
+        if (result.validation) {
+          toast.error(formatValidationErrors(result.validation), { duration: 10000 })
+        } else {
+          toast.error(result.error || 'Import failed')
+        }
+        return
+      }
+
+      const confirmed = window.confirm(
+        'This will replace the profile, shape blend and mesh settings. Continue?',
+      )
+
+      if (confirmed && result.state) {
+        dispatch({ type: 'LOAD_FROM_FILE', state: result.state })
+        toast.success('ATH config loaded')
+        if (result.unsupported.length > 0) {
+          toast.warning(`Not imported:\n  • ${result.unsupported.join('\n  • ')}`, {
+            duration: 10000,
+          })
+        }
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error'
@@ -89,7 +148,7 @@ export function ProjectControls() {
    */
   const handleCopyShareLink = async () => {
     try {
-      const url = generateShareableURL(state)
+      const url = generateShareableURL(state, window.location.href)
       await navigator.clipboard.writeText(url)
       toast.success('Share link copied to clipboard')
     } catch (error) {
@@ -127,6 +186,13 @@ export function ProjectControls() {
         onChange={handleFileSelect}
         style={{ display: 'none' }}
       />
+      <input
+        type="file"
+        ref={athInputRef}
+        accept=".cfg,.txt"
+        onChange={handleATHSelect}
+        style={{ display: 'none' }}
+      />
 
       {/* Top row: Export and Import */}
       <div className="flex gap-[4px]">
@@ -160,6 +226,38 @@ export function ProjectControls() {
         </button>
       </div>
 
+      {/* ATH config (ABEC simulation workflow) */}
+      <div className="flex gap-[4px]">
+        <button
+          type="button"
+          onClick={handleExportATH}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▼ ATH Config
+        </button>
+        <button
+          type="button"
+          onClick={() => athInputRef.current?.click()}
+          className="flex-1 rounded-[4px] text-xxs font-bold tracking-[1px] cursor-pointer"
+          style={{
+            padding: '9px',
+            background: colors.panelHeaderBg,
+            border: `1px solid ${colors.panelBorderMedium}`,
+            color: colors.primary,
+            fontFamily: 'inherit',
+          }}
+        >
+          ▲ ATH Config
+        </button>
+      </div>
+
       {/* Middle row: Share Link */}
       <button
         type="button"
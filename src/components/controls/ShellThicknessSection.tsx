@@ -17,7 +17,7 @@ import { ParameterSlider } from './ParameterSlider'
 
 export function ShellThicknessSection() {
   const { state, dispatch } = useWaveguide()
-  const { enabled, thickness } = state.shellParams
+  const { enabled, thickness, sections, throatCap, mouthCap } = state.shellParams
 
   return (
     <ParameterSection title="SHELL THICKNESS">
@@ -52,6 +52,15 @@ export function ShellThicknessSection() {
             }
           />
 
+          <ParameterSlider
+            label="print sections (3MF)"
+            value={sections}
+            {...SHELL_PARAMS.sections}
+            onChange={(value) =>
+              dispatch({ type: 'UPDATE_SHELL_NUMBER', param: 'sections', value })
+            }
+          />
+
           <div className="text-[0.625rem] text-text-subtle-dark mt-2">
             {thickness}mm walls · Edge strips always included for watertight shell
           </div>
@@ -59,9 +68,42 @@ export function ShellThicknessSection() {
       )}
 
       {!enabled && (
-        <div className="text-[0.625rem] text-text-subtle-dark mt-1">
-          Surface only (no thickness)
-        </div>
+        <>
+          {(
+            [
+              ['shell-throat-cap', throatCap, 'UPDATE_SHELL_THROAT_CAP', 'Close throat (flat cap)'],
+              [
+                'shell-mouth-cap',
+                mouthCap,
+                'UPDATE_SHELL_MOUTH_CAP',
+                'Close mouth aperture (flat cap)',
+              ],
+            ] as const
+          ).map(([id, checked, type, label]) => (
+            <div key={id} className="flex items-center gap-2 mb-[7px]">
+              <input
+                type="checkbox"
+                id={id}
+                checked={checked}
+                onChange={(e) => dispatch({ type, value: e.target.checked })}
+                className="cursor-pointer"
+                style={{ accentColor: colors.primary }}
+              />
+              <label
+                htmlFor={id}
+                className="text-xs cursor-pointer"
+                style={{ color: colors.mutedForeground }}
+              >
+                {label}
+              </label>
+            </div>
+          ))}
+
+          <div className="text-[0.625rem] text-text-subtle-dark mt-1">
+            Surface only (no thickness)
+            {mouthCap ? ' · Mouth cap drops the lip and flange' : ''}
+          </div>
+        </>
       )}
     </ParameterSection>
   )
@@ -0,0 +1,180 @@
+/**
+ * Throat Driver Mount Controls
+ * =============================
+ *
+ * Controls for the compression driver mounting flange at the throat.
+ *
+ * The flange is part of the shell export: a flat plate behind the throat
+ * with through-holes on a standard or custom bolt circle.
+ */
+
+import { useWaveguide } from '../../context/WaveguideContext'
+import { useMeshData } from '../../hooks/useMeshData'
+import { BOLT_PATTERN_PARAMS, THROAT_MOUNT_PARAMS } from '../../lib/config/parameterConfig'
+import { colors } from '../../lib/design-tokens'
+import { BOLT_PATTERNS, checkThroatMount } from '../../lib/math/mount'
+import type { BoltPatternId, MountShape } from '../../lib/types/waveguide'
+import { ParameterSection } from './ParameterSection'
+import { ParameterSlider } from './ParameterSlider'
+
+export function ThroatMountSection() {
+  const { state, dispatch } = useWaveguide()
+  const { meshData } = useMeshData()
+  const shellEnabled = state.shellParams.enabled
+  const { enabled, thickness, shape, size, cornerRadius, pattern, custom } =
+    state.shellParams.throatMount
+
+  const patterns: { id: BoltPatternId; label: string }[] = [
+    ...Object.entries(BOLT_PATTERNS).map(([id, p]) => ({
+      id: id as BoltPatternId,
+      label: p.label,
+    })),
+    { id: 'custom', label: 'CUSTOM' },
+  ]
+  const shapes: { id: MountShape; label: string }[] = [
+    { id: 'circle', label: 'CIRCLE' },
+    { id: 'square', label: 'SQUARE' },
+  ]
+
+  const issues =
+    enabled && meshData ? checkThroatMount(meshData.rings[0].ring, state.shellParams) : []
+
+  const optionStyle = (active: boolean) => ({
+    background: active ? colors.primary08 : colors.secondary,
+    border: `1px solid ${active ? colors.primary : colors.border}`,
+    padding: '3px 6px',
+    color: active ? colors.primary : colors.textDisabled,
+    fontFamily: 'inherit',
+  })
+
+  return (
+    <ParameterSection title="DRIVER MOUNT">
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center gap-2 mb-[7px]">
+        <input
+          type="checkbox"
+          id="mount-enabled"
+          checked={enabled}
+          onChange={(e) => dispatch({ type: 'UPDATE_MOUNT_ENABLED', value: e.target.checked })}
+          className="cursor-pointer"
+          style={{ accentColor: colors.primary }}
+        />
+        <label
+          htmlFor="mount-enabled"
+          className="text-xs cursor-pointer"
+          style={{ color: colors.mutedForeground }}
+        >
+          Driver mounting flange at throat
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <ParameterSlider
+            label="plate thickness"
+            value={thickness}
+            {...THROAT_MOUNT_PARAMS.thickness}
+            onChange={(value) =>
+              dispatch({ type: 'UPDATE_MOUNT_NUMBER', param: 'thickness', value })
+            }
+          />
+
+          <div className="text-[0.625rem] text-text-subtle-dark mb-[3px]">outer shape</div>
+          <div className="grid grid-cols-2 gap-[4px] mb-[4px]">
+            {shapes.map(({ id, label }) => (
+              <button
+                type="button"
+                key={id}
+                onClick={() => dispatch({ type: 'SET_MOUNT_SHAPE', shape: id })}
+                className="rounded-[3px] text-micro font-bold cursor-pointer"
+                style={optionStyle(shape === id)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <ParameterSlider
+            label={shape === 'circle' ? 'diameter' : 'side'}
+            value={size}
+            {...THROAT_MOUNT_PARAMS.size}
+            onChange={(value) => dispatch({ type: 'UPDATE_MOUNT_NUMBER', param: 'size', value })}
+          />
+          {shape === 'square' && (
+            <ParameterSlider
+              label="corner radius"
+              value={cornerRadius}
+              {...THROAT_MOUNT_PARAMS.cornerRadius}
+              onChange={(value) =>
+                dispatch({ type: 'UPDATE_MOUNT_NUMBER', param: 'cornerRadius', value })
+              }
+            />
+          )}
+
+          <div className="text-[0.625rem] text-text-subtle-dark mb-[3px]">bolt pattern</div>
+          <div className="grid grid-cols-2 gap-[4px] mb-[4px]">
+            {patterns.map(({ id, label }) => (
+              <button
+                type="button"
+                key={id}
+                onClick={() => dispatch({ type: 'SET_BOLT_PATTERN', pattern: id })}
+                className="rounded-[3px] text-micro font-bold cursor-pointer"
+                style={optionStyle(pattern === id)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Custom pattern editor */}
+          {pattern === 'custom' && (
+            <>
+              <ParameterSlider
+                label="bolts"
+                value={custom.count}
+                {...BOLT_PATTERN_PARAMS.count}
+                onChange={(value) =>
+                  dispatch({ type: 'UPDATE_CUSTOM_BOLT_PATTERN', param: 'count', value })
+                }
+              />
+              <ParameterSlider
+                label="bolt circle"
+                value={custom.circleDiameter}
+                {...BOLT_PATTERN_PARAMS.circleDiameter}
+                onChange={(value) =>
+                  dispatch({ type: 'UPDATE_CUSTOM_BOLT_PATTERN', param: 'circleDiameter', value })
+                }
+              />
+              <ParameterSlider
+                label="hole diameter"
+                value={custom.holeDiameter}
+                {...BOLT_PATTERN_PARAMS.holeDiameter}
+                onChange={(value) =>
+                  dispatch({ type: 'UPDATE_CUSTOM_BOLT_PATTERN', param: 'holeDiameter', value })
+                }
+              />
+              <ParameterSlider
+                label="rotation"
+                value={custom.rotation}
+                {...BOLT_PATTERN_PARAMS.rotation}
+                onChange={(value) =>
+                  dispatch({ type: 'UPDATE_CUSTOM_BOLT_PATTERN', param: 'rotation', value })
+                }
+              />
+            </>
+          )}
+
+          {issues.map((issue) => (
+            <div key={issue} className="text-[0.625rem] mt-1" style={{ color: colors.hGuide }}>
+              ⚠ {issue} (not exported)
+            </div>
+          ))}
+          {!shellEnabled && (
+            <div className="text-[0.625rem] text-text-subtle-dark mt-1">
+              Enable wall thickness to export the mount
+            </div>
+          )}
+        </>
+      )}
+    </ParameterSection>
+  )
+}
@@ -7,16 +7,24 @@
 
 import { colors } from '../../lib/design-tokens'
 import { CardinalModSection } from '../controls/CardinalModSection'
+import { ComparisonPanel } from '../controls/ComparisonPanel'
 import { DiagonalModSection } from '../controls/DiagonalModSection'
 import { ExportButtons } from '../controls/ExportButtons'
+import { HistoryPanel } from '../controls/HistoryPanel'
 import { HorizontalGuideSection } from '../controls/HorizontalGuideSection'
 import { InfoBadges } from '../controls/InfoBadges'
+import { InverseDesignPanel } from '../controls/InverseDesignPanel'
+import { LibraryPanel } from '../controls/LibraryPanel'
 import { MeshResolutionSection } from '../controls/MeshResolutionSection'
 import { ModulationBlendSection } from '../controls/ModulationBlendSection'
+import { MouthFlangeSection } from '../controls/MouthFlangeSection'
+import { MouthPlateSection } from '../controls/MouthPlateSection'
+import { OptimizerPanel } from '../controls/OptimizerPanel'
 import { ProfileShapeSection } from '../controls/ProfileShapeSection'
 import { ProjectControls } from '../controls/ProjectControls'
 import { ShapeBlendSection } from '../controls/ShapeBlendSection'
 import { ShellThicknessSection } from '../controls/ShellThicknessSection'
+import { ThroatMountSection } from '../controls/ThroatMountSection'
 import { ThroatSection } from '../controls/ThroatSection'
 import { VerticalGuideSection } from '../controls/VerticalGuideSection'
 
@@ -45,6 +53,11 @@ export function ControlPanel() {
       <div className="mb-[7px]" />
 
       <ProjectControls />
+      <LibraryPanel />
+      <HistoryPanel />
+      <ComparisonPanel />
+      <InverseDesignPanel />
+      <OptimizerPanel />
 
       <ThroatSection />
       <HorizontalGuideSection />
@@ -54,9 +67,12 @@ export function ControlPanel() {
       <ModulationBlendSection />
       <DiagonalModSection />
       <CardinalModSection />
+      <MouthFlangeSection />
 
       <MeshResolutionSection />
       <ShellThicknessSection />
+      <ThroatMountSection />
+      <MouthPlateSection />
 
       <ExportButtons />
 
@@ -8,10 +8,16 @@
 import { useWaveguide } from '../../context/WaveguideContext'
 import { colors } from '../../lib/design-tokens'
 import { Canvas3DView } from '../visualizations/Canvas3DView'
+import { CanvasAreaView } from '../visualizations/CanvasAreaView'
+import { CanvasBEMView } from '../visualizations/CanvasBEMView'
 import { CanvasBlendCurvesView } from '../visualizations/CanvasBlendCurvesView'
 import { CanvasCrossSectionView } from '../visualizations/CanvasCrossSectionView'
+import { CanvasDirectivityView } from '../visualizations/CanvasDirectivityView'
 import { CanvasGuidesView } from '../visualizations/CanvasGuidesView'
+import { CanvasImpedanceView } from '../visualizations/CanvasImpedanceView'
 import { CanvasModView } from '../visualizations/CanvasModView'
+import { CanvasPathLengthView } from '../visualizations/CanvasPathLengthView'
+import { CanvasSweepView } from '../visualizations/CanvasSweepView'
 
 export function VisualizationPanel() {
   const { state, dispatch } = useWaveguide()
@@ -19,6 +25,12 @@ export function VisualizationPanel() {
   const tabs = [
     { id: '3d' as const, label: '3D VIEW' },
     { id: 'guides' as const, label: 'GUIDES' },
+    { id: 'area' as const, label: 'AREA' },
+    { id: 'impedance' as const, label: 'IMPEDANCE' },
+    { id: 'directivity' as const, label: 'DIRECTIVITY' },
+    { id: 'bem' as const, label: 'BEM' },
+    { id: 'paths' as const, label: 'PATH LENGTH' },
+    { id: 'sweep' as const, label: 'SWEEP' },
     { id: 'cross' as const, label: 'CROSS-SECTIONS' },
     { id: 'xmod' as const, label: 'MOD POLAR' },
     { id: 'blend' as const, label: 'BLEND CURVES' },
@@ -48,7 +60,7 @@ export function VisualizationPanel() {
             {label}
           </button>
         ))}
-        {state.visualizationMode === '3d' && (
+        {(state.visualizationMode === '3d' || state.visualizationMode === 'paths') && (
           <span
             className="ml-auto self-center text-tiny pr-[14px]"
             style={{ color: colors.textSubtleDark }}
@@ -60,6 +72,12 @@ export function VisualizationPanel() {
       <div className="flex-1 relative">
         {state.visualizationMode === '3d' && <Canvas3DView />}
         {state.visualizationMode === 'guides' && <CanvasGuidesView />}
+        {state.visualizationMode === 'area' && <CanvasAreaView />}
+        {state.visualizationMode === 'impedance' && <CanvasImpedanceView />}
+        {state.visualizationMode === 'directivity' && <CanvasDirectivityView />}
+        {state.visualizationMode === 'bem' && <CanvasBEMView />}
+        {state.visualizationMode === 'paths' && <CanvasPathLengthView />}
+        {state.visualizationMode === 'sweep' && <CanvasSweepView />}
         {state.visualizationMode === 'cross' && <CanvasCrossSectionView />}
         {state.visualizationMode === 'xmod' && <CanvasModView />}
         {state.visualizationMode === 'blend' && <CanvasBlendCurvesView />}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react'
+import { useCanvas } from '../../hooks/useCanvas'
+import { useMeshData } from '../../hooks/useMeshData'
+import { canvasColors } from '../../lib/design-tokens'
+import { areaProfile, fitAreaSegments, segmentArea } from '../../lib/math/area'
+
+export function CanvasAreaView() {
+  const { exportMeshData } = useMeshData()
+
+  // Same profile and fit as the Hornresp export
+  const profile = useMemo(
+    () => (exportMeshData ? areaProfile(exportMeshData) : []),
+    [exportMeshData],
+  )
+  const fit = useMemo(() => fitAreaSegments(profile), [profile])
+
+  const canvasRef = useCanvas(
+    (ctx, canvas) => {
+      const w = canvas.width / (window.devicePixelRatio || 1)
+      const h = canvas.height / (window.devicePixelRatio || 1)
+
+      ctx.fillStyle = canvasColors.background
+      ctx.fillRect(0, 0, w, h)
+
+      if (profile.length < 2) {
+        ctx.fillStyle = canvasColors.text
+        ctx.font = '14px monospace'
+        ctx.textAlign = 'center'
+        ctx.fillText('No area data', w / 2, h / 2)
+        return
+      }
+
+      // Depth on x, log area on y (in cm²)
+      const margin = 50
+      const graphW = w - margin * 2
+      const graphH = h - margin * 2
+      const mxX = profile[profile.length - 1].x
+      const areas = profile.map((p) => p.area / 100)
+      const lo = Math.floor(Math.log10(Math.min(...areas)))
+      const hi = Math.ceil(Math.log10(Math.max(...areas)))
+      const px = (x: number) => margin + (x / mxX) * graphW
+      const py = (area: number) => h - margin - ((Math.log10(area / 100) - lo) / (hi - lo)) * graphH
+
+      // Axes and decade grid
+      ctx.strokeStyle = canvasColors.grid
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      ctx.moveTo(margin, margin)
+      ctx.lineTo(margin, h - margin)
+      ctx.lineTo(margin + graphW, h - margin)
+      ctx.stroke()
+
+      ctx.font = '10px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.setLineDash([2, 4])
+      for (let d = lo; d <= hi; d++) {
+        const y = h - margin - ((d - lo) / (hi - lo)) * graphH
+        ctx.beginPath()
+        ctx.moveTo(margin, y)
+        ctx.lineTo(margin + graphW, y)
+        ctx.stroke()
+        ctx.textAlign = 'right'
+        ctx.fillText(`${10 ** d}`, margin - 6, y + 3)
+      }
+      ctx.setLineDash([])
+      ctx.textAlign = 'left'
+      ctx.fillText('cm²', margin - 30, margin - 12)
+      ctx.textAlign = 'right'
+      ctx.fillText(`${mxX.toFixed(1)} mm`, margin + graphW, h - margin + 16)
+
+      // Fitted segments, with breakpoints
+      ctx.strokeStyle = canvasColors.superEllipse
+      ctx.lineWidth = 1.5
+      ctx.setLineDash([6, 4])
+      ctx.beginPath()
+      for (const segment of fit.segments) {
+        for (let i = 0; i <= 40; i++) {
+          const x = segment.x0 + ((segment.x1 - segment.x0) * i) / 40
+          const y = py(segmentArea(segment, x))
+          if (i === 0) ctx.moveTo(px(x), y)
+          else ctx.lineTo(px(x), y)
+        }
+      }
+      ctx.stroke()
+      ctx.setLineDash([])
+      ctx.fillStyle = canvasColors.superEllipse
+      for (const segment of fit.segments) {
+        ctx.beginPath()
+        ctx.arc(px(segment.x1), py(segment.s1), 3, 0, Math.PI * 2)
+        ctx.fill()
+      }
+
+      // Ring areas
+      ctx.strokeStyle = canvasColors.hGuide
+      ctx.lineWidth = 2.5
+      ctx.beginPath()
+      for (const [i, p] of profile.entries()) {
+        if (i === 0) ctx.moveTo(px(p.x), py(p.area))
+        else ctx.lineTo(px(p.x), py(p.area))
+      }
+      ctx.stroke()
+
+      // Legend
+      ctx.font = '12px monospace'
+      ctx.textAlign = 'left'
+      ctx.fillStyle = canvasColors.hGuide
+      ctx.fillText('▬ Cross-sectional area', margin + 8, margin + 18)
+      ctx.fillStyle = canvasColors.superEllipse
+      ctx.fillText(
+        `┅ Hornresp fit (${fit.segments.map((s) => (s.flare === 'conical' ? 'Con' : 'Exp')).join(' · ')}, max error ${(fit.maxError * 100).toFixed(1)} %)`,
+        margin + 8,
+        margin + 34,
+      )
+    },
+    [profile, fit],
+  )
+
+  return <canvas ref={canvasRef} className="w-full h-full" />
+}
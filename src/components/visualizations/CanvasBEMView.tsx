@@ -0,0 +1,216 @@
+import { useState } from 'react'
+import { useBEM } from '../../hooks/useBEM'
+import { useCanvas } from '../../hooks/useCanvas'
+import { canvasColors, colormap, colors } from '../../lib/design-tokens'
+import type { BEMTermination } from '../../lib/math/bem'
+
+/** Labelled frequencies on the log axis [Hz] */
+const FREQUENCY_TICKS = [200, 500, 1000, 2000, 5000, 10000, 20000]
+
+/** Off-axis angles drawn under the on-axis curve [degrees] */
+const OFF_AXIS = [15, 30, 45, 60, 90]
+
+/** Level span of the pressure graph [dB] */
+const SPL_RANGE = 50
+
+const TERMINATIONS: { id: BEMTermination; label: string }[] = [
+  { id: 'baffle', label: 'INFINITE BAFFLE' },
+  { id: 'free', label: 'FREE-STANDING' },
+]
+
+export function CanvasBEMView() {
+  const { run, cancel, status, progress, result, error, issues, stale } = useBEM()
+  const [termination, setTermination] = useState<BEMTermination>('baffle')
+
+  const canvasRef = useCanvas(
+    (ctx, canvas) => {
+      const w = canvas.width / (window.devicePixelRatio || 1)
+      const h = canvas.height / (window.devicePixelRatio || 1)
+
+      ctx.fillStyle = canvasColors.background
+      ctx.fillRect(0, 0, w, h)
+
+      if (!result) {
+        ctx.fillStyle = canvasColors.text
+        ctx.font = '14px monospace'
+        ctx.textAlign = 'center'
+        ctx.fillText(
+          issues.length > 0 ? 'BEM needs an axisymmetric design' : 'No BEM data — press RUN',
+          w / 2,
+          h / 2,
+        )
+        ctx.font = '11px monospace'
+        issues.forEach((issue, i) => {
+          ctx.fillText(issue, w / 2, h / 2 + 22 + 16 * i)
+        })
+        return
+      }
+
+      // Three stacked graphs on a shared log frequency axis
+      const margin = 50
+      const gap = 36
+      const graphW = w - margin * 2
+      const heights = [0.45, 0.25, 0.3].map((f) => (h - margin * 2 - gap * 2) * f)
+      const { frequencies } = result
+      const fMin = frequencies[0]
+      const fMax = frequencies[frequencies.length - 1]
+      const px = (f: number) => margin + (Math.log(f / fMin) / Math.log(fMax / fMin)) * graphW
+
+      const graph = (index: number, lo: number, hi: number, step: number, title: string) => {
+        const top = margin + heights.slice(0, index).reduce((sum, v) => sum + v + gap, 0)
+        const height = heights[index]
+        const py = (v: number) =>
+          top + height - ((Math.min(hi, Math.max(lo, v)) - lo) / (hi - lo)) * height
+
+        ctx.strokeStyle = canvasColors.grid
+        ctx.lineWidth = 1
+        ctx.strokeRect(margin, top, graphW, height)
+        ctx.font = '10px monospace'
+        ctx.fillStyle = canvasColors.text
+        ctx.setLineDash([2, 4])
+        for (let v = lo; v <= hi + 1e-9; v += step) {
+          ctx.beginPath()
+          ctx.moveTo(margin, py(v))
+          ctx.lineTo(margin + graphW, py(v))
+          ctx.stroke()
+          ctx.textAlign = 'right'
+          ctx.fillText(`${Number(v.toFixed(1))}`, margin - 6, py(v) + 3)
+        }
+        for (const f of FREQUENCY_TICKS) {
+          ctx.beginPath()
+          ctx.moveTo(px(f), top)
+          ctx.lineTo(px(f), top + height)
+          ctx.stroke()
+        }
+        ctx.setLineDash([])
+
+        ctx.font = '12px monospace'
+        ctx.textAlign = 'left'
+        ctx.fillText(title, margin, top - 8)
+        return py
+      }
+
+      const curve = (values: number[], py: (v: number) => number, color: string, width: number) => {
+        ctx.strokeStyle = color
+        ctx.lineWidth = width
+        ctx.beginPath()
+        values.forEach((v, i) => {
+          if (i === 0) ctx.moveTo(px(frequencies[i]), py(v))
+          else ctx.lineTo(px(frequencies[i]), py(v))
+        })
+        ctx.stroke()
+      }
+
+      // Pressure at 1 m: on-axis and off-axis
+      const hi = Math.ceil(Math.max(...result.onAxis) / 10) * 10
+      const spl = graph(0, hi - SPL_RANGE, hi, 10, 'SPL @ 1 m [dB re ρc·u]')
+      const offAxis = OFF_AXIS.filter((deg) => result.angles.includes(deg))
+      offAxis.forEach((deg, k) => {
+        const j = result.angles.indexOf(deg)
+        const color = colormap(0.85 - (0.5 * k) / Math.max(1, offAxis.length - 1))
+        curve(
+          result.onAxis.map((level, i) => level + result.levels[i][j]),
+          spl,
+          color,
+          1.2,
+        )
+        ctx.font = '10px monospace'
+        ctx.textAlign = 'right'
+        ctx.fillStyle = color
+        ctx.fillText(`${deg}°`, margin + graphW - 6 - 34 * (offAxis.length - 1 - k), spl(hi) + 14)
+      })
+      curve(result.onAxis, spl, canvasColors.hGuide, 2.5)
+
+      // Directivity index
+      const diMax = Math.max(10, Math.ceil(Math.max(...result.directivityIndex) / 5) * 5)
+      const di = graph(1, 0, diMax, 5, 'DIRECTIVITY INDEX [dB]')
+      curve(result.directivityIndex, di, canvasColors.superEllipse, 2)
+
+      // Throat impedance
+      const values = result.impedance.flatMap((p) => [p.resistance, p.reactance])
+      const zLo = Math.min(-0.5, Math.floor(Math.min(...values) * 2) / 2)
+      const zHi = Math.max(1.5, Math.ceil(Math.max(...values) * 2) / 2)
+      const z = graph(2, zLo, zHi, 0.5, 'THROAT IMPEDANCE [ρc/S]')
+      curve(
+        result.impedance.map((p) => p.resistance),
+        z,
+        canvasColors.hGuide,
+        2,
+      )
+      curve(
+        result.impedance.map((p) => p.reactance),
+        z,
+        canvasColors.vGuide,
+        1.5,
+      )
+      ctx.textAlign = 'right'
+      ctx.fillStyle = canvasColors.hGuide
+      ctx.fillText('▬ R', margin + graphW - 50, z(zHi) - 8)
+      ctx.fillStyle = canvasColors.vGuide
+      ctx.fillText('▬ X', margin + graphW, z(zHi) - 8)
+
+      // Frequency labels under the last graph
+      ctx.font = '10px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.textAlign = 'center'
+      for (const f of FREQUENCY_TICKS) {
+        ctx.fillText(f >= 1000 ? `${f / 1000}k` : `${f}`, px(f), h - margin + 14)
+      }
+      ctx.textAlign = 'right'
+      ctx.fillText('Hz', margin + graphW, h - margin + 28)
+
+      ctx.textAlign = 'left'
+      ctx.fillText(
+        `${result.termination === 'baffle' ? 'Infinite baffle' : 'Free-standing'} · axisymmetric BEM${stale ? ' · design changed, re-run' : ''}`,
+        margin,
+        h - margin + 28,
+      )
+    },
+    [result, issues.join(), stale],
+  )
+
+  const running = status === 'running'
+  const buttonStyle = (active: boolean) => ({
+    padding: '6px 12px',
+    background: active ? colors.card : 'transparent',
+    border: `1px solid ${active ? colors.primary : colors.panelBorderMedium}`,
+    color: active ? colors.primary : colors.textSubtle,
+    fontFamily: 'inherit',
+  })
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div
+        className="flex items-center gap-[6px] px-[10px] py-[6px]"
+        style={{ borderBottom: `1px solid ${colors.panelBorder}` }}
+      >
+        {TERMINATIONS.map(({ id, label }) => (
+          <button
+            type="button"
+            key={id}
+            onClick={() => setTermination(id)}
+            disabled={running}
+            className="rounded-[4px] text-micro font-bold tracking-[1px] cursor-pointer"
+            style={buttonStyle(termination === id)}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => (running ? cancel() : run(termination))}
+          disabled={!running && issues.length > 0}
+          className="ml-[8px] rounded-[4px] text-micro font-bold tracking-[1px] cursor-pointer"
+          style={buttonStyle(true)}
+        >
+          {running ? '■ CANCEL' : '▶ RUN'}
+        </button>
+        <span className="ml-auto text-tiny" style={{ color: colors.textSubtleDark }}>
+          {running && `solving… ${Math.round(progress * 100)} %`}
+          {status === 'error' && error}
+        </span>
+      </div>
+      <canvas ref={canvasRef} className="flex-1 w-full min-h-0" />
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
 import { useCanvas } from '../../hooks/useCanvas'
 import { useMeshData } from '../../hooks/useMeshData'
+import { useReferenceMesh } from '../../hooks/useReferenceMesh'
 import { canvasColors } from '../../lib/design-tokens'
 
 export function CanvasCrossSectionView() {
   const { meshData } = useMeshData()
+  const { reference, meshData: refMesh } = useReferenceMesh()
 
   const canvasRef = useCanvas(
     (ctx, canvas) => {
@@ -23,15 +25,37 @@ export function CanvasCrossSectionView() {
 
       const { rings } = meshData
       const lastRing = rings[rings.length - 1]
-      const mxD = Math.max(lastRing.yH, lastRing.yV) * 1.1
+      const refLast = refMesh?.rings[refMesh.rings.length - 1]
+      const mxD = Math.max(lastRing.yH, lastRing.yV, refLast?.yH ?? 0, refLast?.yV ?? 0) * 1.1
       const pad = 45
       const sc = (Math.min(w, h) - pad * 2) / (mxD * 2.2)
       const cx = w / 2
       const cy = h / 2
 
+      // Reference design: throat and mouth outlines
+      if (refMesh) {
+        ctx.strokeStyle = canvasColors.reference
+        ctx.lineWidth = 1.8
+        ctx.setLineDash([6, 4])
+        for (const { ring } of [refMesh.rings[0], refMesh.rings[refMesh.rings.length - 1]]) {
+          ctx.beginPath()
+          for (const [i, [px, py]] of ring.entries()) {
+            if (i === 0) ctx.moveTo(cx + px * sc, cy - py * sc)
+            else ctx.lineTo(cx + px * sc, cy - py * sc)
+          }
+          ctx.closePath()
+          ctx.stroke()
+        }
+        ctx.setLineDash([])
+      }
+
       const tValues = [0, 0.1, 0.25, 0.4, 0.55, 0.7, 0.85, 1.0]
       for (const [ti, tv] of tValues.entries()) {
-        const ri = Math.round(tv * (rings.length - 1))
+        // Rings may be non-uniform in t, so pick the closest station
+        let ri = 0
+        for (let k = 1; k < rings.length; k++) {
+          if (Math.abs(rings[k].t - tv) < Math.abs(rings[ri].t - tv)) ri = k
+        }
         const { ring } = rings[ri]
         const f = ti / (tValues.length - 1)
         const rr = Math.round(74 + f * 158)
@@ -58,8 +82,12 @@ export function CanvasCrossSectionView() {
         ctx.fillStyle = canvasColors.text
         ctx.fillText(`t=${tv.toFixed(2)}`, w - 64, 19 + ti * 14)
       }
+      if (reference && refMesh) {
+        ctx.fillStyle = canvasColors.reference
+        ctx.fillText(`╌ Reference: ${reference.name} (throat, mouth)`, 14, h - 12)
+      }
     },
-    [meshData],
+    [meshData, reference, refMesh],
   )
 
   return <canvas ref={canvasRef} className="w-full h-full" />
@@ -0,0 +1,154 @@
+import { useWaveguide } from '../../context/WaveguideContext'
+import { useCanvas } from '../../hooks/useCanvas'
+import { useDirectivity } from '../../hooks/useDirectivity'
+import { canvasColors, colormap } from '../../lib/design-tokens'
+
+/** Level range of the colour scale [dB] */
+const RANGE_DB = 30
+
+/** Labelled frequencies on the log axis [Hz] */
+const FREQUENCY_TICKS = [200, 500, 1000, 2000, 5000, 10000, 20000]
+
+export function CanvasDirectivityView() {
+  const { state } = useWaveguide()
+  const { directivity, pending } = useDirectivity()
+
+  const canvasRef = useCanvas(
+    (ctx, canvas) => {
+      const w = canvas.width / (window.devicePixelRatio || 1)
+      const h = canvas.height / (window.devicePixelRatio || 1)
+
+      ctx.fillStyle = canvasColors.background
+      ctx.fillRect(0, 0, w, h)
+
+      if (!directivity) {
+        ctx.fillStyle = canvasColors.text
+        ctx.font = '14px monospace'
+        ctx.textAlign = 'center'
+        ctx.fillText('No directivity data', w / 2, h / 2)
+        return
+      }
+
+      const margin = 50
+      const gap = 40
+      const graphW = w - margin * 2 - 40
+      const graphH = (h - margin * 2 - gap) / 2
+
+      const planes = [
+        {
+          label: 'HORIZONTAL',
+          map: directivity.horizontal,
+          nominal: state.horizontal.a_deg,
+          color: canvasColors.hGuide,
+        },
+        {
+          label: 'VERTICAL',
+          map: directivity.vertical,
+          nominal: state.vertical.a_deg,
+          color: canvasColors.vGuide,
+        },
+      ]
+
+      planes.forEach(({ label, map, nominal, color }, index) => {
+        const top = margin + index * (graphH + gap)
+        const { frequencies, angles, levels, beamwidth } = map
+        const fMin = frequencies[0]
+        const fMax = frequencies[frequencies.length - 1]
+        const aMin = angles[0]
+        const aMax = angles[angles.length - 1]
+
+        // Cell edges halfway between samples (log in frequency)
+        const fx = (f: number) => margin + (Math.log(f / fMin) / Math.log(fMax / fMin)) * graphW
+        const ay = (a: number) => top + ((aMax - a) / (aMax - aMin)) * graphH
+        const edge = (values: number[], i: number, scale: (v: number) => number) => {
+          if (i <= 0) return scale(values[0])
+          if (i >= values.length) return scale(values[values.length - 1])
+          return (scale(values[i - 1]) + scale(values[i])) / 2
+        }
+
+        // Colour map: level vs angle and frequency
+        for (let i = 0; i < frequencies.length; i++) {
+          const x0 = edge(frequencies, i, fx)
+          const x1 = edge(frequencies, i + 1, fx)
+          for (let j = 0; j < angles.length; j++) {
+            const y0 = edge(angles, j + 1, ay)
+            const y1 = edge(angles, j, ay)
+            ctx.fillStyle = colormap(1 + levels[i][j] / RANGE_DB)
+            ctx.fillRect(x0, y0, x1 - x0 + 0.5, y1 - y0 + 0.5)
+          }
+        }
+
+        // Nominal coverage ±a (dashed) and −6 dB beamwidth edges
+        ctx.strokeStyle = color
+        ctx.lineWidth = 1.5
+        ctx.setLineDash([6, 4])
+        for (const a of [nominal, -nominal]) {
+          ctx.beginPath()
+          ctx.moveTo(fx(fMin), ay(a))
+          ctx.lineTo(fx(fMax), ay(a))
+          ctx.stroke()
+        }
+        ctx.setLineDash([])
+        ctx.lineWidth = 2
+        for (const sign of [1, -1]) {
+          ctx.beginPath()
+          beamwidth.forEach((bw, i) => {
+            const y = ay((sign * bw) / 2)
+            if (i === 0) ctx.moveTo(fx(frequencies[i]), y)
+            else ctx.lineTo(fx(frequencies[i]), y)
+          })
+          ctx.stroke()
+        }
+
+        // Axes
+        ctx.strokeStyle = canvasColors.grid
+        ctx.lineWidth = 1
+        ctx.strokeRect(margin, top, graphW, graphH)
+        ctx.font = '10px monospace'
+        ctx.fillStyle = canvasColors.text
+        ctx.textAlign = 'right'
+        for (const a of [aMax, aMax / 2, 0, aMin / 2, aMin]) {
+          ctx.fillText(`${a}°`, margin - 6, ay(a) + 3)
+        }
+        ctx.textAlign = 'center'
+        for (const f of FREQUENCY_TICKS) {
+          ctx.fillText(f >= 1000 ? `${f / 1000}k` : `${f}`, fx(f), top + graphH + 14)
+        }
+
+        // Title with the high-frequency beamwidth (mean above 4 kHz)
+        const hf = beamwidth.filter((_, i) => frequencies[i] >= 4000)
+        const mean = hf.length > 0 ? hf.reduce((sum, bw) => sum + bw, 0) / hf.length : 0
+        ctx.font = '12px monospace'
+        ctx.textAlign = 'left'
+        ctx.fillStyle = color
+        ctx.fillText(
+          `${label}  −6 dB ${mean.toFixed(0)}° above 4 kHz (▬)  ·  nominal ${(2 * nominal).toFixed(0)}° (┅)`,
+          margin,
+          top - 8,
+        )
+      })
+
+      // Colour scale
+      const barX = margin + graphW + 14
+      const barH = graphH * 2 + gap
+      for (let k = 0; k < barH; k++) {
+        ctx.fillStyle = colormap(1 - k / barH)
+        ctx.fillRect(barX, margin + k, 10, 1)
+      }
+      ctx.font = '10px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.textAlign = 'left'
+      ctx.fillText('0', barX + 14, margin + 8)
+      ctx.fillText(`−${RANGE_DB}`, barX + 14, margin + barH)
+      ctx.fillText('dB', barX, margin - 8)
+
+      if (pending) {
+        ctx.textAlign = 'right'
+        ctx.fillText('updating…', margin + graphW, margin - 24)
+      }
+    },
+    [directivity, pending, state.horizontal.a_deg, state.vertical.a_deg],
+  )
+
+  return <canvas ref={canvasRef} className="w-full h-full" />
+}
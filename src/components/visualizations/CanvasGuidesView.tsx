@@ -1,9 +1,11 @@
 import { useCanvas } from '../../hooks/useCanvas'
 import { useMeshData } from '../../hooks/useMeshData'
+import { useReferenceMesh } from '../../hooks/useReferenceMesh'
 import { canvasColors } from '../../lib/design-tokens'
 
 export function CanvasGuidesView() {
   const { hData, vData } = useMeshData()
+  const { reference, hData: refH, vData: refV } = useReferenceMesh()
 
   const canvasRef = useCanvas(
     (ctx, canvas) => {
@@ -21,7 +23,9 @@ export function CanvasGuidesView() {
         return
       }
 
-      const allP = [...hData.points, ...vData.points]
+      // Reference guides share the scale, so both designs fit
+      const refGuides = refH && refV ? [refH, refV] : []
+      const allP = [hData, vData, ...refGuides].flatMap((g) => g.points)
       const mxX = Math.max(...allP.map((p) => p.x))
       const mxY = Math.max(...allP.map((p) => p.y))
       const pad = 50
@@ -29,6 +33,20 @@ export function CanvasGuidesView() {
       const ox = pad + 10
       const oy = h - pad
 
+      // Reference design (dashed H, dotted V)
+      for (const [gi, guide] of refGuides.entries()) {
+        ctx.strokeStyle = canvasColors.reference
+        ctx.lineWidth = 1.8
+        ctx.setLineDash(gi === 0 ? [8, 4] : [2, 3])
+        ctx.beginPath()
+        for (const [i, p] of guide.points.entries()) {
+          if (i === 0) ctx.moveTo(ox + p.x * sc, oy - p.y * sc)
+          else ctx.lineTo(ox + p.x * sc, oy - p.y * sc)
+        }
+        ctx.stroke()
+      }
+      ctx.setLineDash([])
+
       // H curve
       ctx.strokeStyle = canvasColors.hGuide
       ctx.lineWidth = 2.5
@@ -56,8 +74,12 @@ export function CanvasGuidesView() {
       ctx.fillText('▬ Horizontal Guide', ox + 8, pad + 18)
       ctx.fillStyle = canvasColors.vGuide
       ctx.fillText('▬ Vertical Guide', ox + 8, pad + 34)
+      if (reference && refGuides.length > 0) {
+        ctx.fillStyle = canvasColors.reference
+        ctx.fillText(`╌ ┄ Reference: ${reference.name} (H, V)`, ox + 8, pad + 50)
+      }
     },
-    [hData, vData],
+    [hData, vData, reference, refH, refV],
   )
 
   return <canvas ref={canvasRef} className="w-full h-full" />
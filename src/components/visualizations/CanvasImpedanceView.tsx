@@ -0,0 +1,110 @@
+import { IMPEDANCE_RANGE, useAcoustics } from '../../hooks/useAcoustics'
+import { useCanvas } from '../../hooks/useCanvas'
+import { canvasColors } from '../../lib/design-tokens'
+
+/** Labelled frequencies on the log axis [Hz] */
+const FREQUENCY_TICKS = [200, 500, 1000, 2000, 5000, 10000, 20000]
+
+export function CanvasImpedanceView() {
+  const { impedance } = useAcoustics()
+
+  const canvasRef = useCanvas(
+    (ctx, canvas) => {
+      const w = canvas.width / (window.devicePixelRatio || 1)
+      const h = canvas.height / (window.devicePixelRatio || 1)
+
+      ctx.fillStyle = canvasColors.background
+      ctx.fillRect(0, 0, w, h)
+
+      if (impedance.length === 0) {
+        ctx.fillStyle = canvasColors.text
+        ctx.font = '14px monospace'
+        ctx.textAlign = 'center'
+        ctx.fillText('No impedance data', w / 2, h / 2)
+        return
+      }
+
+      // Log frequency on x, normalized impedance on y
+      const margin = 50
+      const graphW = w - margin * 2
+      const graphH = h - margin * 2
+      const [fMin, fMax] = IMPEDANCE_RANGE
+      const values = impedance.flatMap((p) => [p.resistance, p.reactance])
+      const lo = Math.min(-1, Math.floor(Math.min(...values)))
+      const hi = Math.max(2, Math.ceil(Math.max(...values)))
+      const step = hi - lo > 8 ? 1 : 0.5
+      const px = (f: number) => margin + (Math.log(f / fMin) / Math.log(fMax / fMin)) * graphW
+      const py = (v: number) => h - margin - ((v - lo) / (hi - lo)) * graphH
+
+      // Axes and grid
+      ctx.strokeStyle = canvasColors.grid
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      ctx.moveTo(margin, margin)
+      ctx.lineTo(margin, h - margin)
+      ctx.lineTo(margin + graphW, h - margin)
+      ctx.stroke()
+
+      ctx.font = '10px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.setLineDash([2, 4])
+      for (let v = lo; v <= hi + 1e-9; v += step) {
+        ctx.beginPath()
+        ctx.moveTo(margin, py(v))
+        ctx.lineTo(margin + graphW, py(v))
+        ctx.stroke()
+        ctx.textAlign = 'right'
+        ctx.fillText(v.toFixed(1), margin - 6, py(v) + 3)
+      }
+      for (const f of FREQUENCY_TICKS) {
+        ctx.beginPath()
+        ctx.moveTo(px(f), margin)
+        ctx.lineTo(px(f), h - margin)
+        ctx.stroke()
+        ctx.textAlign = 'center'
+        ctx.fillText(f >= 1000 ? `${f / 1000}k` : `${f}`, px(f), h - margin + 16)
+      }
+      ctx.setLineDash([])
+      ctx.textAlign = 'right'
+      ctx.fillText('Hz', margin + graphW, h - margin + 30)
+
+      // Zero and ρc/S reference lines
+      ctx.strokeStyle = canvasColors.text
+      for (const v of [0, 1]) {
+        ctx.beginPath()
+        ctx.moveTo(margin, py(v))
+        ctx.lineTo(margin + graphW, py(v))
+        ctx.stroke()
+      }
+
+      // Resistance and reactance
+      const curves = [
+        { key: 'resistance' as const, color: canvasColors.hGuide, width: 2.5 },
+        { key: 'reactance' as const, color: canvasColors.vGuide, width: 1.5 },
+      ]
+      for (const { key, color, width } of curves) {
+        ctx.strokeStyle = color
+        ctx.lineWidth = width
+        ctx.beginPath()
+        for (const [i, p] of impedance.entries()) {
+          if (i === 0) ctx.moveTo(px(p.frequency), py(p[key]))
+          else ctx.lineTo(px(p.frequency), py(p[key]))
+        }
+        ctx.stroke()
+      }
+
+      // Legend
+      ctx.font = '12px monospace'
+      ctx.textAlign = 'left'
+      ctx.fillStyle = canvasColors.hGuide
+      ctx.fillText('▬ Throat resistance (ρc/S)', margin + 8, margin + 18)
+      ctx.fillStyle = canvasColors.vGuide
+      ctx.fillText('▬ Throat reactance (ρc/S)', margin + 8, margin + 34)
+      ctx.fillStyle = canvasColors.text
+      ctx.fillText('Webster 1D model, baffled-piston mouth', margin + 8, margin + 50)
+    },
+    [impedance],
+  )
+
+  return <canvas ref={canvasRef} className="w-full h-full" />
+}
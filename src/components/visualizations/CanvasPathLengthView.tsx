@@ -0,0 +1,155 @@
+import { useCanvas } from '../../hooks/useCanvas'
+import { useDragRotation } from '../../hooks/useDragRotation'
+import { PATH_PHASE_FREQUENCY, usePathLength } from '../../hooks/usePathLength'
+import { canvasColors, colormap } from '../../lib/design-tokens'
+import { rot3 } from '../../lib/math/geometry'
+import { pathPhase } from '../../lib/math/pathLength'
+
+export function CanvasPathLengthView() {
+  const { meshData, pathLength } = usePathLength()
+  const { rotationX, rotationY, handlers } = useDragRotation()
+
+  const canvasRef = useCanvas(
+    (ctx, canvas) => {
+      const w = canvas.width / (window.devicePixelRatio || 1)
+      const h = canvas.height / (window.devicePixelRatio || 1)
+
+      ctx.fillStyle = canvasColors.background
+      ctx.fillRect(0, 0, w, h)
+
+      if (!meshData || !pathLength) {
+        ctx.fillStyle = canvasColors.text
+        ctx.font = '14px monospace'
+        ctx.textAlign = 'center'
+        ctx.fillText('No path length data', w / 2, h / 2)
+        return
+      }
+
+      const { angles, delta, excess, maxDifference, groupDelay } = pathLength
+
+      // Left: polar plot of the excess path over the axial path
+      const cx = w / 4
+      const cy = h / 2
+      const maxR = Math.min(w / 2, h) * 0.36
+      const step = Math.max(...delta) - Math.min(...delta) > 40 ? 20 : 10
+      const lo = Math.max(0, Math.floor(Math.min(...delta) / step) * step - step)
+      const hi = Math.ceil(Math.max(...delta) / step) * step
+      const pr = (d: number) => ((d - lo) / (hi - lo)) * maxR
+
+      ctx.strokeStyle = canvasColors.grid
+      ctx.lineWidth = 0.5
+      ctx.font = '10px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.textAlign = 'left'
+      for (let d = lo + step; d <= hi; d += step) {
+        ctx.beginPath()
+        ctx.arc(cx, cy, pr(d), 0, Math.PI * 2)
+        ctx.stroke()
+        ctx.fillText(`${d}`, cx + 3, cy - pr(d) - 3)
+      }
+      ctx.setLineDash([4, 4])
+      ctx.beginPath()
+      ctx.moveTo(cx - maxR * 1.1, cy)
+      ctx.lineTo(cx + maxR * 1.1, cy)
+      ctx.moveTo(cx, cy - maxR * 1.1)
+      ctx.lineTo(cx, cy + maxR * 1.1)
+      ctx.stroke()
+      ctx.setLineDash([])
+
+      // Excess path, coloured like the heat map
+      const eMax = Math.max(...excess.flat(), 1e-9)
+      ctx.lineWidth = 3
+      angles.forEach((theta, j) => {
+        const next = (j + 1) % angles.length
+        const theta1 = next === 0 ? angles[0] + Math.PI * 2 : angles[next]
+        ctx.strokeStyle = colormap(0.25 + (0.75 * delta[j]) / eMax)
+        ctx.beginPath()
+        ctx.moveTo(cx + pr(delta[j]) * Math.cos(theta), cy - pr(delta[j]) * Math.sin(theta))
+        ctx.lineTo(cx + pr(delta[next]) * Math.cos(theta1), cy - pr(delta[next]) * Math.sin(theta1))
+        ctx.stroke()
+      })
+
+      ctx.font = '12px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.textAlign = 'center'
+      ctx.fillText('WALL PATH − AXIAL PATH [mm]', cx, 24)
+      ctx.fillStyle = canvasColors.hGuide
+      ctx.fillText('H', cx + maxR * 1.1 + 10, cy + 4)
+      ctx.fillStyle = canvasColors.vGuide
+      ctx.fillText('V', cx, cy - maxR * 1.1 - 6)
+
+      // Right: heat map of the excess path over the mesh wall
+      const rings = meshData.rings.slice(0, excess.length).map((r) => r.ring)
+      const points = rings.flat()
+      const min = [0, 1, 2].map((k) => Math.min(...points.map((p) => p[k])))
+      const max = [0, 1, 2].map((k) => Math.max(...points.map((p) => p[k])))
+      const center = min.map((v, k) => (v + max[k]) / 2)
+      const scale = (Math.min(w / 2, h) - 80) / Math.max(...max.map((v, k) => v - min[k]))
+      const project = ([px, py, pz]: number[]): [number, number, number] => {
+        const [x, y, z] = rot3(px - center[0], py - center[1], pz - center[2], rotationX, rotationY)
+        return [(3 * w) / 4 + x * scale, h / 2 - y * scale, z]
+      }
+
+      // Quads sorted back to front
+      const quads: { corners: [number, number, number][]; value: number; depth: number }[] = []
+      for (let i = 0; i < rings.length - 1; i++) {
+        for (let j = 0; j < meshData.numSlices; j++) {
+          const corners = [rings[i][j], rings[i][j + 1], rings[i + 1][j + 1], rings[i + 1][j]].map(
+            project,
+          )
+          quads.push({
+            corners,
+            value: (excess[i][j] + excess[i][j + 1] + excess[i + 1][j] + excess[i + 1][j + 1]) / 4,
+            depth: corners.reduce((sum, c) => sum + c[2], 0) / 4,
+          })
+        }
+      }
+      quads.sort((a, b) => a.depth - b.depth)
+      for (const { corners, value } of quads) {
+        ctx.fillStyle = colormap(0.25 + (0.75 * value) / eMax)
+        ctx.strokeStyle = ctx.fillStyle
+        ctx.lineWidth = 0.5
+        ctx.beginPath()
+        for (const [k, [sx, sy]] of corners.entries()) {
+          if (k === 0) ctx.moveTo(sx, sy)
+          else ctx.lineTo(sx, sy)
+        }
+        ctx.closePath()
+        ctx.fill()
+        ctx.stroke()
+      }
+
+      // Colour scale
+      const barX = w - 30
+      const barH = h * 0.5
+      const barY = (h - barH) / 2
+      for (let k = 0; k < barH; k++) {
+        ctx.fillStyle = colormap(0.25 + 0.75 * (1 - k / barH))
+        ctx.fillRect(barX, barY + k, 10, 1)
+      }
+      ctx.font = '10px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.textAlign = 'right'
+      ctx.fillText(`${eMax.toFixed(0)}`, barX - 4, barY + 8)
+      ctx.fillText('0', barX - 4, barY + barH)
+      ctx.fillText('mm', barX + 10, barY - 8)
+
+      ctx.font = '12px monospace'
+      ctx.textAlign = 'center'
+      ctx.fillText('EXCESS PATH OVER THE WALL', (3 * w) / 4, 24)
+
+      // Summary
+      ctx.textAlign = 'left'
+      ctx.fillText(
+        `Path Δ max ${maxDifference.toFixed(1)} mm · group delay ${groupDelay.toFixed(0)} µs · ${Math.round(pathPhase(maxDifference, PATH_PHASE_FREQUENCY))}° @ ${PATH_PHASE_FREQUENCY / 1000} kHz`,
+        14,
+        h - 12,
+      )
+      ctx.textAlign = 'right'
+      ctx.fillText('Drag to rotate', w - 14, h - 12)
+    },
+    [meshData, pathLength, rotationX, rotationY],
+  )
+
+  return <canvas ref={canvasRef} className="w-full h-full" {...handlers} />
+}
@@ -0,0 +1,339 @@
+import { type MouseEvent, useState } from 'react'
+import { useSweep } from '../../context/SweepContext'
+import { useWaveguide } from '../../context/WaveguideContext'
+import { downloadSweepCSV } from '../../download'
+import { useCanvas } from '../../hooks/useCanvas'
+import { canvasColors, colormap, colors } from '../../lib/design-tokens'
+import { FREE_FIELDS, findField } from '../../lib/optimizer/fields'
+import {
+  axisValues,
+  defaultAxis,
+  findSweepCell,
+  SWEEP_METRICS,
+  type SweepAxis,
+  type SweepConfig,
+  type SweepMetrics,
+  sweepIssues,
+  sweepState,
+} from '../../lib/optimizer/sweep'
+import { drawMesh3D } from './draw3D'
+
+/** Space around the grid [px]: axis labels left and below, colour scale right */
+const MARGIN = { left: 70, top: 40, right: 70, bottom: 50 }
+
+type SweepDisplay = 'heatmap' | 'thumbnails'
+
+/**
+ * Cell rectangles of an nx × ny grid filling the canvas (row 0 at the top).
+ */
+function gridLayout(w: number, h: number, nx: number, ny: number) {
+  const cellW = (w - MARGIN.left - MARGIN.right) / nx
+  const cellH = (h - MARGIN.top - MARGIN.bottom) / ny
+  return { left: MARGIN.left, top: MARGIN.top, cellW, cellH }
+}
+
+function formatAxisValue(value: number): string {
+  return `${Number(value.toFixed(3))}`
+}
+
+export function CanvasSweepView() {
+  const { state, dispatch } = useWaveguide()
+  const { status, progress, result, error, run, cancel } = useSweep()
+  const [config, setConfig] = useState<SweepConfig>(() => ({
+    x: defaultAxis('horizontal.k') as SweepAxis,
+    y: defaultAxis('shapeBlend.nMouth'),
+  }))
+  const [metric, setMetric] = useState<keyof SweepMetrics>('pathSpread')
+  const [display, setDisplay] = useState<SweepDisplay>('heatmap')
+
+  const issues = sweepIssues(config)
+  const running = status === 'running'
+  const current = result ? findSweepCell(result, state) : -1
+
+  const canvasRef = useCanvas(
+    (ctx, canvas) => {
+      const w = canvas.width / (window.devicePixelRatio || 1)
+      const h = canvas.height / (window.devicePixelRatio || 1)
+
+      ctx.fillStyle = canvasColors.background
+      ctx.fillRect(0, 0, w, h)
+
+      if (!result) {
+        ctx.fillStyle = canvasColors.text
+        ctx.font = '14px monospace'
+        ctx.textAlign = 'center'
+        ctx.fillText('No sweep data — choose parameters and press RUN', w / 2, h / 2)
+        return
+      }
+
+      const xs = axisValues(result.config.x)
+      const ys = result.config.y ? axisValues(result.config.y) : [null]
+      const { left, top, cellW, cellH } = gridLayout(w, h, xs.length, ys.length)
+      const values = result.cells.map((cell) => cell.metrics?.[metric] ?? null)
+      const valid = values.filter((v) => v !== null)
+      const lo = Math.min(...valid)
+      const hi = Math.max(...valid)
+      const scale = (v: number) => (hi > lo ? (v - lo) / (hi - lo) : 0.5)
+      const { unit } = SWEEP_METRICS.find(({ key }) => key === metric) ?? { unit: '' }
+
+      // Cells, first row (lowest y) at the bottom
+      result.cells.forEach((cell, index) => {
+        const column = index % xs.length
+        const row = ys.length - 1 - Math.floor(index / xs.length)
+        const x0 = left + column * cellW
+        const y0 = top + row * cellH
+        const value = values[index]
+
+        if (display === 'heatmap') {
+          ctx.fillStyle = value === null ? canvasColors.grid : colormap(scale(value))
+          ctx.fillRect(x0, y0, cellW + 0.5, cellH + 0.5)
+        } else if (cell.preview) {
+          ctx.save()
+          ctx.beginPath()
+          ctx.rect(x0, y0, cellW, cellH)
+          ctx.clip()
+          ctx.translate(x0, y0)
+          drawMesh3D(ctx, cellW, cellH, cell.preview, {
+            rotationX: 0.3,
+            rotationY: 0.5,
+            showDiagonal: false,
+            legend: false,
+            padding: 6,
+          })
+          ctx.restore()
+          // Metric as a colour bar under each thumbnail
+          if (value !== null) {
+            ctx.fillStyle = colormap(scale(value))
+            ctx.fillRect(x0 + 2, y0 + cellH - 4, cellW - 4, 3)
+          }
+        }
+
+        ctx.strokeStyle = canvasColors.background
+        ctx.lineWidth = 1
+        ctx.strokeRect(x0, y0, cellW, cellH)
+
+        if (value !== null && cellW >= 44 && cellH >= 18) {
+          ctx.font = '10px monospace'
+          ctx.textAlign = 'center'
+          ctx.fillStyle =
+            display === 'heatmap' && scale(value) > 0.6
+              ? canvasColors.background
+              : canvasColors.text
+          ctx.fillText(
+            value.toFixed(metric === 'areaRoughness' ? 2 : 1),
+            x0 + cellW / 2,
+            display === 'heatmap' ? y0 + cellH / 2 + 3 : y0 + 12,
+          )
+        }
+      })
+
+      // Current design
+      if (current >= 0) {
+        const column = current % xs.length
+        const row = ys.length - 1 - Math.floor(current / xs.length)
+        ctx.strokeStyle = canvasColors.hGuide
+        ctx.lineWidth = 2
+        ctx.strokeRect(left + column * cellW + 1, top + row * cellH + 1, cellW - 2, cellH - 2)
+      }
+
+      // Axis labels (thinned to fit)
+      ctx.font = '10px monospace'
+      ctx.fillStyle = canvasColors.text
+      ctx.textAlign = 'center'
+      const xEvery = Math.ceil(44 / cellW)
+      xs.forEach((x, i) => {
+        if (i % xEvery === 0 || i === xs.length - 1) {
+          ctx.fillText(formatAxisValue(x), left + (i + 0.5) * cellW, top + ys.length * cellH + 14)
+        }
+      })
+      ctx.font = '12px monospace'
+      ctx.fillText(
+        findField(result.config.x.path)?.label ?? result.config.x.path,
+        left + (xs.length * cellW) / 2,
+        top + ys.length * cellH + 34,
+      )
+      if (result.config.y) {
+        ctx.font = '10px monospace'
+        ctx.textAlign = 'right'
+        const yEvery = Math.ceil(16 / cellH)
+        ys.forEach((y, j) => {
+          if (y !== null && (j % yEvery === 0 || j === ys.length - 1)) {
+            ctx.fillText(formatAxisValue(y), left - 6, top + (ys.length - 1 - j + 0.5) * cellH + 3)
+          }
+        })
+        ctx.font = '12px monospace'
+        ctx.textAlign = 'left'
+        ctx.fillText(findField(result.config.y.path)?.label ?? result.config.y.path, 8, top - 10)
+      }
+
+      // Colour scale
+      if (valid.length > 0) {
+        const barX = left + xs.length * cellW + 14
+        const barH = ys.length * cellH
+        for (let k = 0; k < barH; k++) {
+          ctx.fillStyle = colormap(1 - k / barH)
+          ctx.fillRect(barX, top + k, 10, 1)
+        }
+        ctx.font = '10px monospace'
+        ctx.fillStyle = canvasColors.text
+        ctx.textAlign = 'left'
+        ctx.fillText(hi.toFixed(1), barX + 14, top + 8)
+        ctx.fillText(lo.toFixed(1), barX + 14, top + barH)
+        ctx.fillText(unit, barX, top - 8)
+      }
+
+      ctx.textAlign = 'right'
+      ctx.fillText('click a cell to load it', left + xs.length * cellW, top - 10)
+    },
+    [result, metric, display, current],
+  )
+
+  const handleClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    if (!result || running) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    const xs = axisValues(result.config.x)
+    const ny = result.config.y ? result.config.y.steps : 1
+    const { left, top, cellW, cellH } = gridLayout(rect.width, rect.height, xs.length, ny)
+    const column = Math.floor((event.clientX - rect.left - left) / cellW)
+    const row = ny - 1 - Math.floor((event.clientY - rect.top - top) / cellH)
+    if (column < 0 || column >= xs.length || row < 0 || row >= ny) return
+
+    const cell = result.cells[row * xs.length + column]
+    if (!cell.metrics) return
+    dispatch({
+      type: 'APPLY_SWEEP_POINT',
+      state: sweepState(result.base, result.config, cell.x, cell.y),
+    })
+  }
+
+  const buttonStyle = (active: boolean) => ({
+    padding: '6px 12px',
+    background: active ? colors.card : 'transparent',
+    border: `1px solid ${active ? colors.primary : colors.panelBorderMedium}`,
+    color: active ? colors.primary : colors.textSubtle,
+    fontFamily: 'inherit',
+  })
+  const inputStyle = {
+    color: colors.foreground,
+    borderColor: colors.panelBorderMedium,
+    background: colors.background,
+  }
+
+  const axisControls = (axis: SweepAxis, update: (axis: SweepAxis) => void) => (
+    <>
+      {(['min', 'max', 'steps'] as const).map((key) => (
+        <input
+          key={key}
+          type="number"
+          title={key === 'min' ? 'From' : key === 'max' ? 'To' : 'Steps'}
+          value={Number.isFinite(axis[key]) ? axis[key] : ''}
+          onChange={(e) => update({ ...axis, [key]: parseFloat(e.target.value) })}
+          disabled={running}
+          className="w-[52px] text-tiny px-[3px] rounded-[3px] border text-right"
+          style={inputStyle}
+        />
+      ))}
+    </>
+  )
+
+  const fieldSelect = (value: string, onChange: (path: string) => void, allowNone: boolean) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={running}
+      className="text-tiny px-[3px] rounded-[3px] border"
+      style={inputStyle}
+    >
+      {allowNone && <option value="">— none —</option>}
+      {FREE_FIELDS.map((field) => (
+        <option key={field.path} value={field.path}>
+          {field.label}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div
+        className="flex flex-wrap items-center gap-[6px] px-[10px] py-[6px]"
+        style={{ borderBottom: `1px solid ${colors.panelBorder}` }}
+      >
+        <span className="text-tiny" style={{ color: colors.textSubtle }}>
+          X
+        </span>
+        {fieldSelect(
+          config.x.path,
+          (path) => setConfig({ ...config, x: defaultAxis(path) ?? config.x }),
+          false,
+        )}
+        {axisControls(config.x, (x) => setConfig({ ...config, x }))}
+        <span className="ml-[8px] text-tiny" style={{ color: colors.textSubtle }}>
+          Y
+        </span>
+        {fieldSelect(
+          config.y?.path ?? '',
+          (path) => setConfig({ ...config, y: path ? defaultAxis(path) : null }),
+          true,
+        )}
+        {config.y && axisControls(config.y, (y) => setConfig({ ...config, y }))}
+        <button
+          type="button"
+          onClick={() => (running ? cancel() : run(state, config))}
+          disabled={!running && issues.length > 0}
+          className="ml-[8px] rounded-[4px] text-micro font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle(true)}
+        >
+          {running ? '■ CANCEL' : '▶ RUN'}
+        </button>
+        <span className="ml-auto text-tiny" style={{ color: colors.textSubtleDark }}>
+          {running && `sweeping… ${Math.round(progress * 100)} %`}
+          {status === 'error' && error}
+          {!running && issues.join('; ')}
+        </span>
+      </div>
+      <div
+        className="flex flex-wrap items-center gap-[6px] px-[10px] py-[6px]"
+        style={{ borderBottom: `1px solid ${colors.panelBorder}` }}
+      >
+        {SWEEP_METRICS.map(({ key, label }) => (
+          <button
+            type="button"
+            key={key}
+            onClick={() => setMetric(key)}
+            className="rounded-[4px] text-micro font-bold tracking-[1px] cursor-pointer"
+            style={buttonStyle(metric === key)}
+          >
+            {label.toUpperCase()}
+          </button>
+        ))}
+        <span className="ml-auto" />
+        {(['heatmap', 'thumbnails'] as const).map((id) => (
+          <button
+            type="button"
+            key={id}
+            onClick={() => setDisplay(id)}
+            className="rounded-[4px] text-micro font-bold tracking-[1px] cursor-pointer"
+            style={buttonStyle(display === id)}
+          >
+            {id.toUpperCase()}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => result && downloadSweepCSV(result)}
+          disabled={!result}
+          className="rounded-[4px] text-micro font-bold tracking-[1px] cursor-pointer disabled:opacity-40"
+          style={buttonStyle(false)}
+        >
+          ⬇ CSV
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        className="flex-1 w-full min-h-0 cursor-pointer"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,302 @@
+/**
+ * 3D Wireframe Rendering
+ * ======================
+ *
+ * Draws the waveguide rings, flange, longitudinal lines and guides in
+ * perspective-free 3D (used by the 3D view and for library thumbnails),
+ * optionally with a pinned comparison design overlaid.
+ */
+
+import { canvasColors } from '../../lib/design-tokens'
+import { rot3 } from '../../lib/math/geometry'
+import { surfaceRings } from '../../lib/math/mesh'
+import type { MeshData } from '../../lib/types/waveguide'
+
+/**
+ * 3D view settings.
+ */
+export interface View3DOptions {
+  /** Rotation about the x axis [rad] */
+  rotationX: number
+
+  /** Rotation about the y axis [rad] */
+  rotationY: number
+
+  /** Draw the diagonal guides (X-mod enabled) */
+  showDiagonal: boolean
+
+  /** Draw the legend and instructions */
+  legend: boolean
+
+  /** Space kept free around the mesh [px] */
+  padding: number
+
+  /** Design pinned for comparison, drawn over the mesh at the same scale */
+  reference?: MeshData | null
+}
+
+/**
+ * Draw the mesh wireframe onto a cleared canvas.
+ *
+ * @param ctx - Canvas context (in CSS pixels)
+ * @param w - Canvas width [px]
+ * @param h - Canvas height [px]
+ * @param meshData - Generated mesh data
+ * @param options - Rotation, guides and legend
+ */
+export function drawMesh3D(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  meshData: MeshData,
+  { rotationX, rotationY, showDiagonal, legend, padding, reference }: View3DOptions,
+): void {
+  const { rings, numSlices } = meshData
+
+  // Waveguide rings followed by mouth flange rings (if enabled)
+  const surface = surfaceRings(meshData)
+  const flangeRings = meshData.flangeRings ?? []
+  const referenceSurface = reference ? surfaceRings(reference) : []
+
+  // Calculate bounding box
+  let minX = Infinity,
+    minY = Infinity,
+    minZ = Infinity
+  let maxX = -Infinity,
+    maxY = -Infinity,
+    maxZ = -Infinity
+
+  for (const ring of [...surface, ...referenceSurface]) {
+    for (const [px, py, pz] of ring) {
+      minX = Math.min(minX, px)
+      minY = Math.min(minY, py)
+      minZ = Math.min(minZ, pz)
+      maxX = Math.max(maxX, px)
+      maxY = Math.max(maxY, py)
+      maxZ = Math.max(maxZ, pz)
+    }
+  }
+
+  const centerX = (minX + maxX) / 2
+  const centerY = (minY + maxY) / 2
+  const centerZ = (minZ + maxZ) / 2
+  const extent = Math.max(maxX - minX, maxY - minY, maxZ - minZ)
+  const scale = (Math.min(w, h) - 2 * padding) / extent
+
+  // Projection function
+  const project = (px: number, py: number, pz: number): [number, number, number] => {
+    const [x, y, z] = rot3(px - centerX, py - centerY, pz - centerZ, rotationX, rotationY)
+    return [w / 2 + x * scale, h / 2 - y * scale, z]
+  }
+
+  // Draw rings (cross-sectional contours)
+  for (const [ri, { ring }] of rings.entries()) {
+    const f = ri / (rings.length - 1)
+    const rr = Math.round(70 + f * 162)
+    const gg = Math.round(150 - f * 30 + f * 60)
+    const bb = Math.round(210 - f * 150)
+    const alpha = ri === 0 || ri === rings.length - 1 ? 0.95 : 0.18 + f * 0.22
+    ctx.strokeStyle = `rgba(${rr},${gg},${bb},${alpha})`
+    ctx.lineWidth = ri === 0 || ri === rings.length - 1 ? 2 : 0.55
+
+    ctx.beginPath()
+    for (const [i, [px, py, pz]] of ring.entries()) {
+      const [sx, sy] = project(px, py, pz)
+      if (i === 0) ctx.moveTo(sx, sy)
+      else ctx.lineTo(sx, sy)
+    }
+    ctx.closePath()
+    ctx.stroke()
+  }
+
+  // Draw mouth flange rings (roll-back arc and baffle edge)
+  for (const [fi, ring] of flangeRings.entries()) {
+    const isEdge = fi === flangeRings.length - 1
+    ctx.strokeStyle = isEdge ? canvasColors.superEllipse : `${canvasColors.superEllipse}50`
+    ctx.lineWidth = isEdge ? 1.5 : 0.55
+
+    ctx.beginPath()
+    for (const [i, [px, py, pz]] of ring.entries()) {
+      const [sx, sy] = project(px, py, pz)
+      if (i === 0) ctx.moveTo(sx, sy)
+      else ctx.lineTo(sx, sy)
+    }
+    ctx.closePath()
+    ctx.stroke()
+  }
+
+  // Draw longitudinal lines
+  const step = Math.max(1, Math.floor(numSlices / 18))
+  for (let si = 0; si <= numSlices; si += step) {
+    ctx.strokeStyle = canvasColors.primaryGrid
+    ctx.lineWidth = 0.4
+    ctx.beginPath()
+    for (const [ri, ring] of surface.entries()) {
+      const [sx, sy] = project(ring[si][0], ring[si][1], ring[si][2])
+      if (ri === 0) ctx.moveTo(sx, sy)
+      else ctx.lineTo(sx, sy)
+    }
+    ctx.stroke()
+  }
+
+  // Draw H guide (θ=0° and θ=180°)
+  const halfSlice = Math.round(numSlices / 2)
+  ctx.strokeStyle = canvasColors.hGuide90
+  ctx.lineWidth = 2
+
+  // θ=0° (positive X-axis)
+  ctx.beginPath()
+  for (const [ri, ring] of surface.entries()) {
+    const [sx, sy] = project(ring[0][0], ring[0][1], ring[0][2])
+    if (ri === 0) ctx.moveTo(sx, sy)
+    else ctx.lineTo(sx, sy)
+  }
+  ctx.stroke()
+
+  // θ=180° (negative X-axis)
+  ctx.beginPath()
+  for (const [ri, ring] of surface.entries()) {
+    const [sx, sy] = project(ring[halfSlice][0], ring[halfSlice][1], ring[halfSlice][2])
+    if (ri === 0) ctx.moveTo(sx, sy)
+    else ctx.lineTo(sx, sy)
+  }
+  ctx.stroke()
+
+  // Draw V guide (θ=90° and θ=270°)
+  const quarterSlice = Math.round(numSlices / 4)
+  const threeQuarterSlice = Math.round((3 * numSlices) / 4)
+  ctx.strokeStyle = canvasColors.vGuide90
+  ctx.lineWidth = 2
+
+  // θ=90° (positive Y-axis)
+  ctx.beginPath()
+  for (const [ri, ring] of surface.entries()) {
+    const [sx, sy] = project(ring[quarterSlice][0], ring[quarterSlice][1], ring[quarterSlice][2])
+    if (ri === 0) ctx.moveTo(sx, sy)
+    else ctx.lineTo(sx, sy)
+  }
+  ctx.stroke()
+
+  // θ=270° (negative Y-axis)
+  ctx.beginPath()
+  for (const [ri, ring] of surface.entries()) {
+    const [sx, sy] = project(
+      ring[threeQuarterSlice][0],
+      ring[threeQuarterSlice][1],
+      ring[threeQuarterSlice][2],
+    )
+    if (ri === 0) ctx.moveTo(sx, sy)
+    else ctx.lineTo(sx, sy)
+  }
+  ctx.stroke()
+
+  // Draw diagonal guides (when X-mod enabled)
+  if (showDiagonal) {
+    const d1 = Math.round(numSlices / 8) // 45°
+    const d3 = Math.round((3 * numSlices) / 8) // 135°
+    const d5 = Math.round((5 * numSlices) / 8) // 225°
+    const d7 = Math.round((7 * numSlices) / 8) // 315°
+
+    ctx.strokeStyle = canvasColors.diagonalMod70
+    ctx.lineWidth = 1.5
+
+    for (const si of [d1, d3, d5, d7]) {
+      ctx.beginPath()
+      for (const [ri, ring] of surface.entries()) {
+        const [sx, sy] = project(ring[si][0], ring[si][1], ring[si][2])
+        if (ri === 0) ctx.moveTo(sx, sy)
+        else ctx.lineTo(sx, sy)
+      }
+      ctx.stroke()
+    }
+  }
+
+  // Draw reference design: outline rings and the H/V guide lines
+  if (reference) {
+    const refSlices = reference.numSlices
+    const ringStep = Math.max(1, Math.floor(referenceSurface.length / 8))
+    ctx.strokeStyle = canvasColors.reference70
+    ctx.lineWidth = 1
+    for (const [ri, ring] of referenceSurface.entries()) {
+      if (ri % ringStep !== 0 && ri !== referenceSurface.length - 1) continue
+      ctx.beginPath()
+      for (const [i, [px, py, pz]] of ring.entries()) {
+        const [sx, sy] = project(px, py, pz)
+        if (i === 0) ctx.moveTo(sx, sy)
+        else ctx.lineTo(sx, sy)
+      }
+      ctx.closePath()
+      ctx.stroke()
+    }
+
+    ctx.strokeStyle = canvasColors.reference
+    ctx.lineWidth = 1.5
+    for (let q = 0; q < 4; q++) {
+      const si = Math.round((q * refSlices) / 4)
+      ctx.beginPath()
+      for (const [ri, ring] of referenceSurface.entries()) {
+        const [sx, sy] = project(ring[si][0], ring[si][1], ring[si][2])
+        if (ri === 0) ctx.moveTo(sx, sy)
+        else ctx.lineTo(sx, sy)
+      }
+      ctx.stroke()
+    }
+  }
+
+  if (!legend) return
+
+  // Draw legend
+  ctx.font = '12px monospace'
+  ctx.textAlign = 'left'
+  if (reference) {
+    ctx.fillStyle = canvasColors.reference
+    ctx.fillText('▬ Reference', 14, h - 58)
+  }
+  ctx.fillStyle = canvasColors.hGuide
+  ctx.fillText('▬ H guide', 14, h - 42)
+  ctx.fillStyle = canvasColors.vGuide
+  ctx.fillText('▬ V guide', 14, h - 26)
+  if (showDiagonal) {
+    ctx.fillStyle = canvasColors.diagonalMod
+    ctx.fillText('▬ Diagonal', 14, h - 10)
+  }
+
+  // Instructions
+  ctx.fillStyle = canvasColors.text
+  ctx.font = '12px monospace'
+  ctx.textAlign = 'right'
+  ctx.fillText('Drag to rotate', w - 14, h - 10)
+}
+
+/**
+ * Render a small 3D view of the mesh as an image.
+ *
+ * @param meshData - Generated mesh data
+ * @param showDiagonal - Draw the diagonal guides
+ * @param width - Image width [px] (default: 160)
+ * @param height - Image height [px] (default: 120)
+ * @returns JPEG data URL, or '' when no 2D context is available
+ */
+export function renderThumbnail(
+  meshData: MeshData,
+  showDiagonal: boolean,
+  width: number = 160,
+  height: number = 120,
+): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return ''
+
+  ctx.fillStyle = canvasColors.background
+  ctx.fillRect(0, 0, width, height)
+  drawMesh3D(ctx, width, height, meshData, {
+    rotationX: 0.3,
+    rotationY: 0.5,
+    showDiagonal,
+    legend: false,
+    padding: 8,
+  })
+  return canvas.toDataURL('image/jpeg', 0.8)
+}
@@ -0,0 +1,71 @@
+/**
+ * Design Comparison Context
+ * =========================
+ *
+ * Holds the reference design (A) pinned for comparison with the current
+ * design (B). The reference is a view aid: it is not part of the waveguide
+ * state, the undo history or saved projects.
+ */
+
+import { createContext, type ReactNode, useCallback, useContext, useState } from 'react'
+import type { WaveguideState } from '../lib/types/waveguide'
+
+/**
+ * Design pinned for comparison.
+ */
+export interface PinnedDesign {
+  /** Pinned state */
+  state: WaveguideState
+
+  /** Where it came from (library name, file name, …) */
+  name: string
+}
+
+/**
+ * Context type definition
+ */
+interface ComparisonContextType {
+  /** Reference design, or null when not comparing */
+  reference: PinnedDesign | null
+
+  /** Pin a design as the reference */
+  pin: (state: WaveguideState, name: string) => void
+
+  /** Stop comparing */
+  clear: () => void
+}
+
+/**
+ * Context instance
+ */
+const ComparisonContext = createContext<ComparisonContextType | null>(null)
+
+/**
+ * Provider component
+ */
+export function ComparisonProvider({ children }: { children: ReactNode }) {
+  const [reference, setReference] = useState<PinnedDesign | null>(null)
+
+  const pin = useCallback(
+    (state: WaveguideState, name: string) => setReference({ state, name }),
+    [],
+  )
+  const clear = useCallback(() => setReference(null), [])
+
+  return (
+    <ComparisonContext.Provider value={{ reference, pin, clear }}>
+      {children}
+    </ComparisonContext.Provider>
+  )
+}
+
+/**
+ * Custom hook to access the comparison context
+ */
+export function useComparison(): ComparisonContextType {
+  const context = useContext(ComparisonContext)
+  if (!context) {
+    throw new Error('useComparison must be used within a ComparisonProvider')
+  }
+  return context
+}
@@ -0,0 +1,167 @@
+/**
+ * Optimizer Context
+ * =================
+ *
+ * Runs the design optimizer in a Web Worker and holds its best candidate
+ * until the user accepts or discards it. The candidate is shared with the
+ * 3D view, which previews it while the search runs. Like the comparison
+ * reference, it is not part of the waveguide state or the undo history
+ * until accepted.
+ */
+
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react'
+import type { OptimizerCandidate, OptimizerConfig } from '../lib/optimizer/optimizer'
+import type { WaveguideState } from '../lib/types/waveguide'
+import type { OptimizerMessage, OptimizerRequest } from '../workers/optimizerWorker'
+import { useWaveguide } from './WaveguideContext'
+
+/** Optimizer status */
+export type OptimizerStatus = 'idle' | 'running' | 'done' | 'stopped' | 'error'
+
+/**
+ * Context type definition
+ */
+interface OptimizerContextType {
+  status: OptimizerStatus
+
+  /** Candidates evaluated in the current or last run */
+  evaluations: number
+
+  /** Best candidate, or null when there is none to accept */
+  best: OptimizerCandidate | null
+
+  /** Score of the design the run started from */
+  startScore: number | null
+
+  error: string | null
+
+  /** Start optimizing a design */
+  run: (state: WaveguideState, config: OptimizerConfig) => void
+
+  /** Stop the search, keeping the best candidate */
+  stop: () => void
+
+  /** Apply the best candidate to the design */
+  accept: () => void
+
+  /** Drop the best candidate */
+  discard: () => void
+}
+
+/**
+ * Context instance
+ */
+const OptimizerContext = createContext<OptimizerContextType | null>(null)
+
+/**
+ * Provider component
+ */
+export function OptimizerProvider({ children }: { children: ReactNode }) {
+  const { dispatch } = useWaveguide()
+  const workerRef = useRef<Worker | null>(null)
+  const [status, setStatus] = useState<OptimizerStatus>('idle')
+  const [evaluations, setEvaluations] = useState(0)
+  const [best, setBest] = useState<OptimizerCandidate | null>(null)
+  const [startScore, setStartScore] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const terminate = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+  }, [])
+
+  const run = useCallback(
+    (state: WaveguideState, config: OptimizerConfig) => {
+      terminate()
+      const worker = new Worker(new URL('../workers/optimizerWorker.ts', import.meta.url), {
+        type: 'module',
+      })
+      workerRef.current = worker
+      setStatus('running')
+      setEvaluations(0)
+      setBest(null)
+      setStartScore(null)
+      setError(null)
+
+      worker.onmessage = (event: MessageEvent<OptimizerMessage>) => {
+        const message = event.data
+        if (message.type === 'progress') {
+          setEvaluations(message.progress.evaluations)
+          setBest(message.progress.best)
+          setStartScore(message.progress.startScore)
+          return
+        }
+        terminate()
+        if (message.type === 'result') {
+          setEvaluations(message.result.evaluations)
+          setBest(message.result.best)
+          setStartScore(message.result.startScore)
+          setStatus('done')
+        } else {
+          setError(message.message)
+          setStatus('error')
+        }
+      }
+      // Worker crashes (uncaught errors, failed loads) and undecodable messages
+      const fail = (message: string) => {
+        terminate()
+        setError(message)
+        setStatus('error')
+      }
+      worker.onerror = (event) => {
+        event.preventDefault()
+        fail(event.message || 'Optimizer worker failed')
+      }
+      worker.onmessageerror = () => fail('Optimizer worker sent an unreadable message')
+      const request: OptimizerRequest = { state, config }
+      worker.postMessage(request)
+    },
+    [terminate],
+  )
+
+  const stop = useCallback(() => {
+    terminate()
+    setStatus((current) => (current === 'running' ? 'stopped' : current))
+  }, [terminate])
+
+  const discard = useCallback(() => {
+    terminate()
+    setBest(null)
+    setStatus('idle')
+  }, [terminate])
+
+  const accept = useCallback(() => {
+    if (best) dispatch({ type: 'APPLY_OPTIMIZED', state: best.state })
+    discard()
+  }, [best, dispatch, discard])
+
+  // Stop a running search when the app goes away
+  useEffect(() => terminate, [terminate])
+
+  return (
+    <OptimizerContext.Provider
+      value={{ status, evaluations, best, startScore, error, run, stop, accept, discard }}
+    >
+      {children}
+    </OptimizerContext.Provider>
+  )
+}
+
+/**
+ * Custom hook to access the optimizer context
+ */
+export function useOptimizer(): OptimizerContextType {
+  const context = useContext(OptimizerContext)
+  if (!context) {
+    throw new Error('useOptimizer must be used within an OptimizerProvider')
+  }
+  return context
+}
@@ -0,0 +1,133 @@
+/**
+ * Sweep Context
+ * =============
+ *
+ * Runs parameter sweeps in a Web Worker and keeps the last result, so it
+ * survives switching views while grid points are loaded and inspected.
+ */
+
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react'
+import type { SweepConfig, SweepResult } from '../lib/optimizer/sweep'
+import type { WaveguideState } from '../lib/types/waveguide'
+import type { SweepMessage, SweepRequest } from '../workers/sweepWorker'
+
+/** Sweep status */
+export type SweepStatus = 'idle' | 'running' | 'done' | 'error'
+
+/**
+ * Context type definition
+ */
+interface SweepContextType {
+  status: SweepStatus
+
+  /** Fraction of grid points evaluated (0–1) */
+  progress: number
+
+  /** Last completed sweep */
+  result: SweepResult | null
+
+  error: string | null
+
+  /** Sweep a design */
+  run: (state: WaveguideState, config: SweepConfig) => void
+
+  /** Cancel a running sweep, keeping the last result */
+  cancel: () => void
+}
+
+/**
+ * Context instance
+ */
+const SweepContext = createContext<SweepContextType | null>(null)
+
+/**
+ * Provider component
+ */
+export function SweepProvider({ children }: { children: ReactNode }) {
+  const workerRef = useRef<Worker | null>(null)
+  const [status, setStatus] = useState<SweepStatus>('idle')
+  const [progress, setProgress] = useState(0)
+  const [result, setResult] = useState<SweepResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+  }, [])
+
+  const run = useCallback(
+    (state: WaveguideState, config: SweepConfig) => {
+      stop()
+      const worker = new Worker(new URL('../workers/sweepWorker.ts', import.meta.url), {
+        type: 'module',
+      })
+      workerRef.current = worker
+      setStatus('running')
+      setProgress(0)
+      setError(null)
+
+      worker.onmessage = (event: MessageEvent<SweepMessage>) => {
+        const message = event.data
+        if (message.type === 'progress') {
+          setProgress(message.done / message.total)
+          return
+        }
+        stop()
+        if (message.type === 'result') {
+          setResult(message.result)
+          setStatus('done')
+        } else {
+          setError(message.message)
+          setStatus('error')
+        }
+      }
+      // Worker crashes (uncaught errors, failed loads) and undecodable messages
+      const fail = (message: string) => {
+        stop()
+        setError(message)
+        setStatus('error')
+      }
+      worker.onerror = (event) => {
+        event.preventDefault()
+        fail(event.message || 'Sweep worker failed')
+      }
+      worker.onmessageerror = () => fail('Sweep worker sent an unreadable message')
+      const request: SweepRequest = { state, config }
+      worker.postMessage(request)
+    },
+    [stop],
+  )
+
+  const cancel = useCallback(() => {
+    stop()
+    setStatus(result ? 'done' : 'idle')
+  }, [stop, result])
+
+  // Stop a running sweep when the app goes away
+  useEffect(() => stop, [stop])
+
+  return (
+    <SweepContext.Provider value={{ status, progress, result, error, run, cancel }}>
+      {children}
+    </SweepContext.Provider>
+  )
+}
+
+/**
+ * Custom hook to access the sweep context
+ */
+export function useSweep(): SweepContextType {
+  const context = useContext(SweepContext)
+  if (!context) {
+    throw new Error('useSweep must be used within a SweepProvider')
+  }
+  return context
+}
@@ -4,17 +4,40 @@
  *
  * Centralized state management for all waveguide parameters using
  * React Context API with useReducer for predictable state updates.
+ *
+ * The reducer runs inside an undo/redo history (see lib/history): every
+ * dispatched action becomes a history step, slider drags coalesce into one
+ * step, and Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) move through the history.
  */
 
-import { createContext, type Dispatch, type ReactNode, useContext, useReducer } from 'react'
+import {
+  createContext,
+  type Dispatch,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useReducer,
+} from 'react'
+import { createHistory, moveTo, nameStep, recordStep } from '../lib/history'
+import type { History } from '../lib/history/history'
+import { fitMountSize } from '../lib/math/mount'
 import type {
+  BoltPattern,
+  BoltPatternId,
   CardinalModParams,
+  DepthMode,
   DiagonalModParams,
   MeshResolution,
   ModulationBlendParams,
+  MountShape,
+  MouthFlangeParams,
+  MouthPlateParams,
+  RingDistribution,
   ROSSEParams,
   ShapeBlendParams,
   ShellParams,
+  ThroatMountParams,
   WaveguideState,
 } from '../lib/types/waveguide'
 import { DEFAULT_PARAMS } from '../lib/types/waveguide'
@@ -25,6 +48,9 @@ import { DEFAULT_PARAMS } from '../lib/types/waveguide'
 type WaveguideAction =
   | { type: 'UPDATE_H_PARAM'; param: keyof ROSSEParams; value: number }
   | { type: 'UPDATE_V_PARAM'; param: keyof ROSSEParams; value: number }
+  | { type: 'SET_GUIDES'; horizontal: ROSSEParams; vertical: ROSSEParams }
+  | { type: 'APPLY_OPTIMIZED'; state: WaveguideState }
+  | { type: 'APPLY_SWEEP_POINT'; state: WaveguideState }
   | { type: 'UPDATE_SHAPE_BLEND'; param: keyof ShapeBlendParams; value: number }
   | { type: 'UPDATE_MOD_BLEND'; param: keyof ModulationBlendParams; value: number }
   | {
@@ -39,25 +65,77 @@ type WaveguideAction =
       value: number
     }
   | { type: 'UPDATE_CARDMOD_ENABLED'; value: boolean }
-  | { type: 'UPDATE_MESH_RESOLUTION'; param: keyof MeshResolution; value: number }
+  | {
+      type: 'UPDATE_MESH_RESOLUTION'
+      param: keyof Omit<MeshResolution, 'distribution' | 'adaptive'>
+      value: number
+    }
+  | { type: 'SET_RING_DISTRIBUTION'; distribution: RingDistribution }
+  | { type: 'UPDATE_MESH_ADAPTIVE'; value: boolean }
   | {
       type: 'UPDATE_SHELL_NUMBER'
-      param: keyof Omit<ShellParams, 'enabled' | 'throatCap' | 'mouthCap'>
+      param: keyof Omit<
+        ShellParams,
+        'enabled' | 'throatCap' | 'mouthCap' | 'throatMount' | 'mouthPlate'
+      >
       value: number
     }
   | { type: 'UPDATE_SHELL_ENABLED'; value: boolean }
   | { type: 'UPDATE_SHELL_THROAT_CAP'; value: boolean }
   | { type: 'UPDATE_SHELL_MOUTH_CAP'; value: boolean }
+  | {
+      type: 'UPDATE_MOUNT_NUMBER'
+      param: keyof Omit<ThroatMountParams, 'enabled' | 'shape' | 'pattern' | 'custom'>
+      value: number
+    }
+  | { type: 'UPDATE_MOUNT_ENABLED'; value: boolean }
+  | { type: 'SET_MOUNT_SHAPE'; shape: MountShape }
+  | { type: 'SET_BOLT_PATTERN'; pattern: BoltPatternId }
+  | { type: 'UPDATE_CUSTOM_BOLT_PATTERN'; param: keyof BoltPattern; value: number }
+  | {
+      type: 'UPDATE_PLATE_NUMBER'
+      param: keyof Omit<MouthPlateParams, 'enabled'>
+      value: number
+    }
+  | { type: 'UPDATE_PLATE_ENABLED'; value: boolean }
+  | {
+      type: 'UPDATE_FLANGE_NUMBER'
+      param: keyof Omit<MouthFlangeParams, 'enabled'>
+      value: number
+    }
+  | { type: 'UPDATE_FLANGE_ENABLED'; value: boolean }
+  | { type: 'SET_DEPTH_MODE'; mode: DepthMode }
   | { type: 'SET_VISUALIZATION_MODE'; mode: WaveguideState['visualizationMode'] }
   | { type: 'RESET_TO_DEFAULTS' }
   | { type: 'LOAD_FROM_FILE'; state: WaveguideState }
 
+/**
+ * History actions wrapping the state actions
+ */
+type HistoryAction =
+  | { type: 'APPLY'; action: WaveguideAction; time: number }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'GO_TO'; index: number }
+  | { type: 'NAME_STEP'; index: number; name: string }
+  | { type: 'RESTORE'; state: WaveguideState; time: number }
+
 /**
  * Context type definition
  */
 interface WaveguideContextType {
   state: WaveguideState
   dispatch: Dispatch<WaveguideAction>
+
+  /** Undo/redo history (the current state is entries[index]) */
+  history: History
+  undo: () => void
+  redo: () => void
+  goTo: (index: number) => void
+  nameStep: (index: number, name: string) => void
+
+  /** Start a new history at a loaded design (not an undo step, e.g. the autosave) */
+  restore: (state: WaveguideState) => void
 }
 
 /**
@@ -83,6 +161,26 @@ function waveguideReducer(state: WaveguideState, action: WaveguideAction): Waveg
         },
       }
 
+    case 'SET_GUIDES':
+      return {
+        ...state,
+        horizontal: action.horizontal,
+        vertical: action.vertical,
+      }
+
+    case 'APPLY_OPTIMIZED':
+    case 'APPLY_SWEEP_POINT':
+      // Shape groups only: view, mesh and shell settings stay as they are
+      return {
+        ...state,
+        horizontal: action.state.horizontal,
+        vertical: action.state.vertical,
+        shapeBlend: action.state.shapeBlend,
+        modBlend: action.state.modBlend,
+        diagonalMod: action.state.diagonalMod,
+        cardinalMod: action.state.cardinalMod,
+      }
+
     case 'UPDATE_SHAPE_BLEND':
       return {
         ...state,
@@ -146,6 +244,24 @@ function waveguideReducer(state: WaveguideState, action: WaveguideAction): Waveg
         },
       }
 
+    case 'SET_RING_DISTRIBUTION':
+      return {
+        ...state,
+        meshResolution: {
+          ...state.meshResolution,
+          distribution: action.distribution,
+        },
+      }
+
+    case 'UPDATE_MESH_ADAPTIVE':
+      return {
+        ...state,
+        meshResolution: {
+          ...state.meshResolution,
+          adaptive: action.value,
+        },
+      }
+
     case 'UPDATE_SHELL_NUMBER':
       return {
         ...state,
@@ -182,6 +298,118 @@ function waveguideReducer(state: WaveguideState, action: WaveguideAction): Waveg
         },
       }
 
+    case 'UPDATE_MOUNT_NUMBER':
+      return {
+        ...state,
+        shellParams: {
+          ...state.shellParams,
+          throatMount: {
+            ...state.shellParams.throatMount,
+            [action.param]: action.value,
+          },
+        },
+      }
+
+    case 'UPDATE_MOUNT_ENABLED':
+      return {
+        ...state,
+        shellParams: {
+          ...state.shellParams,
+          throatMount: {
+            ...state.shellParams.throatMount,
+            enabled: action.value,
+          },
+        },
+      }
+
+    // Shape and bolt pattern changes grow the plate to keep the holes inside
+    case 'SET_MOUNT_SHAPE':
+      return {
+        ...state,
+        shellParams: {
+          ...state.shellParams,
+          throatMount: fitMountSize({
+            ...state.shellParams.throatMount,
+            shape: action.shape,
+          }),
+        },
+      }
+
+    case 'SET_BOLT_PATTERN':
+      return {
+        ...state,
+        shellParams: {
+          ...state.shellParams,
+          throatMount: fitMountSize({
+            ...state.shellParams.throatMount,
+            pattern: action.pattern,
+          }),
+        },
+      }
+
+    case 'UPDATE_CUSTOM_BOLT_PATTERN':
+      return {
+        ...state,
+        shellParams: {
+          ...state.shellParams,
+          throatMount: fitMountSize({
+            ...state.shellParams.throatMount,
+            custom: {
+              ...state.shellParams.throatMount.custom,
+              [action.param]: action.value,
+            },
+          }),
+        },
+      }
+
+    case 'UPDATE_PLATE_NUMBER':
+      return {
+        ...state,
+        shellParams: {
+          ...state.shellParams,
+          mouthPlate: {
+            ...state.shellParams.mouthPlate,
+            [action.param]: action.value,
+          },
+        },
+      }
+
+    case 'UPDATE_PLATE_ENABLED':
+      return {
+        ...state,
+        shellParams: {
+          ...state.shellParams,
+          mouthPlate: {
+            ...state.shellParams.mouthPlate,
+            enabled: action.value,
+          },
+        },
+      }
+
+    case 'UPDATE_FLANGE_NUMBER':
+      return {
+        ...state,
+        mouthFlange: {
+          ...state.mouthFlange,
+          [action.param]: action.value,
+        },
+      }
+
+    case 'UPDATE_FLANGE_ENABLED':
+      return {
+        ...state,
+        mouthFlange: {
+          ...state.mouthFlange,
+          enabled: action.value,
+        },
+      }
+
+    case 'SET_DEPTH_MODE':
+      return {
+        ...state,
+        depthMode: action.mode,
+      }
+
     case 'SET_VISUALIZATION_MODE':
       return {
         ...state,
@@ -203,7 +431,23 @@ function waveguideReducer(state: WaveguideState, action: WaveguideAction): Waveg
         diagonalMod: { ...DEFAULT_PARAMS.diagonalMod, ...action.state.diagonalMod },
         cardinalMod: { ...DEFAULT_PARAMS.cardinalMod, ...action.state.cardinalMod },
         meshResolution: { ...DEFAULT_PARAMS.meshResolution, ...action.state.meshResolution },
-        shellParams: { ...DEFAULT_PARAMS.shellParams, ...action.state.shellParams },
+        shellParams: {
+          ...DEFAULT_PARAMS.shellParams,
+          ...action.state.shellParams,
+          throatMount: {
+            ...DEFAULT_PARAMS.shellParams.throatMount,
+            ...action.state.shellParams?.throatMount,
+            custom: {
+              ...DEFAULT_PARAMS.shellParams.throatMount.custom,
+              ...action.state.shellParams?.throatMount?.custom,
+            },
+          },
+          mouthPlate: {
+            ...DEFAULT_PARAMS.shellParams.mouthPlate,
+            ...action.state.shellParams?.mouthPlate,
+          },
+        },
+        mouthFlange: { ...DEFAULT_PARAMS.mouthFlange, ...action.state.mouthFlange },
       }
 
     default:
@@ -211,6 +455,76 @@ function waveguideReducer(state: WaveguideState, action: WaveguideAction): Waveg
   }
 }
 
+/**
+ * Coalescing key of an action: the same parameter edited repeatedly
+ */
+function actionKey(action: WaveguideAction): string {
+  return 'param' in action ? `${action.type}:${action.param}` : action.type
+}
+
+/**
+ * History label of actions that are not plain parameter edits
+ */
+function actionLabel(action: WaveguideAction): string | undefined {
+  if (action.type === 'RESET_TO_DEFAULTS') return 'Reset to defaults'
+  if (action.type === 'LOAD_FROM_FILE') return 'Loaded design'
+  if (action.type === 'SET_GUIDES') return 'Inverse design'
+  if (action.type === 'APPLY_OPTIMIZED') return 'Optimized'
+  if (action.type === 'APPLY_SWEEP_POINT') return 'Sweep point'
+  return undefined
+}
+
+/**
+ * History reducer: applies state actions as history steps
+ */
+function historyReducer(history: History, action: HistoryAction): History {
+  switch (action.type) {
+    case 'APPLY': {
+      const present = history.entries[history.index].state
+      const next = waveguideReducer(present, action.action)
+      if (next === present) return history
+      return recordStep(history, next, {
+        key: actionKey(action.action),
+        label: actionLabel(action.action),
+        time: action.time,
+      })
+    }
+
+    case 'UNDO':
+      return moveTo(history, history.index - 1)
+
+    case 'REDO':
+      return moveTo(history, history.index + 1)
+
+    case 'GO_TO':
+      return moveTo(history, action.index)
+
+    case 'NAME_STEP':
+      return nameStep(history, action.index, action.name)
+
+    case 'RESTORE':
+      return createHistory(
+        waveguideReducer(DEFAULT_PARAMS, { type: 'LOAD_FROM_FILE', state: action.state }),
+        action.time,
+      )
+
+    default:
+      return history
+  }
+}
+
+/**
+ * Whether a key event targets a text field (which has its own undo)
+ */
+function isTextInput(target: EventTarget | null): boolean {
+  if (target instanceof HTMLInputElement) {
+    return !['range', 'checkbox', 'radio', 'button', 'file'].includes(target.type)
+  }
+  return (
+    target instanceof HTMLElement && (target.tagName === 'TEXTAREA' || target.isContentEditable)
+  )
+}
+
 /**
  * Context instance
  */
@@ -220,10 +534,51 @@ const WaveguideContext = createContext<WaveguideContextType | null>(null)
  * Provider component
  */
 export function WaveguideProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(waveguideReducer, DEFAULT_PARAMS)
+  const [history, historyDispatch] = useReducer(historyReducer, DEFAULT_PARAMS, (state) =>
+    createHistory(state),
+  )
+  const state = history.entries[history.index].state
+
+  const dispatch = useCallback(
+    (action: WaveguideAction) => historyDispatch({ type: 'APPLY', action, time: Date.now() }),
+    [],
+  )
+  const undo = useCallback(() => historyDispatch({ type: 'UNDO' }), [])
+  const redo = useCallback(() => historyDispatch({ type: 'REDO' }), [])
+  const goTo = useCallback((index: number) => historyDispatch({ type: 'GO_TO', index }), [])
+  const nameHistoryStep = useCallback(
+    (index: number, name: string) => historyDispatch({ type: 'NAME_STEP', index, name }),
+    [],
+  )
+  const restore = useCallback(
+    (loaded: WaveguideState) =>
+      historyDispatch({ type: 'RESTORE', state: loaded, time: Date.now() }),
+    [],
+  )
+
+  // Keyboard shortcuts: Ctrl+Z undo, Ctrl+Shift+Z or Ctrl+Y redo (Cmd on macOS)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z') {
+        e.preventDefault()
+        historyDispatch({ type: e.shiftKey ? 'REDO' : 'UNDO' })
+      } else if (key === 'y') {
+        e.preventDefault()
+        historyDispatch({ type: 'REDO' })
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
 
   return (
-    <WaveguideContext.Provider value={{ state, dispatch }}>{children}</WaveguideContext.Provider>
+    <WaveguideContext.Provider
+      value={{ state, dispatch, history, undo, redo, goTo, nameStep: nameHistoryStep, restore }}
+    >
+      {children}
+    </WaveguideContext.Provider>
   )
 }
 
@@ -0,0 +1,248 @@
+/**
+ * File Downloads
+ * ==============
+ *
+ * Browser glue for the export buttons: serializes a design with the
+ * DOM-free exporters in lib/export and saves the result through a
+ * temporary `<a download>` link.
+ */
+
+import { write3MF } from './lib/export/3mf'
+import { exportToATH } from './lib/export/ath'
+import { exportSweepToCSV, exportToCSV } from './lib/export/csv'
+import { exportCutoutToDXF, exportCutoutToSVG } from './lib/export/cutout'
+import { exportToGEO, exportToMSH } from './lib/export/gmsh'
+import { exportToHornresp } from './lib/export/hornresp'
+import { writeOBJ } from './lib/export/obj'
+import { exportToSTEP, type StepExportResult } from './lib/export/step'
+import { writeSTL } from './lib/export/stl'
+import { exportToYAML } from './lib/export/yaml'
+import type { SurfaceEvaluator } from './lib/math/mesh'
+import { printSections } from './lib/math/sections'
+import { buildExportMesh, checkManifold, type ManifoldReport } from './lib/math/trimesh'
+import type { SweepResult } from './lib/optimizer/sweep'
+import type { MeshData, MeshResolution, ShellParams, WaveguideState } from './lib/types/waveguide'
+
+/**
+ * Save content as a file on the user's computer.
+ *
+ * @param content - File content
+ * @param type - MIME type
+ * @param filename - Output filename
+ */
+export function downloadFile(content: BlobPart, type: string, filename: string): void {
+  const blob = new Blob([content], { type })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+
+  link.setAttribute('href', url)
+  link.setAttribute('download', filename)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Download CSV file to user's computer.
+ *
+ * @param meshData - Generated mesh data
+ * @param filename - Output filename (default: "waveguide.csv")
+ */
+export function downloadCSV(meshData: MeshData | null, filename: string = 'waveguide.csv'): void {
+  const csv = exportToCSV(meshData)
+  if (csv) downloadFile(csv, 'text/csv;charset=utf-8;', filename)
+}
+
+/**
+ * Download a parameter sweep as CSV.
+ *
+ * @param result - Evaluated sweep
+ * @param filename - Output filename (default: "sweep.csv")
+ */
+export function downloadSweepCSV(result: SweepResult, filename: string = 'sweep.csv'): void {
+  downloadFile(exportSweepToCSV(result), 'text/csv;charset=utf-8;', filename)
+}
+
+/**
+ * Download OBJ file to user's computer.
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters
+ * @param filename - Output filename (default: "waveguide.obj")
+ * @returns Manifold check of the exported mesh, or null without mesh data
+ */
+export function downloadOBJ(
+  meshData: MeshData | null,
+  shellParams: ShellParams,
+  filename: string = 'waveguide.obj',
+): ManifoldReport | null {
+  if (!meshData) return null
+
+  const mesh = buildExportMesh(meshData, shellParams)
+  downloadFile(writeOBJ(mesh), 'text/plain;charset=utf-8;', filename)
+  return checkManifold(mesh)
+}
+
+/**
+ * Download STL file to user's computer.
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell thickness parameters
+ * @param filename - Output filename (default: "waveguide.stl")
+ * @returns Manifold check of the exported mesh, or null without mesh data
+ */
+export function downloadSTL(
+  meshData: MeshData | null,
+  shellParams: ShellParams,
+  filename: string = 'waveguide.stl',
+): ManifoldReport | null {
+  if (!meshData) return null
+
+  const mesh = buildExportMesh(meshData, shellParams)
+  downloadFile(writeSTL(mesh), 'application/octet-stream', filename)
+  return checkManifold(mesh)
+}
+
+/**
+ * Download 3MF file to user's computer.
+ *
+ * @param meshData - Generated mesh data
+ * @param state - Complete design
+ * @param filename - Output filename (default: "waveguide.3mf")
+ * @returns Manifold check of each section, or null without mesh data
+ */
+export function download3MF(
+  meshData: MeshData | null,
+  state: WaveguideState,
+  filename: string = 'waveguide.3mf',
+): ManifoldReport[] | null {
+  if (!meshData) return null
+
+  const sections = printSections(meshData, state.shellParams)
+  downloadFile(write3MF(sections, state), 'model/3mf', filename)
+  return sections.map(checkManifold)
+}
+
+/**
+ * Download STEP file to user's computer.
+ *
+ * @param surface - Waveguide surface evaluator
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters
+ * @param tolerance - Fit tolerance [mm]
+ * @param filename - Output filename (default: "waveguide.step")
+ * @returns Export result (for reporting the deviation), or null without data
+ */
+export function downloadSTEP(
+  surface: SurfaceEvaluator | null,
+  meshData: MeshData | null,
+  shellParams: ShellParams,
+  tolerance: number,
+  filename: string = 'waveguide.step',
+): StepExportResult | null {
+  const result = exportToSTEP(surface, meshData, shellParams, tolerance)
+  if (result) downloadFile(result.content, 'application/step', filename)
+  return result
+}
+
+/**
+ * Download Gmsh .msh file to user's computer.
+ *
+ * @param meshData - Generated mesh data
+ * @param resolution - Mesh resolution
+ * @param filename - Output filename (default: "waveguide.msh")
+ */
+export function downloadMSH(
+  meshData: MeshData | null,
+  resolution: MeshResolution,
+  filename: string = 'waveguide.msh',
+): void {
+  const msh = exportToMSH(meshData, resolution)
+  if (msh) downloadFile(msh, 'text/plain;charset=utf-8;', filename)
+}
+
+/**
+ * Download Gmsh .geo script to user's computer.
+ *
+ * @param meshData - Generated mesh data
+ * @param resolution - Mesh resolution
+ * @param filename - Output filename (default: "waveguide.geo")
+ */
+export function downloadGEO(
+  meshData: MeshData | null,
+  resolution: MeshResolution,
+  filename: string = 'waveguide.geo',
+): void {
+  const geo = exportToGEO(meshData, resolution)
+  if (geo) downloadFile(geo, 'text/plain;charset=utf-8;', filename)
+}
+
+/**
+ * Download Hornresp record to user's computer.
+ *
+ * @param meshData - Generated mesh data
+ * @param state - Complete design
+ * @param filename - Output filename (default: "waveguide-hornresp.txt")
+ */
+export function downloadHornresp(
+  meshData: MeshData | null,
+  state: WaveguideState,
+  filename: string = 'waveguide-hornresp.txt',
+): void {
+  const record = exportToHornresp(meshData, state)
+  if (record) downloadFile(record, 'text/plain;charset=utf-8;', filename)
+}
+
+/**
+ * Download the baffle cutout as DXF.
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters (including the mouth plate)
+ * @param filename - Output filename (default: "horn-designer-cutout.dxf")
+ */
+export function downloadCutoutDXF(
+  meshData: MeshData | null,
+  shellParams: ShellParams,
+  filename: string = 'horn-designer-cutout.dxf',
+): void {
+  const dxf = exportCutoutToDXF(meshData, shellParams)
+  if (dxf) downloadFile(dxf, 'application/dxf', filename)
+}
+
+/**
+ * Download the baffle cutout as SVG.
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters (including the mouth plate)
+ * @param filename - Output filename (default: "horn-designer-cutout.svg")
+ */
+export function downloadCutoutSVG(
+  meshData: MeshData | null,
+  shellParams: ShellParams,
+  filename: string = 'horn-designer-cutout.svg',
+): void {
+  const svg = exportCutoutToSVG(meshData, shellParams)
+  if (svg) downloadFile(svg, 'image/svg+xml', filename)
+}
+
+/**
+ * Download ATH config file to user's computer.
+ *
+ * @param state - Complete waveguide state
+ * @param filename - Output filename (default: "waveguide.cfg")
+ */
+export function downloadATH(state: WaveguideState, filename: string = 'waveguide.cfg'): void {
+  downloadFile(exportToATH(state), 'text/plain;charset=utf-8;', filename)
+}
+
+/**
+ * Download the project file (YAML) to user's computer.
+ *
+ * @param state - Complete waveguide state
+ * @param filename - Output filename (default: "waveguide.yaml")
+ */
+export function downloadYAML(state: WaveguideState, filename: string = 'waveguide.yaml'): void {
+  downloadFile(exportToYAML(state), 'text/yaml;charset=utf-8', filename)
+}
@@ -0,0 +1,36 @@
+/**
+ * Acoustics Hook
+ * ==============
+ *
+ * Computes and memoizes the 1D acoustic model of the waveguide.
+ */
+
+import { useMemo } from 'react'
+import { areaProfile } from '../lib/math/area'
+import { logFrequencies, throatImpedance } from '../lib/math/webster'
+import { useMeshData } from './useMeshData'
+
+/** Frequency range of the impedance plot [Hz] */
+export const IMPEDANCE_RANGE: [number, number] = [200, 20000]
+
+const IMPEDANCE_FREQUENCIES = logFrequencies(...IMPEDANCE_RANGE)
+
+/**
+ * Hook to get the area profile and the normalized throat impedance.
+ *
+ * Uses the display mesh, so the solver follows the sliders.
+ */
+export function useAcoustics() {
+  const { meshData } = useMeshData()
+
+  // Equivalent area profile from the ring stack
+  const profile = useMemo(() => (meshData ? areaProfile(meshData) : []), [meshData])
+
+  // Webster solution, mouth terminated by a baffled piston
+  const impedance = useMemo(() => throatImpedance(profile, IMPEDANCE_FREQUENCIES), [profile])
+
+  return {
+    profile,
+    impedance,
+  }
+}
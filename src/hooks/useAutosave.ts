@@ -0,0 +1,44 @@
+/**
+ * Autosave Hook
+ * =============
+ *
+ * Keeps the working design in the browser's design library, so a page
+ * reload picks up where it left off.
+ */
+
+import { useEffect, useState } from 'react'
+import { useWaveguide } from '../context/WaveguideContext'
+import { loadAutosave, saveAutosave } from '../lib/storage/designLibrary'
+
+/** Quiet time after the last change before saving [ms] */
+const AUTOSAVE_DELAY = 1000
+
+/**
+ * Hook to restore the autosaved design on mount and autosave changes.
+ *
+ * @param restore - Load the autosave first (false when a design was given, e.g. by a share link)
+ */
+export function useAutosave(restore: boolean) {
+  const { state, restore: restoreState } = useWaveguide()
+  const [ready, setReady] = useState(!restore)
+
+  // Restore before the first save, so the defaults never overwrite it; the
+  // restored design starts the undo history instead of becoming a step
+  useEffect(() => {
+    if (!restore) return
+    loadAutosave()
+      .then((saved) => {
+        if (saved) restoreState(saved)
+      })
+      .catch((error) => console.error('Failed to restore autosaved design:', error))
+      .finally(() => setReady(true))
+  }, [restore, restoreState])
+
+  useEffect(() => {
+    if (!ready) return
+    const timer = window.setTimeout(() => {
+      saveAutosave(state).catch((error) => console.error('Autosave failed:', error))
+    }, AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [state, ready])
+}
@@ -0,0 +1,119 @@
+/**
+ * BEM Hook
+ * ========
+ *
+ * Runs the axisymmetric BEM solver in a Web Worker on demand and keeps the
+ * last result.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useWaveguide } from '../context/WaveguideContext'
+import { axisymmetricIssues, type BEMResult, type BEMTermination } from '../lib/math/bem'
+import { logFrequencies } from '../lib/math/webster'
+import type { WaveguideState } from '../lib/types/waveguide'
+import type { BEMMessage, BEMRequest } from '../workers/bemWorker'
+
+/** Third-octave frequencies of the BEM solve [Hz] */
+export const BEM_FREQUENCIES = logFrequencies(200, 20000, 3)
+
+/** Solver status */
+export type BEMStatus = 'idle' | 'running' | 'done' | 'error'
+
+/**
+ * Whether the geometry the solver sees differs between two states.
+ */
+function geometryChanged(a: WaveguideState, b: WaveguideState): boolean {
+  return (
+    a.horizontal !== b.horizontal ||
+    a.vertical !== b.vertical ||
+    a.shapeBlend !== b.shapeBlend ||
+    a.diagonalMod !== b.diagonalMod ||
+    a.cardinalMod !== b.cardinalMod ||
+    a.shellParams !== b.shellParams
+  )
+}
+
+/**
+ * Hook to run the BEM solver for the current design.
+ *
+ * A solve takes a few seconds, so it only runs when asked; the result is
+ * flagged stale once the geometry changes afterwards.
+ */
+export function useBEM() {
+  const { state } = useWaveguide()
+  const workerRef = useRef<Worker | null>(null)
+  const [status, setStatus] = useState<BEMStatus>('idle')
+  const [progress, setProgress] = useState(0)
+  const [result, setResult] = useState<BEMResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [solvedState, setSolvedState] = useState<WaveguideState | null>(null)
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+  }, [])
+
+  const run = useCallback(
+    (termination: BEMTermination) => {
+      stop()
+      const worker = new Worker(new URL('../workers/bemWorker.ts', import.meta.url), {
+        type: 'module',
+      })
+      workerRef.current = worker
+      setStatus('running')
+      setProgress(0)
+      setError(null)
+
+      const solving = state
+      worker.onmessage = (event: MessageEvent<BEMMessage>) => {
+        const message = event.data
+        if (message.type === 'progress') {
+          setProgress(message.done / message.total)
+          return
+        }
+        stop()
+        if (message.type === 'result') {
+          setResult(message.result)
+          setSolvedState(solving)
+          setStatus('done')
+        } else {
+          setError(message.message)
+          setStatus('error')
+        }
+      }
+      // Worker crashes (uncaught errors, failed loads) and undecodable messages
+      const fail = (message: string) => {
+        stop()
+        setError(message)
+        setStatus('error')
+      }
+      worker.onerror = (event) => {
+        event.preventDefault()
+        fail(event.message || 'BEM worker failed')
+      }
+      worker.onmessageerror = () => fail('BEM worker sent an unreadable message')
+      const request: BEMRequest = { state, termination, frequencies: BEM_FREQUENCIES }
+      worker.postMessage(request)
+    },
+    [state, stop],
+  )
+
+  const cancel = useCallback(() => {
+    stop()
+    setStatus(result ? 'done' : 'idle')
+  }, [stop, result])
+
+  // Stop a running solve when the view goes away
+  useEffect(() => stop, [stop])
+
+  return {
+    run,
+    cancel,
+    status,
+    progress,
+    result,
+    error,
+    issues: axisymmetricIssues(state),
+    stale: solvedState !== null && geometryChanged(solvedState, state),
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Design Library Hook
+ * ===================
+ *
+ * Lists the designs stored in the browser and wraps the library operations
+ * with toasts and a refresh of the list. A stored design can also be pinned
+ * as the comparison reference.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { useComparison } from '../context/ComparisonContext'
+import { useWaveguide } from '../context/WaveguideContext'
+import {
+  createDesign,
+  type DesignRecord,
+  deleteDesign,
+  duplicateDesign,
+  listDesigns,
+  openDesign,
+  readDesign,
+  renameDesign,
+  tagDesign,
+  updateDesign,
+} from '../lib/storage/designLibrary'
+
+/**
+ * Report that the library could not be listed.
+ */
+function reportUnavailable(error: unknown): void {
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  toast.error(`Design library unavailable: ${message}`)
+}
+
+/**
+ * Hook to browse and edit the design library.
+ */
+export function useDesignLibrary() {
+  const { state, dispatch } = useWaveguide()
+  const { pin } = useComparison()
+  const [designs, setDesigns] = useState<DesignRecord[]>([])
+  const [currentId, setCurrentId] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setDesigns(await listDesigns())
+    } catch (error) {
+      reportUnavailable(error)
+    }
+  }, [])
+
+  // Initial list, set once the library has answered (ignored after unmount)
+  useEffect(() => {
+    let active = true
+    listDesigns()
+      .then((list) => {
+        if (active) setDesigns(list)
+      })
+      .catch(reportUnavailable)
+    return () => {
+      active = false
+    }
+  }, [])
+
+  // Run an operation, report failures and reload the list
+  const run = useCallback(
+    async (operation: () => Promise<unknown>, success?: string) => {
+      try {
+        await operation()
+        if (success) toast.success(success)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        toast.error(`Library: ${message}`)
+      }
+      await refresh()
+    },
+    [refresh],
+  )
+
+  const save = useCallback(
+    (name: string, tags: string[], thumbnail: string) =>
+      run(async () => {
+        const record = await createDesign(state, { name, tags, thumbnail })
+        setCurrentId(record.id)
+      }, `Saved "${name}" to the library`),
+    [run, state],
+  )
+
+  const update = useCallback(
+    (thumbnail: string) =>
+      currentId
+        ? run(() => updateDesign(currentId, state, thumbnail), 'Design updated')
+        : undefined,
+    [run, currentId, state],
+  )
+
+  const open = useCallback(
+    (id: string) =>
+      run(async () => {
+        const { record, state: loaded } = await openDesign(id)
+        dispatch({ type: 'LOAD_FROM_FILE', state: loaded })
+        setCurrentId(record.id)
+        toast.success(`Opened "${record.name}"`)
+      }),
+    [run, dispatch],
+  )
+
+  const compare = useCallback(
+    (id: string, name: string) =>
+      run(async () => {
+        pin(await readDesign(id), name)
+        toast.success(`Comparing with "${name}"`)
+      }),
+    [run, pin],
+  )
+
+  const rename = useCallback((id: string, name: string) => run(() => renameDesign(id, name)), [run])
+
+  const setTags = useCallback((id: string, tags: string[]) => run(() => tagDesign(id, tags)), [run])
+
+  const duplicate = useCallback((id: string) => run(() => duplicateDesign(id)), [run])
+
+  const remove = useCallback(
+    (id: string) =>
+      run(async () => {
+        await deleteDesign(id)
+        if (id === currentId) setCurrentId(null)
+      }),
+    [run, currentId],
+  )
+
+  return {
+    designs,
+    current: designs.find((d) => d.id === currentId) ?? null,
+    save,
+    update,
+    open,
+    compare,
+    rename,
+    setTags,
+    duplicate,
+    remove,
+  }
+}
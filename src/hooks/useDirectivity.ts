@@ -0,0 +1,41 @@
+/**
+ * Directivity Hook
+ * ================
+ *
+ * Computes and memoizes the predicted mouth directivity.
+ */
+
+import { useDeferredValue, useMemo } from 'react'
+import { predictDirectivity } from '../lib/math/directivity'
+import { logFrequencies } from '../lib/math/webster'
+import { useMeshData } from './useMeshData'
+
+/** Third-octave frequencies of the directivity maps [Hz] */
+export const DIRECTIVITY_FREQUENCIES = logFrequencies(200, 20000, 3)
+
+/** Polar angles of the directivity maps, 3° steps [degrees] */
+export const DIRECTIVITY_ANGLES = Array.from({ length: 61 }, (_, i) => -90 + 3 * i)
+
+/**
+ * Hook to get the horizontal and vertical directivity maps.
+ *
+ * The prediction takes a noticeable fraction of a second, so it follows a
+ * deferred copy of the mesh: sliders stay responsive and the maps catch up.
+ */
+export function useDirectivity() {
+  const { meshData } = useMeshData()
+  const deferredMesh = useDeferredValue(meshData)
+
+  const directivity = useMemo(
+    () =>
+      deferredMesh
+        ? predictDirectivity(deferredMesh, DIRECTIVITY_FREQUENCIES, DIRECTIVITY_ANGLES)
+        : null,
+    [deferredMesh],
+  )
+
+  return {
+    directivity,
+    pending: deferredMesh !== meshData,
+  }
+}
@@ -5,34 +5,117 @@
  * Provides export functions for mesh data.
  */
 
-import { useCallback } from 'react'
+import { useCallback, useState } from 'react'
+import { toast } from 'sonner'
 import { useWaveguide } from '../context/WaveguideContext'
-import { downloadCSV, downloadOBJ, downloadSTL } from '../lib/export'
+import {
+  download3MF,
+  downloadCSV,
+  downloadCutoutDXF,
+  downloadCutoutSVG,
+  downloadGEO,
+  downloadHornresp,
+  downloadMSH,
+  downloadOBJ,
+  downloadSTEP,
+  downloadSTL,
+} from '../download'
+import type { StepExportResult } from '../lib/export/step'
+import { tessellationIssues } from '../lib/math/adaptive'
+import { generateShellMesh, shellIssues } from '../lib/math/shell'
+import { isClosedExport, type ManifoldReport, manifoldIssues } from '../lib/math/trimesh'
 import { useMeshData } from './useMeshData'
 
 /**
  * Hook to get mesh export functions.
  */
 export function useExport() {
-  const { meshData } = useMeshData()
+  const { exportMeshData: meshData, surface } = useMeshData()
   const { state } = useWaveguide()
+  const [stepReport, setStepReport] = useState<StepExportResult | null>(null)
+
+  // Warn about a missed adaptive tolerance, omitted shell parts and when the
+  // exported mesh is not a clean (closed, with the shell or both surface
+  // caps) manifold
+  const reportManifold = useCallback(
+    (format: string, reports: ManifoldReport[] | null) => {
+      if (!reports || !meshData) return
+      for (const issue of [
+        ...tessellationIssues(meshData, state.meshResolution.tolerance),
+        ...shellIssues(generateShellMesh(meshData, state.shellParams)),
+      ]) {
+        toast.warning(issue)
+      }
+      const issues = reports.flatMap((r) => manifoldIssues(r, isClosedExport(state.shellParams)))
+      if (issues.length > 0) {
+        toast.warning(`${format} mesh is not watertight: ${issues.join(', ')}`)
+      }
+    },
+    [meshData, state.shellParams, state.meshResolution.tolerance],
+  )
 
   const exportCSV = useCallback(() => {
     downloadCSV(meshData, 'horn-designer.csv')
   }, [meshData])
 
   const exportOBJ = useCallback(() => {
-    downloadOBJ(meshData, 'horn-designer.obj')
-  }, [meshData])
+    const report = downloadOBJ(meshData, state.shellParams, 'horn-designer.obj')
+    reportManifold('OBJ', report && [report])
+  }, [meshData, state.shellParams, reportManifold])
 
   const exportSTL = useCallback(() => {
-    downloadSTL(meshData, state.shellParams, 'horn-designer.stl')
+    const report = downloadSTL(meshData, state.shellParams, 'horn-designer.stl')
+    reportManifold('STL', report && [report])
+  }, [meshData, state.shellParams, reportManifold])
+
+  const export3MF = useCallback(() => {
+    reportManifold('3MF', download3MF(meshData, state, 'horn-designer.3mf'))
+  }, [meshData, state, reportManifold])
+
+  const exportSTEP = useCallback(() => {
+    setStepReport(
+      downloadSTEP(
+        surface,
+        meshData,
+        state.shellParams,
+        state.meshResolution.stepTolerance,
+        'horn-designer.step',
+      ),
+    )
+  }, [surface, meshData, state.shellParams, state.meshResolution.stepTolerance])
+
+  const exportMSH = useCallback(() => {
+    downloadMSH(meshData, state.meshResolution, 'horn-designer.msh')
+  }, [meshData, state.meshResolution])
+
+  const exportGEO = useCallback(() => {
+    downloadGEO(meshData, state.meshResolution, 'horn-designer.geo')
+  }, [meshData, state.meshResolution])
+
+  const exportHornresp = useCallback(() => {
+    downloadHornresp(meshData, state, 'horn-designer-hornresp.txt')
+  }, [meshData, state])
+
+  const exportCutoutDXF = useCallback(() => {
+    downloadCutoutDXF(meshData, state.shellParams, 'horn-designer-cutout.dxf')
+  }, [meshData, state.shellParams])
+
+  const exportCutoutSVG = useCallback(() => {
+    downloadCutoutSVG(meshData, state.shellParams, 'horn-designer-cutout.svg')
   }, [meshData, state.shellParams])
 
   return {
     exportCSV,
     exportOBJ,
     exportSTL,
+    export3MF,
+    exportSTEP,
+    stepReport,
+    exportMSH,
+    exportGEO,
+    exportHornresp,
+    exportCutoutDXF,
+    exportCutoutSVG,
     hasData: meshData !== null,
   }
 }
@@ -7,7 +7,13 @@
 
 import { useMemo } from 'react'
 import { useWaveguide } from '../context/WaveguideContext'
-import { buildMesh, computeMeshMetrics } from '../lib/math/mesh'
+import { buildAdaptiveMesh } from '../lib/math/adaptive'
+import {
+  buildMesh,
+  computeMeshMetrics,
+  createSurfaceEvaluator,
+  type SurfaceEvaluator,
+} from '../lib/math/mesh'
 import { computeROSSE } from '../lib/math/rosse'
 import type { MeshData, ROSSEResult } from '../lib/types/waveguide'
 
@@ -41,6 +47,11 @@ export function useMeshData() {
         state.cardinalMod,
         state.meshResolution.rings,
         state.meshResolution.slices,
+        {
+          depthMode: state.depthMode,
+          distribution: state.meshResolution.distribution,
+          mouthFlange: state.mouthFlange,
+        },
       ),
     [
       hData,
@@ -51,6 +62,64 @@ export function useMeshData() {
       state.cardinalMod,
       state.meshResolution.rings,
       state.meshResolution.slices,
+      state.meshResolution.distribution,
+      state.depthMode,
+      state.mouthFlange,
+    ],
+  )
+
+  // Adaptive export mesh (only built when enabled; otherwise export the display mesh)
+  const exportMeshData: MeshData | null = useMemo(
+    () =>
+      state.meshResolution.adaptive
+        ? buildAdaptiveMesh(
+            hData,
+            vData,
+            state.shapeBlend,
+            state.modBlend,
+            state.diagonalMod,
+            state.cardinalMod,
+            state.meshResolution.tolerance,
+            { depthMode: state.depthMode, mouthFlange: state.mouthFlange },
+          )
+        : meshData,
+    [
+      meshData,
+      hData,
+      vData,
+      state.shapeBlend,
+      state.modBlend,
+      state.diagonalMod,
+      state.cardinalMod,
+      state.meshResolution.adaptive,
+      state.meshResolution.tolerance,
+      state.depthMode,
+      state.mouthFlange,
+    ],
+  )
+
+  // Continuous surface for exact-geometry export (STEP)
+  const surface: SurfaceEvaluator | null = useMemo(
+    () =>
+      hData && vData
+        ? createSurfaceEvaluator(
+            hData,
+            vData,
+            state.shapeBlend,
+            state.modBlend,
+            state.diagonalMod,
+            state.cardinalMod,
+            state.depthMode,
+          )
+        : null,
+    [
+      hData,
+      vData,
+      state.shapeBlend,
+      state.modBlend,
+      state.diagonalMod,
+      state.cardinalMod,
+      state.depthMode,
     ],
   )
 
@@ -61,6 +130,8 @@ export function useMeshData() {
     hData,
     vData,
     meshData,
+    exportMeshData,
+    surface,
     metrics,
   }
 }
@@ -0,0 +1,24 @@
+/**
+ * Path Length Hook
+ * ================
+ *
+ * Computes and memoizes the wall path-length analysis.
+ */
+
+import { useMemo } from 'react'
+import { analyzePathLengths } from '../lib/math/pathLength'
+import { useMeshData } from './useMeshData'
+
+/** Frequency of the path-difference phase shown in the badges [Hz] */
+export const PATH_PHASE_FREQUENCY = 10000
+
+/**
+ * Hook to get the wall path lengths from throat to mouth per slice.
+ */
+export function usePathLength() {
+  const { meshData } = useMeshData()
+
+  const pathLength = useMemo(() => (meshData ? analyzePathLengths(meshData) : null), [meshData])
+
+  return { meshData, pathLength }
+}
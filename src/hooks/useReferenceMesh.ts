@@ -0,0 +1,39 @@
+/**
+ * Reference Mesh Hook
+ * ===================
+ *
+ * Computes and memoizes the guides, display mesh and metrics of the design
+ * pinned for comparison.
+ */
+
+import { useMemo } from 'react'
+import { useComparison } from '../context/ComparisonContext'
+import { designMetrics } from '../lib/math/comparison'
+import { buildStateMesh } from '../lib/math/mesh'
+import { computeROSSE } from '../lib/math/rosse'
+
+/**
+ * Hook to get the reference design and its computed geometry.
+ *
+ * All values are null when no design is pinned.
+ */
+export function useReferenceMesh() {
+  const { reference } = useComparison()
+  const state = reference?.state ?? null
+
+  const hData = useMemo(() => (state ? computeROSSE(state.horizontal) : null), [state])
+  const vData = useMemo(() => (state ? computeROSSE(state.vertical) : null), [state])
+
+  // Same display mesh as useMeshData, at the reference's own resolution
+  const meshData = useMemo(() => (state ? buildStateMesh(state) : null), [state])
+
+  const metrics = useMemo(() => designMetrics(meshData), [meshData])
+
+  return {
+    reference,
+    hData,
+    vData,
+    meshData,
+    metrics,
+  }
+}
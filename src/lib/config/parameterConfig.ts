@@ -82,6 +82,10 @@ export const MODULATION_PARAMS = {
 export const MESH_RESOLUTION_PARAMS = {
   rings: { min: 20, max: 200, step: 5, decimals: 0 },
   slices: { min: 36, max: 256, step: 4, decimals: 0 },
+  tolerance: { min: 0.02, max: 2, step: 0.01, decimals: 2, unit: 'mm' },
+  stepTolerance: { min: 0.005, max: 1, step: 0.005, decimals: 3, unit: 'mm' },
+  maxFrequency: { min: 1000, max: 40000, step: 500, decimals: 0, unit: 'Hz' },
+  elementsPerWavelength: { min: 3, max: 12, step: 1, decimals: 0 },
 } as const satisfies Record<string, ParameterConfig>
 
 /**
@@ -89,6 +93,51 @@ export const MESH_RESOLUTION_PARAMS = {
  */
 export const SHELL_PARAMS = {
   thickness: { min: 0.5, max: 20, step: 0.5, decimals: 1, unit: 'mm' },
+  sections: { min: 1, max: 6, step: 1, decimals: 0 },
+} as const satisfies Record<string, ParameterConfig>
+
+/**
+ * Throat driver mount parameters
+ */
+export const THROAT_MOUNT_PARAMS = {
+  thickness: { min: 2, max: 20, step: 0.5, decimals: 1, unit: 'mm' },
+  size: { min: 40, max: 300, step: 1, decimals: 0, unit: 'mm' },
+  cornerRadius: { min: 0, max: 50, step: 1, decimals: 0, unit: 'mm' },
+} as const satisfies Record<string, ParameterConfig>
+
+/**
+ * Custom bolt pattern parameters
+ */
+export const BOLT_PATTERN_PARAMS = {
+  count: { min: 1, max: 12, step: 1, decimals: 0 },
+  circleDiameter: { min: 20, max: 250, step: 0.5, decimals: 1, unit: 'mm' },
+  holeDiameter: { min: 2, max: 14, step: 0.1, decimals: 1, unit: 'mm' },
+  rotation: { min: 0, max: 180, step: 1, decimals: 0, unit: '°' },
+} as const satisfies Record<string, ParameterConfig>
+
+/**
+ * Mouth mounting plate parameters
+ */
+export const MOUTH_PLATE_PARAMS = {
+  thickness: { min: 2, max: 20, step: 0.5, decimals: 1, unit: 'mm' },
+  margin: { min: 5, max: 100, step: 1, decimals: 0, unit: 'mm' },
+  cornerRadius: { min: 0, max: 50, step: 1, decimals: 0, unit: 'mm' },
+  screwsX: { min: 2, max: 8, step: 1, decimals: 0 },
+  screwsY: { min: 2, max: 8, step: 1, decimals: 0 },
+  screwInset: { min: 4, max: 50, step: 0.5, decimals: 1, unit: 'mm' },
+  screwDiameter: { min: 2, max: 10, step: 0.1, decimals: 1, unit: 'mm' },
+  counterboreDiameter: { min: 0, max: 20, step: 0.5, decimals: 1, unit: 'mm' },
+  counterboreDepth: { min: 0, max: 10, step: 0.5, decimals: 1, unit: 'mm' },
+  cutoutClearance: { min: 0, max: 10, step: 0.5, decimals: 1, unit: 'mm' },
+} as const satisfies Record<string, ParameterConfig>
+
+/**
+ * Mouth flange parameters
+ */
+export const MOUTH_FLANGE_PARAMS = {
+  radius: { min: 2, max: 60, step: 1, decimals: 0, unit: 'mm' },
+  width: { min: 60, max: 800, step: 5, decimals: 0, unit: 'mm' },
+  height: { min: 60, max: 800, step: 5, decimals: 0, unit: 'mm' },
 } as const satisfies Record<string, ParameterConfig>
 
 /**
@@ -127,8 +176,41 @@ export const PARAM_RANGES = {
   meshResolution: {
     rings: { min: 20, max: 200 },
     slices: { min: 36, max: 256 },
+    tolerance: { min: 0.02, max: 2 },
+    stepTolerance: { min: 0.005, max: 1 },
+    maxFrequency: { min: 1000, max: 40000 },
+    elementsPerWavelength: { min: 3, max: 12 },
   },
   shellParams: {
     thickness: { min: 0.5, max: 20 },
+    sections: { min: 1, max: 6 },
+  },
+  throatMount: {
+    thickness: { min: 2, max: 20 },
+    size: { min: 40, max: 300 },
+    cornerRadius: { min: 0, max: 50 },
+  },
+  boltPattern: {
+    count: { min: 1, max: 12 },
+    circleDiameter: { min: 20, max: 250 },
+    holeDiameter: { min: 2, max: 14 },
+    rotation: { min: 0, max: 180 },
+  },
+  mouthPlate: {
+    thickness: { min: 2, max: 20 },
+    margin: { min: 5, max: 100 },
+    cornerRadius: { min: 0, max: 50 },
+    screwsX: { min: 2, max: 8 },
+    screwsY: { min: 2, max: 8 },
+    screwInset: { min: 4, max: 50 },
+    screwDiameter: { min: 2, max: 10 },
+    counterboreDiameter: { min: 0, max: 20 },
+    counterboreDepth: { min: 0, max: 10 },
+    cutoutClearance: { min: 0, max: 10 },
+  },
+  mouthFlange: {
+    radius: { min: 2, max: 60 },
+    width: { min: 60, max: 800 },
+    height: { min: 60, max: 800 },
   },
 } as const
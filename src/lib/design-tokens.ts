@@ -46,6 +46,7 @@ export const colors = {
   superEllipse: 'var(--super-ellipse)',
   diagonalMod: 'var(--diagonal-mod)',
   cardinalMod: 'var(--cardinal-mod)',
+  reference: 'var(--reference)',
 
   // Waveguide borders
   hGuideBorder: 'var(--h-guide-border)',
@@ -53,6 +54,7 @@ export const colors = {
   superEllipseBorder: 'var(--super-ellipse-border)',
   diagonalModBorder: 'var(--diagonal-mod-border)',
   cardinalModBorder: 'var(--cardinal-mod-border)',
+  referenceBorder: 'var(--reference-border)',
 
   // Waveguide with opacity
   hGuide30: 'var(--h-guide-30)',
@@ -90,6 +92,7 @@ export const canvasColors = {
   superEllipse: '#b898d0',
   diagonalMod: '#a06cf0',
   cardinalMod: '#6ce88a',
+  reference: '#e05c8a', // Pinned comparison design
 
   // With opacity (for canvas contexts)
   hGuide90: '#e8943a90',
@@ -98,11 +101,42 @@ export const canvasColors = {
   vGuide70: '#4a9de870',
   diagonalMod70: '#a06cf070',
   cardinalMod70: '#6ce88a70',
+  reference70: '#e05c8a70',
 
   // Primary color with opacity
   primaryGrid: 'rgba(200,168,78,0.08)',
 } as const
 
+/**
+ * Sequential colour map for canvas heat maps (inferno-like, dark to bright)
+ */
+const colormapStops: [number, number, number][] = [
+  [0, 0, 4],
+  [31, 12, 72],
+  [85, 15, 109],
+  [136, 34, 106],
+  [186, 54, 85],
+  [227, 89, 51],
+  [249, 142, 9],
+  [252, 255, 164],
+]
+
+/**
+ * Map a value in [0, 1] to a colour of the heat map scale.
+ *
+ * @param value - Normalized value (clamped to [0, 1])
+ * @returns CSS rgb() colour
+ */
+export function colormap(value: number): string {
+  const x = Math.min(1, Math.max(0, value)) * (colormapStops.length - 1)
+  const i = Math.min(colormapStops.length - 2, Math.floor(x))
+  const f = x - i
+  const [r, g, b] = colormapStops[i].map((c, k) =>
+    Math.round(c + (colormapStops[i + 1][k] - c) * f),
+  )
+  return `rgb(${r},${g},${b})`
+}
+
 /**
  * Font sizes (in rem units)
  */
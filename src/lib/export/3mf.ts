@@ -0,0 +1,143 @@
+/**
+ * 3MF Export for Waveguide Meshes
+ * ================================
+ *
+ * Exports the printable body as a 3MF package for slicers (PrusaSlicer,
+ * Cura, Bambu Studio...). Unlike binary STL, 3MF carries its unit, so the
+ * horn always imports at the right scale.
+ *
+ * The package contains a single model part with:
+ * - Millimetre units and indexed (shared) vertices
+ * - One object per print section (see sections.ts), from throat to mouth
+ * - Title, application and creation date metadata
+ * - The full design as a YAML snapshot (hd:design metadata), so the print
+ *   file can be traced back to its parameters
+ */
+
+import { printSections } from '../math/sections'
+import type { TriMesh } from '../math/trimesh'
+import type { MeshData, WaveguideState } from '../types/waveguide'
+import { exportToYAML } from './yaml'
+import { createZip } from './zip'
+
+/** Namespace of the Horn Designer metadata */
+const HD_NAMESPACE = 'urn:horn-designer:3mf:design'
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`
+
+/**
+ * Escape text for XML content and attribute values.
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Format a coordinate (µm resolution, no trailing zeros).
+ */
+function fmt(value: number): string {
+  return String(Number(value.toFixed(4)))
+}
+
+/**
+ * Mesh object XML from an indexed triangle mesh.
+ */
+function objectXML(id: number, name: string, mesh: TriMesh): string {
+  const vertices = mesh.vertices.map(
+    ([x, y, z]) => `          <vertex x="${fmt(x)}" y="${fmt(y)}" z="${fmt(z)}"/>`,
+  )
+  const faces = mesh.triangles.map(
+    ([v1, v2, v3]) => `          <triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`,
+  )
+
+  return `    <object id="${id}" type="model" name="${escapeXML(name)}">
+      <mesh>
+        <vertices>
+${vertices.join('\n')}
+        </vertices>
+        <triangles>
+${faces.join('\n')}
+        </triangles>
+      </mesh>
+    </object>`
+}
+
+/**
+ * Export the printable body to 3MF.
+ *
+ * Uses the same geometry as the STL export (shell, driver mount, mouth
+ * plate, mouth flange); with several print sections in the shell settings,
+ * each section becomes its own object.
+ *
+ * @param meshData - Generated mesh data (represents acoustic path)
+ * @param state - Complete design (shell settings and YAML snapshot)
+ * @param name - Design name for the title metadata and object names
+ * @returns 3MF package content (empty without mesh data)
+ */
+export function exportTo3MF(
+  meshData: MeshData | null,
+  state: WaveguideState,
+  name: string = 'Horn Designer waveguide',
+): Uint8Array<ArrayBuffer> {
+  if (!meshData) return new Uint8Array(0)
+
+  return write3MF(printSections(meshData, state.shellParams), state, name)
+}
+
+/**
+ * Write print section meshes as a 3MF package.
+ *
+ * @param sections - Mesh of each section, from throat to mouth
+ * @param state - Complete design (YAML snapshot)
+ * @param name - Design name for the title metadata and object names
+ * @returns 3MF package content
+ */
+export function write3MF(
+  sections: TriMesh[],
+  state: WaveguideState,
+  name: string = 'Horn Designer waveguide',
+): Uint8Array<ArrayBuffer> {
+  const objects = sections.map((mesh, k) =>
+    objectXML(k + 1, sections.length > 1 ? `${name} - section ${k + 1}` : name, mesh),
+  )
+  const items = objects.map((_, k) => `    <item objectid="${k + 1}"/>`)
+
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:hd="${HD_NAMESPACE}">
+  <metadata name="Title">${escapeXML(name)}</metadata>
+  <metadata name="Application">Horn Designer</metadata>
+  <metadata name="CreationDate">${new Date().toISOString().slice(0, 10)}</metadata>
+  <metadata name="Description">R-OSSE waveguide, ${objects.length} part(s)</metadata>
+  <metadata name="hd:design" preserve="1">${escapeXML(exportToYAML(state))}</metadata>
+  <resources>
+${objects.join('\n')}
+  </resources>
+  <build>
+${items.join('\n')}
+  </build>
+</model>
+`
+
+  const encoder = new TextEncoder()
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: encoder.encode(RELATIONSHIPS) },
+    { name: '3D/3dmodel.model', data: encoder.encode(model) },
+  ])
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { diffStates } from '../history/diff'
+import { DEFAULT_PARAMS, type WaveguideState } from '../types/waveguide'
+import { exportToATH, importFromATH } from './ath'
+
+const SOURCE_CONTOURS = `
+Source.Contours = {
+  zoff 0
+  point p1 0 0 5 ; apex
+  cpoint 0 0 0
+  arc p1 cp1 p2 1
+}
+`
+
+describe('importFromATH', () => {
+  it('reads back an exported design', () => {
+    const state: WaveguideState = {
+      ...DEFAULT_PARAMS,
+      horizontal: { ...DEFAULT_PARAMS.horizontal, R: 120, a_deg: 40 },
+      vertical: { ...DEFAULT_PARAMS.vertical, k: 2.2 },
+      shellParams: { ...DEFAULT_PARAMS.shellParams, enabled: true, thickness: 4 },
+    }
+    const result = importFromATH(exportToATH(state))
+    expect(result.success).toBe(true)
+    expect(result.unsupported).toEqual([])
+
+    // Only the shape blend end is lost (ATH morphs up to the mouth)
+    const changes = result.state ? diffStates(state, result.state) : []
+    expect(changes.map((change) => change.path)).toEqual(['shapeBlend.shapeEnd'])
+  })
+
+  it('skips free-form blocks and lists them as unsupported', () => {
+    const result = importFromATH(exportToATH(DEFAULT_PARAMS) + SOURCE_CONTOURS)
+    expect(result.success).toBe(true)
+    expect(result.unsupported).toContain('Source.Contours (block)')
+    expect(result.state?.horizontal.R).toBeCloseTo(DEFAULT_PARAMS.horizontal.R, 4)
+  })
+
+  it('reports a block that is not closed', () => {
+    const result = importFromATH(`${exportToATH(DEFAULT_PARAMS)}Source.Contours = {\n  zoff 0\n`)
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Source.Contours')
+  })
+})
@@ -0,0 +1,509 @@
+/**
+ * ATH Configuration Export/Import
+ * ===============================
+ *
+ * Exchanges designs with Marcel Batík's ATH (Ath4), the usual front end for
+ * ABEC waveguide simulations. Our R-OSSE parameters map directly onto ATH's
+ * `R-OSSE = { ... }` profile block:
+ *
+ *   R → R, r0 → r0, a0_deg → a0, a_deg → a, k → k, rho → r, b → b, m → m, q → q
+ *
+ * ATH describes one profile as a function of the azimuth p (0 = horizontal
+ * plane, π/2 = vertical plane). The two guides are written as
+ * `H + (V - H)*sin(p)^2`, and read back by evaluating each expression at
+ * p = 0 and p = π/2.
+ *
+ * The superellipse blend has no ATH counterpart; it is approximated by a
+ * Morph to a rounded rectangle whose corner passes through the superellipse
+ * at 45°. Modulations, the mouth flange and the shell features are not
+ * represented and are listed in the file header.
+ */
+
+import { PARAM_RANGES } from '../config/parameterConfig'
+import { computeROSSE } from '../math/rosse'
+import { DEFAULT_PARAMS, type ROSSEParams, type WaveguideState } from '../types/waveguide'
+import type { ValidationResult } from '../validation/waveguideValidator'
+import { validateWaveguideState } from '../validation/waveguideValidator'
+
+/** Maximum config file size (100KB) */
+const MAX_CFG_SIZE = 100 * 1024
+
+/** Mapping of ROSSEParams fields to ATH R-OSSE keys */
+const ROSSE_KEYS: [keyof ROSSEParams, string][] = [
+  ['R', 'R'],
+  ['r0', 'r0'],
+  ['a0_deg', 'a0'],
+  ['a_deg', 'a'],
+  ['k', 'k'],
+  ['rho', 'r'],
+  ['b', 'b'],
+  ['m', 'm'],
+  ['q', 'q'],
+]
+
+/** 1 - 1/√2: diagonal inset of a rounded corner per unit radius */
+const CORNER_INSET = 1 - Math.SQRT1_2
+
+/**
+ * Result of ATH import operation.
+ */
+export interface ATHImportResult {
+  /** Whether import was successful */
+  success: boolean
+
+  /** Imported design (only if success = true) */
+  state?: WaveguideState
+
+  /** Config entries that could not be represented (and were ignored or approximated) */
+  unsupported: string[]
+
+  /** Error message (only if success = false) */
+  error?: string
+
+  /** Validation result with detailed errors */
+  validation?: ValidationResult
+}
+
+/**
+ * Format a number for the config file.
+ */
+function num(value: number): string {
+  return String(Number(value.toFixed(4)))
+}
+
+/**
+ * ATH value for a parameter that may differ between the H and V planes.
+ */
+function azimuthal(h: number, v: number): string {
+  if (num(h) === num(v)) return num(h)
+  const delta = v - h
+  return `${num(h)} ${delta < 0 ? '-' : '+'} ${num(Math.abs(delta))}*sin(p)^2`
+}
+
+/**
+ * Mouth half-width of a guide (radial coordinate at t = 1).
+ */
+function mouthHalfWidth(params: ROSSEParams): number {
+  const points = computeROSSE(params, 50)?.points
+  return points ? points[points.length - 1].y : params.R
+}
+
+/**
+ * Morph corner radius of a rounded rectangle through the superellipse
+ * corner point at 45° (for a half-width a: a - r·(1 - 1/√2) = a·2^(-1/n)).
+ */
+function cornerRadius(halfWidth: number, n: number): number {
+  return (halfWidth * (1 - 2 ** (-1 / n))) / CORNER_INSET
+}
+
+/**
+ * Superellipse exponent whose 45° point matches a rounded corner (inverse of cornerRadius).
+ */
+function superellipseExponent(halfWidth: number, radius: number): number {
+  const inset = (radius * CORNER_INSET) / halfWidth
+  if (inset <= 0) return Number.POSITIVE_INFINITY
+  if (inset >= 1 - Math.SQRT1_2) return 2
+  return -Math.LN2 / Math.log(1 - inset)
+}
+
+/**
+ * Features of the design that the ATH config cannot carry.
+ */
+function exportNotes(state: WaveguideState): string[] {
+  const notes: string[] = []
+  if (state.shapeBlend.shapeEnd < 1) {
+    notes.push(`shape blend end (${num(state.shapeBlend.shapeEnd)}): ATH morphs up to the mouth`)
+  }
+  if (state.diagonalMod.enabled) notes.push('diagonal modulation')
+  if (state.cardinalMod.enabled) notes.push('cardinal modulation')
+  if (state.depthMode === 'true') notes.push('true depth mode (ATH uses a common mouth plane)')
+  if (state.mouthFlange.enabled) notes.push('mouth flange')
+  if (state.shellParams.enabled && state.shellParams.throatMount.enabled) {
+    notes.push('driver mount')
+  }
+  if (state.shellParams.enabled && state.shellParams.mouthPlate.enabled) {
+    notes.push('mouth plate')
+  }
+  return notes
+}
+
+/**
+ * Export waveguide state to an ATH configuration file.
+ *
+ * Writes the R-OSSE profile, a Morph approximation of the superellipse
+ * blend and the mesh settings. Parameters that differ between the guides
+ * become expressions in the azimuth p.
+ *
+ * @param state - Complete waveguide state to export
+ * @returns ATH .cfg content
+ */
+export function exportToATH(state: WaveguideState): string {
+  const { horizontal: h, vertical: v, shapeBlend, meshResolution, shellParams } = state
+  const lines = [
+    '; ═══════════════════════════════════════════════════════════════════',
+    '; Horn Designer - ATH configuration',
+    `; Generated: ${new Date().toISOString()}`,
+    '; R-OSSE waveguide; p = 0 is the horizontal plane, p = 90° the vertical',
+    '; ═══════════════════════════════════════════════════════════════════',
+  ]
+
+  const notes = exportNotes(state)
+  if (notes.length > 0) {
+    lines.push(';', '; Not represented in this file:')
+    for (const note of notes) lines.push(`;   - ${note}`)
+  }
+
+  lines.push('', 'R-OSSE = {')
+  for (const [field, key] of ROSSE_KEYS) {
+    lines.push(`  ${key} = ${azimuthal(h[field], v[field])}`)
+  }
+  lines.push('  tmax = 1', '}')
+
+  // Superellipse blend → morph to a rounded rectangle of the mouth size
+  if (shapeBlend.nMouth > 2) {
+    const halfWidth = Math.min(mouthHalfWidth(h), mouthHalfWidth(v))
+    lines.push(
+      '',
+      `; Superellipse n = ${num(shapeBlend.nMouth)} approximated by a rounded rectangle`,
+      'Morph.TargetShape = 1',
+      'Morph.TargetWidth = 0',
+      'Morph.TargetHeight = 0',
+      `Morph.CornerRadius = ${num(cornerRadius(halfWidth, shapeBlend.nMouth))}`,
+      `Morph.FixedPart = ${num(shapeBlend.shapeStart)}`,
+      `Morph.Rate = ${num(shapeBlend.shapePow)}`,
+    )
+  }
+
+  // ATH needs the angular segments in multiples of 4 (one set per quadrant)
+  lines.push(
+    '',
+    `Mesh.AngularSegments = ${Math.ceil(meshResolution.slices / 4) * 4}`,
+    `Mesh.LengthSegments = ${meshResolution.rings}`,
+    'Mesh.Quadrants = 1234',
+  )
+  if (shellParams.enabled) {
+    lines.push(`Mesh.WallThickness = ${num(shellParams.thickness)}`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/** Blocks whose assignments are read; other blocks are skipped whole */
+const READ_BLOCKS = new Set(['R-OSSE', 'Morph', 'Mesh'])
+
+/**
+ * Parse the assignments of an ATH config into flat dotted keys.
+ *
+ * Blocks (`Name = { ... }`) prefix their keys with the block name; `;`
+ * starts a comment. Blocks other than READ_BLOCKS hold free-form content
+ * (e.g. `Source.Contours = { zoff 0 ... }`); they are skipped by counting
+ * braces and returned by name.
+ */
+function parseAssignments(text: string): { values: Map<string, string>; skipped: string[] } {
+  const values = new Map<string, string>()
+  const skipped: string[] = []
+  const blocks: string[] = []
+  let depth = 0
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/;.*$/, '').trim()
+    if (depth > 0) {
+      depth += (line.match(/\{/g) ?? []).length - (line.match(/\}/g) ?? []).length
+      continue
+    }
+    if (line === '') continue
+    if (line === '}') {
+      blocks.pop()
+      continue
+    }
+
+    const match = line.match(/^([^=]+?)\s*=\s*(.*)$/)
+    if (!match) throw new Error(`Cannot read line "${raw.trim()}"`)
+    const name = [...blocks, match[1]].join('.')
+    const value = match[2].trim()
+    if (value === '{' && (blocks.length > 0 || READ_BLOCKS.has(match[1]))) {
+      blocks.push(match[1])
+    } else if (value.startsWith('{')) {
+      skipped.push(name)
+      depth = (value.match(/\{/g) ?? []).length - (value.match(/\}/g) ?? []).length
+    } else {
+      values.set(name, value)
+    }
+  }
+
+  if (depth > 0) throw new Error(`Block "${skipped[skipped.length - 1]}" is not closed`)
+  if (blocks.length > 0) throw new Error(`Block "${blocks[blocks.length - 1]}" is not closed`)
+  return { values, skipped }
+}
+
+/**
+ * Evaluate an ATH expression at azimuth p.
+ *
+ * Supports numbers, p, pi, + - * / ^, parentheses and the usual functions.
+ */
+function evaluate(expression: string, p: number): number {
+  const tokens = expression.match(/\d+\.?\d*(?:[eE][-+]?\d+)?|\.\d+|[A-Za-z_]\w*|\S/g) ?? []
+  let pos = 0
+
+  const functions: Record<string, (x: number) => number> = {
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    exp: Math.exp,
+    log: Math.log,
+  }
+
+  const expect = (token: string): void => {
+    if (tokens[pos] !== token) throw new Error(`Expected "${token}" in "${expression}"`)
+    pos++
+  }
+
+  const primary = (): number => {
+    const token = tokens[pos++]
+    if (token === undefined) throw new Error(`Unexpected end of "${expression}"`)
+    if (token === '(') {
+      const value = sum()
+      expect(')')
+      return value
+    }
+    if (token === '-') return -power()
+    if (token === '+') return power()
+    if (/^[\d.]/.test(token)) return Number(token)
+    if (token === 'p') return p
+    if (token === 'pi') return Math.PI
+    const fn = functions[token]
+    if (!fn) throw new Error(`Unknown name "${token}" in "${expression}"`)
+    expect('(')
+    const value = fn(sum())
+    expect(')')
+    return value
+  }
+
+  const power = (): number => {
+    const value = primary()
+    if (tokens[pos] !== '^') return value
+    pos++
+    return value ** power()
+  }
+
+  const product = (): number => {
+    let value = power()
+    while (tokens[pos] === '*' || tokens[pos] === '/') {
+      const op = tokens[pos++]
+      value = op === '*' ? value * power() : value / power()
+    }
+    return value
+  }
+
+  const sum = (): number => {
+    let value = product()
+    while (tokens[pos] === '+' || tokens[pos] === '-') {
+      const op = tokens[pos++]
+      value = op === '+' ? value + product() : value - product()
+    }
+    return value
+  }
+
+  const value = sum()
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}" in "${expression}"`)
+  if (!Number.isFinite(value)) throw new Error(`"${expression}" is not a finite number`)
+  return value
+}
+
+/**
+ * Clamp an imported value to its parameter range, noting any change.
+ */
+function clampImported(
+  value: number,
+  range: { min: number; max: number },
+  key: string,
+  unsupported: string[],
+): number {
+  const clamped = Math.min(Math.max(value, range.min), range.max)
+  if (clamped !== value) {
+    unsupported.push(`${key} = ${num(value)} outside ${range.min}–${range.max}, clamped`)
+  }
+  return clamped
+}
+
+/**
+ * Import a design from an ATH configuration file.
+ *
+ * Reads the R-OSSE profile (required) for both guides, the Morph settings
+ * back into the shape blend, and the mesh segment counts. Everything else is
+ * kept from the base design. Entries that cannot be represented are listed
+ * in `unsupported`: unknown keys and blocks, azimuthal variation beyond the
+ * H/V blend, a truncated profile (tmax < 1) and clamped values.
+ *
+ * @param text - ATH .cfg content
+ * @param base - Design supplying all fields ATH does not set (default: defaults)
+ * @returns Import result with state or error details
+ */
+export function importFromATH(
+  text: string,
+  base: WaveguideState = DEFAULT_PARAMS,
+): ATHImportResult {
+  if (text.length > MAX_CFG_SIZE) {
+    const sizeKB = (text.length / 1024).toFixed(1)
+    return {
+      success: false,
+      unsupported: [],
+      error: `File too large (${sizeKB}KB). Maximum is 100KB.`,
+    }
+  }
+
+  const unsupported: string[] = []
+  let parsed: ReturnType<typeof parseAssignments>
+  try {
+    parsed = parseAssignments(text)
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown parse error'
+    return { success: false, unsupported, error: `ATH syntax error: ${message}` }
+  }
+  const { values, skipped } = parsed
+
+  if (!values.has('R-OSSE.R')) {
+    return {
+      success: false,
+      unsupported,
+      error: 'No R-OSSE profile found (only R-OSSE horns can be imported)',
+    }
+  }
+
+  const used = new Set<string>()
+  const read = (key: string, p: number): number => {
+    used.add(key)
+    return evaluate(values.get(key) as string, p)
+  }
+
+  const horizontal = { ...base.horizontal }
+  const vertical = { ...base.vertical }
+  const shapeBlend = { ...base.shapeBlend }
+  const meshResolution = { ...base.meshResolution }
+  const shellParams = { ...base.shellParams }
+
+  try {
+    // Profile: sample at the H and V planes, check the 45° value against the blend
+    for (const [field, key] of ROSSE_KEYS) {
+      const name = `R-OSSE.${key}`
+      if (!values.has(name)) {
+        unsupported.push(`${name} missing, kept ${num(horizontal[field])}/${num(vertical[field])}`)
+        continue
+      }
+      const range = PARAM_RANGES.rosse[field]
+      const h = read(name, 0)
+      const v = read(name, Math.PI / 2)
+      const diagonal = read(name, Math.PI / 4)
+      if (Math.abs(diagonal - (h + v) / 2) > 1e-6 * Math.max(1, Math.abs(h), Math.abs(v))) {
+        unsupported.push(`${name} varies with p beyond the H/V blend, sampled at 0° and 90°`)
+      }
+      horizontal[field] = clampImported(h, range, `${name} (H)`, unsupported)
+      vertical[field] = clampImported(v, range, `${name} (V)`, unsupported)
+    }
+
+    if (values.has('R-OSSE.tmax') && read('R-OSSE.tmax', 0) !== 1) {
+      unsupported.push(`R-OSSE.tmax = ${values.get('R-OSSE.tmax')} (profile always ends at t = 1)`)
+    }
+
+    // Morph: rounded rectangle → superellipse through the same corner point
+    if (values.has('Morph.TargetShape')) {
+      const shape = read('Morph.TargetShape', 0)
+      if (shape === 0) {
+        shapeBlend.nMouth = PARAM_RANGES.shapeBlend.nMouth.min
+      } else if (shape === 1) {
+        const radius = values.has('Morph.CornerRadius') ? read('Morph.CornerRadius', 0) : 0
+        const n = superellipseExponent(
+          Math.min(mouthHalfWidth(horizontal), mouthHalfWidth(vertical)),
+          radius,
+        )
+        shapeBlend.nMouth = Number(Math.min(n, PARAM_RANGES.shapeBlend.nMouth.max).toFixed(2))
+      } else {
+        unsupported.push(`Morph.TargetShape = ${shape}`)
+      }
+      if (values.has('Morph.FixedPart')) {
+        shapeBlend.shapeStart = clampImported(
+          read('Morph.FixedPart', 0),
+          PARAM_RANGES.shapeBlend.shapeStart,
+          'Morph.FixedPart',
+          unsupported,
+        )
+      }
+      if (values.has('Morph.Rate')) {
+        shapeBlend.shapePow = clampImported(
+          read('Morph.Rate', 0),
+          PARAM_RANGES.shapeBlend.shapePow,
+          'Morph.Rate',
+          unsupported,
+        )
+      }
+      shapeBlend.shapeEnd = 1
+    }
+    for (const key of ['Morph.TargetWidth', 'Morph.TargetHeight']) {
+      if (values.has(key) && read(key, 0) !== 0) {
+        unsupported.push(`${key} = ${values.get(key)} (the mouth size is set by R)`)
+      }
+    }
+
+    // Mesh
+    if (values.has('Mesh.AngularSegments')) {
+      meshResolution.slices = Math.round(
+        clampImported(
+          read('Mesh.AngularSegments', 0),
+          PARAM_RANGES.meshResolution.slices,
+          'Mesh.AngularSegments',
+          unsupported,
+        ),
+      )
+    }
+    if (values.has('Mesh.LengthSegments')) {
+      meshResolution.rings = Math.round(
+        clampImported(
+          read('Mesh.LengthSegments', 0),
+          PARAM_RANGES.meshResolution.rings,
+          'Mesh.LengthSegments',
+          unsupported,
+        ),
+      )
+    }
+    if (values.has('Mesh.WallThickness')) {
+      const thickness = read('Mesh.WallThickness', 0)
+      shellParams.enabled = thickness > 0
+      if (thickness > 0) {
+        shellParams.thickness = clampImported(
+          thickness,
+          PARAM_RANGES.shellParams.thickness,
+          'Mesh.WallThickness',
+          unsupported,
+        )
+      }
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown expression error'
+    return { success: false, unsupported, error: `ATH expression error: ${message}` }
+  }
+
+  // Quadrants only select the part of the horn ABEC simulates
+  used.add('Mesh.Quadrants')
+  for (const key of values.keys()) {
+    if (!used.has(key)) unsupported.push(key)
+  }
+  for (const key of skipped) unsupported.push(`${key} (block)`)
+
+  const state: WaveguideState = {
+    ...base,
+    horizontal,
+    vertical,
+    shapeBlend,
+    meshResolution,
+    shellParams,
+  }
+
+  const validation = validateWaveguideState(state)
+  if (!validation.valid) {
+    return { success: false, unsupported, error: 'Validation failed', validation }
+  }
+
+  return { success: true, state, unsupported }
+}
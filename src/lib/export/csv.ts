@@ -2,9 +2,11 @@
  * CSV Export for Waveguide Meshes
  * ================================
  *
- * Exports mesh data to CSV format suitable for CAD import and analysis.
+ * Exports mesh data to CSV format suitable for CAD import and analysis,
+ * and parameter sweep results for spreadsheets.
  */
 
+import { SWEEP_METRICS, type SweepMetrics, type SweepResult } from '../optimizer/sweep'
 import type { MeshData } from '../types/waveguide'
 
 /**
@@ -35,25 +37,38 @@ export function exportToCSV(meshData: MeshData | null): string {
   return csv
 }
 
+/** CSV column of each sweep metric */
+const SWEEP_COLUMNS: Record<keyof SweepMetrics, string> = {
+  depth: 'depth_mm',
+  mouthWidth: 'mouth_width_mm',
+  mouthHeight: 'mouth_height_mm',
+  areaRoughness: 'area_roughness',
+  pathSpread: 'path_spread_mm',
+}
+
 /**
- * Download CSV file to user's computer.
+ * Export a parameter sweep to CSV format.
  *
- * @param meshData - Generated mesh data
- * @param filename - Output filename (default: "waveguide.csv")
+ * Format: one row per grid point, columns named by field path and metric
+ * - <x field>[, <y field>]: swept values
+ * - depth_mm, mouth_width_mm, mouth_height_mm: dimensions
+ * - area_roughness: area-expansion roughness (dimensionless)
+ * - path_spread_mm: wall path-length spread
+ * Metrics are empty for invalid grid points.
+ *
+ * @param result - Evaluated sweep
+ * @returns CSV string with header and data rows
  */
-export function downloadCSV(meshData: MeshData | null, filename: string = 'waveguide.csv'): void {
-  const csv = exportToCSV(meshData)
-  if (!csv) return
-
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
-  const link = document.createElement('a')
-  const url = URL.createObjectURL(blob)
-
-  link.setAttribute('href', url)
-  link.setAttribute('download', filename)
-  link.style.visibility = 'hidden'
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
-  URL.revokeObjectURL(url)
+export function exportSweepToCSV(result: SweepResult): string {
+  const { config, cells } = result
+  const columns = SWEEP_METRICS.map(({ key }) => SWEEP_COLUMNS[key])
+  let csv = `${[config.x.path, ...(config.y ? [config.y.path] : []), ...columns].join(',')}\n`
+
+  for (const { x, y, metrics } of cells) {
+    const swept = config.y ? [x, y ?? 0] : [x]
+    const values = SWEEP_METRICS.map(({ key }) => (metrics ? metrics[key].toFixed(4) : ''))
+    csv += `${[...swept.map((v) => Number(v.toFixed(6))), ...values].join(',')}\n`
+  }
+
+  return csv
 }
@@ -0,0 +1,195 @@
+/**
+ * Baffle Cutout Export (DXF / SVG)
+ * =================================
+ *
+ * Exports the 2D cabinet baffle cutout for the waveguide as DXF (for CAM /
+ * CNC) or SVG (for printing a 1:1 template).
+ *
+ * The cutout is the outline of everything that has to pass through the
+ * baffle, plus the clearance from the mouth plate settings:
+ * - With the mouth plate: the shell body behind the plate's back face (and
+ *   the driver mounting plate, if any); the plate outline and screw
+ *   positions are included as reference
+ * - With the shell only: the whole shell
+ * - Without the shell: the waveguide surface
+ *
+ * Coordinates are in mm, seen from the front of the baffle (+X right, +Y up).
+ */
+
+import { surfaceRings } from '../math/mesh'
+import { mountOutline } from '../math/mount'
+import { baffleCutout, mouthPlateLayout, trimRingsAtPlane } from '../math/plate'
+import { generateShellMesh } from '../math/shell'
+import type { MeshData, ShellParams } from '../types/waveguide'
+
+/**
+ * Baffle cutout drawing data.
+ */
+export interface BaffleCutoutData {
+  /** Counter-clockwise cutout outline [mm] */
+  cutout: [number, number][]
+
+  /** Mouth plate outline (reference only), or null without the plate */
+  plate: [number, number][] | null
+
+  /** Screw hole centers in the baffle [mm] */
+  screws: [number, number][]
+
+  /** Screw diameter [mm] */
+  screwDiameter: number
+}
+
+/**
+ * Compute the baffle cutout for the current design.
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters (including the mouth plate)
+ * @returns Cutout drawing data, or null without mesh data
+ */
+export function computeBaffleCutout(
+  meshData: MeshData | null,
+  shellParams: ShellParams,
+): BaffleCutoutData | null {
+  if (!meshData) return null
+
+  const shellData = generateShellMesh(meshData, shellParams)
+  const plate = shellParams.mouthPlate
+  const flat = (ring: [number, number, number][]) =>
+    ring.slice(0, -1).map((p): [number, number] => [p[0], p[1]])
+
+  if (!shellData) {
+    return {
+      cutout: baffleCutout(surfaceRings(meshData).map(flat), plate.cutoutClearance),
+      plate: null,
+      screws: [],
+      screwDiameter: plate.screwDiameter,
+    }
+  }
+
+  const { innerRings, outerRings, mouthRingIndex } = shellData
+  const loops = shellData.throatMount ? [mountOutline(shellParams.throatMount)] : []
+
+  if (!shellData.mouthPlate) {
+    loops.push(...innerRings.map(flat), ...outerRings.map(flat))
+    return {
+      cutout: baffleCutout(loops, plate.cutoutClearance),
+      plate: null,
+      screws: [],
+      screwDiameter: plate.screwDiameter,
+    }
+  }
+
+  // Only the body behind the plate's back face passes through the baffle
+  const mouthRing = innerRings[mouthRingIndex]
+  const backZ = mouthRing[0][2] - plate.thickness
+  const body = trimRingsAtPlane(outerRings.slice(0, mouthRingIndex + 1), backZ) ?? outerRings
+  loops.push(...body.map(flat))
+
+  const layout = mouthPlateLayout(mouthRing, plate)
+  return {
+    cutout: baffleCutout(loops, plate.cutoutClearance),
+    plate: layout.outline,
+    screws: layout.screws,
+    screwDiameter: plate.screwDiameter,
+  }
+}
+
+/**
+ * Format a number for the drawing files.
+ */
+function fmt(value: number): string {
+  return value.toFixed(4)
+}
+
+/**
+ * Closed polyline as DXF (R12) POLYLINE/VERTEX/SEQEND entities.
+ */
+function dxfPolyline(points: [number, number][], layer: string): string[] {
+  const lines = ['0', 'POLYLINE', '8', layer, '66', '1', '70', '1', '10', '0', '20', '0', '30', '0']
+  for (const [x, y] of points) {
+    lines.push('0', 'VERTEX', '8', layer, '10', fmt(x), '20', fmt(y), '30', '0')
+  }
+  lines.push('0', 'SEQEND', '8', layer)
+  return lines
+}
+
+/**
+ * Export the baffle cutout to DXF.
+ *
+ * Plain ASCII DXF (AutoCAD R12 entities, units mm) with three layers:
+ * - CUTOUT: baffle opening (closed polyline)
+ * - PLATE: mouth plate outline (reference)
+ * - SCREWS: screw positions (circles at screw diameter)
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters (including the mouth plate)
+ * @returns DXF file content, or an empty string without mesh data
+ */
+export function exportCutoutToDXF(meshData: MeshData | null, shellParams: ShellParams): string {
+  const data = computeBaffleCutout(meshData, shellParams)
+  if (!data) return ''
+
+  const lines = ['0', 'SECTION', '2', 'HEADER', '9', '$ACADVER', '1', 'AC1009']
+  lines.push('9', '$INSUNITS', '70', '4', '0', 'ENDSEC')
+  lines.push('0', 'SECTION', '2', 'ENTITIES')
+
+  lines.push(...dxfPolyline(data.cutout, 'CUTOUT'))
+  if (data.plate) lines.push(...dxfPolyline(data.plate, 'PLATE'))
+  for (const [x, y] of data.screws) {
+    lines.push('0', 'CIRCLE', '8', 'SCREWS', '10', fmt(x), '20', fmt(y), '30', '0')
+    lines.push('40', fmt(data.screwDiameter / 2))
+  }
+
+  lines.push('0', 'ENDSEC', '0', 'EOF')
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Export the baffle cutout to SVG.
+ *
+ * The document size is given in mm so that it prints at 1:1. The cutout is
+ * drawn in black, the plate outline and screw positions in grey.
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters (including the mouth plate)
+ * @returns SVG document, or an empty string without mesh data
+ */
+export function exportCutoutToSVG(meshData: MeshData | null, shellParams: ShellParams): string {
+  const data = computeBaffleCutout(meshData, shellParams)
+  if (!data) return ''
+
+  // Frame everything drawn, with a small border
+  const all = [...data.cutout, ...(data.plate ?? [])]
+  const border = 10
+  const minX = Math.min(...all.map((p) => p[0])) - border
+  const maxX = Math.max(...all.map((p) => p[0])) + border
+  const minY = Math.min(...all.map((p) => p[1])) - border
+  const maxY = Math.max(...all.map((p) => p[1])) + border
+  const width = maxX - minX
+  const height = maxY - minY
+
+  // SVG y points down: flip so that +Y is up
+  const path = (points: [number, number][]) =>
+    `M ${points.map(([x, y]) => `${fmt(x)} ${fmt(-y)}`).join(' L ')} Z`
+
+  const elements = [
+    `  <path d="${path(data.cutout)}" fill="none" stroke="#000" stroke-width="0.3"/>`,
+  ]
+  if (data.plate) {
+    elements.push(
+      `  <path d="${path(data.plate)}" fill="none" stroke="#888" stroke-width="0.2" stroke-dasharray="4 2"/>`,
+    )
+  }
+  for (const [x, y] of data.screws) {
+    elements.push(
+      `  <circle cx="${fmt(x)}" cy="${fmt(-y)}" r="${fmt(data.screwDiameter / 2)}" fill="none" stroke="#888" stroke-width="0.2"/>`,
+    )
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}mm" height="${fmt(height)}mm" viewBox="${fmt(minX)} ${fmt(-maxY)} ${fmt(width)} ${fmt(height)}">
+  <title>Horn Designer - baffle cutout</title>
+${elements.join('\n')}
+</svg>
+`
+}
@@ -0,0 +1,216 @@
+/**
+ * Export Formats
+ * ==============
+ *
+ * The file formats of the app's export buttons (plus the project YAML and
+ * ATH config) as one table, from a design and its geometry to the file
+ * content. Used by the command line and by embedding tools; each format
+ * reports the same warnings the app shows after an export.
+ */
+
+import { tessellationIssues } from '../math/adaptive'
+import type { DesignGeometry } from '../math/design'
+import { printSections } from '../math/sections'
+import { shellIssues } from '../math/shell'
+import {
+  buildExportMesh,
+  checkManifold,
+  isClosedExport,
+  type ManifoldReport,
+  manifoldIssues,
+} from '../math/trimesh'
+import type { WaveguideState } from '../types/waveguide'
+import { exportTo3MF } from './3mf'
+import { exportToATH } from './ath'
+import { exportToCSV } from './csv'
+import { exportCutoutToDXF, exportCutoutToSVG } from './cutout'
+import { exportToGEO, exportToMSH } from './gmsh'
+import { exportToHornresp } from './hornresp'
+import { exportToOBJ } from './obj'
+import { exportToSTEP } from './step'
+import { exportToSTL } from './stl'
+import { exportToYAML } from './yaml'
+
+/**
+ * Content of an exported file.
+ */
+export interface ExportOutput {
+  /** File content */
+  data: string | Uint8Array
+
+  /** Problems worth reporting (the file is still written) */
+  warnings: string[]
+}
+
+/**
+ * One export format.
+ */
+export interface ExportFormat {
+  /** Format name (e.g. `stl`, used with --format on the command line) */
+  id: string
+
+  /** File name ending, appended to the design name (e.g. `.stl`, `-cutout.dxf`) */
+  suffix: string
+
+  /** Short description */
+  description: string
+
+  /** Write the file, or return null when the design has nothing to export */
+  write: (state: WaveguideState, geometry: DesignGeometry) => ExportOutput | null
+}
+
+/**
+ * Warnings of a mesh export: missed adaptive tolerance, omitted mount or
+ * mouth plate, and watertightness.
+ *
+ * @param format - Format name for the message
+ * @param state - Exported design
+ * @param geometry - Geometry of the design
+ * @param reports - Manifold check of each exported mesh
+ */
+function meshWarnings(
+  format: string,
+  state: WaveguideState,
+  { exportMeshData, shell }: DesignGeometry,
+  reports: ManifoldReport[],
+): string[] {
+  const closed = isClosedExport(state.shellParams)
+  const issues = reports.flatMap((report) => manifoldIssues(report, closed))
+  return [
+    ...tessellationIssues(exportMeshData, state.meshResolution.tolerance),
+    ...shellIssues(shell),
+    ...(issues.length > 0 ? [`${format} mesh is not watertight: ${issues.join(', ')}`] : []),
+  ]
+}
+
+/**
+ * Warnings of the single export mesh (OBJ, STL).
+ */
+function exportMeshWarnings(
+  format: string,
+  state: WaveguideState,
+  geometry: DesignGeometry,
+): string[] {
+  const report = checkManifold(buildExportMesh(geometry.exportMeshData, state.shellParams))
+  return meshWarnings(format, state, geometry, [report])
+}
+
+/**
+ * Text output, or null when the exporter produced nothing.
+ */
+function text(content: string, warnings: string[] = []): ExportOutput | null {
+  return content ? { data: content, warnings } : null
+}
+
+/** All formats, in the order of the app's export buttons */
+export const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'csv',
+    suffix: '.csv',
+    description: 'Mesh vertices (ring, slice, x, y, z, t)',
+    write: (_, { exportMeshData }) => text(exportToCSV(exportMeshData)),
+  },
+  {
+    id: 'obj',
+    suffix: '.obj',
+    description: 'Wavefront OBJ mesh (shell when enabled)',
+    write: (state, geometry) =>
+      text(
+        exportToOBJ(geometry.exportMeshData, state.shellParams),
+        exportMeshWarnings('OBJ', state, geometry),
+      ),
+  },
+  {
+    id: 'stl',
+    suffix: '.stl',
+    description: 'Binary STL mesh (shell when enabled)',
+    write: (state, geometry) => {
+      const data = new Uint8Array(exportToSTL(geometry.exportMeshData, state.shellParams))
+      return data.length > 0 ? { data, warnings: exportMeshWarnings('STL', state, geometry) } : null
+    },
+  },
+  {
+    id: '3mf',
+    suffix: '.3mf',
+    description: '3MF package, one object per print section',
+    write: (state, geometry) => {
+      const { exportMeshData } = geometry
+      const reports = printSections(exportMeshData, state.shellParams).map(checkManifold)
+      return {
+        data: exportTo3MF(exportMeshData, state),
+        warnings: meshWarnings('3MF', state, geometry, reports),
+      }
+    },
+  },
+  {
+    id: 'step',
+    suffix: '.step',
+    description: 'STEP B-spline surfaces (solid when the shell is enabled)',
+    write: (state, { surface, exportMeshData }) => {
+      const result = exportToSTEP(
+        surface,
+        exportMeshData,
+        state.shellParams,
+        state.meshResolution.stepTolerance,
+      )
+      if (!result) return null
+      const warnings =
+        result.omitted.length > 0 ? [`STEP without ${result.omitted.join(', ')}`] : []
+      return { data: result.content, warnings }
+    },
+  },
+  {
+    id: 'msh',
+    suffix: '.msh',
+    description: 'Gmsh simulation mesh with physical groups',
+    write: (state, { exportMeshData }) => text(exportToMSH(exportMeshData, state.meshResolution)),
+  },
+  {
+    id: 'geo',
+    suffix: '.geo',
+    description: 'Gmsh parametric geometry',
+    write: (state, { exportMeshData }) => text(exportToGEO(exportMeshData, state.meshResolution)),
+  },
+  {
+    id: 'hornresp',
+    suffix: '-hornresp.txt',
+    description: 'Hornresp record (fitted area segments)',
+    write: (state, { exportMeshData }) => text(exportToHornresp(exportMeshData, state)),
+  },
+  {
+    id: 'dxf',
+    suffix: '-cutout.dxf',
+    description: 'Baffle cutout drawing (DXF)',
+    write: (state, { exportMeshData }) =>
+      text(exportCutoutToDXF(exportMeshData, state.shellParams)),
+  },
+  {
+    id: 'svg',
+    suffix: '-cutout.svg',
+    description: 'Baffle cutout drawing (SVG, 1:1)',
+    write: (state, { exportMeshData }) =>
+      text(exportCutoutToSVG(exportMeshData, state.shellParams)),
+  },
+  {
+    id: 'yaml',
+    suffix: '.yaml',
+    description: 'Project file (upgraded to the current schema)',
+    write: (state) => text(exportToYAML(state)),
+  },
+  {
+    id: 'ath',
+    suffix: '.cfg',
+    description: 'ATH configuration',
+    write: (state) => text(exportToATH(state)),
+  },
+]
+
+/**
+ * Look up an export format.
+ *
+ * @param id - Format name (case-insensitive)
+ * @returns Format, or undefined for unknown names
+ */
+export function findFormat(id: string): ExportFormat | undefined {
+  return EXPORT_FORMATS.find((format) => format.id === id.toLowerCase())
+}
@@ -0,0 +1,251 @@
+/**
+ * Gmsh Export for BEM/FEM Simulation
+ * ==================================
+ *
+ * Exports the air path of the waveguide for acoustic solvers (bempp, Elmer,
+ * ABEC-style flows) in two forms:
+ * - .msh (format 4.1, ASCII): the meshed simulation surface, ready to load
+ * - .geo: a parametric Gmsh script of the same surfaces, with the maximum
+ *   frequency and elements per wavelength as variables, for remeshing in Gmsh
+ *
+ * Both carry the physical groups throat (1), wall (2), mouth (3) and
+ * baffle (4, only with the mouth flange); throat, wall and mouth enclose the
+ * air volume, see simulationMesh.ts. Coordinates are in millimetres.
+ */
+
+import {
+  apertureRing,
+  buildSimulationMesh,
+  elementSize,
+  SIMULATION_GROUPS,
+  SPEED_OF_SOUND,
+} from '../math/simulationMesh'
+import type { MeshData, MeshResolution } from '../types/waveguide'
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/** Gmsh element type of a 3-node triangle */
+const TRIANGLE = 2
+
+/**
+ * Format a coordinate (µm resolution).
+ */
+function fmt(value: number): string {
+  return value.toFixed(4)
+}
+
+/**
+ * Export the simulation mesh to Gmsh .msh (format 4.1).
+ *
+ * Each physical group is one surface entity; a node is listed in the block
+ * of the first entity that uses it (throat, wall, mouth, baffle order).
+ *
+ * @param meshData - Generated mesh data
+ * @param resolution - Mesh resolution (maximum frequency and elements per wavelength)
+ * @returns .msh file content
+ */
+export function exportToMSH(meshData: MeshData | null, resolution: MeshResolution): string {
+  if (!meshData) return ''
+
+  const size = elementSize(resolution.maxFrequency, resolution.elementsPerWavelength)
+  const mesh = buildSimulationMesh(meshData, size)
+  const entities = SIMULATION_GROUPS.map((name, k) => ({
+    name,
+    tag: k + 1,
+    triangles: mesh.groups[name],
+  })).filter((entity) => entity.triangles.length > 0)
+
+  // Assign nodes to entities
+  const owner = new Array<number>(mesh.vertices.length).fill(0)
+  const blocks = entities.map((entity) => {
+    const nodes: number[] = []
+    for (const triangle of entity.triangles) {
+      for (const v of triangle) {
+        if (owner[v] === 0) {
+          owner[v] = entity.tag
+          nodes.push(v)
+        }
+      }
+    }
+    return nodes
+  })
+  const nodeCount = blocks.reduce((sum, nodes) => sum + nodes.length, 0)
+  const elementCount = entities.reduce((sum, entity) => sum + entity.triangles.length, 0)
+
+  const lines = ['$MeshFormat', '4.1 0 8', '$EndMeshFormat']
+
+  lines.push('$PhysicalNames', String(entities.length))
+  for (const { name, tag } of entities) lines.push(`2 ${tag} "${name}"`)
+  lines.push('$EndPhysicalNames')
+
+  // Surface entities with their bounding boxes, one physical tag each
+  lines.push('$Entities', `0 0 ${entities.length} 0`)
+  for (const { tag, triangles } of entities) {
+    const min: Vec3 = [Infinity, Infinity, Infinity]
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity]
+    for (const triangle of triangles) {
+      for (const v of triangle) {
+        for (let k = 0; k < 3; k++) {
+          min[k] = Math.min(min[k], mesh.vertices[v][k])
+          max[k] = Math.max(max[k], mesh.vertices[v][k])
+        }
+      }
+    }
+    lines.push(`${tag} ${[...min, ...max].map(fmt).join(' ')} 1 ${tag} 0`)
+  }
+  lines.push('$EndEntities')
+
+  // Nodes (tags are 1-based vertex indices)
+  lines.push('$Nodes', `${entities.length} ${nodeCount} 1 ${mesh.vertices.length}`)
+  entities.forEach(({ tag }, k) => {
+    lines.push(`2 ${tag} 0 ${blocks[k].length}`)
+    for (const v of blocks[k]) lines.push(String(v + 1))
+    for (const v of blocks[k]) lines.push(mesh.vertices[v].map(fmt).join(' '))
+  })
+  lines.push('$EndNodes')
+
+  // Elements
+  lines.push('$Elements', `${entities.length} ${elementCount} 1 ${elementCount}`)
+  let element = 1
+  for (const { tag, triangles } of entities) {
+    lines.push(`2 ${tag} ${TRIANGLE} ${triangles.length}`)
+    for (const [a, b, c] of triangles) lines.push(`${element++} ${a + 1} ${b + 1} ${c + 1}`)
+  }
+  lines.push('$EndElements')
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Indices of the ring points closest to the quadrant boundaries (0°, 90°, 180°, 270°).
+ */
+function quadrantSplits(meshData: MeshData): number[] {
+  const { numSlices } = meshData
+  const thetas =
+    meshData.thetas ??
+    Array.from({ length: numSlices + 1 }, (_, j) => (2 * Math.PI * j) / numSlices)
+  const splits = [0]
+  for (let q = 1; q < 4; q++) {
+    const target = (q * Math.PI) / 2
+    let best = splits[q - 1] + 1
+    for (let j = best; j < numSlices; j++) {
+      if (Math.abs(thetas[j] - target) < Math.abs(thetas[best] - target)) best = j
+    }
+    splits.push(Math.min(best, numSlices - (4 - q)))
+  }
+  splits.push(numSlices)
+  return splits
+}
+
+/**
+ * Export the simulation surfaces as a parametric Gmsh .geo script.
+ *
+ * Every ring becomes four spline arcs (one per quadrant) through the mesh
+ * points; neighbouring rings are joined by straight lines at the quadrant
+ * boundaries, and each four-sided patch is a filling surface. The wall runs
+ * from the throat to the aperture ring, closed by the throat (plane surface)
+ * and the mouth (filling surface over the four aperture arcs). With the
+ * mouth flange, the lip and flange from the aperture on form the baffle,
+ * with their own points like in the .msh export.
+ *
+ * Mesh with `gmsh waveguide.geo -2` after adjusting fmax / epw.
+ *
+ * @param meshData - Generated mesh data
+ * @param resolution - Mesh resolution (initial maximum frequency and elements per wavelength)
+ * @returns .geo script content
+ */
+export function exportToGEO(meshData: MeshData | null, resolution: MeshResolution): string {
+  if (!meshData) return ''
+
+  const rings = [...meshData.rings.map((r) => r.ring), ...(meshData.flangeRings ?? [])]
+  const aperture = apertureRing(meshData)
+  const splits = quadrantSplits(meshData)
+  const { numSlices } = meshData
+  const groups = meshData.flangeRings
+    ? 'throat (1), wall (2), mouth (3), baffle (4)'
+    : 'throat (1), wall (2), mouth (3)'
+
+  const lines = [
+    '// R-OSSE Waveguide - Gmsh simulation geometry',
+    '// Generated by Horn Designer',
+    `// Units: mm. Physical groups: ${groups}`,
+    '',
+    `fmax = ${resolution.maxFrequency}; // Maximum frequency [Hz]`,
+    `epw = ${resolution.elementsPerWavelength}; // Elements per wavelength`,
+    `c0 = ${SPEED_OF_SOUND}; // Speed of sound [mm/s]`,
+    'lc = c0 / fmax / epw;',
+    '',
+    'Mesh.MeshSizeMax = lc;',
+    'Mesh.MshFileVersion = 4.1;',
+    '',
+  ]
+
+  let pointTag = 0
+  let curveTag = 0
+  let surfaceTag = 0
+
+  // Points, arcs and patches over a run of rings
+  const patches = (run: Vec3[][]): { arcs: number[][]; surfaces: number[] } => {
+    // Points (seam duplicates share the first point of their ring)
+    const points = run.map((ring) =>
+      ring.slice(0, numSlices).map(([x, y, z]) => {
+        lines.push(`Point(${++pointTag}) = {${fmt(x)}, ${fmt(y)}, ${fmt(z)}, lc};`)
+        return pointTag
+      }),
+    )
+    lines.push('')
+
+    // Ring arcs per quadrant, and lines between rings at the quadrant boundaries
+    const arcs = points.map((ids) =>
+      [0, 1, 2, 3].map((q) => {
+        const arc = [...ids, ids[0]].slice(splits[q], splits[q + 1] + 1)
+        lines.push(`${arc.length > 2 ? 'Spline' : 'Line'}(${++curveTag}) = {${arc.join(', ')}};`)
+        return curveTag
+      }),
+    )
+    const links = points.slice(0, -1).map((ids, i) =>
+      [0, 1, 2, 3].map((q) => {
+        lines.push(`Line(${++curveTag}) = {${ids[splits[q]]}, ${points[i + 1][splits[q]]}};`)
+        return curveTag
+      }),
+    )
+    lines.push('')
+
+    // Patches: loop ring i → ring i+1 along the first link (normal into the air path)
+    const surfaces: number[] = []
+    for (let i = 0; i < run.length - 1; i++) {
+      for (let q = 0; q < 4; q++) {
+        const loop = [links[i][q], arcs[i + 1][q], -links[i][(q + 1) % 4], -arcs[i][q]]
+        lines.push(`Curve Loop(${++surfaceTag}) = {${loop.join(', ')}};`)
+        lines.push(`Surface(${surfaceTag}) = {${surfaceTag}};`)
+        surfaces.push(surfaceTag)
+      }
+    }
+    lines.push('')
+    return { arcs, surfaces }
+  }
+
+  const wall = patches(rings.slice(0, aperture + 1))
+
+  // Caps: throat facing into the horn, mouth facing back to the throat
+  const throatLoop = wall.arcs[0]
+  lines.push(`Curve Loop(${++surfaceTag}) = {${throatLoop.join(', ')}};`)
+  lines.push(`Plane Surface(${surfaceTag}) = {${surfaceTag}};`)
+  const throat = surfaceTag
+  const mouthLoop = [...wall.arcs[aperture]].reverse().map((tag) => -tag)
+  lines.push(`Curve Loop(${++surfaceTag}) = {${mouthLoop.join(', ')}};`)
+  lines.push(`Surface(${surfaceTag}) = {${surfaceTag}};`)
+  const mouth = surfaceTag
+  lines.push('')
+
+  // Lip and flange from the aperture on, as a separate surface
+  const baffle = meshData.flangeRings ? patches(rings.slice(aperture)) : null
+
+  lines.push(`Physical Surface("throat", 1) = {${throat}};`)
+  lines.push(`Physical Surface("wall", 2) = {${wall.surfaces.join(', ')}};`)
+  lines.push(`Physical Surface("mouth", 3) = {${mouth}};`)
+  if (baffle) lines.push(`Physical Surface("baffle", 4) = {${baffle.surfaces.join(', ')}};`)
+
+  return `${lines.join('\n')}\n`
+}
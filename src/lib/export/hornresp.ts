@@ -0,0 +1,89 @@
+/**
+ * Hornresp Export
+ * ===============
+ *
+ * Exports the equivalent 1D area expansion (see area.ts) as a Hornresp
+ * record, for checking low-frequency loading. The record carries the
+ * radiation and horn sections:
+ * - S1..S5 areas [cm²] and segment lengths [cm], labelled by flare type
+ *   (Con / Exp), with the flare cutoff F of exponential segments
+ * - Unused segments are zero
+ * - Radiation into half space (2π) with the mouth flange, else free field (4π)
+ *
+ * Driver parameters are left to Hornresp.
+ */
+
+import { type AreaFit, areaProfile, fitAreaSegments } from '../math/area'
+import { SPEED_OF_SOUND } from '../math/simulationMesh'
+import type { MeshData, WaveguideState } from '../types/waveguide'
+
+/** Number of segments in a Hornresp horn */
+const HORNRESP_SEGMENTS = 4
+
+/**
+ * Format a value with two decimals (Hornresp style).
+ */
+function fmt(value: number): string {
+  return value.toFixed(2)
+}
+
+/**
+ * Write an area fit as a Hornresp record.
+ *
+ * @param fit - Segmented area fit (lengths in mm, areas in mm²)
+ * @param halfSpace - Radiate into 2π (baffle) instead of 4π
+ * @returns Hornresp record text
+ */
+export function writeHornresp(fit: AreaFit, halfSpace: boolean): string {
+  const lines = [
+    'ID=0.00',
+    '',
+    `Comment=Horn Designer R-OSSE waveguide, 1D area fit (max error ${(fit.maxError * 100).toFixed(1)} %)`,
+    '',
+    '|RADIATION, SOURCE AND MOUTH PARAMETER VALUES:',
+    '',
+    `Ang=${halfSpace ? '2.0' : '4.0'} x Pi`,
+    'Eg=2.83',
+    'Rg=0.00',
+    'Cir=0.00',
+    '',
+    '|HORN PARAMETER VALUES:',
+    '',
+  ]
+
+  for (let k = 0; k < HORNRESP_SEGMENTS; k++) {
+    const segment = fit.segments[k]
+    const a = k + 1
+    const b = k + 2
+    if (!segment) {
+      lines.push(`S${a}=0.00`, `S${b}=0.00`, 'Con=0.00', `F${a}${b}=0.00`)
+      continue
+    }
+
+    // mm² → cm², mm → cm
+    const length = segment.x1 - segment.x0
+    lines.push(`S${a}=${fmt(segment.s0 / 100)}`, `S${b}=${fmt(segment.s1 / 100)}`)
+    if (segment.flare === 'exponential') {
+      // S = S0·e^(m·x), cutoff f = c·m / (4π)
+      const cutoff = (SPEED_OF_SOUND * Math.log(segment.s1 / segment.s0)) / (4 * Math.PI * length)
+      lines.push(`Exp=${fmt(length / 10)}`, `F${a}${b}=${fmt(cutoff)}`)
+    } else {
+      lines.push(`Con=${fmt(length / 10)}`, `F${a}${b}=0.00`)
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Export the waveguide's area expansion as a Hornresp record.
+ *
+ * @param meshData - Generated mesh data
+ * @param state - Complete design (mouth flange selects the radiation angle)
+ * @returns Hornresp record text (empty without mesh data)
+ */
+export function exportToHornresp(meshData: MeshData | null, state: WaveguideState): string {
+  if (!meshData) return ''
+  const fit = fitAreaSegments(areaProfile(meshData), HORNRESP_SEGMENTS)
+  return writeHornresp(fit, state.mouthFlange.enabled)
+}
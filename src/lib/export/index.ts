@@ -5,6 +5,17 @@
  * Barrel export for mesh export functions.
  */
 
-export { downloadCSV, exportToCSV } from './csv'
-export { downloadOBJ, exportToOBJ } from './obj'
-export { downloadSTL, exportToSTL } from './stl'
+export { exportTo3MF, write3MF } from './3mf'
+export { exportToATH, importFromATH } from './ath'
+export { exportSweepToCSV, exportToCSV } from './csv'
+export {
+  computeBaffleCutout,
+  exportCutoutToDXF,
+  exportCutoutToSVG,
+} from './cutout'
+export { EXPORT_FORMATS, findFormat } from './formats'
+export { exportToGEO, exportToMSH } from './gmsh'
+export { exportToHornresp, writeHornresp } from './hornresp'
+export { exportToOBJ, writeOBJ } from './obj'
+export { exportToSTEP } from './step'
+export { exportToSTL, writeSTL } from './stl'
@@ -3,103 +3,51 @@
  * ================================
  *
  * Exports mesh data to Wavefront OBJ format for 3D applications.
+ *
+ * Geometry comes from the shared export mesh (see trimesh.ts), so the OBJ
+ * contains exactly the triangles of the STL export, including the shell,
+ * edge strips, driver mount and mouth plate when enabled.
  */
 
-import type { MeshData } from '../types/waveguide'
-
-/**
- * Normalize a 3D vector.
- */
-function normalize(x: number, y: number, z: number): [number, number, number] {
-  const len = Math.sqrt(x * x + y * y + z * z)
-  if (len < 1e-10) return [0, 0, 1] // Fallback for zero-length vectors
-  return [x / len, y / len, z / len]
-}
+import { buildExportMesh, type TriMesh } from '../math/trimesh'
+import type { MeshData, ShellParams } from '../types/waveguide'
 
 /**
- * Calculate vertex normals for smooth shading.
+ * Write an indexed triangle mesh as OBJ.
  *
- * For each vertex, we average the normals of all adjacent quad faces.
- * This produces smooth normals suitable for continuous surfaces like horns.
- *
- * @param meshData - Generated mesh data
- * @returns Array of normals [nx, ny, nz] for each vertex
+ * @param mesh - Indexed triangle mesh
+ * @returns OBJ format string
  */
-function calculateVertexNormals(meshData: MeshData): [number, number, number][] {
-  const { rings, numSlices } = meshData
-  const vertsPerRing = numSlices + 1
-  const totalVerts = rings.length * vertsPerRing
-
-  // Initialize normal accumulator for each vertex
-  const normals: [number, number, number][] = Array(totalVerts)
-    .fill(null)
-    .map(() => [0, 0, 0])
-
-  // Process each quad face and accumulate normals
-  for (let ri = 0; ri < rings.length - 1; ri++) {
-    for (let si = 0; si < numSlices; si++) {
-      // Get the four vertices of this quad (counter-clockwise)
-      const a = ri * vertsPerRing + si
-      const b = ri * vertsPerRing + si + 1
-      const c = (ri + 1) * vertsPerRing + si + 1
-      const d = (ri + 1) * vertsPerRing + si
-
-      const vA = rings[ri].ring[si]
-      const vB = rings[ri].ring[si + 1]
-      const vD = rings[ri + 1].ring[si]
-
-      // Calculate two edge vectors from the quad
-      // Edge 1: A → B
-      const e1x = vB[0] - vA[0]
-      const e1y = vB[1] - vA[1]
-      const e1z = vB[2] - vA[2]
-
-      // Edge 2: A → D
-      const e2x = vD[0] - vA[0]
-      const e2y = vD[1] - vA[1]
-      const e2z = vD[2] - vA[2]
-
-      // Face normal = cross product (e1 × e2)
-      let nx = e1y * e2z - e1z * e2y
-      let ny = e1z * e2x - e1x * e2z
-      let nz = e1x * e2y - e1y * e2x
-
-      // Normalize face normal
-      ;[nx, ny, nz] = normalize(nx, ny, nz)
-
-      // Accumulate this face normal to all four vertices
-      normals[a][0] += nx
-      normals[a][1] += ny
-      normals[a][2] += nz
-
-      normals[b][0] += nx
-      normals[b][1] += ny
-      normals[b][2] += nz
-
-      normals[c][0] += nx
-      normals[c][1] += ny
-      normals[c][2] += nz
-
-      normals[d][0] += nx
-      normals[d][1] += ny
-      normals[d][2] += nz
-    }
+export function writeOBJ(mesh: TriMesh): string {
+  const lines = [
+    '# R-OSSE Waveguide Mesh',
+    '# Generated by Horn Designer',
+    '# https://github.com/taryune/horn-designer',
+    '',
+  ]
+
+  for (const [px, py, pz] of mesh.vertices) {
+    lines.push(`v ${px.toFixed(4)} ${py.toFixed(4)} ${pz.toFixed(4)}`)
   }
+  lines.push('')
 
-  // Normalize all accumulated vertex normals
-  for (let i = 0; i < totalVerts; i++) {
-    normals[i] = normalize(normals[i][0], normals[i][1], normals[i][2])
+  // OBJ uses 1-based indexing
+  for (const [a, b, c] of mesh.triangles) {
+    lines.push(`f ${a + 1} ${b + 1} ${c + 1}`)
   }
 
-  return normals
+  return `${lines.join('\n')}\n`
 }
 
 /**
  * Export mesh to Wavefront OBJ format.
  *
- * Creates a quad mesh with:
- * - Vertex list (v x y z)
- * - Face list (f v1 v2 v3 v4)
+ * Creates an indexed triangle mesh with:
+ * - Vertex list (v x y z), seam vertices shared
+ * - Face list (f v1 v2 v3), counter-clockwise seen from outside
+ *
+ * The mouth flange (if enabled) is written as further rings past the mouth.
+ * Normals are left to the importing application (smooth shading).
  *
  * Coordinate system:
  * - x: horizontal (cross-section)
@@ -107,73 +55,10 @@ function calculateVertexNormals(meshData: MeshData): [number, number, number][]
  * - z: axial (along horn)
  *
  * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters
  * @returns OBJ format string
  */
-export function exportToOBJ(meshData: MeshData | null): string {
+export function exportToOBJ(meshData: MeshData | null, shellParams: ShellParams): string {
   if (!meshData) return ''
-
-  const { rings, numSlices } = meshData
-  let obj = '# R-OSSE Waveguide Mesh\n'
-  obj += '# Generated by Horn Designer\n'
-  obj += '# https://github.com/taryune/horn-designer\n'
-  obj += '# Exported with vertex normals for smooth shading\n\n'
-
-  // Write vertices
-  for (const { ring } of rings) {
-    for (const [px, py, pz] of ring) {
-      obj += `v ${px.toFixed(4)} ${py.toFixed(4)} ${pz.toFixed(4)}\n`
-    }
-  }
-
-  obj += '\n'
-
-  // Calculate and write vertex normals
-  const normals = calculateVertexNormals(meshData)
-  for (const [nx, ny, nz] of normals) {
-    obj += `vn ${nx.toFixed(6)} ${ny.toFixed(6)} ${nz.toFixed(6)}\n`
-  }
-
-  obj += '\n'
-
-  // Enable smooth shading
-  obj += 's 1\n\n'
-
-  // Write faces (quads connecting adjacent rings)
-  // Format: f v1//vn1 v2//vn2 v3//vn3 v4//vn4
-  const vertsPerRing = numSlices + 1
-  for (let ri = 0; ri < rings.length - 1; ri++) {
-    for (let si = 0; si < numSlices; si++) {
-      // OBJ uses 1-based indexing
-      const a = ri * vertsPerRing + si + 1
-      const b = ri * vertsPerRing + si + 2
-      const c = (ri + 1) * vertsPerRing + si + 2
-      const d = (ri + 1) * vertsPerRing + si + 1
-      obj += `f ${a}//${a} ${b}//${b} ${c}//${c} ${d}//${d}\n`
-    }
-  }
-
-  return obj
-}
-
-/**
- * Download OBJ file to user's computer.
- *
- * @param meshData - Generated mesh data
- * @param filename - Output filename (default: "waveguide.obj")
- */
-export function downloadOBJ(meshData: MeshData | null, filename: string = 'waveguide.obj'): void {
-  const obj = exportToOBJ(meshData)
-  if (!obj) return
-
-  const blob = new Blob([obj], { type: 'text/plain;charset=utf-8;' })
-  const link = document.createElement('a')
-  const url = URL.createObjectURL(blob)
-
-  link.setAttribute('href', url)
-  link.setAttribute('download', filename)
-  link.style.visibility = 'hidden'
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
-  URL.revokeObjectURL(url)
+  return writeOBJ(buildExportMesh(meshData, shellParams))
 }
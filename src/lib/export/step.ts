@@ -0,0 +1,293 @@
+/**
+ * STEP (AP214) Export for Waveguide Solids
+ * =========================================
+ *
+ * Exports the waveguide as exact B-spline geometry in a STEP AP214 file, so
+ * that CAD tools (FreeCAD, Fusion, SolidWorks...) import an editable body
+ * instead of a triangle mesh.
+ *
+ * The waveguide surface (and the outer shell wall) are fitted with bicubic
+ * B-spline surfaces (see surfaceFit.ts). The file then contains:
+ * - With the shell: a closed solid (MANIFOLD_SOLID_BREP) bounded by the
+ *   inner wall, the outer wall and ruled end faces at throat and mouth
+ * - Without the shell: the waveguide surface as an open surface model
+ *
+ * Each closed surface is a single face with a seam at θ = 0: its boundary
+ * loop runs along both end curves and twice along the seam.
+ *
+ * The mouth flange, driver mount and mouth plate are mesh-only features and
+ * are not part of the STEP body.
+ */
+
+import type { BSplineCurve, BSplineSurface } from '../math/bspline'
+import { boundaryCurveU, ruledSurface, seamCurve } from '../math/bspline'
+import type { SurfaceEvaluator } from '../math/mesh'
+import { generateShellMesh } from '../math/shell'
+import { fitWaveguideSurfaces } from '../math/surfaceFit'
+import type { MeshData, ShellParams } from '../types/waveguide'
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/**
+ * STEP export result.
+ */
+export interface StepExportResult {
+  /** STEP file content */
+  content: string
+
+  /** Largest sampled distance between the exact and the fitted surfaces [mm] */
+  maxDeviation: number
+
+  /** Whether the file contains a closed solid (shell enabled) */
+  solid: boolean
+
+  /** Enabled features that are not part of the STEP body */
+  omitted: string[]
+}
+
+/**
+ * Format a number as a STEP real (always with a decimal point).
+ */
+function real(value: number): string {
+  const [mantissa, exponent] = Number(value.toPrecision(12)).toString().split('e')
+  const m = mantissa.includes('.') ? mantissa : `${mantissa}.`
+  return exponent ? `${m}E${exponent}` : m
+}
+
+/**
+ * Distinct knot values and their multiplicities.
+ */
+function knotMultiplicities(knots: number[]): { values: number[]; mults: number[] } {
+  const values: number[] = []
+  const mults: number[] = []
+  for (const k of knots) {
+    if (values.length > 0 && k === values[values.length - 1]) mults[mults.length - 1]++
+    else {
+      values.push(k)
+      mults.push(1)
+    }
+  }
+  return { values, mults }
+}
+
+/**
+ * Writer for the DATA section: numbers entities as they are added.
+ */
+function createEntityWriter() {
+  const lines: string[] = []
+  const add = (entity: string): string => {
+    const id = `#${lines.length + 1}`
+    lines.push(`${id}=${entity};`)
+    return id
+  }
+  return { lines, add }
+}
+
+type EntityWriter = ReturnType<typeof createEntityWriter>
+
+function writePoint(w: EntityWriter, p: Vec3): string {
+  return w.add(`CARTESIAN_POINT('',(${p.map(real).join(',')}))`)
+}
+
+function writeCurve(w: EntityWriter, curve: BSplineCurve, closed: boolean): string {
+  const points = curve.controlPoints.map((p) => writePoint(w, p))
+  const { values, mults } = knotMultiplicities(curve.knots)
+  return w.add(
+    `B_SPLINE_CURVE_WITH_KNOTS('',${curve.degree},(${points.join(',')}),.UNSPECIFIED.,` +
+      `${closed ? '.T.' : '.F.'},.F.,(${mults.join(',')}),(${values.map(real).join(',')}),.UNSPECIFIED.)`,
+  )
+}
+
+function writeSurface(w: EntityWriter, surface: BSplineSurface): string {
+  const rows = surface.controlPoints.map((row) => `(${row.map((p) => writePoint(w, p)).join(',')})`)
+  const u = knotMultiplicities(surface.knotsU)
+  const v = knotMultiplicities(surface.knotsV)
+  return w.add(
+    `B_SPLINE_SURFACE_WITH_KNOTS('',${surface.degreeU},${surface.degreeV},(${rows.join(',')}),` +
+      `.UNSPECIFIED.,.F.,.T.,.F.,(${u.mults.join(',')}),(${v.mults.join(',')}),` +
+      `(${u.values.map(real).join(',')}),(${v.values.map(real).join(',')}),.UNSPECIFIED.)`,
+  )
+}
+
+/**
+ * Closed end curve of a surface (u = 0 or u = 1) as an edge with one vertex.
+ */
+function writeRingEdge(w: EntityWriter, curve: BSplineCurve, vertex: string): string {
+  return w.add(`EDGE_CURVE('',${vertex},${vertex},${writeCurve(w, curve, true)},.T.)`)
+}
+
+/**
+ * Face of a surface closed in v, bounded by its end edges and its seam.
+ *
+ * Seen against the face normal, the loop runs counter-clockwise in (u, v):
+ * seam forward (v = 0), end edge forward (u = 1), seam backward (v = 1),
+ * start edge backward (u = 0). A face oriented against the surface normal
+ * uses the reversed loop.
+ */
+function writeFace(
+  w: EntityWriter,
+  surface: BSplineSurface,
+  startEdge: string,
+  endEdge: string,
+  seamEdge: string,
+  sameSense: boolean,
+): string {
+  const oriented = (edge: string, forward: boolean) =>
+    w.add(`ORIENTED_EDGE('',*,*,${edge},${forward ? '.T.' : '.F.'})`)
+
+  const loop: [string, boolean][] = [
+    [seamEdge, true],
+    [endEdge, true],
+    [seamEdge, false],
+    [startEdge, false],
+  ]
+  if (!sameSense) {
+    loop.reverse()
+    for (const entry of loop) entry[1] = !entry[1]
+  }
+
+  const edges = loop.map(([edge, forward]) => oriented(edge, forward))
+  const edgeLoop = w.add(`EDGE_LOOP('',(${edges.join(',')}))`)
+  const bound = w.add(`FACE_OUTER_BOUND('',${edgeLoop},.T.)`)
+  const surf = writeSurface(w, surface)
+  return w.add(`ADVANCED_FACE('',(${bound}),${surf},${sameSense ? '.T.' : '.F.'})`)
+}
+
+/**
+ * Export the waveguide to STEP (AP214).
+ *
+ * Orientation: the fitted surfaces have u from throat to mouth and v
+ * counter-clockwise around +Z, so their normal (Su × Sv) points into the
+ * waveguide. Faces are oriented so that every face normal points out of the
+ * solid (into the air path for the inner wall).
+ *
+ * @param surface - Waveguide surface evaluator
+ * @param meshData - Generated mesh data (its ring grid starts the fit)
+ * @param shellParams - Shell parameters (thickness and enabled features)
+ * @param tolerance - Fit tolerance [mm]
+ * @returns STEP content with the fit deviation, or null without data
+ */
+export function exportToSTEP(
+  surface: SurfaceEvaluator | null,
+  meshData: MeshData | null,
+  shellParams: ShellParams,
+  tolerance: number,
+): StepExportResult | null {
+  if (!surface || !meshData) return null
+
+  const shellData = generateShellMesh(meshData, shellParams)
+  const fit = fitWaveguideSurfaces(
+    surface,
+    meshData,
+    shellData ? shellParams.thickness : 0,
+    tolerance,
+  )
+
+  const omitted: string[] = []
+  if (meshData.flangeRings) omitted.push('mouth flange')
+  if (shellData?.throatMount) omitted.push('driver mount')
+  if (shellData?.mouthPlate) omitted.push('mouth plate')
+
+  const w = createEntityWriter()
+
+  // Product structure
+  const appContext = w.add(
+    "APPLICATION_CONTEXT('core data for automotive mechanical design processes')",
+  )
+  w.add(
+    `APPLICATION_PROTOCOL_DEFINITION('international standard','automotive_design',2000,${appContext})`,
+  )
+  const productContext = w.add(`PRODUCT_CONTEXT('',${appContext},'mechanical')`)
+  const product = w.add(`PRODUCT('waveguide','R-OSSE waveguide','',(${productContext}))`)
+  w.add(`PRODUCT_RELATED_PRODUCT_CATEGORY('part',$,(${product}))`)
+  const formation = w.add(`PRODUCT_DEFINITION_FORMATION('','',${product})`)
+  const definitionContext = w.add(
+    `PRODUCT_DEFINITION_CONTEXT('part definition',${appContext},'design')`,
+  )
+  const definition = w.add(`PRODUCT_DEFINITION('design','',${formation},${definitionContext})`)
+  const definitionShape = w.add(`PRODUCT_DEFINITION_SHAPE('','',${definition})`)
+
+  // Units (mm, rad, sr) and model accuracy
+  const lengthUnit = w.add('(LENGTH_UNIT()NAMED_UNIT(*)SI_UNIT(.MILLI.,.METRE.))')
+  const angleUnit = w.add('(NAMED_UNIT(*)PLANE_ANGLE_UNIT()SI_UNIT($,.RADIAN.))')
+  const solidAngleUnit = w.add('(NAMED_UNIT(*)SI_UNIT($,.STERADIAN.)SOLID_ANGLE_UNIT())')
+  const uncertainty = w.add(
+    `UNCERTAINTY_MEASURE_WITH_UNIT(LENGTH_MEASURE(1.E-03),${lengthUnit},'distance_accuracy_value','confusion accuracy')`,
+  )
+  const geometricContext = w.add(
+    `(GEOMETRIC_REPRESENTATION_CONTEXT(3)GLOBAL_UNCERTAINTY_ASSIGNED_CONTEXT((${uncertainty}))` +
+      `GLOBAL_UNIT_ASSIGNED_CONTEXT((${lengthUnit},${angleUnit},${solidAngleUnit}))REPRESENTATION_CONTEXT('',''))`,
+  )
+  const origin = w.add(
+    `AXIS2_PLACEMENT_3D('',${writePoint(w, [0, 0, 0])},${w.add("DIRECTION('',(0.,0.,1.))")},${w.add("DIRECTION('',(1.,0.,0.))")})`,
+  )
+
+  // Topology: one vertex per end curve, seams between them
+  const vertex = (p: Vec3) => w.add(`VERTEX_POINT('',${writePoint(w, p)})`)
+  const seamEdge = (from: string, to: string, curve: BSplineCurve) =>
+    w.add(`EDGE_CURVE('',${from},${to},${writeCurve(w, curve, false)},.T.)`)
+
+  const innerThroat = boundaryCurveU(fit.inner, 'start')
+  const innerMouth = boundaryCurveU(fit.inner, 'end')
+  const innerThroatVertex = vertex(innerThroat.controlPoints[0])
+  const innerMouthVertex = vertex(innerMouth.controlPoints[0])
+  const innerThroatEdge = writeRingEdge(w, innerThroat, innerThroatVertex)
+  const innerMouthEdge = writeRingEdge(w, innerMouth, innerMouthVertex)
+  const innerSeam = seamEdge(innerThroatVertex, innerMouthVertex, seamCurve(fit.inner))
+
+  let representation: string
+  if (fit.outer) {
+    const outerThroat = boundaryCurveU(fit.outer, 'start')
+    const outerMouth = boundaryCurveU(fit.outer, 'end')
+    const outerThroatVertex = vertex(outerThroat.controlPoints[0])
+    const outerMouthVertex = vertex(outerMouth.controlPoints[0])
+    const outerThroatEdge = writeRingEdge(w, outerThroat, outerThroatVertex)
+    const outerMouthEdge = writeRingEdge(w, outerMouth, outerMouthVertex)
+    const outerSeam = seamEdge(outerThroatVertex, outerMouthVertex, seamCurve(fit.outer))
+
+    // End faces: ruled from the inner to the outer end curve (normal along the wall direction)
+    const throatFace = ruledSurface(innerThroat, outerThroat)
+    const mouthFace = ruledSurface(innerMouth, outerMouth)
+    const throatSeam = seamEdge(innerThroatVertex, outerThroatVertex, seamCurve(throatFace))
+    const mouthSeam = seamEdge(innerMouthVertex, outerMouthVertex, seamCurve(mouthFace))
+
+    const faces = [
+      writeFace(w, fit.inner, innerThroatEdge, innerMouthEdge, innerSeam, true),
+      writeFace(w, fit.outer, outerThroatEdge, outerMouthEdge, outerSeam, false),
+      writeFace(w, throatFace, innerThroatEdge, outerThroatEdge, throatSeam, false),
+      writeFace(w, mouthFace, innerMouthEdge, outerMouthEdge, mouthSeam, true),
+    ]
+    const shell = w.add(`CLOSED_SHELL('',(${faces.join(',')}))`)
+    const solid = w.add(`MANIFOLD_SOLID_BREP('waveguide',${shell})`)
+    representation = w.add(
+      `ADVANCED_BREP_SHAPE_REPRESENTATION('',(${origin},${solid}),${geometricContext})`,
+    )
+  } else {
+    const face = writeFace(w, fit.inner, innerThroatEdge, innerMouthEdge, innerSeam, true)
+    const shell = w.add(`OPEN_SHELL('',(${face}))`)
+    const model = w.add(`SHELL_BASED_SURFACE_MODEL('waveguide',(${shell}))`)
+    representation = w.add(
+      `MANIFOLD_SURFACE_SHAPE_REPRESENTATION('',(${origin},${model}),${geometricContext})`,
+    )
+  }
+  w.add(`SHAPE_DEFINITION_REPRESENTATION(${definitionShape},${representation})`)
+
+  const timestamp = new Date().toISOString().slice(0, 19)
+  const description = `R-OSSE waveguide, B-spline fit, max deviation ${fit.maxDeviation.toFixed(4)} mm`
+  const content = [
+    'ISO-10303-21;',
+    'HEADER;',
+    `FILE_DESCRIPTION(('${description}'),'2;1');`,
+    `FILE_NAME('waveguide.step','${timestamp}',(''),(''),'Horn Designer','Horn Designer','');`,
+    "FILE_SCHEMA(('AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }'));",
+    'ENDSEC;',
+    'DATA;',
+    ...w.lines,
+    'ENDSEC;',
+    'END-ISO-10303-21;',
+    '',
+  ].join('\n')
+
+  return { content, maxDeviation: fit.maxDeviation, solid: fit.outer !== null, omitted }
+}
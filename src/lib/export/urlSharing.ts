@@ -2,11 +2,14 @@
  * URL Sharing for Waveguide Designer
  * ==================================
  * Compresses waveguide state for shareable URLs using LZ-string.
+ *
+ * The payload is `{ schemaVersion, state }`; links made before schema
+ * versions existed hold the bare state and are read as version 1.
  */
 
 import * as LZString from 'lz-string'
 import type { WaveguideState } from '../types/waveguide'
-import { validateWaveguideState } from '../validation/waveguideValidator'
+import { SCHEMA_VERSION, upgradeState } from '../validation/migrations'
 
 /**
  * Compress waveguide state to URL-safe string.
@@ -15,12 +18,13 @@ import { validateWaveguideState } from '../validation/waveguideValidator'
  * @returns Compressed, URL-encoded string
  */
 export function compressStateToURL(state: WaveguideState): string {
-  const json = JSON.stringify(state)
+  const json = JSON.stringify({ schemaVersion: SCHEMA_VERSION, state })
   return LZString.compressToEncodedURIComponent(json)
 }
 
 /**
  * Decompress state from URL parameter.
+ * Upgrades states shared with an older schema.
  * Returns null if decompression or validation fails.
  *
  * @param compressed - Compressed URL parameter
@@ -34,30 +38,53 @@ export function decompressStateFromURL(compressed: string): WaveguideState | nul
     }
 
     const parsed = JSON.parse(decompressed)
-    const validation = validateWaveguideState(parsed)
+    const versioned = parsed && typeof parsed === 'object' && 'schemaVersion' in parsed
+    const { state, validation } = versioned
+      ? upgradeState(parsed.state, parsed.schemaVersion)
+      : upgradeState(parsed, 1)
 
-    if (!validation.valid) {
+    if (!state) {
       console.error('Invalid state from URL:', validation.errors)
       return null
     }
+    if (validation.warnings.length > 0) {
+      console.warn('Upgraded state from URL:', validation.warnings)
+    }
 
-    return parsed as WaveguideState
+    return state
   } catch (error) {
     console.error('Failed to decompress URL state:', error)
     return null
   }
 }
 
+/**
+ * Compressed design of a pasted share link.
+ * Accepts a full URL or the bare 'design' parameter.
+ *
+ * @param text - Share link or compressed design
+ * @returns Compressed design (empty if the URL has none)
+ */
+export function designParamFromLink(text: string): string {
+  const trimmed = text.trim()
+  try {
+    return new URL(trimmed).searchParams.get('design') ?? ''
+  } catch {
+    return trimmed
+  }
+}
+
 /**
  * Generate shareable URL for current design.
  * Adds compressed state as 'design' query parameter.
  *
  * @param state - Complete waveguide state
+ * @param baseUrl - Page the link opens (e.g. the app's current location)
  * @returns Full URL with compressed state parameter
  */
-export function generateShareableURL(state: WaveguideState): string {
+export function generateShareableURL(state: WaveguideState, baseUrl: string): string {
   const compressed = compressStateToURL(state)
-  const url = new URL(window.location.href)
+  const url = new URL(baseUrl)
 
   // Clear existing design parameter and set new one
   url.searchParams.set('design', compressed)
@@ -5,9 +5,9 @@
  */
 
 import * as yaml from 'js-yaml'
-import type { WaveguideExport, WaveguideState } from '../types/waveguide'
+import type { WaveguideExport, WaveguideMetadata, WaveguideState } from '../types/waveguide'
+import { SCHEMA_VERSION, upgradeState } from '../validation/migrations'
 import type { ValidationResult } from '../validation/waveguideValidator'
-import { validateWaveguideState } from '../validation/waveguideValidator'
 
 /** Maximum YAML file size (100KB) */
 const MAX_YAML_SIZE = 100 * 1024
@@ -28,7 +28,7 @@ export interface YAMLImportResult {
   /** Error message (only if success = false) */
   error?: string
 
-  /** Validation result with detailed errors */
+  /** Validation result with detailed errors and migration warnings */
   validation?: ValidationResult
 }
 
@@ -56,6 +56,7 @@ export function exportToYAML(state: WaveguideState): string {
   const exportData: WaveguideExport = {
     metadata: {
       version: APP_VERSION,
+      schemaVersion: SCHEMA_VERSION,
       created: new Date().toISOString(),
       appName: 'Horn Designer',
       description: 'R-OSSE Dual Modulated Waveguide',
@@ -115,6 +116,9 @@ function addInlineComments(yamlContent: string): string {
     } else if (line.includes('  shellParams:')) {
       commented.push('')
       commented.push('  # Shell Thickness for CAD Export')
+    } else if (line.includes('  mouthFlange:')) {
+      commented.push('')
+      commented.push('  # Mouth Flange (roll-back and flat baffle)')
     }
 
     // Add parameter comments
@@ -210,23 +214,148 @@ function addParameterComment(line: string): string {
   if (line.includes('slices:')) {
     return line.replace(/slices: (.+)/, 'slices: $1  # Angular divisions (36-256)')
   }
+  if (line.includes('distribution:')) {
+    return line.replace(
+      /distribution: (.+)/,
+      'distribution: $1  # uniform-t | uniform-depth | arc-length | curvature',
+    )
+  }
+  if (line.includes('adaptive:')) {
+    return line.replace(/adaptive: (.+)/, 'adaptive: $1  # Curvature-adaptive export mesh')
+  }
+  if (line.includes('stepTolerance:')) {
+    return line.replace(
+      /stepTolerance: (.+)/,
+      'stepTolerance: $1  # STEP fit deviation [mm] (0.005-1)',
+    )
+  }
+  if (line.includes('maxFrequency:')) {
+    return line.replace(
+      /maxFrequency: (.+)/,
+      'maxFrequency: $1  # Simulation mesh frequency [Hz] (1000-40000)',
+    )
+  }
+  if (line.includes('elementsPerWavelength:')) {
+    return line.replace(
+      /elementsPerWavelength: (.+)/,
+      'elementsPerWavelength: $1  # Simulation mesh density (3-12)',
+    )
+  }
+  if (line.includes('tolerance:')) {
+    return line.replace(/tolerance: (.+)/, 'tolerance: $1  # Chordal deviation [mm] (0.02-2)')
+  }
+
+  // Mouth flange
+  if (line.includes('radius:')) {
+    return line.replace(/radius: (.+)/, 'radius: $1  # Roll-back radius [mm] (2-60)')
+  }
+  if (line.includes('width:')) {
+    return line.replace(/width: (.+)/, 'width: $1  # Baffle outer width [mm] (60-800)')
+  }
+  if (line.includes('height:')) {
+    return line.replace(/height: (.+)/, 'height: $1  # Baffle outer height [mm] (60-800)')
+  }
+
+  // Throat driver mount (nested in shell params, so matched before the shell wall thickness)
+  if (line.includes('      thickness:')) {
+    return line.replace(/thickness: (.+)/, 'thickness: $1  # Mounting plate thickness [mm] (2-20)')
+  }
+  if (line.includes('shape:')) {
+    return line.replace(/shape: (.+)/, 'shape: $1  # circle | square')
+  }
+  if (line.includes('size:')) {
+    return line.replace(/size: (.+)/, 'size: $1  # Plate diameter / side [mm] (40-300)')
+  }
+  if (line.includes('cornerRadius:')) {
+    return line.replace(/cornerRadius: (.+)/, 'cornerRadius: $1  # Corner radius [mm] (0-50)')
+  }
+  if (line.includes('pattern:')) {
+    return line.replace(
+      /pattern: (.+)/,
+      'pattern: $1  # 1in-2bolt | 1in-3bolt | 1in-4bolt | 1.4in-4bolt | 2in-4bolt | custom',
+    )
+  }
+  if (line.includes('count:')) {
+    return line.replace(/count: (.+)/, 'count: $1  # Number of bolt holes (1-12)')
+  }
+  if (line.includes('circleDiameter:')) {
+    return line.replace(/circleDiameter: (.+)/, 'circleDiameter: $1  # Bolt circle [mm] (20-250)')
+  }
+  if (line.includes('holeDiameter:')) {
+    return line.replace(/holeDiameter: (.+)/, 'holeDiameter: $1  # Through-hole [mm] (2-14)')
+  }
+  if (line.includes('rotation:')) {
+    return line.replace(/rotation: (.+)/, 'rotation: $1  # First hole angle [deg] (0-180)')
+  }
+
+  // Mouth mounting plate (plate thickness and corner radius are matched above)
+  if (line.includes('margin:')) {
+    return line.replace(/margin: (.+)/, 'margin: $1  # Plate beyond the mouth [mm] (5-100)')
+  }
+  if (line.includes('screwsX:')) {
+    return line.replace(/screwsX: (.+)/, 'screwsX: $1  # Screws along top/bottom (2-8)')
+  }
+  if (line.includes('screwsY:')) {
+    return line.replace(/screwsY: (.+)/, 'screwsY: $1  # Screws along left/right (2-8)')
+  }
+  if (line.includes('screwInset:')) {
+    return line.replace(/screwInset: (.+)/, 'screwInset: $1  # Screw center to edge [mm] (4-50)')
+  }
+  if (line.includes('screwDiameter:')) {
+    return line.replace(/screwDiameter: (.+)/, 'screwDiameter: $1  # Screw hole [mm] (2-10)')
+  }
+  if (line.includes('counterboreDiameter:')) {
+    return line.replace(
+      /counterboreDiameter: (.+)/,
+      'counterboreDiameter: $1  # Counterbore [mm] (0-20, 0 = none)',
+    )
+  }
+  if (line.includes('counterboreDepth:')) {
+    return line.replace(
+      /counterboreDepth: (.+)/,
+      'counterboreDepth: $1  # Counterbore depth [mm] (0-10)',
+    )
+  }
+  if (line.includes('cutoutClearance:')) {
+    return line.replace(
+      /cutoutClearance: (.+)/,
+      'cutoutClearance: $1  # Baffle cutout clearance [mm] (0-10)',
+    )
+  }
 
   // Shell params
   if (line.includes('thickness:')) {
     return line.replace(/thickness: (.+)/, 'thickness: $1  # Wall thickness [mm] (0.5-20)')
   }
   if (line.includes('throatCap:')) {
-    return line.replace(/throatCap: (.+)/, 'throatCap: $1  # Close throat end')
+    return line.replace(
+      /throatCap: (.+)/,
+      'throatCap: $1  # Close the throat of the surface export',
+    )
   }
   if (line.includes('mouthCap:')) {
-    return line.replace(/mouthCap: (.+)/, 'mouthCap: $1  # Close mouth end')
+    return line.replace(
+      /mouthCap: (.+)/,
+      'mouthCap: $1  # Close the mouth aperture of the surface export',
+    )
+  }
+  if (line.includes('sections:')) {
+    return line.replace(/sections: (.+)/, 'sections: $1  # Print sections in 3MF export (1-6)')
+  }
+
+  // Depth mode
+  if (line.includes('depthMode:')) {
+    return line.replace(
+      /depthMode: (.+)/,
+      'depthMode: $1  # common (flat mouth) | true (per-guide depth)',
+    )
   }
 
   // Visualization mode
   if (line.includes('visualizationMode:')) {
     return line.replace(
       /visualizationMode: (.+)/,
-      'visualizationMode: $1  # guides | cross | xmod | 3d | blend',
+      'visualizationMode: $1  # guides | area | impedance | directivity | bem | paths | sweep | cross | xmod | 3d | blend',
     )
   }
 
@@ -235,7 +364,8 @@ function addParameterComment(line: string): string {
 
 /**
  * Import waveguide state from YAML string.
- * Performs comprehensive validation and returns detailed error information.
+ * Upgrades states saved with an older schema, performs comprehensive
+ * validation and returns detailed error information.
  *
  * @param yamlString - YAML content to parse
  * @returns Import result with state or error details
@@ -264,18 +394,21 @@ export function importFromYAML(yamlString: string): YAMLImportResult {
 
   // Handle both formats: with metadata wrapper or direct state
   let stateData: unknown
+  let schemaVersion: unknown = 1
   if (parsed && typeof parsed === 'object' && 'state' in parsed && 'metadata' in parsed) {
-    // New format with metadata
+    // New format with metadata (schemaVersion absent before version 2)
     stateData = (parsed as WaveguideExport).state
+    const metadata = (parsed as { metadata: Partial<WaveguideMetadata> | null }).metadata
+    schemaVersion = metadata?.schemaVersion ?? 1
   } else {
     // Legacy format: direct state object
     stateData = parsed
   }
 
-  // Validate state structure and values
-  const validation = validateWaveguideState(stateData)
+  // Upgrade to the current schema, then validate structure and values
+  const { state, validation } = upgradeState(stateData, schemaVersion)
 
-  if (!validation.valid) {
+  if (!state) {
     return {
       success: false,
       error: 'Validation failed',
@@ -285,7 +418,8 @@ export function importFromYAML(yamlString: string): YAMLImportResult {
 
   return {
     success: true,
-    state: stateData as WaveguideState,
+    state,
+    validation,
   }
 }
 
@@ -0,0 +1,121 @@
+/**
+ * Minimal ZIP Writer
+ * ==================
+ *
+ * Builds ZIP archives without dependencies, for container formats such as
+ * 3MF. Entries are stored uncompressed (method 0), which every ZIP reader
+ * supports.
+ */
+
+/**
+ * File to store in the archive.
+ */
+export interface ZipEntry {
+  /** Path inside the archive (forward slashes, no leading slash) */
+  name: string
+
+  /** File content */
+  data: Uint8Array
+}
+
+/** CRC-32 lookup table (polynomial 0xEDB88320) */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * CRC-32 checksum of a byte array.
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Date and time in MS-DOS format.
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Create a ZIP archive with stored (uncompressed) entries.
+ *
+ * @param entries - Files to store, in archive order
+ * @param modified - Modification time for all entries (default: now)
+ * @returns ZIP file content
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modified: Date = new Date(),
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const stamp = dosDateTime(modified)
+  const names = entries.map((e) => encoder.encode(e.name))
+  const crcs = entries.map((e) => crc32(e.data))
+
+  const localSize = entries.reduce((sum, e, i) => sum + 30 + names[i].length + e.data.length, 0)
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0)
+  const buffer = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(buffer.buffer)
+
+  // Local file headers and data
+  const offsets: number[] = []
+  let offset = 0
+  entries.forEach((entry, i) => {
+    offsets.push(offset)
+    view.setUint32(offset, 0x04034b50, true)
+    view.setUint16(offset + 4, 20, true) // version needed
+    view.setUint16(offset + 6, 0x0800, true) // UTF-8 names
+    view.setUint16(offset + 8, 0, true) // stored
+    view.setUint16(offset + 10, stamp.time, true)
+    view.setUint16(offset + 12, stamp.date, true)
+    view.setUint32(offset + 14, crcs[i], true)
+    view.setUint32(offset + 18, entry.data.length, true)
+    view.setUint32(offset + 22, entry.data.length, true)
+    view.setUint16(offset + 26, names[i].length, true)
+    view.setUint16(offset + 28, 0, true)
+    buffer.set(names[i], offset + 30)
+    buffer.set(entry.data, offset + 30 + names[i].length)
+    offset += 30 + names[i].length + entry.data.length
+  })
+
+  // Central directory
+  const centralOffset = offset
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, 0x02014b50, true)
+    view.setUint16(offset + 4, 20, true) // version made by
+    view.setUint16(offset + 6, 20, true) // version needed
+    view.setUint16(offset + 8, 0x0800, true)
+    view.setUint16(offset + 10, 0, true)
+    view.setUint16(offset + 12, stamp.time, true)
+    view.setUint16(offset + 14, stamp.date, true)
+    view.setUint32(offset + 16, crcs[i], true)
+    view.setUint32(offset + 20, entry.data.length, true)
+    view.setUint32(offset + 24, entry.data.length, true)
+    view.setUint16(offset + 28, names[i].length, true)
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, offsets[i], true)
+    buffer.set(names[i], offset + 46)
+    offset += 46 + names[i].length
+  })
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054b50, true)
+  view.setUint16(offset + 8, entries.length, true)
+  view.setUint16(offset + 10, entries.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, centralOffset, true)
+
+  return buffer
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PARAMS } from '../types/waveguide'
+import { diffStates, formatValue } from './diff'
+
+describe('diffStates', () => {
+  it('lists changed parameters by dotted path, skipping view settings', () => {
+    const custom = DEFAULT_PARAMS.shellParams.throatMount.custom
+    const changed = {
+      ...DEFAULT_PARAMS,
+      horizontal: { ...DEFAULT_PARAMS.horizontal, a_deg: 50 },
+      shellParams: {
+        ...DEFAULT_PARAMS.shellParams,
+        throatMount: {
+          ...DEFAULT_PARAMS.shellParams.throatMount,
+          custom: { ...custom, count: custom.count + 2 },
+        },
+      },
+      visualizationMode: 'guides' as const,
+    }
+
+    expect(diffStates(DEFAULT_PARAMS, changed)).toEqual([
+      { path: 'horizontal.a_deg', before: DEFAULT_PARAMS.horizontal.a_deg, after: 50 },
+      {
+        path: 'shellParams.throatMount.custom.count',
+        before: custom.count,
+        after: custom.count + 2,
+      },
+    ])
+    expect(diffStates(DEFAULT_PARAMS, changed, [])).toContainEqual({
+      path: 'visualizationMode',
+      before: DEFAULT_PARAMS.visualizationMode,
+      after: 'guides',
+    })
+    expect(diffStates(DEFAULT_PARAMS, structuredClone(DEFAULT_PARAMS))).toEqual([])
+  })
+})
+
+describe('formatValue', () => {
+  it('rounds numbers and marks missing values', () => {
+    expect(formatValue(1 / 3)).toBe('0.333')
+    expect(formatValue(undefined)).toBe('—')
+    expect(formatValue('arc-length')).toBe('arc-length')
+    expect(formatValue(true)).toBe('true')
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * State Diff
+ * ==========
+ *
+ * Lists the parameters that differ between two waveguide states, by dotted
+ * path (e.g. `horizontal.a_deg`, `shellParams.throatMount.custom.count`).
+ */
+
+import type { WaveguideState } from '../types/waveguide'
+
+/**
+ * One changed parameter.
+ */
+export interface StateChange {
+  /** Dotted path of the parameter */
+  path: string
+
+  /** Value in the first state */
+  before: unknown
+
+  /** Value in the second state */
+  after: unknown
+}
+
+/** State fields that are view settings rather than part of the design */
+export const VIEW_FIELDS: (keyof WaveguideState)[] = ['visualizationMode']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function collect(a: unknown, b: unknown, path: string, out: StateChange[]): void {
+  if (Object.is(a, b)) return
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+    for (const key of keys) {
+      collect(a[key], b[key], path ? `${path}.${key}` : key, out)
+    }
+    return
+  }
+  if (JSON.stringify(a) !== JSON.stringify(b)) {
+    out.push({ path, before: a, after: b })
+  }
+}
+
+/**
+ * Changed parameters between two states.
+ *
+ * @param a - First (older) state
+ * @param b - Second (newer) state
+ * @param ignore - Top-level fields to skip (default: view settings)
+ * @returns Changed leaf parameters in state order
+ */
+export function diffStates(
+  a: WaveguideState,
+  b: WaveguideState,
+  ignore: (keyof WaveguideState)[] = VIEW_FIELDS,
+): StateChange[] {
+  const changes: StateChange[] = []
+  collect(a, b, '', changes)
+  return changes.filter((change) => !ignore.some((field) => change.path.split('.')[0] === field))
+}
+
+/**
+ * Short display form of a parameter value.
+ *
+ * @param value - Parameter value
+ * @returns Rounded number, boolean or string
+ */
+export function formatValue(value: unknown): string {
+  if (typeof value === 'number') return `${Number(value.toFixed(3))}`
+  if (value === undefined) return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PARAMS, type WaveguideState } from '../types/waveguide'
+import { COALESCE_MS, createHistory, moveTo, nameStep, recordStep } from './history'
+
+const withAngle = (a_deg: number): WaveguideState => ({
+  ...DEFAULT_PARAMS,
+  horizontal: { ...DEFAULT_PARAMS.horizontal, a_deg },
+})
+
+const drag = { key: 'UPDATE_HORIZONTAL:a_deg' }
+
+describe('recordStep', () => {
+  it('merges a slider drag into one step', () => {
+    let history = createHistory(DEFAULT_PARAMS, 0)
+    history = recordStep(history, withAngle(41), { ...drag, time: 100 })
+    history = recordStep(history, withAngle(42), { ...drag, time: 200 })
+    history = recordStep(history, withAngle(43), { ...drag, time: 300 })
+
+    expect(history.entries).toHaveLength(2)
+    expect(history.entries[1].changes).toEqual([
+      { path: 'horizontal.a_deg', before: DEFAULT_PARAMS.horizontal.a_deg, after: 43 },
+    ])
+
+    // A pause longer than COALESCE_MS starts a new step
+    history = recordStep(history, withAngle(44), { ...drag, time: 300 + COALESCE_MS })
+    expect(history.entries).toHaveLength(3)
+  })
+
+  it('drops a drag that returns to where it started', () => {
+    let history = createHistory(DEFAULT_PARAMS, 0)
+    history = recordStep(history, withAngle(41), { ...drag, time: 100 })
+    history = recordStep(history, withAngle(DEFAULT_PARAMS.horizontal.a_deg), {
+      ...drag,
+      time: 200,
+    })
+    expect(history.entries).toHaveLength(1)
+    expect(history.index).toBe(0)
+  })
+
+  it('does not merge into a named checkpoint', () => {
+    let history = createHistory(DEFAULT_PARAMS, 0)
+    history = recordStep(history, withAngle(41), { ...drag, time: 100 })
+    history = nameStep(history, 1, 'Wide')
+    history = recordStep(history, withAngle(42), { ...drag, time: 200 })
+    expect(history.entries).toHaveLength(3)
+    expect(history.entries[1].name).toBe('Wide')
+  })
+
+  it('discards the redo steps instead of merging after an undo', () => {
+    let history = createHistory(DEFAULT_PARAMS, 0)
+    history = recordStep(history, withAngle(41), { ...drag, time: 100 })
+    history = recordStep(
+      history,
+      { ...withAngle(41), vertical: { ...DEFAULT_PARAMS.vertical, a_deg: 35 } },
+      { key: 'UPDATE_VERTICAL:a_deg', time: 150 },
+    )
+    history = moveTo(history, 1)
+    history = recordStep(history, withAngle(45), { ...drag, time: 200 })
+    expect(history.entries.map((e) => e.state.horizontal.a_deg)).toEqual([
+      DEFAULT_PARAMS.horizontal.a_deg,
+      41,
+      45,
+    ])
+    expect(history.index).toBe(2)
+  })
+
+  it('keeps view changes out of the history', () => {
+    let history = createHistory(DEFAULT_PARAMS, 0)
+    history = recordStep(history, withAngle(41), { ...drag, time: 100 })
+    const view = { ...history.entries[1].state, visualizationMode: 'guides' as const }
+    history = recordStep(history, view, { key: 'SET_VISUALIZATION_MODE', time: 5000 })
+    expect(history.entries).toHaveLength(2)
+    expect(history.entries[1].state.visualizationMode).toBe('guides')
+
+    // Undo keeps the current view
+    history = moveTo(history, 0)
+    expect(history.entries[0].state.visualizationMode).toBe('guides')
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Undo/Redo History
+ * =================
+ *
+ * Linear history of waveguide states. Each entry stores the complete state
+ * after a step and the parameters that step changed; the current state is
+ * the entry at `index`, entries after it can be redone.
+ *
+ * Continuous edits of one parameter (a slider drag) arrive as a stream of
+ * updates; updates with the same key within COALESCE_MS of each other are
+ * merged into a single step. Named checkpoints are never merged into.
+ * View settings (the visualization tab) are not history steps: changing
+ * them updates the current entry, and undo/redo keeps the current tab.
+ */
+
+import type { WaveguideState } from '../types/waveguide'
+import { diffStates, type StateChange } from './diff'
+
+/**
+ * One step of the history.
+ */
+export interface HistoryEntry {
+  /** State after the step */
+  state: WaveguideState
+
+  /** Parameters changed by the step */
+  changes: StateChange[]
+
+  /** What made the step, when not a plain parameter edit */
+  label?: string
+
+  /** Checkpoint name given by the user */
+  name?: string
+
+  /** Coalescing key (action and parameter) */
+  key: string
+
+  /** Time of the last update [ms since epoch] */
+  time: number
+}
+
+/**
+ * History of states with the current position.
+ */
+export interface History {
+  entries: HistoryEntry[]
+  index: number
+}
+
+/** Most steps kept; older ones are dropped */
+export const MAX_HISTORY = 200
+
+/** Largest gap between updates merged into one step [ms] */
+export const COALESCE_MS = 1000
+
+/**
+ * Start a history at a state.
+ *
+ * @param state - Initial state
+ * @param time - Current time [ms]
+ */
+export function createHistory(state: WaveguideState, time: number = Date.now()): History {
+  return { entries: [{ state, changes: [], label: 'Start', key: '', time }], index: 0 }
+}
+
+/**
+ * Record a new state, discarding any redo steps.
+ *
+ * @param history - Current history
+ * @param state - New state
+ * @param step - Coalescing key, optional label and time of the update
+ * @returns Updated history
+ */
+export function recordStep(
+  history: History,
+  state: WaveguideState,
+  step: { key: string; label?: string; time: number },
+): History {
+  const { entries, index } = history
+  const present = entries[index]
+  const changes = diffStates(present.state, state)
+
+  // View change only: update the current entry in place
+  if (changes.length === 0) {
+    return { entries: entries.map((e, i) => (i === index ? { ...e, state } : e)), index }
+  }
+
+  const past = entries.slice(0, index + 1)
+  const canMerge =
+    index > 0 &&
+    index === entries.length - 1 &&
+    present.key === step.key &&
+    present.name === undefined &&
+    step.time - present.time < COALESCE_MS
+
+  if (canMerge) {
+    const merged = diffStates(past[index - 1].state, state)
+    if (merged.length === 0) {
+      // Dragged back to where it started: the step cancels out
+      const previous = { ...past[index - 1], state }
+      return { entries: [...past.slice(0, index - 1), previous], index: index - 1 }
+    }
+    past[index] = { ...present, state, changes: merged, time: step.time }
+    return { entries: past, index }
+  }
+
+  past.push({ state, changes, label: step.label, key: step.key, time: step.time })
+  const trimmed = past.slice(Math.max(0, past.length - MAX_HISTORY))
+  return { entries: trimmed, index: trimmed.length - 1 }
+}
+
+/**
+ * Move to another step (undo, redo or jump), keeping the current view.
+ *
+ * @param history - Current history
+ * @param index - Target step (clamped to the history)
+ * @returns Updated history
+ */
+export function moveTo(history: History, index: number): History {
+  const target = Math.max(0, Math.min(history.entries.length - 1, index))
+  if (target === history.index) return history
+
+  const { visualizationMode } = history.entries[history.index].state
+  return {
+    entries: history.entries.map((e, i) =>
+      i === target ? { ...e, state: { ...e.state, visualizationMode } } : e,
+    ),
+    index: target,
+  }
+}
+
+/**
+ * Name a step as a checkpoint (an empty name clears it).
+ *
+ * @param history - Current history
+ * @param index - Step to name
+ * @param name - Checkpoint name
+ * @returns Updated history
+ */
+export function nameStep(history: History, index: number, name: string): History {
+  const trimmed = name.trim()
+  return {
+    ...history,
+    entries: history.entries.map((e, i) =>
+      i === index ? { ...e, name: trimmed.length > 0 ? trimmed : undefined } : e,
+    ),
+  }
+}
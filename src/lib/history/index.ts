@@ -0,0 +1,9 @@
+/**
+ * Design History
+ * ==============
+ *
+ * Barrel export for the undo/redo history and state diffs.
+ */
+
+export { diffStates, formatValue, VIEW_FIELDS } from './diff'
+export { COALESCE_MS, createHistory, MAX_HISTORY, moveTo, nameStep, recordStep } from './history'
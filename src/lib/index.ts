@@ -0,0 +1,96 @@
+/**
+ * Horn Designer Library
+ * =====================
+ *
+ * Public API of the geometry core, for embedding the horn generator in
+ * other tools. Free of DOM and React; runs in browsers, workers and Node.
+ * Only the names listed here are public; other module exports are internal.
+ *
+ * Pipeline: state → guides → mesh → shell → file content.
+ *
+ * @example
+ * const state = importFromYAML(text).state ?? DEFAULT_PARAMS
+ * const geometry = buildDesignGeometry(state) // guides, meshes, surface, shell
+ * const stl = geometry && findFormat('stl')?.write(state, geometry)
+ *
+ * Built by `npm run build:lib` into dist-lib (ES module plus declarations).
+ */
+
+// File formats
+export { exportTo3MF } from './export/3mf'
+export type { ATHImportResult } from './export/ath'
+export { exportToATH, importFromATH } from './export/ath'
+export { exportToCSV } from './export/csv'
+export { exportCutoutToDXF, exportCutoutToSVG } from './export/cutout'
+export type { ExportFormat, ExportOutput } from './export/formats'
+export { EXPORT_FORMATS, findFormat } from './export/formats'
+export { exportToGEO, exportToMSH } from './export/gmsh'
+export { exportToHornresp } from './export/hornresp'
+export { exportToOBJ } from './export/obj'
+export type { StepExportResult } from './export/step'
+export { exportToSTEP } from './export/step'
+export { exportToSTL } from './export/stl'
+// Project files and share links
+export {
+  compressStateToURL,
+  decompressStateFromURL,
+  designParamFromLink,
+  generateShareableURL,
+} from './export/urlSharing'
+export type { YAMLImportResult } from './export/yaml'
+export { exportToYAML, formatValidationErrors, importFromYAML } from './export/yaml'
+// Geometry (guides, meshes, surface and shell) and acoustic estimates
+export type { AreaPoint } from './math/area'
+export { areaProfile } from './math/area'
+export type { DesignMetrics } from './math/comparison'
+export { designMetrics } from './math/comparison'
+export type { DesignGeometry } from './math/design'
+export { buildDesignGeometry } from './math/design'
+export type { Directivity } from './math/directivity'
+export { predictDirectivity } from './math/directivity'
+export type { InverseResult, InverseTargets } from './math/inverse'
+export { inverseIssues, solveGuides } from './math/inverse'
+export type { MeshBuildOptions, SurfaceEvaluator } from './math/mesh'
+export { buildStateMesh, computeMeshMetrics } from './math/mesh'
+export { BOLT_PATTERNS } from './math/mount'
+export type { PathLengthAnalysis } from './math/pathLength'
+export { analyzePathLengths } from './math/pathLength'
+export { computeROSSE } from './math/rosse'
+export { printSections } from './math/sections'
+export type { ShellMeshData } from './math/shell'
+export { generateShellMesh, shellIssues } from './math/shell'
+export type { ManifoldReport, SurfaceCaps, TriMesh } from './math/trimesh'
+export { buildExportMesh, checkManifold, isClosedExport, manifoldIssues } from './math/trimesh'
+export type { ImpedancePoint } from './math/webster'
+export { logFrequencies, throatImpedance } from './math/webster'
+// Design state and defaults
+export type {
+  BoltPattern,
+  BoltPatternId,
+  CardinalModParams,
+  DepthMode,
+  DiagonalModParams,
+  MeshData,
+  MeshResolution,
+  MeshRing,
+  ModulationBlendParams,
+  MountShape,
+  MouthFlangeParams,
+  MouthPlateParams,
+  Point2D,
+  Point3D,
+  RingDistribution,
+  ROSSEParams,
+  ROSSEPoint,
+  ROSSEResult,
+  ShapeBlendParams,
+  ShellParams,
+  ThroatMountParams,
+  WaveguideState,
+} from './types/waveguide'
+export { DEFAULT_PARAMS } from './types/waveguide'
+// Validation and upgrades of older designs
+export type { UpgradeResult } from './validation/migrations'
+export { SCHEMA_VERSION, upgradeState } from './validation/migrations'
+export type { ValidationError, ValidationResult } from './validation/waveguideValidator'
+export { validateWaveguideState } from './validation/waveguideValidator'
@@ -0,0 +1,276 @@
+/**
+ * Curvature-Adaptive Mesh Tessellation
+ * =====================================
+ *
+ * Builds an export mesh whose density follows the surface instead of a fixed
+ * ring/slice count. Rings are refined where the wall bends (throat, mouth
+ * roll-back) and slices where the cross-section bends (superellipse corners
+ * at high nMouth, modulation lobes), until every edge midpoint lies within a
+ * chordal-deviation tolerance of the true surface. The deviation is measured
+ * to the chord line, not to the chord midpoint: uneven parameter speed
+ * (superellipse angles) shifts the midpoint along the chord without any
+ * geometric error.
+ *
+ * When the ring/slice limits or the pass limit stop the refinement first,
+ * the mesh reports the deviation it reached (see tessellationIssues).
+ *
+ * The refinement works on a tensor-product grid: a global set of ring
+ * stations t and a global set of slice angles θ. Every ring uses the same
+ * angles, so adjacent quads always share complete edges. The result is
+ * watertight with no T-junctions and fits the existing MeshData layout.
+ */
+
+import type {
+  CardinalModParams,
+  DepthMode,
+  DiagonalModParams,
+  MeshData,
+  MeshRing,
+  ModulationBlendParams,
+  MouthFlangeParams,
+  ROSSEResult,
+  ShapeBlendParams,
+} from '../types/waveguide'
+import { buildMouthFlange } from './flange'
+import { createSurfaceEvaluator, type MeshStation } from './mesh'
+
+/**
+ * Optional settings for adaptive tessellation.
+ */
+export interface AdaptiveMeshOptions {
+  /** Axial positioning mode (default: 'common') */
+  depthMode?: DepthMode
+
+  /** Initial ring intervals before refinement (default: 8) */
+  minRings?: number
+
+  /** Initial slice intervals before refinement (default: 16) */
+  minSlices?: number
+
+  /** Upper bound on ring intervals (default: 400) */
+  maxRings?: number
+
+  /** Upper bound on slice intervals (default: 512) */
+  maxSlices?: number
+
+  /** Maximum refinement passes (default: 12) */
+  maxPasses?: number
+
+  /** Mouth roll-back and baffle flange (default: none) */
+  mouthFlange?: MouthFlangeParams
+}
+
+/**
+ * Distance from the surface midpoint to the straight chord line through a and b.
+ */
+function chordDeviation(
+  a: [number, number, number],
+  b: [number, number, number],
+  mid: [number, number, number],
+): number {
+  const d = [b[0] - a[0], b[1] - a[1], b[2] - a[2]]
+  const m = [mid[0] - a[0], mid[1] - a[1], mid[2] - a[2]]
+  const len2 = d[0] * d[0] + d[1] * d[1] + d[2] * d[2]
+  if (len2 === 0) return Math.hypot(m[0], m[1], m[2])
+  const s = (m[0] * d[0] + m[1] * d[1] + m[2] * d[2]) / len2
+  return Math.hypot(m[0] - s * d[0], m[1] - s * d[1], m[2] - s * d[2])
+}
+
+/**
+ * Build an adaptively tessellated waveguide mesh.
+ *
+ * Refinement loop (each pass):
+ * 1. For every ring interval [t_i, t_i+1], evaluate the midpoint station and
+ *    split the interval if any slice line deviates more than the tolerance.
+ * 2. For every slice interval [θ_j, θ_j+1], evaluate the midpoint angle and
+ *    split it if any ring deviates more than the tolerance.
+ * 3. Stop when no interval needs splitting (or limits are reached).
+ *
+ * The final grid is measured once more (every ring and slice interval), so
+ * the returned mesh carries its largest deviation and whether the tolerance
+ * was met.
+ *
+ * Starting from a coarse grid means flat regions stay coarse, while curved
+ * regions receive as many rings or slices as the tolerance demands.
+ *
+ * @param hData - Horizontal R-OSSE guide curve result
+ * @param vData - Vertical R-OSSE guide curve result
+ * @param shapeBlend - Shape blend zone parameters
+ * @param modBlend - Modulation blend zone parameters
+ * @param diagonalModParams - X-shape (diagonal) modulation parameters
+ * @param cardModParams - Cardinal (+) modulation parameters
+ * @param tolerance - Maximum chordal deviation [mm]
+ * @param options - Optional refinement settings
+ * @returns Mesh data with non-uniform rings and slices and the deviation
+ *   reached, or null if invalid input
+ *
+ * @example
+ * ```typescript
+ * const mesh = buildAdaptiveMesh(hData, vData, shapeBlend, modBlend, diag, card, 0.05)
+ * console.log(`${mesh.rings.length} rings × ${mesh.numSlices} slices`)
+ * ```
+ */
+export function buildAdaptiveMesh(
+  hData: ROSSEResult | null,
+  vData: ROSSEResult | null,
+  shapeBlend: ShapeBlendParams,
+  modBlend: ModulationBlendParams,
+  diagonalModParams: DiagonalModParams,
+  cardModParams: CardinalModParams,
+  tolerance: number,
+  options: AdaptiveMeshOptions = {},
+): MeshData | null {
+  if (!hData || !vData || !(tolerance > 0)) return null
+
+  const {
+    depthMode = 'common',
+    minRings = 8,
+    minSlices = 16,
+    maxRings = 400,
+    maxSlices = 512,
+    maxPasses = 12,
+  } = options
+
+  const surface = createSurfaceEvaluator(
+    hData,
+    vData,
+    shapeBlend,
+    modBlend,
+    diagonalModParams,
+    cardModParams,
+    depthMode,
+  )
+
+  // Cache stations by t: refinement revisits the same values many times
+  const stationCache = new Map<number, MeshStation>()
+  const stationAt = (t: number): MeshStation => {
+    let st = stationCache.get(t)
+    if (!st) {
+      st = surface.station(t)
+      stationCache.set(t, st)
+    }
+    return st
+  }
+
+  let ts = Array.from({ length: minRings + 1 }, (_, i) => i / minRings)
+  let thetas = Array.from({ length: minSlices + 1 }, (_, j) => (2 * Math.PI * j) / minSlices)
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let changed = false
+
+    // 1. Axial refinement along every slice line
+    if (ts.length - 1 < maxRings) {
+      const next: number[] = [ts[0]]
+      for (let i = 0; i < ts.length - 1; i++) {
+        const a = stationAt(ts[i])
+        const b = stationAt(ts[i + 1])
+        const tm = (ts[i] + ts[i + 1]) / 2
+        const m = stationAt(tm)
+
+        let worst = 0
+        for (const theta of thetas) {
+          const dev = chordDeviation(
+            surface.point(a, theta),
+            surface.point(b, theta),
+            surface.point(m, theta),
+          )
+          if (dev > worst) worst = dev
+          if (worst > tolerance) break
+        }
+
+        if (worst > tolerance && next.length + (ts.length - 1 - i) < maxRings) {
+          next.push(tm)
+          changed = true
+        }
+        next.push(ts[i + 1])
+      }
+      ts = next
+    }
+
+    // 2. Angular refinement around every ring
+    if (thetas.length - 1 < maxSlices) {
+      const stations = ts.map(stationAt)
+      const next: number[] = [thetas[0]]
+      for (let j = 0; j < thetas.length - 1; j++) {
+        const thm = (thetas[j] + thetas[j + 1]) / 2
+
+        let worst = 0
+        for (const st of stations) {
+          const dev = chordDeviation(
+            surface.point(st, thetas[j]),
+            surface.point(st, thetas[j + 1]),
+            surface.point(st, thm),
+          )
+          if (dev > worst) worst = dev
+          if (worst > tolerance) break
+        }
+
+        if (worst > tolerance && next.length + (thetas.length - 1 - j) < maxSlices) {
+          next.push(thm)
+          changed = true
+        }
+        next.push(thetas[j + 1])
+      }
+      thetas = next
+    }
+
+    if (!changed) break
+  }
+
+  // Assemble rings on the final tensor grid
+  const numSlices = thetas.length - 1
+  const rings: MeshRing[] = ts.map((t) => {
+    const station = stationAt(t)
+    const ring = thetas.map((theta) => surface.point(station, theta))
+    // The closing point must match the first exactly to keep the seam welded
+    ring[numSlices] = [...ring[0]]
+    return { ...station, ring }
+  })
+
+  // Deviation of the final grid, along every slice line and around every ring
+  let maxDeviation = 0
+  for (let i = 0; i < ts.length - 1; i++) {
+    const m = stationAt((ts[i] + ts[i + 1]) / 2)
+    for (let j = 0; j < numSlices; j++) {
+      const dev = chordDeviation(
+        rings[i].ring[j],
+        rings[i + 1].ring[j],
+        surface.point(m, thetas[j]),
+      )
+      if (dev > maxDeviation) maxDeviation = dev
+    }
+  }
+  for (let j = 0; j < numSlices; j++) {
+    const thm = (thetas[j] + thetas[j + 1]) / 2
+    for (let i = 0; i < ts.length; i++) {
+      const dev = chordDeviation(
+        rings[i].ring[j],
+        rings[i].ring[j + 1],
+        surface.point(stationAt(ts[i]), thm),
+      )
+      if (dev > maxDeviation) maxDeviation = dev
+    }
+  }
+  const toleranceMet = maxDeviation <= tolerance
+
+  if (options.mouthFlange?.enabled) {
+    const flangeRings = buildMouthFlange(surface, thetas, options.mouthFlange)
+    return { rings, numSlices, thetas, flangeRings, maxDeviation, toleranceMet }
+  }
+
+  return { rings, numSlices, thetas, maxDeviation, toleranceMet }
+}
+
+/**
+ * Warning for an adaptive mesh that stopped short of its tolerance.
+ *
+ * @param meshData - Export mesh (fixed-resolution meshes have nothing to report)
+ * @param tolerance - Requested chordal deviation [mm]
+ * @returns One message when the tolerance was missed (empty otherwise)
+ */
+export function tessellationIssues(meshData: MeshData | null, tolerance: number): string[] {
+  if (!meshData || meshData.toleranceMet !== false) return []
+  return [
+    `Adaptive mesh misses the ${tolerance} mm tolerance (max deviation ${meshData.maxDeviation?.toFixed(3)} mm): refinement limit reached`,
+  ]
+}
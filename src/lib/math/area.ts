@@ -0,0 +1,241 @@
+/**
+ * Equivalent 1D Area Profile
+ * ==========================
+ *
+ * Reduces the waveguide to a cross-sectional area expansion S(x) for
+ * one-dimensional horn models (Hornresp, Webster equation).
+ *
+ * The area of each mesh ring is its shoelace area in the xy plane, so it
+ * includes the superellipse shape and the polar modulations. The profile
+ * runs from the throat to the mouth aperture (the foremost ring, see
+ * simulationMesh.ts); the rolled-back lip behind it is not a cross-section.
+ *
+ * For Hornresp, the profile is approximated by up to four segments, each
+ * conical (radius linear in x) or exponential (log area linear in x), with
+ * breakpoints chosen to minimize the squared relative area error.
+ */
+
+import type { MeshData } from '../types/waveguide'
+import { apertureRing } from './simulationMesh'
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/**
+ * Cross-sectional area at one ring.
+ */
+export interface AreaPoint {
+  /** R-OSSE parameter of the ring */
+  t: number
+
+  /** Axial distance from the throat [mm] */
+  x: number
+
+  /** Cross-sectional area [mm²] */
+  area: number
+}
+
+/** Hornresp flare type */
+export type FlareType = 'conical' | 'exponential'
+
+/**
+ * One segment of the fitted area expansion.
+ */
+export interface AreaSegment {
+  /** Flare type */
+  flare: FlareType
+
+  /** Start position [mm] */
+  x0: number
+
+  /** End position [mm] */
+  x1: number
+
+  /** Area at the start [mm²] */
+  s0: number
+
+  /** Area at the end [mm²] */
+  s1: number
+}
+
+/**
+ * Segmented approximation of an area profile.
+ */
+export interface AreaFit {
+  /** Segments from throat to mouth */
+  segments: AreaSegment[]
+
+  /** Largest relative area error over the profile points (0.05 = 5 %) */
+  maxError: number
+}
+
+/**
+ * Area enclosed by a ring, projected onto the xy plane (shoelace formula).
+ *
+ * @param ring - Ring points (closed, seam point duplicated)
+ * @returns Enclosed area [mm²]
+ */
+export function ringArea(ring: Vec3[]): number {
+  let sum = 0
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1]
+  }
+  return Math.abs(sum) / 2
+}
+
+/**
+ * Area profile from the throat to the mouth aperture.
+ *
+ * The position of a ring is its mean depth (the plane depth with common
+ * depth mode).
+ *
+ * @param meshData - Generated mesh data
+ * @returns Area per ring with increasing x
+ */
+export function areaProfile(meshData: MeshData): AreaPoint[] {
+  const last = apertureRing(meshData)
+  const profile: AreaPoint[] = []
+  for (const { t, ring } of meshData.rings.slice(0, last + 1)) {
+    const x = ring.reduce((sum, p) => sum + p[2], 0) / ring.length
+    // Keep x strictly increasing (1D models need a monotonic axis)
+    if (profile.length > 0 && x <= profile[profile.length - 1].x) continue
+    profile.push({ t, x, area: ringArea(ring) })
+  }
+  return profile
+}
+
+/**
+ * Roughness of an area expansion: RMS of the second derivative of ln S
+ * along the equivalent wall (radius √(S/π) against x), over its normalized
+ * length.
+ *
+ * Measuring along the wall rather than along x keeps the rounded mouth
+ * termination (where the wall turns outwards and dS/dx grows without
+ * bound) from dominating. A smooth flare scores low; kinks and bumps in
+ * the expansion (e.g. from abrupt blends) score high.
+ *
+ * @param profile - Area profile (see areaProfile)
+ * @returns Dimensionless roughness (0 for fewer than three points)
+ */
+export function areaRoughness(profile: AreaPoint[]): number {
+  if (profile.length < 3) return 0
+  const u = profile.map((p) => Math.log(p.area))
+  const radius = profile.map((p) => Math.sqrt(p.area / Math.PI))
+  const steps = profile
+    .slice(1)
+    .map((p, i) => Math.hypot(p.x - profile[i].x, radius[i + 1] - radius[i]))
+  const length = steps.reduce((a, b) => a + b, 0)
+
+  let sum = 0
+  for (let i = 1; i < profile.length - 1; i++) {
+    const h1 = steps[i - 1] / length
+    const h2 = steps[i] / length
+    const curvature = (2 * ((u[i + 1] - u[i]) / h2 - (u[i] - u[i - 1]) / h1)) / (h1 + h2)
+    // Weight each point by the length it stands for
+    sum += curvature * curvature * ((h1 + h2) / 2)
+  }
+  return Math.sqrt(sum)
+}
+
+/**
+ * Area of a segment at position x.
+ *
+ * @param segment - Area segment
+ * @param x - Axial position within the segment [mm]
+ * @returns Area [mm²]
+ */
+export function segmentArea(segment: AreaSegment, x: number): number {
+  const { x0, x1, s0, s1 } = segment
+  const u = x1 > x0 ? (x - x0) / (x1 - x0) : 0
+  if (segment.flare === 'exponential') return s0 * (s1 / s0) ** u
+  const r = Math.sqrt(s0) + (Math.sqrt(s1) - Math.sqrt(s0)) * u
+  return r * r
+}
+
+/**
+ * Best single segment between two profile points (inclusive).
+ *
+ * Both flare types pass through the end areas; the one with the smaller
+ * squared relative error at the points in between wins.
+ */
+function bestSegment(
+  profile: AreaPoint[],
+  from: number,
+  to: number,
+): { segment: AreaSegment; cost: number; maxError: number } {
+  let best: { segment: AreaSegment; cost: number; maxError: number } | null = null
+  for (const flare of ['conical', 'exponential'] as const) {
+    const segment: AreaSegment = {
+      flare,
+      x0: profile[from].x,
+      x1: profile[to].x,
+      s0: profile[from].area,
+      s1: profile[to].area,
+    }
+    let cost = 0
+    let maxError = 0
+    for (let k = from + 1; k < to; k++) {
+      const error = Math.abs(segmentArea(segment, profile[k].x) / profile[k].area - 1)
+      cost += error * error
+      maxError = Math.max(maxError, error)
+    }
+    if (!best || cost < best.cost) best = { segment, cost, maxError }
+  }
+  return best as { segment: AreaSegment; cost: number; maxError: number }
+}
+
+/**
+ * Fit an area profile with up to maxSegments conical/exponential segments.
+ *
+ * Breakpoints fall on profile points; dynamic programming over all
+ * breakpoint choices finds the least total squared relative error. Fewer
+ * segments are used when they fit as well.
+ *
+ * @param profile - Area profile (at least two points)
+ * @param maxSegments - Maximum number of segments (default: 4, as in Hornresp)
+ * @returns Fitted segments and the largest relative error
+ */
+export function fitAreaSegments(profile: AreaPoint[], maxSegments: number = 4): AreaFit {
+  const n = profile.length
+  if (n < 2) return { segments: [], maxError: 0 }
+
+  // Best single segment for every pair of points
+  const single = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (j > i ? bestSegment(profile, i, j) : null)),
+  )
+
+  // cost[k][j]: least error reaching point j with k segments
+  const cost = Array.from({ length: maxSegments + 1 }, () => new Array<number>(n).fill(Infinity))
+  const from = Array.from({ length: maxSegments + 1 }, () => new Array<number>(n).fill(-1))
+  cost[0][0] = 0
+  for (let k = 1; k <= maxSegments; k++) {
+    for (let j = 1; j < n; j++) {
+      for (let i = 0; i < j; i++) {
+        const segment = single[i][j]
+        if (!segment || cost[k - 1][i] === Infinity) continue
+        const total = cost[k - 1][i] + segment.cost
+        if (total < cost[k][j]) {
+          cost[k][j] = total
+          from[k][j] = i
+        }
+      }
+    }
+  }
+
+  // Fewest segments within a hair of the best fit
+  const best = Math.min(...cost.map((row) => row[n - 1]))
+  let count = 1
+  while (cost[count][n - 1] > best + 1e-9) count++
+
+  const segments: AreaSegment[] = []
+  let maxError = 0
+  for (let k = count, j = n - 1; k > 0; k--) {
+    const i = from[k][j]
+    const fit = single[i][j] as { segment: AreaSegment; maxError: number }
+    segments.unshift(fit.segment)
+    maxError = Math.max(maxError, fit.maxError)
+    j = i
+  }
+
+  return { segments, maxError }
+}
@@ -0,0 +1,642 @@
+/**
+ * Axisymmetric Boundary Element Solver
+ * ====================================
+ *
+ * Acoustic radiation of a circular (axisymmetric) waveguide driven by a
+ * piston at the throat, from the R-OSSE profile alone. The surface is the
+ * meridian contour rotated about the axis; unknowns are constant per
+ * contour element (collocation at element midpoints), so a full solve needs
+ * only a few hundred unknowns and runs in the browser.
+ *
+ * Terminations:
+ * - baffle: the mouth is flush with an infinite baffle at the aperture plane
+ *   (the foremost profile point; the rolled-back lip lies behind the baffle).
+ *   The horn interior (throat, wall, aperture disc) is coupled to the half
+ *   space through the Rayleigh integral over the aperture.
+ * - free: the horn stands in free space as a closed body: the wall with the
+ *   given thickness, the lip end, and a cylindrical driver body behind the
+ *   throat.
+ *
+ * Conventions: e^(jωt), lengths in mm, pressure in units of ρc·u for a
+ * throat velocity u. The ring kernels split the free-space Green's function
+ * into its static part (integrated round the ring with complete elliptic
+ * integrals) and a smooth dynamic remainder (trapezoid rule in azimuth).
+ *
+ * Results per frequency: on-axis pressure at 1 m, off-axis levels, the
+ * normalized throat impedance and the directivity index.
+ */
+
+import type { ROSSEPoint, WaveguideState } from '../types/waveguide'
+import { SPEED_OF_SOUND } from './simulationMesh'
+import { besselJ0, besselJ1, ellipticKE } from './special'
+import type { ImpedancePoint } from './webster'
+
+/** Mouth termination of the BEM model */
+export type BEMTermination = 'baffle' | 'free'
+
+/**
+ * BEM solve settings.
+ */
+export interface BEMOptions {
+  /** Mouth termination */
+  termination: BEMTermination
+
+  /** Frequencies [Hz] */
+  frequencies: number[]
+
+  /** Wall thickness of the free-standing horn [mm] */
+  wallThickness: number
+}
+
+/**
+ * BEM results per frequency.
+ */
+export interface BEMResult {
+  /** Mouth termination */
+  termination: BEMTermination
+
+  /** Frequencies [Hz] */
+  frequencies: number[]
+
+  /** Polar angles of the off-axis levels [degrees] */
+  angles: number[]
+
+  /** On-axis pressure at 1 m [dB re ρc·u] */
+  onAxis: number[]
+
+  /** Off-axis level per frequency and angle, relative to on-axis [dB] */
+  levels: number[][]
+
+  /** Throat impedance, normalized to ρc/S_throat */
+  impedance: ImpedancePoint[]
+
+  /** Directivity index [dB] */
+  directivityIndex: number[]
+}
+
+/** Elements per wavelength */
+const ELEMENTS_PER_WAVELENGTH = 6
+
+/** Largest element, for the geometry at low frequencies [mm] */
+const MAX_ELEMENT = 5
+
+/** Thinnest wall the free-standing model uses [mm] */
+const MIN_WALL = 2
+
+/** Far-field distance of the on-axis pressure [mm] */
+const FAR_FIELD = 1000
+
+/** Lowest level kept in the polar maps [dB] */
+const FLOOR_DB = -60
+
+/** Gauss–Legendre nodes and weights on [-1, 1] */
+const GAUSS_4 = [
+  [-0.8611363115940526, 0.3478548451374538],
+  [-0.3399810435848563, 0.6521451548625461],
+  [0.3399810435848563, 0.6521451548625461],
+  [0.8611363115940526, 0.3478548451374538],
+]
+const GAUSS_8 = [
+  [-0.9602898564975363, 0.1012285362903763],
+  [-0.7966664774136267, 0.2223810344533745],
+  [-0.525532409916329, 0.3137066458778873],
+  [-0.1834346424956498, 0.362683783378362],
+  [0.1834346424956498, 0.362683783378362],
+  [0.525532409916329, 0.3137066458778873],
+  [0.7966664774136267, 0.2223810344533745],
+  [0.9602898564975363, 0.1012285362903763],
+]
+
+/** Surface a contour element belongs to */
+type ElementKind = 'throat' | 'wall' | 'aperture'
+
+/**
+ * Straight contour element in the meridian plane (z axial, r radial).
+ */
+interface Element {
+  kind: ElementKind
+
+  /** Start point */
+  z0: number
+  r0: number
+
+  /** End point */
+  z1: number
+  r1: number
+
+  /** Midpoint (collocation point) */
+  zm: number
+  rm: number
+
+  /** Length [mm] */
+  length: number
+
+  /** Unit normal pointing out of the fluid (into the body) */
+  nz: number
+  nr: number
+}
+
+/** Point in the meridian plane [z, r] */
+type Meridian = [number, number]
+
+/**
+ * Reasons a design cannot be solved axisymmetrically (empty when it can).
+ *
+ * @param state - Complete design
+ * @returns Human-readable issues
+ */
+export function axisymmetricIssues(state: WaveguideState): string[] {
+  const issues: string[] = []
+  const keys = Object.keys(state.horizontal) as (keyof WaveguideState['horizontal'])[]
+  const different = keys.filter((key) => state.horizontal[key] !== state.vertical[key])
+  if (different.length > 0) {
+    issues.push(`H and V guides differ (${different.join(', ')})`)
+  }
+  if (state.shapeBlend.nMouth !== 2) {
+    issues.push(`mouth shape is not circular (nMouth = ${state.shapeBlend.nMouth}, needs 2)`)
+  }
+  if (state.diagonalMod.enabled) issues.push('diagonal modulation is on')
+  if (state.cardinalMod.enabled) issues.push('cardinal modulation is on')
+  return issues
+}
+
+/**
+ * Split a polyline into elements of at most the given length.
+ */
+function discretize(polyline: Meridian[], size: number, kind: ElementKind, out: Element[]): void {
+  const lengths = [0]
+  for (let i = 1; i < polyline.length; i++) {
+    const [za, ra] = polyline[i - 1]
+    const [zb, rb] = polyline[i]
+    lengths.push(lengths[i - 1] + Math.hypot(zb - za, rb - ra))
+  }
+  const total = lengths[lengths.length - 1]
+  if (total <= 0) return
+
+  // Point at arc length s
+  const at = (s: number): Meridian => {
+    let i = 1
+    while (i < lengths.length - 1 && lengths[i] < s) i++
+    const f = (s - lengths[i - 1]) / (lengths[i] - lengths[i - 1] || 1)
+    const [za, ra] = polyline[i - 1]
+    const [zb, rb] = polyline[i]
+    return [za + (zb - za) * f, ra + (rb - ra) * f]
+  }
+
+  const count = Math.max(1, Math.ceil(total / size))
+  let start = at(0)
+  for (let e = 1; e <= count; e++) {
+    const end = at((total * e) / count)
+    const dz = end[0] - start[0]
+    const dr = end[1] - start[1]
+    const length = Math.hypot(dz, dr)
+    out.push({
+      kind,
+      z0: start[0],
+      r0: start[1],
+      z1: end[0],
+      r1: end[1],
+      zm: (start[0] + end[0]) / 2,
+      rm: (start[1] + end[1]) / 2,
+      length,
+      nz: -dr / length,
+      nr: dz / length,
+    })
+    start = end
+  }
+}
+
+/**
+ * Contour elements of the model, running from the axis round the body and
+ * back to the axis (normals out of the fluid).
+ */
+function buildContour(points: ROSSEPoint[], options: BEMOptions, size: number): Element[] {
+  const wall: Meridian[] = points.map((p) => [p.x, p.y])
+  const elements: Element[] = []
+  discretize([[0, 0], wall[0]], size, 'throat', elements)
+
+  if (options.termination === 'baffle') {
+    // Wall up to the foremost point, closed by the aperture disc
+    const apex = wall.reduce((best, p, i) => (p[0] > wall[best][0] ? i : best), 0)
+    const [za, ra] = wall[apex]
+    discretize(wall.slice(0, apex + 1), size, 'wall', elements)
+    discretize(
+      [
+        [za, ra],
+        [za, 0],
+      ],
+      size,
+      'aperture',
+      elements,
+    )
+    return elements
+  }
+
+  // Outer wall: the inner wall offset into the body by the wall thickness
+  const thickness = Math.max(MIN_WALL, options.wallThickness)
+  const outer: Meridian[] = wall.map(([z, r], i) => {
+    const [za, ra] = wall[Math.max(0, i - 1)]
+    const [zb, rb] = wall[Math.min(wall.length - 1, i + 1)]
+    const length = Math.hypot(zb - za, rb - ra)
+    return [z - (thickness * (rb - ra)) / length, r + (thickness * (zb - za)) / length]
+  })
+  const [zo, ro] = outer[0]
+  discretize(wall, size, 'wall', elements)
+  discretize([wall[wall.length - 1], outer[outer.length - 1]], size, 'wall', elements)
+  discretize([...outer].reverse(), size, 'wall', elements)
+
+  // Driver body: a cylinder as long as it is wide behind the throat
+  discretize(
+    [
+      [zo, ro],
+      [zo - ro, ro],
+      [zo - ro, 0],
+    ],
+    size,
+    'wall',
+    elements,
+  )
+  return elements
+}
+
+/**
+ * Ring kernels between a collocation point and a source point: the
+ * Green's function and its normal derivative, integrated round the source
+ * ring (per unit contour length).
+ *
+ * @param out - [G re, G im, H re, H im], accumulated with the given weight
+ */
+function ringKernels(
+  zx: number,
+  rx: number,
+  zy: number,
+  ry: number,
+  nz: number,
+  nr: number,
+  k: number,
+  weight: number,
+  out: Float64Array,
+): void {
+  const dz = zy - zx
+  const a = (rx + ry) ** 2 + dz * dz
+  const b = (rx - ry) ** 2 + dz * dz
+  const m = (4 * rx * ry) / a
+  const [K, E] = ellipticKE(m)
+  const sa = Math.sqrt(a)
+
+  // Static parts round the ring: ∫ 1/R dφ and ∫ ∂(1/R)/∂n dφ
+  const kMinusE =
+    m < 1e-2 ? Math.PI / 4 + ((3 * Math.PI) / 32) * m + ((15 * Math.PI) / 256) * m * m : (K - E) / m
+  let gRe = (4 * K) / sa
+  let gIm = 0
+  let hRe = -((((ry - rx) * nr + dz * nz) * 4 * E) / (b * sa) + (rx * nr * 8 * kMinusE) / (a * sa))
+  let hIm = 0
+
+  // Dynamic remainders: trapezoid rule over the (even, periodic) azimuth
+  const n = 8 + Math.ceil(k * (rx + ry))
+  const step = Math.PI / n
+  for (let i = 0; i <= n; i++) {
+    const phi = i * step
+    const w = (i === 0 || i === n ? 1 : 2) * step
+    const cos = Math.cos(phi)
+    const R = Math.sqrt(b + 2 * rx * ry * (1 - cos))
+    const kR = k * R
+    const dRdn = ((ry - rx * cos) * nr + dz * nz) / R
+    if (R < 1e-9) {
+      gIm -= w * k
+      continue
+    }
+    const c = Math.cos(kR)
+    const s = Math.sin(kR)
+    // (e^(-jkR) − 1) / R
+    gRe += (w * (c - 1)) / R
+    gIm -= (w * s) / R
+    // (1 − e^(-jkR)(1 + jkR)) / R² · ∂R/∂n
+    const f = (w * dRdn) / (R * R)
+    hRe += f * (1 - c - kR * s)
+    hIm -= f * (kR * c - s)
+  }
+
+  const scale = (weight * ry) / (4 * Math.PI)
+  out[0] += gRe * scale
+  out[1] += gIm * scale
+  out[2] += hRe * scale
+  out[3] += hIm * scale
+}
+
+/**
+ * Integrate the ring kernels over one element for one collocation point.
+ *
+ * The element containing the collocation point is split there and each half
+ * integrated with nodes clustered towards it (log singularity); close
+ * elements are bisected until they are small relative to their distance.
+ */
+function elementKernels(
+  zx: number,
+  rx: number,
+  e: Element,
+  self: boolean,
+  k: number,
+  out: Float64Array,
+): void {
+  out.fill(0)
+
+  if (self) {
+    for (const [z1, r1] of [
+      [e.z0, e.r0],
+      [e.z1, e.r1],
+    ]) {
+      const half = Math.hypot(z1 - zx, r1 - rx)
+      for (const [xi, wi] of GAUSS_8) {
+        const s = (1 + xi) / 2
+        const u = s * s
+        ringKernels(
+          zx,
+          rx,
+          zx + (z1 - zx) * u,
+          rx + (r1 - rx) * u,
+          e.nz,
+          e.nr,
+          k,
+          wi * s * half,
+          out,
+        )
+      }
+    }
+    return
+  }
+
+  const segment = (za: number, ra: number, zb: number, rb: number, depth: number): void => {
+    const length = Math.hypot(zb - za, rb - ra)
+    const zm = (za + zb) / 2
+    const rm = (ra + rb) / 2
+    if (depth < 8 && Math.hypot(zm - zx, rm - rx) < 1.5 * length) {
+      segment(za, ra, zm, rm, depth + 1)
+      segment(zm, rm, zb, rb, depth + 1)
+      return
+    }
+    for (const [xi, wi] of GAUSS_4) {
+      const u = (1 + xi) / 2
+      ringKernels(
+        zx,
+        rx,
+        za + (zb - za) * u,
+        ra + (rb - ra) * u,
+        e.nz,
+        e.nr,
+        k,
+        (wi * length) / 2,
+        out,
+      )
+    }
+  }
+  segment(e.z0, e.r0, e.z1, e.r1, 0)
+}
+
+/**
+ * Solve a dense complex linear system in place (Gaussian elimination with
+ * partial pivoting).
+ *
+ * @param re - Matrix real parts, row-major n×n
+ * @param im - Matrix imaginary parts
+ * @param bRe - Right-hand side real parts (overwritten with the solution)
+ * @param bIm - Right-hand side imaginary parts
+ */
+function solveComplex(
+  re: Float64Array,
+  im: Float64Array,
+  bRe: Float64Array,
+  bIm: Float64Array,
+): void {
+  const n = bRe.length
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    let best = 0
+    for (let row = col; row < n; row++) {
+      const mag = Math.hypot(re[row * n + col], im[row * n + col])
+      if (mag > best) {
+        best = mag
+        pivot = row
+      }
+    }
+    if (pivot !== col) {
+      for (let j = 0; j < n; j++) {
+        const a = col * n + j
+        const b = pivot * n + j
+        ;[re[a], re[b]] = [re[b], re[a]]
+        ;[im[a], im[b]] = [im[b], im[a]]
+      }
+      ;[bRe[col], bRe[pivot]] = [bRe[pivot], bRe[col]]
+      ;[bIm[col], bIm[pivot]] = [bIm[pivot], bIm[col]]
+    }
+
+    const pRe = re[col * n + col]
+    const pIm = im[col * n + col]
+    const pMag = pRe * pRe + pIm * pIm
+    for (let row = col + 1; row < n; row++) {
+      // factor = a[row][col] / pivot
+      const aRe = re[row * n + col]
+      const aIm = im[row * n + col]
+      if (aRe === 0 && aIm === 0) continue
+      const fRe = (aRe * pRe + aIm * pIm) / pMag
+      const fIm = (aIm * pRe - aRe * pIm) / pMag
+      for (let j = col; j < n; j++) {
+        const cRe = re[col * n + j]
+        const cIm = im[col * n + j]
+        re[row * n + j] -= fRe * cRe - fIm * cIm
+        im[row * n + j] -= fRe * cIm + fIm * cRe
+      }
+      bRe[row] -= fRe * bRe[col] - fIm * bIm[col]
+      bIm[row] -= fRe * bIm[col] + fIm * bRe[col]
+    }
+  }
+
+  for (let row = n - 1; row >= 0; row--) {
+    let sRe = bRe[row]
+    let sIm = bIm[row]
+    for (let j = row + 1; j < n; j++) {
+      sRe -= re[row * n + j] * bRe[j] - im[row * n + j] * bIm[j]
+      sIm -= re[row * n + j] * bIm[j] + im[row * n + j] * bRe[j]
+    }
+    const pRe = re[row * n + row]
+    const pIm = im[row * n + row]
+    const pMag = pRe * pRe + pIm * pIm
+    bRe[row] = (sRe * pRe + sIm * pIm) / pMag
+    bIm[row] = (sIm * pRe - sRe * pIm) / pMag
+  }
+}
+
+/**
+ * Solve one frequency.
+ *
+ * @returns Far-field pattern F(θ) (p = F·e^(-jkr)/(4πr)) and the throat impedance
+ */
+function solveFrequency(
+  elements: Element[],
+  termination: BEMTermination,
+  k: number,
+): { farField: (theta: number) => number; impedance: [number, number] } {
+  const n = elements.length
+  const aperture = elements.flatMap((e, i) => (e.kind === 'aperture' ? [i] : []))
+  const size = n + aperture.length
+  const aRe = new Float64Array(size * size)
+  const aIm = new Float64Array(size * size)
+  const bRe = new Float64Array(size)
+  const bIm = new Float64Array(size)
+  const gRe = new Float64Array(n * n)
+  const gIm = new Float64Array(n * n)
+  const kernel = new Float64Array(4)
+
+  // Boundary integral equation at every collocation point:
+  // ½p + Σ H·p = Σ G·∂p/∂n, with ∂p/∂n = jk at the throat and −jk·v at the aperture
+  for (let i = 0; i < n; i++) {
+    const x = elements[i]
+    aRe[i * size + i] += 0.5
+    for (let j = 0; j < n; j++) {
+      elementKernels(x.zm, x.rm, elements[j], i === j, k, kernel)
+      gRe[i * n + j] = kernel[0]
+      gIm[i * n + j] = kernel[1]
+      aRe[i * size + j] += kernel[2]
+      aIm[i * size + j] += kernel[3]
+      if (elements[j].kind === 'throat') {
+        bRe[i] -= k * kernel[1]
+        bIm[i] += k * kernel[0]
+      }
+    }
+    aperture.forEach((j, a) => {
+      aRe[i * size + n + a] -= k * gIm[i * n + j]
+      aIm[i * size + n + a] += k * gRe[i * n + j]
+    })
+  }
+
+  // Rayleigh integral over the aperture: p = 2jk·Σ G·v
+  aperture.forEach((i, a) => {
+    const row = (n + a) * size
+    aRe[row + i] = 1
+    aperture.forEach((j, b) => {
+      aRe[row + n + b] += 2 * k * gIm[i * n + j]
+      aIm[row + n + b] -= 2 * k * gRe[i * n + j]
+    })
+  })
+
+  solveComplex(aRe, aIm, bRe, bIm)
+
+  // Throat impedance: mean throat pressure over ρc·u
+  let pRe = 0
+  let pIm = 0
+  let area = 0
+  elements.forEach((e, i) => {
+    if (e.kind !== 'throat') return
+    const da = e.rm * e.length
+    pRe += bRe[i] * da
+    pIm += bIm[i] * da
+    area += da
+  })
+
+  // Far field, integrated round each ring with Bessel functions
+  const farField = (theta: number): number => {
+    const st = Math.sin(theta)
+    const ct = Math.cos(theta)
+    let fRe = 0
+    let fIm = 0
+    const add = (e: Element, cRe: number, cIm: number, dipole: boolean): void => {
+      for (const [xi, wi] of GAUSS_4) {
+        const u = (1 + xi) / 2
+        const z = e.z0 + (e.z1 - e.z0) * u
+        const r = e.r0 + (e.r1 - e.r0) * u
+        const beta = k * r * st
+        const j0 = besselJ0(beta)
+        // Monopole: 2π·J0; dipole (−jk·n·d): −jk·2π·(nz·cosθ·J0 + j·nr·sinθ·J1)
+        let tRe = 2 * Math.PI * j0
+        let tIm = 0
+        if (dipole) {
+          const j1 = besselJ1(beta)
+          tRe = 2 * Math.PI * k * e.nr * st * j1
+          tIm = -2 * Math.PI * k * e.nz * ct * j0
+        }
+        const w = (wi * e.length * r) / 2
+        const phase = k * z * ct
+        const pc = Math.cos(phase)
+        const ps = Math.sin(phase)
+        // coefficient · term · e^(jkz·cosθ)
+        const vRe = cRe * tRe - cIm * tIm
+        const vIm = cRe * tIm + cIm * tRe
+        fRe += w * (vRe * pc - vIm * ps)
+        fIm += w * (vRe * ps + vIm * pc)
+      }
+    }
+
+    if (termination === 'baffle') {
+      if (theta > Math.PI / 2) return 0
+      aperture.forEach((i, a) => {
+        // 2jk·v
+        add(elements[i], -2 * k * bIm[n + a], 2 * k * bRe[n + a], false)
+      })
+    } else {
+      elements.forEach((e, i) => {
+        if (e.kind === 'throat') add(e, 0, k, false)
+        add(e, bRe[i], bIm[i], true)
+      })
+    }
+    return Math.hypot(fRe, fIm)
+  }
+
+  return { farField, impedance: [pRe / area, pIm / area] }
+}
+
+/**
+ * Solve the axisymmetric radiation problem over a frequency range.
+ *
+ * @param points - R-OSSE profile (computeROSSE), throat to mouth
+ * @param options - Termination, frequencies and wall thickness
+ * @param onProgress - Called after each frequency with (done, total)
+ * @returns Pressure, levels, throat impedance and directivity index
+ */
+export function solveBEM(
+  points: ROSSEPoint[],
+  options: BEMOptions,
+  onProgress?: (done: number, total: number) => void,
+): BEMResult {
+  const { termination, frequencies } = options
+  const maxAngle = termination === 'baffle' ? 90 : 180
+  const angles = Array.from({ length: maxAngle / 5 + 1 }, (_, i) => 5 * i)
+
+  const result: BEMResult = {
+    termination,
+    frequencies,
+    angles,
+    onAxis: [],
+    levels: [],
+    impedance: [],
+    directivityIndex: [],
+  }
+
+  frequencies.forEach((frequency, index) => {
+    const k = (2 * Math.PI * frequency) / SPEED_OF_SOUND
+    const size = Math.min(MAX_ELEMENT, SPEED_OF_SOUND / frequency / ELEMENTS_PER_WAVELENGTH)
+    const elements = buildContour(points, options, size)
+    const { farField, impedance } = solveFrequency(elements, termination, k)
+
+    const axis = farField(0)
+    result.onAxis.push(20 * Math.log10(axis / (4 * Math.PI * FAR_FIELD)))
+    result.levels.push(
+      angles.map((deg) =>
+        Math.max(FLOOR_DB, 20 * Math.log10(farField((deg * Math.PI) / 180) / axis || 1e-6)),
+      ),
+    )
+    result.impedance.push({ frequency, resistance: impedance[0], reactance: impedance[1] })
+
+    // DI = 10·log10(4π·|p(0)|² / ∫|p|² dΩ), 1° steps
+    let power = 0
+    for (let deg = 0; deg <= maxAngle; deg++) {
+      const theta = (deg * Math.PI) / 180
+      const w = deg === 0 || deg === maxAngle ? 0.5 : 1
+      power += w * farField(theta) ** 2 * 2 * Math.PI * Math.sin(theta) * (Math.PI / 180)
+    }
+    result.directivityIndex.push(10 * Math.log10((4 * Math.PI * axis * axis) / power))
+
+    onProgress?.(index + 1, frequencies.length)
+  })
+
+  return result
+}
@@ -0,0 +1,300 @@
+/**
+ * B-Spline Curves and Surfaces
+ * =============================
+ *
+ * Non-rational B-spline evaluation and cubic interpolation, used to turn the
+ * sampled waveguide surface into exact spline geometry for CAD export.
+ *
+ * Interpolation follows the classic cubic spline construction (Piegl &
+ * Tiller, "The NURBS Book", §9.2): knots at the data parameters, clamped
+ * ends, and one end derivative per side. A closed direction (the slices
+ * around the axis) uses the same derivative at both ends, which makes the
+ * seam tangent-continuous.
+ */
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/**
+ * B-spline curve with a full (clamped) knot vector.
+ */
+export interface BSplineCurve {
+  /** Polynomial degree */
+  degree: number
+
+  /** Knot vector (controlPoints.length + degree + 1 values) */
+  knots: number[]
+
+  /** Control points */
+  controlPoints: Vec3[]
+}
+
+/**
+ * Tensor-product B-spline surface with full (clamped) knot vectors.
+ */
+export interface BSplineSurface {
+  /** Polynomial degree in u */
+  degreeU: number
+
+  /** Polynomial degree in v */
+  degreeV: number
+
+  /** Knot vector in u */
+  knotsU: number[]
+
+  /** Knot vector in v */
+  knotsV: number[]
+
+  /** Control net, indexed [u][v] */
+  controlPoints: Vec3[][]
+}
+
+/**
+ * Find the knot span index containing u (Piegl & Tiller A2.1).
+ */
+function findSpan(knots: number[], degree: number, numControl: number, u: number): number {
+  const n = numControl - 1
+  if (u >= knots[n + 1]) return n
+  if (u <= knots[degree]) return degree
+
+  let low = degree
+  let high = n + 1
+  let mid = (low + high) >> 1
+  while (u < knots[mid] || u >= knots[mid + 1]) {
+    if (u < knots[mid]) high = mid
+    else low = mid
+    mid = (low + high) >> 1
+  }
+  return mid
+}
+
+/**
+ * Non-vanishing basis functions N[span-degree..span] at u (Piegl & Tiller A2.2).
+ */
+function basisFunctions(knots: number[], degree: number, span: number, u: number): number[] {
+  const N = [1]
+  const left: number[] = []
+  const right: number[] = []
+  for (let j = 1; j <= degree; j++) {
+    left[j] = u - knots[span + 1 - j]
+    right[j] = knots[span + j] - u
+    let saved = 0
+    for (let r = 0; r < j; r++) {
+      const temp = N[r] / (right[r + 1] + left[j - r])
+      N[r] = saved + right[r + 1] * temp
+      saved = left[j - r] * temp
+    }
+    N[j] = saved
+  }
+  return N
+}
+
+/**
+ * Evaluate a B-spline surface at parameters (u, v) (Piegl & Tiller A3.5).
+ */
+export function surfacePoint(surface: BSplineSurface, u: number, v: number): Vec3 {
+  const { degreeU, degreeV, knotsU, knotsV, controlPoints } = surface
+  const spanU = findSpan(knotsU, degreeU, controlPoints.length, u)
+  const spanV = findSpan(knotsV, degreeV, controlPoints[0].length, v)
+  const Nu = basisFunctions(knotsU, degreeU, spanU, u)
+  const Nv = basisFunctions(knotsV, degreeV, spanV, v)
+
+  const p: Vec3 = [0, 0, 0]
+  for (let k = 0; k <= degreeU; k++) {
+    const row = controlPoints[spanU - degreeU + k]
+    for (let l = 0; l <= degreeV; l++) {
+      const c = row[spanV - degreeV + l]
+      const w = Nu[k] * Nv[l]
+      p[0] += w * c[0]
+      p[1] += w * c[1]
+      p[2] += w * c[2]
+    }
+  }
+  return p
+}
+
+/**
+ * Linear combination a·p + b·q.
+ */
+function combine(a: number, p: Vec3, b: number, q: Vec3): Vec3 {
+  return [a * p[0] + b * q[0], a * p[1] + b * q[1], a * p[2] + b * q[2]]
+}
+
+/**
+ * Derivative at the middle of three points, from the parabola through them.
+ */
+function parabolaSlope(prev: Vec3, mid: Vec3, next: Vec3, hPrev: number, hNext: number): Vec3 {
+  const wPrev = hNext / (hPrev * (hPrev + hNext))
+  const wNext = hPrev / (hNext * (hPrev + hNext))
+  return combine(wPrev, combine(1, mid, -1, prev), wNext, combine(1, next, -1, mid))
+}
+
+/**
+ * Derivative at the first of three points, from the parabola through them.
+ */
+function parabolaEndSlope(p0: Vec3, p1: Vec3, p2: Vec3, h0: number, h1: number): Vec3 {
+  const d0 = combine(1 / h0, p1, -1 / h0, p0)
+  const d1 = combine(1 / h1, p2, -1 / h1, p1)
+  return combine(1 + h0 / (h0 + h1), d0, -h0 / (h0 + h1), d1)
+}
+
+/**
+ * Cubic spline knot vector for the given data parameters.
+ *
+ * @param params - Increasing data parameters from 0 to 1
+ * @returns Clamped knot vector with the interior data parameters as knots
+ */
+export function cubicKnots(params: number[]): number[] {
+  return [0, 0, 0, 0, ...params.slice(1, -1), 1, 1, 1, 1]
+}
+
+/**
+ * Control points of the cubic spline interpolating points at parameters.
+ *
+ * End derivatives come from parabolas through the first and last three
+ * points; for a closed sequence (last point equal to the first) both ends
+ * use the same derivative across the seam. Every step is linear in the
+ * data, so rows and columns of a grid can be fitted independently.
+ *
+ * @param points - Data points (at least 3)
+ * @param params - Increasing data parameters from 0 to 1
+ * @param closed - Whether the last point repeats the first
+ * @returns points.length + 2 control points for cubicKnots(params)
+ */
+export function interpolateCubic(points: Vec3[], params: number[], closed: boolean): Vec3[] {
+  const n = points.length - 1
+  const h = params.slice(1).map((u, i) => u - params[i])
+
+  let d0: Vec3
+  let dn: Vec3
+  if (closed) {
+    d0 = parabolaSlope(points[n - 1], points[0], points[1], h[n - 1], h[0])
+    dn = d0
+  } else {
+    d0 = parabolaEndSlope(points[0], points[1], points[2], h[0], h[1])
+    dn = parabolaEndSlope(points[n], points[n - 1], points[n - 2], -h[n - 1], -h[n - 2])
+  }
+
+  // Known end control points
+  const P: Vec3[] = new Array(n + 3)
+  P[0] = points[0]
+  P[1] = combine(1, points[0], params[1] / 3, d0)
+  P[n + 2] = points[n]
+  P[n + 1] = combine(1, points[n], -(1 - params[n - 1]) / 3, dn)
+  if (n < 2) return P
+
+  // Tridiagonal system for P[2..n]: at each interior parameter only three
+  // basis functions are non-zero
+  const knots = cubicKnots(params)
+  const numControl = n + 3
+  const size = n - 1
+  const a = new Float64Array(size)
+  const b = new Float64Array(size)
+  const c = new Float64Array(size)
+  const rhs: Vec3[] = []
+
+  for (let k = 1; k < n; k++) {
+    const span = findSpan(knots, 3, numControl, params[k])
+    const N = basisFunctions(knots, 3, span, params[k])
+    const row = k - 1
+    const r: Vec3 = [...points[k]]
+    for (let q = 0; q <= 3; q++) {
+      const i = span - 3 + q
+      const col = i - 2
+      if (N[q] === 0) continue
+      if (col < 0 || col >= size) {
+        r[0] -= N[q] * P[i][0]
+        r[1] -= N[q] * P[i][1]
+        r[2] -= N[q] * P[i][2]
+      } else if (col === row - 1) a[row] = N[q]
+      else if (col === row) b[row] = N[q]
+      else c[row] = N[q]
+    }
+    rhs.push(r)
+  }
+
+  // Thomas algorithm (the collocation matrix is totally positive, no pivoting needed)
+  for (let row = 1; row < size; row++) {
+    const m = a[row] / b[row - 1]
+    b[row] -= m * c[row - 1]
+    rhs[row] = combine(1, rhs[row], -m, rhs[row - 1])
+  }
+  P[n] = combine(1 / b[size - 1], rhs[size - 1], 0, P[n + 1])
+  for (let row = size - 2; row >= 0; row--) {
+    P[row + 2] = combine(1 / b[row], rhs[row], -c[row] / b[row], P[row + 3])
+  }
+
+  return P
+}
+
+/**
+ * Bicubic B-spline surface interpolating a grid of points.
+ *
+ * @param grid - Points indexed [u][v]
+ * @param paramsU - Data parameters along u (0..1)
+ * @param paramsV - Data parameters along v (0..1)
+ * @param closedV - Whether each row is closed (last point repeats the first)
+ * @returns Interpolating surface
+ */
+export function interpolateSurface(
+  grid: Vec3[][],
+  paramsU: number[],
+  paramsV: number[],
+  closedV: boolean,
+): BSplineSurface {
+  // Fit every row along v, then every column of the row control points along u
+  const rows = grid.map((row) => interpolateCubic(row, paramsV, closedV))
+  const numV = rows[0].length
+  const columns = Array.from({ length: numV }, (_, l) =>
+    interpolateCubic(
+      rows.map((row) => row[l]),
+      paramsU,
+      false,
+    ),
+  )
+
+  return {
+    degreeU: 3,
+    degreeV: 3,
+    knotsU: cubicKnots(paramsU),
+    knotsV: cubicKnots(paramsV),
+    controlPoints: columns[0].map((_, k) => columns.map((column) => column[k])),
+  }
+}
+
+/**
+ * Iso-curve of a surface at the first or last u (a boundary curve).
+ */
+export function boundaryCurveU(surface: BSplineSurface, end: 'start' | 'end'): BSplineCurve {
+  const row = end === 'start' ? 0 : surface.controlPoints.length - 1
+  return {
+    degree: surface.degreeV,
+    knots: surface.knotsV,
+    controlPoints: surface.controlPoints[row],
+  }
+}
+
+/**
+ * Iso-curve of a surface at the first v (the seam of a closed surface).
+ */
+export function seamCurve(surface: BSplineSurface): BSplineCurve {
+  return {
+    degree: surface.degreeU,
+    knots: surface.knotsU,
+    controlPoints: surface.controlPoints.map((row) => row[0]),
+  }
+}
+
+/**
+ * Ruled surface between two curves with the same degree and knots
+ * (degree 1 in u, from the first curve to the second).
+ */
+export function ruledSurface(from: BSplineCurve, to: BSplineCurve): BSplineSurface {
+  return {
+    degreeU: 1,
+    degreeV: from.degree,
+    knotsU: [0, 0, 1, 1],
+    knotsV: from.knots,
+    controlPoints: [from.controlPoints, to.controlPoints],
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * CMA-ES Minimization
+ * ===================
+ *
+ * Covariance Matrix Adaptation Evolution Strategy, (μ/μ_w, λ) with
+ * cumulative step-size adaptation (Hansen, "The CMA Evolution Strategy: A
+ * Tutorial", 2016). Better than Nelder–Mead at rugged objectives and
+ * larger parameter sets, at the cost of more evaluations.
+ *
+ * Sampling uses a seeded generator, so a run is reproducible.
+ */
+
+/**
+ * Search settings.
+ */
+export interface CmaEsOptions {
+  /** Initial step size, in the units of x (default: 0.3) */
+  sigma?: number
+
+  /** Offspring per generation (default: 4 + ⌊3 ln n⌋) */
+  populationSize?: number
+
+  /** Largest number of objective evaluations (default: 1000·n) */
+  maxEvaluations?: number
+
+  /** Stop when the objective values of a generation differ by less (default: 1e-10) */
+  tolerance?: number
+
+  /** Stop when the search distribution is smaller than this in every coordinate (default: 1e-8) */
+  stepTolerance?: number
+
+  /** Random seed (default: 1) */
+  seed?: number
+}
+
+/**
+ * Search result.
+ */
+export interface CmaEsResult {
+  /** Best point found */
+  x: number[]
+
+  /** Objective at x */
+  value: number
+
+  /** Generations used */
+  iterations: number
+
+  /** Whether a tolerance was met before the evaluation limit */
+  converged: boolean
+}
+
+/**
+ * Seeded uniform generator on [0, 1) (mulberry32).
+ */
+function uniform(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations.
+ *
+ * @returns Eigenvalues and eigenvectors (as the columns of vectors)
+ */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length
+  const a = matrix.map((row) => [...row])
+  const v = a.map((_, i) => a.map((_, j): number => (i === j ? 1 : 0)))
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q]
+    if (off < 1e-30) break
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1)
+        const s = t * c
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p]
+          const akq = a[k][q]
+          a[k][p] = c * akp - s * akq
+          a[k][q] = s * akp + c * akq
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k]
+          const aqk = a[q][k]
+          a[p][k] = c * apk - s * aqk
+          a[q][k] = s * apk + c * aqk
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p]
+          const vkq = v[k][q]
+          v[k][p] = c * vkp - s * vkq
+          v[k][q] = s * vkp + c * vkq
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: v }
+}
+
+/**
+ * Minimize a function of several variables.
+ *
+ * @param objective - Function to minimize
+ * @param x0 - Start point (initial mean)
+ * @param options - Step size, population, limits and seed
+ * @returns Best point and its value
+ */
+export function cmaEs(
+  objective: (x: number[]) => number,
+  x0: number[],
+  options: CmaEsOptions = {},
+): CmaEsResult {
+  const n = x0.length
+  const {
+    sigma: sigma0 = 0.3,
+    populationSize = 4 + Math.floor(3 * Math.log(n)),
+    maxEvaluations = 1000 * n,
+    tolerance = 1e-10,
+    stepTolerance = 1e-8,
+    seed = 1,
+  } = options
+
+  // Selection and recombination
+  const lambda = Math.max(2, populationSize)
+  const mu = Math.floor(lambda / 2)
+  const rawWeights = Array.from({ length: mu }, (_, i) => Math.log(mu + 0.5) - Math.log(i + 1))
+  const weightSum = rawWeights.reduce((a, b) => a + b, 0)
+  const weights = rawWeights.map((w) => w / weightSum)
+  const mueff = 1 / weights.reduce((s, w) => s + w * w, 0)
+
+  // Adaptation rates
+  const cc = (4 + mueff / n) / (n + 4 + (2 * mueff) / n)
+  const cs = (mueff + 2) / (n + mueff + 5)
+  const c1 = 2 / ((n + 1.3) ** 2 + mueff)
+  const cmu = Math.min(1 - c1, (2 * (mueff - 2 + 1 / mueff)) / ((n + 2) ** 2 + mueff))
+  const damps = 1 + 2 * Math.max(0, Math.sqrt((mueff - 1) / (n + 1)) - 1) + cs
+  const chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n))
+
+  const random = uniform(seed)
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+
+  let mean = [...x0]
+  let sigma = sigma0
+  let pc = new Array<number>(n).fill(0)
+  let ps = new Array<number>(n).fill(0)
+  let C = x0.map((_, i) => x0.map((_, j): number => (i === j ? 1 : 0)))
+
+  let best = { x: [...x0], value: objective(x0) }
+  let evaluations = 1
+  let iterations = 0
+  let converged = false
+
+  while (evaluations + lambda <= maxEvaluations) {
+    // C = B·D²·Bᵀ
+    const { values, vectors: B } = symmetricEigen(C)
+    const D = values.map((v) => Math.sqrt(Math.max(v, 1e-20)))
+
+    // Sample and rank offspring
+    const offspring = Array.from({ length: lambda }, () => {
+      const z = Array.from({ length: n }, gaussian)
+      const y = B.map((row) => row.reduce((s, b, k) => s + b * D[k] * z[k], 0))
+      const x = mean.map((m, i) => m + sigma * y[i])
+      return { x, y, value: objective(x) }
+    })
+    evaluations += lambda
+    iterations++
+    offspring.sort((a, b) => a.value - b.value)
+    if (offspring[0].value < best.value) best = { x: offspring[0].x, value: offspring[0].value }
+
+    // Recombination
+    const yw = mean.map((_, i) => weights.reduce((s, w, k) => s + w * offspring[k].y[i], 0))
+    mean = mean.map((m, i) => m + sigma * yw[i])
+
+    // Step-size path, using C^(-1/2)·y_w = B·D⁻¹·Bᵀ·y_w
+    const bty = B[0].map((_, k) => B.reduce((s, row, i) => s + row[k] * yw[i], 0) / D[k])
+    const invSqrtY = B.map((row) => row.reduce((s, b, k) => s + b * bty[k], 0))
+    const csFactor = Math.sqrt(cs * (2 - cs) * mueff)
+    ps = ps.map((p, i) => (1 - cs) * p + csFactor * invSqrtY[i])
+    const psNorm = Math.hypot(...ps)
+    const hsig =
+      psNorm / Math.sqrt(1 - (1 - cs) ** (2 * iterations)) / chiN < 1.4 + 2 / (n + 1) ? 1 : 0
+
+    // Covariance path and rank-one plus rank-μ update
+    const ccFactor = Math.sqrt(cc * (2 - cc) * mueff)
+    pc = pc.map((p, i) => (1 - cc) * p + hsig * ccFactor * yw[i])
+    C = C.map((row, i) =>
+      row.map((cij, j) => {
+        const rankOne = pc[i] * pc[j] + (1 - hsig) * cc * (2 - cc) * cij
+        const rankMu = weights.reduce((s, w, k) => s + w * offspring[k].y[i] * offspring[k].y[j], 0)
+        return (1 - c1 - cmu) * cij + c1 * rankOne + cmu * rankMu
+      }),
+    )
+    sigma *= Math.exp((cs / damps) * (psNorm / chiN - 1))
+
+    // Stop when the generation or the distribution has collapsed
+    const spread = offspring[lambda - 1].value - offspring[0].value
+    const size = sigma * Math.sqrt(Math.max(...C.map((row, i) => row[i])))
+    if (spread <= tolerance * (Math.abs(best.value) + tolerance) || size <= stepTolerance) {
+      converged = true
+      break
+    }
+  }
+
+  return { x: best.x, value: best.value, iterations, converged }
+}
@@ -0,0 +1,103 @@
+/**
+ * Design Comparison Metrics
+ * =========================
+ *
+ * Key figures of a generated waveguide (depth, mouth size and area, wall
+ * path-length spread) and their differences between two designs, for the
+ * A/B comparison table.
+ */
+
+import type { MeshData } from '../types/waveguide'
+import { ringArea } from './area'
+import { computeMeshMetrics } from './mesh'
+import { analyzePathLengths } from './pathLength'
+import { apertureRing } from './simulationMesh'
+
+/**
+ * Key figures of one design.
+ */
+export interface DesignMetrics {
+  /** Axial depth from throat to the foremost point of the lip [mm] */
+  depth: number
+
+  /** Mouth width (horizontal) [mm] */
+  mouthWidth: number
+
+  /** Mouth height (vertical) [mm] */
+  mouthHeight: number
+
+  /** Mouth aperture area [mm²] */
+  mouthArea: number
+
+  /** Spread of the wall path lengths, longest minus shortest [mm] */
+  pathSpread: number
+}
+
+/**
+ * One metric of two designs.
+ */
+export interface MetricDelta {
+  /** Metric key */
+  key: keyof DesignMetrics
+
+  /** Display label */
+  label: string
+
+  /** Display unit */
+  unit: string
+
+  /** Value of the reference design (A), in the display unit */
+  reference: number
+
+  /** Value of the current design (B), in the display unit */
+  current: number
+
+  /** current − reference */
+  delta: number
+}
+
+/** Display label, unit and scale of each metric */
+const METRICS: { key: keyof DesignMetrics; label: string; unit: string; scale: number }[] = [
+  { key: 'depth', label: 'Depth', unit: 'mm', scale: 1 },
+  { key: 'mouthWidth', label: 'Mouth W', unit: 'mm', scale: 1 },
+  { key: 'mouthHeight', label: 'Mouth H', unit: 'mm', scale: 1 },
+  { key: 'mouthArea', label: 'Mouth area', unit: 'cm²', scale: 0.01 },
+  { key: 'pathSpread', label: 'Path Δ max', unit: 'mm', scale: 1 },
+]
+
+/**
+ * Key figures of a design.
+ *
+ * @param meshData - Generated mesh data
+ * @returns Metrics, or null for an empty mesh
+ */
+export function designMetrics(meshData: MeshData | null): DesignMetrics | null {
+  const metrics = computeMeshMetrics(meshData)
+  if (!meshData || !metrics) return null
+
+  return {
+    depth: metrics.depth,
+    mouthWidth: metrics.mouthWidth,
+    mouthHeight: metrics.mouthHeight,
+    mouthArea: ringArea(meshData.rings[apertureRing(meshData)].ring),
+    pathSpread: analyzePathLengths(meshData).maxDifference,
+  }
+}
+
+/**
+ * Metric differences between two designs.
+ *
+ * @param reference - Metrics of the reference design (A)
+ * @param current - Metrics of the current design (B)
+ * @returns One row per metric, in display units
+ */
+export function compareMetrics(reference: DesignMetrics, current: DesignMetrics): MetricDelta[] {
+  return METRICS.map(({ key, label, unit, scale }) => ({
+    key,
+    label,
+    unit,
+    reference: reference[key] * scale,
+    current: current[key] * scale,
+    delta: (current[key] - reference[key]) * scale,
+  }))
+}
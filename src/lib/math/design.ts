@@ -0,0 +1,84 @@
+/**
+ * Design Geometry
+ * ===============
+ *
+ * Derives all geometry of a design at once, as the app's hooks do (see
+ * useMeshData): the guides, the display mesh, the export mesh (adaptive
+ * when enabled), the continuous surface for STEP and the shell. For
+ * headless use (command line, batch jobs) without React.
+ */
+
+import type { MeshData, ROSSEResult, WaveguideState } from '../types/waveguide'
+import { buildAdaptiveMesh } from './adaptive'
+import { buildStateMesh, createSurfaceEvaluator, type SurfaceEvaluator } from './mesh'
+import { computeROSSE } from './rosse'
+import { generateShellMesh, type ShellMeshData } from './shell'
+
+/**
+ * Geometry derived from a design.
+ */
+export interface DesignGeometry {
+  /** Horizontal guide */
+  hData: ROSSEResult
+
+  /** Vertical guide */
+  vData: ROSSEResult
+
+  /** Display mesh at the design's ring and slice counts */
+  meshData: MeshData
+
+  /** Mesh for file export (adaptive tessellation when enabled, else the display mesh) */
+  exportMeshData: MeshData
+
+  /** Continuous surface for exact-geometry export (STEP) */
+  surface: SurfaceEvaluator
+
+  /** Shell around the export mesh, or null when the shell is disabled */
+  shell: ShellMeshData | null
+}
+
+/**
+ * Build the geometry of a design.
+ *
+ * @param state - Waveguide design
+ * @returns Geometry, or null when the guide parameters are invalid
+ */
+export function buildDesignGeometry(state: WaveguideState): DesignGeometry | null {
+  const hData = computeROSSE(state.horizontal)
+  const vData = computeROSSE(state.vertical)
+  const meshData = buildStateMesh(state)
+  if (!hData || !vData || !meshData) return null
+
+  const exportMeshData = state.meshResolution.adaptive
+    ? buildAdaptiveMesh(
+        hData,
+        vData,
+        state.shapeBlend,
+        state.modBlend,
+        state.diagonalMod,
+        state.cardinalMod,
+        state.meshResolution.tolerance,
+        { depthMode: state.depthMode, mouthFlange: state.mouthFlange },
+      )
+    : meshData
+  if (!exportMeshData) return null
+
+  const surface = createSurfaceEvaluator(
+    hData,
+    vData,
+    state.shapeBlend,
+    state.modBlend,
+    state.diagonalMod,
+    state.cardinalMod,
+    state.depthMode,
+  )
+
+  return {
+    hData,
+    vData,
+    meshData,
+    exportMeshData,
+    surface,
+    shell: generateShellMesh(exportMeshData, state.shellParams),
+  }
+}
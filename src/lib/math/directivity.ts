@@ -0,0 +1,306 @@
+/**
+ * Mouth Directivity Prediction
+ * ============================
+ *
+ * Rough polar response of the waveguide from a Kirchhoff/Rayleigh integral
+ * over an approximate wavefront in the mouth aperture (the foremost ring,
+ * see simulationMesh.ts).
+ *
+ * Wavefront model:
+ * - Along each slice of the ring stack, the path length L from the throat
+ *   along the wall to the aperture rim is the wavefront's travel there; on
+ *   the axis it has travelled the mean path length L̄ (the cap apex depth)
+ * - Per slice, the wavefront is the spherical cap, centred on the axis,
+ *   through the rim point and the apex; its delay blends from L̄ at the apex
+ *   to L at the rim, so longer guides arrive later
+ * - The amplitude tapers off over the outer part of the cap (raised
+ *   cosine), standing in for the rounded mouth lip; a hard-edged cap would
+ *   diffract as strongly as its centre radiates
+ *
+ * The far field in a direction d is the sum over cap elements of
+ * w·dA·(1 + n·d)/2·e^(jk·(P·d − delay)), with the cap normal n (Kirchhoff
+ * obliquity factor). Levels are relative to on-axis; the −6 dB beamwidth is
+ * read from them.
+ *
+ * Diffraction at the mouth edge, the baffle and higher-order modes inside
+ * the horn are not modelled: this is a coverage check, not a simulation.
+ */
+
+import type { MeshData } from '../types/waveguide'
+import { apertureRing, SPEED_OF_SOUND } from './simulationMesh'
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/**
+ * Directivity in one plane.
+ */
+export interface DirectivityMap {
+  /** Frequencies [Hz] */
+  frequencies: number[]
+
+  /** Polar angles [degrees], 0 = on axis */
+  angles: number[]
+
+  /** Level relative to on-axis, per frequency and angle [dB] */
+  levels: number[][]
+
+  /** −6 dB beamwidth (full angle) per frequency [degrees] */
+  beamwidth: number[]
+}
+
+/**
+ * Directivity in the horizontal (xz) and vertical (yz) planes.
+ */
+export interface Directivity {
+  horizontal: DirectivityMap
+  vertical: DirectivityMap
+}
+
+/** Cap samples per wavelength */
+const SAMPLES_PER_WAVELENGTH = 4
+
+/** Outer fraction of the cap over which the amplitude tapers to zero */
+const EDGE_TAPER = 0.3
+
+/** Lowest level kept in the maps [dB] */
+const FLOOR_DB = -60
+
+/**
+ * Wavefront cap of one slice.
+ */
+interface CapSlice {
+  /** Azimuth of the rim point (unwrapped, increasing) [rad] */
+  psi: number
+
+  /** Distance of the rim point from the axis [mm] */
+  r: number
+
+  /** Depth of the rim point [mm] */
+  z: number
+
+  /** Path length from the throat along the wall [mm] */
+  length: number
+}
+
+/**
+ * Element of the wavefront cap.
+ */
+interface CapElement {
+  /** Position [mm] */
+  p: Vec3
+
+  /** Unit normal (direction of travel) */
+  n: Vec3
+
+  /** Area times amplitude [mm²] */
+  weight: number
+
+  /** Arrival delay as a path length [mm] */
+  delay: number
+}
+
+/**
+ * Rim of the aperture ring, with path lengths along the wall.
+ */
+function capSlices(meshData: MeshData): CapSlice[] {
+  const last = apertureRing(meshData)
+  const rings = meshData.rings.slice(0, last + 1).map((r) => r.ring)
+  const slices: CapSlice[] = []
+  for (let j = 0; j < meshData.numSlices; j++) {
+    let length = 0
+    for (let i = 0; i < last; i++) {
+      const a = rings[i][j]
+      const b = rings[i + 1][j]
+      length += Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2])
+    }
+    const [x, y, z] = rings[last][j]
+    let psi = Math.atan2(y, x)
+    while (slices.length > 0 && psi < slices[slices.length - 1].psi) psi += 2 * Math.PI
+    slices.push({ psi, r: Math.hypot(x, y), z, length })
+  }
+  return slices
+}
+
+/**
+ * Polar half-angle of the cap through the rim point and the apex
+ * (tan(φ/2) = sag / r).
+ */
+function capAngle({ r, z }: CapSlice, apex: number): number {
+  return 2 * Math.atan2(Math.max(0, apex - z), r)
+}
+
+/**
+ * Amplitude at polar fraction u (1 inside, raised cosine to 0 at the rim).
+ */
+function taper(u: number): number {
+  const edge = 1 - EDGE_TAPER
+  return u <= edge ? 1 : 0.5 * (1 + Math.cos((Math.PI * (u - edge)) / EDGE_TAPER))
+}
+
+/**
+ * Sample the wavefront cap with elements of about the given spacing.
+ *
+ * Rows of constant polar fraction u run from the cap apex to the rim, each
+ * sampled at equal azimuth steps (the rule is then very accurate round the
+ * rows); the cap is interpolated linearly in azimuth between slices.
+ */
+function capElements(slices: CapSlice[], spacing: number): CapElement[] {
+  const count = slices.length
+
+  // Cap at an azimuth in [psi0, psi0 + 2π)
+  const at = (psi: number): CapSlice => {
+    let j = 0
+    while (j < count - 1 && slices[j + 1].psi <= psi) j++
+    const a = slices[j]
+    const b = slices[(j + 1) % count]
+    const psiB = j + 1 === count ? b.psi + 2 * Math.PI : b.psi
+    const f = (psi - a.psi) / (psiB - a.psi)
+    return {
+      psi,
+      r: a.r + (b.r - a.r) * f,
+      z: a.z + (b.z - a.z) * f,
+      length: a.length + (b.length - a.length) * f,
+    }
+  }
+
+  const apex = slices.reduce((sum, slice) => sum + slice.length, 0) / count
+  const angles = slices.map((slice) => capAngle(slice, apex))
+  const maxAngle = Math.max(...angles)
+  const meridian = Math.max(
+    ...slices.map((slice, j) =>
+      angles[j] > 1e-6 ? (slice.r * angles[j]) / Math.sin(angles[j]) : slice.r,
+    ),
+  )
+  let perimeter = 0
+  for (let j = 0; j < count; j++) {
+    const a = slices[j]
+    const b = slices[(j + 1) % count]
+    perimeter += Math.hypot(
+      b.r * Math.cos(b.psi) - a.r * Math.cos(a.psi),
+      b.r * Math.sin(b.psi) - a.r * Math.sin(a.psi),
+    )
+  }
+
+  const elements: CapElement[] = []
+  const rows = Math.max(2, Math.ceil(meridian / spacing))
+  for (let i = 0; i < rows; i++) {
+    const u = (i + 0.5) / rows
+    const scale = maxAngle > 1e-6 ? Math.sin(u * maxAngle) / Math.sin(maxAngle) : u
+    // Multiple of four, so symmetric designs sample symmetrically in both planes
+    const columns = 4 * Math.max(2, Math.ceil((perimeter * scale) / spacing / 4))
+    const dpsi = (2 * Math.PI) / columns
+    for (let k = 0; k < columns; k++) {
+      const slice = at(slices[0].psi + k * dpsi)
+      const c = Math.cos(slice.psi)
+      const s = Math.sin(slice.psi)
+      const phi = capAngle(slice, apex)
+      const delay = apex + (slice.length - apex) * u * u
+
+      if (phi < 1e-6) {
+        // Flat wavefront
+        const rho = u * slice.r
+        elements.push({
+          p: [rho * c, rho * s, slice.z],
+          n: [0, 0, 1],
+          weight: ((slice.r * slice.r) / rows) * u * dpsi * taper(u),
+          delay,
+        })
+        continue
+      }
+
+      // Sphere of radius R centred on the axis at the apex depth − R
+      const radius = slice.r / Math.sin(phi)
+      const polar = u * phi
+      const sp = Math.sin(polar)
+      const cp = Math.cos(polar)
+      elements.push({
+        p: [radius * sp * c, radius * sp * s, apex - radius * (1 - cp)],
+        n: [sp * c, sp * s, cp],
+        weight: ((radius * radius * phi) / rows) * sp * dpsi * taper(u),
+        delay,
+      })
+    }
+  }
+  return elements
+}
+
+/**
+ * −6 dB beamwidth from levels over symmetric angles.
+ *
+ * Walks outwards from on-axis on each side to the first level at or below
+ * −6 dB (interpolated); a side that never drops counts to its last angle.
+ */
+function beamwidth(angles: number[], levels: number[]): number {
+  const axis = angles.reduce((best, a, i) => (Math.abs(a) < Math.abs(angles[best]) ? i : best), 0)
+  const edge = (step: number): number => {
+    for (let i = axis + step; i >= 0 && i < angles.length; i += step) {
+      if (levels[i] <= -6) {
+        const prev = i - step
+        const f = (levels[prev] + 6) / (levels[prev] - levels[i])
+        return Math.abs(angles[prev] + (angles[i] - angles[prev]) * f)
+      }
+    }
+    return Math.abs(angles[step > 0 ? angles.length - 1 : 0])
+  }
+  return edge(1) + edge(-1)
+}
+
+/**
+ * Predict the horizontal and vertical directivity of the mouth wavefront.
+ *
+ * @param meshData - Generated mesh data
+ * @param frequencies - Frequencies [Hz]
+ * @param angles - Polar angles [degrees], symmetric about 0 and including it
+ * @returns Level maps relative to on-axis and −6 dB beamwidths per plane
+ */
+export function predictDirectivity(
+  meshData: MeshData,
+  frequencies: number[],
+  angles: number[],
+): Directivity {
+  const slices = capSlices(meshData)
+  const directions = angles.map((deg) => {
+    const a = (deg * Math.PI) / 180
+    return [Math.sin(a), Math.cos(a)]
+  })
+
+  const planes = { horizontal: [] as number[][], vertical: [] as number[][] }
+  for (const frequency of frequencies) {
+    const k = (2 * Math.PI * frequency) / SPEED_OF_SOUND
+    const elements = capElements(slices, SPEED_OF_SOUND / frequency / SAMPLES_PER_WAVELENGTH)
+
+    // Far-field pressure; axis 0 = x (horizontal plane), 1 = y (vertical plane)
+    const pressure = (axis: 0 | 1, [sd, cd]: number[]): number => {
+      let re = 0
+      let im = 0
+      for (const { p, n, weight, delay } of elements) {
+        const amplitude = (weight * (1 + n[axis] * sd + n[2] * cd)) / 2
+        const phase = k * (p[axis] * sd + p[2] * cd - delay)
+        re += amplitude * Math.cos(phase)
+        im += amplitude * Math.sin(phase)
+      }
+      return Math.hypot(re, im)
+    }
+
+    const onAxis = pressure(0, [0, 1])
+    for (const [name, axis] of [
+      ['horizontal', 0],
+      ['vertical', 1],
+    ] as const) {
+      planes[name].push(
+        directions.map((d) =>
+          Math.max(FLOOR_DB, 20 * Math.log10(pressure(axis, d) / onAxis || 10 ** (FLOOR_DB / 20))),
+        ),
+      )
+    }
+  }
+
+  const map = (levels: number[][]): DirectivityMap => ({
+    frequencies,
+    angles,
+    levels,
+    beamwidth: levels.map((row) => beamwidth(angles, row)),
+  })
+  return { horizontal: map(planes.horizontal), vertical: map(planes.vertical) }
+}
@@ -0,0 +1,198 @@
+/**
+ * Mouth Flange Generation
+ * ========================
+ *
+ * Extends the waveguide surface past the mouth (t=1) with a rounded
+ * termination that blends the wall into a flat baffle plane.
+ *
+ * Each slice is handled in its own meridional plane (the plane through the
+ * horn axis and the mouth point), so the roll-back follows the non-circular
+ * superellipse mouth outline:
+ * 1. Optional straight extension along the wall tangent, so that every slice
+ *    lands on the same baffle plane
+ * 2. Circular arc of the given radius, turning the wall until it runs
+ *    radially outward (perpendicular to the axis)
+ * 3. Flat baffle from the end of the arc to the outer rectangle
+ *
+ * R-OSSE mouths usually end with the wall already rolled back towards the
+ * throat. In that case the arc is a concave fillet and the baffle plane lies
+ * behind the mouth lip; a wall still opening forward gets a convex arc and a
+ * baffle in front of the mouth instead.
+ */
+
+import type { MouthFlangeParams } from '../types/waveguide'
+import type { SurfaceEvaluator } from './mesh'
+
+/** Parameter step used to estimate the wall tangent at the mouth */
+const TANGENT_DT = 1e-3
+
+/** Minimum baffle width between the roll-back and the outer rectangle [mm] */
+const MIN_BAFFLE_WIDTH = 1
+
+/**
+ * Roll-back path of a single slice in its meridional (r, z) plane.
+ */
+interface SlicePath {
+  /** Mouth point */
+  start: [number, number, number]
+
+  /** Unit radial direction in the XY plane */
+  radial: [number, number]
+
+  /** Wall angle from the +z axis at the mouth [rad] */
+  phi0: number
+
+  /** Turning direction of the arc (+1 towards +r, -1 towards -r, 0 if none) */
+  turn: number
+
+  /** Tangent extension length before the arc [mm] */
+  extension: number
+
+  /** Arc length [mm] */
+  arcLength: number
+
+  /** Outer rectangle point in the XY plane */
+  outer: [number, number]
+}
+
+/**
+ * Point on the outer rectangle for slice angle theta.
+ *
+ * Uses the square-norm projection of (cos θ, sin θ), which maps θ=45° (and
+ * the other diagonals) exactly onto the rectangle corners.
+ */
+function rectanglePoint(theta: number, width: number, height: number): [number, number] {
+  const c = Math.cos(theta)
+  const s = Math.sin(theta)
+  const m = Math.max(Math.abs(c), Math.abs(s))
+  return [((width / 2) * c) / m, ((height / 2) * s) / m]
+}
+
+/**
+ * Point along a slice path at distance s from the mouth.
+ */
+function pathPoint(path: SlicePath, radius: number, s: number): [number, number, number] {
+  const { start, radial, phi0, turn, extension } = path
+
+  // Straight tangent extension
+  const along = Math.min(s, extension)
+  let dr = along * Math.sin(phi0)
+  let dz = along * Math.cos(phi0)
+
+  // Circular arc: φ runs from φ0 towards π/2 at rate 1/radius
+  if (s > extension && turn !== 0) {
+    const phi = phi0 + (turn * (s - extension)) / radius
+    dr += (radius / turn) * (Math.cos(phi0) - Math.cos(phi))
+    dz += (radius / turn) * (Math.sin(phi) - Math.sin(phi0))
+  }
+
+  return [start[0] + radial[0] * dr, start[1] + radial[1] * dr, start[2] + dz]
+}
+
+/**
+ * Build the mouth flange rings.
+ *
+ * The baffle plane is the rearmost arc end when the walls point back towards
+ * the throat (the usual R-OSSE mouth) and the frontmost otherwise; the other
+ * slices reach it through the tangent extension. The outer rectangle is
+ * pushed out locally if it would cut into the roll-back.
+ *
+ * @param surface - Waveguide surface evaluator
+ * @param thetas - Slice angles [rad], numSlices + 1 values
+ * @param params - Mouth flange parameters
+ * @returns Flange rings from just past the mouth to the outer baffle edge
+ *          (numSlices + 1 points each), or an empty array when disabled
+ */
+export function buildMouthFlange(
+  surface: SurfaceEvaluator,
+  thetas: number[],
+  params: MouthFlangeParams,
+): [number, number, number][][] {
+  if (!params.enabled || params.radius <= 0 || thetas.length < 2) return []
+
+  const { radius, width, height } = params
+  const mouth = surface.station(1)
+  const before = surface.station(1 - TANGENT_DT)
+
+  // Wall direction and arc end of each slice (before the tangent extension)
+  const paths: SlicePath[] = []
+  const arcEndZ: number[] = []
+  let cosSum = 0
+
+  for (const theta of thetas) {
+    const start = surface.point(mouth, theta)
+    const prev = surface.point(before, theta)
+
+    const rLen = Math.hypot(start[0], start[1])
+    const radial: [number, number] =
+      rLen > 1e-9 ? [start[0] / rLen, start[1] / rLen] : [Math.cos(theta), Math.sin(theta)]
+
+    // Wall tangent projected onto the meridional plane
+    const tr = (start[0] - prev[0]) * radial[0] + (start[1] - prev[1]) * radial[1]
+    const tz = start[2] - prev[2]
+    const phi0 = Math.atan2(tr, tz)
+
+    const delta = Math.PI / 2 - phi0
+    const turn = Math.abs(delta) < 1e-9 ? 0 : Math.sign(delta)
+    const dz = turn === 0 ? 0 : (radius / turn) * (1 - Math.sin(phi0))
+
+    paths.push({
+      start,
+      radial,
+      phi0,
+      turn,
+      extension: 0,
+      arcLength: radius * Math.abs(delta),
+      outer: [0, 0],
+    })
+    arcEndZ.push(start[2] + dz)
+    cosSum += Math.cos(phi0)
+  }
+
+  // Common baffle plane, reachable by extending along each wall tangent
+  const baffleZ = cosSum < 0 ? Math.min(...arcEndZ) : Math.max(...arcEndZ)
+
+  for (const [j, path] of paths.entries()) {
+    const c = Math.cos(path.phi0)
+    const ext = Math.abs(c) > 1e-6 ? (baffleZ - arcEndZ[j]) / c : 0
+    path.extension = Math.max(0, ext)
+
+    // Outer rectangle point, kept outside the end of the roll-back
+    const end = pathPoint(path, radius, path.extension + path.arcLength)
+    const endR = Math.hypot(end[0], end[1])
+    let outer = rectanglePoint(thetas[j], width, height)
+    const outerR = Math.hypot(outer[0], outer[1])
+    if (outerR < endR + MIN_BAFFLE_WIDTH) {
+      const k = (endR + MIN_BAFFLE_WIDTH) / outerR
+      outer = [outer[0] * k, outer[1] * k]
+    }
+    path.outer = outer
+  }
+
+  // Ring count: about 5.6° of turning per ring, plus rings for long extensions
+  const maxTurn = Math.max(...paths.map((p) => p.arcLength / radius))
+  const maxExtension = Math.max(...paths.map((p) => p.extension))
+  const numArcRings = Math.max(4, Math.ceil(maxTurn / (Math.PI / 32)))
+  const numExtRings = Math.min(8, Math.ceil(maxExtension / radius))
+  const numPathRings = numArcRings + numExtRings
+
+  const rings: [number, number, number][][] = []
+  for (let k = 1; k <= numPathRings; k++) {
+    const u = k / numPathRings
+    const ring = paths.map((p) => pathPoint(p, radius, u * (p.extension + p.arcLength)))
+    rings.push(ring)
+  }
+
+  // Snap the end of the roll-back onto the baffle plane
+  const lastArcRing = rings[rings.length - 1]
+  for (const p of lastArcRing) p[2] = baffleZ
+
+  // Flat baffle out to the outer rectangle
+  rings.push(paths.map((p) => [p.outer[0], p.outer[1], baffleZ]))
+
+  // Weld the seam
+  const last = thetas.length - 1
+  for (const ring of rings) ring[last] = [...ring[0]]
+
+  return rings
+}
@@ -5,6 +5,12 @@
  * Barrel export for all mathematical functions used in waveguide design.
  */
 
+// Curvature-adaptive tessellation
+export { buildAdaptiveMesh, tessellationIssues } from './adaptive'
+// Equivalent 1D area profile (Hornresp export)
+export { areaProfile, areaRoughness, fitAreaSegments, ringArea, segmentArea } from './area'
+// Axisymmetric boundary element solver
+export { axisymmetricIssues, solveBEM } from './bem'
 // Blending functions
 export {
   poweredSmoothstep,
@@ -12,6 +18,26 @@ export {
   smoothstep,
   smoothstep5,
 } from './blending'
+// B-spline curves and surfaces
+export {
+  boundaryCurveU,
+  cubicKnots,
+  interpolateCubic,
+  interpolateSurface,
+  ruledSurface,
+  seamCurve,
+  surfacePoint,
+} from './bspline'
+// CMA-ES minimization
+export { cmaEs } from './cmaes'
+// A/B design comparison metrics
+export { compareMetrics, designMetrics } from './comparison'
+// Geometry of a whole design (headless)
+export { buildDesignGeometry } from './design'
+// Mouth directivity prediction
+export { predictDirectivity } from './directivity'
+// Mouth roll-back and baffle flange
+export { buildMouthFlange } from './flange'
 // Geometry utilities
 export {
   cartesianToPolar,
@@ -22,8 +48,16 @@ export {
   polarToCartesian,
   rot3,
 } from './geometry'
+// Inverse design of the guides from target dimensions
+export { inverseIssues, LENGTH_TOLERANCE, solveGuides } from './inverse'
 // 3D mesh generation
-export { buildMesh, computeMeshMetrics } from './mesh'
+export {
+  buildMesh,
+  buildStateMesh,
+  computeMeshMetrics,
+  createSurfaceEvaluator,
+  surfaceRings,
+} from './mesh'
 // Dual modulation system
 export {
   combinedModulation,
@@ -32,7 +66,64 @@ export {
   modRawDiagonal,
   prepModParams,
 } from './modulation'
+// Throat driver mounting flange
+export {
+  BOLT_PATTERNS,
+  boltHoleCenters,
+  buildThroatMount,
+  checkThroatMount,
+  circlePoints,
+  loopStrip,
+  mountOutline,
+  resolveBoltPattern,
+  roundedRectDistance,
+  roundedRectPoints,
+} from './mount'
+// Nelder–Mead minimization
+export { nelderMead } from './optimize'
+// Wall path-length analysis
+export { analyzePathLengths, pathPhase } from './pathLength'
+// Mouth mounting plate and baffle cutout
+export {
+  baffleCutout,
+  buildMouthPlate,
+  checkMouthPlate,
+  hasCounterbore,
+  mouthPlateLayout,
+  trimRingsAtPlane,
+} from './plate'
 // R-OSSE parametric equations
 export { computeROSSE, lookupX, lookupY } from './rosse'
+// Profile sampling and ring distribution
+export {
+  computeRingStations,
+  createProfileSampler,
+  interpolateProfile,
+  interpolateSamples,
+} from './sampler'
+// Tagged simulation mesh (Gmsh export)
+export {
+  apertureRing,
+  buildSimulationMesh,
+  elementSize,
+  SIMULATION_GROUPS,
+  SPEED_OF_SOUND,
+} from './simulationMesh'
+// Special functions (Bessel, Struve, elliptic integrals)
+export { besselJ0, besselJ1, ellipticKE, struveH1 } from './special'
 // Superellipse cross-sections
 export { computeSuperellipseN, superellipsePoints } from './superellipse'
+// B-spline fit of the waveguide surface
+export { fitWaveguideSurfaces } from './surfaceFit'
+// Polygon triangulation
+export { signedArea, triangulatePolygon } from './triangulate'
+// Indexed export mesh and manifold check
+export {
+  buildExportMesh,
+  checkManifold,
+  manifoldIssues,
+  shellTriMesh,
+  surfaceTriMesh,
+} from './trimesh'
+// Webster horn equation (throat impedance)
+export { logFrequencies, pistonImpedance, throatImpedance } from './webster'
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PARAMS } from '../types/waveguide'
+import { type InverseTargets, solveGuides } from './inverse'
+import { buildStateMesh } from './mesh'
+import { computeROSSE } from './rosse'
+
+const { horizontal, vertical } = DEFAULT_PARAMS
+
+const targets: InverseTargets = {
+  mouthWidth: 2 * horizontal.R,
+  mouthHeight: 2 * vertical.R,
+  maxDepth: 60,
+  throatDiameter: 2 * horizontal.r0,
+  coverageH: 2 * horizontal.a_deg,
+  coverageV: 2 * vertical.a_deg,
+}
+
+describe('solveGuides', () => {
+  it('keeps the rolled-back lip within the depth limit', () => {
+    const result = solveGuides(DEFAULT_PARAMS, targets)
+    expect(result.converged).toBe(true)
+    expect(result.depth).toBeLessThanOrEqual(targets.maxDepth)
+
+    // The lip rolls back: the mouth point lies short of the foremost point
+    const mouth = Math.max(
+      ...[result.horizontal, result.vertical].map((guide) => {
+        const points = computeROSSE(guide)?.points ?? []
+        return points[points.length - 1].x
+      }),
+    )
+    expect(mouth).toBeLessThan(result.depth - 1)
+
+    // The reported depth is the depth of the generated mesh
+    const meshData = buildStateMesh({
+      ...DEFAULT_PARAMS,
+      horizontal: result.horizontal,
+      vertical: result.vertical,
+    })
+    const meshDepth = Math.max(
+      ...(meshData?.rings ?? []).flatMap(({ ring }) => ring.map((p) => p[2])),
+    )
+    expect(meshDepth).toBeCloseTo(result.depth, 1)
+    expect(meshDepth).toBeLessThanOrEqual(targets.maxDepth)
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Inverse Design of the R-OSSE Guides
+ * ===================================
+ *
+ * Finds ROSSEParams for both guides from design constraints: mouth width
+ * and height, maximum depth, throat diameter and coverage angles.
+ *
+ * Some parameters follow directly from the targets: the mouth radius R is
+ * half the mouth width (height for the vertical guide), r0 is half the
+ * throat diameter and a_deg is half the coverage angle. The rest is a
+ * Nelder–Mead search over k and a0_deg of each guide and a shared bending
+ * factor b, minimizing
+ *
+ *   W·((L_H − L_V)/tol)² + W·(depth excess/tol)² + Σ((p − p_start)/range)²
+ *
+ * so that both guides end at the same axial length L (no depth mismatch),
+ * the horn stays within the depth limit, and among the designs that do,
+ * the one closest to the starting parameters is chosen. rho, m and q keep
+ * their starting values.
+ */
+
+import { PARAM_RANGES } from '../config/parameterConfig'
+import type { ROSSEParams } from '../types/waveguide'
+import { clamp } from './geometry'
+import { nelderMead } from './optimize'
+import { computeROSSE } from './rosse'
+
+/**
+ * Design constraints.
+ */
+export interface InverseTargets {
+  /** Mouth width [mm] */
+  mouthWidth: number
+
+  /** Mouth height [mm] */
+  mouthHeight: number
+
+  /** Largest allowed depth, throat to the foremost point of the lip [mm] */
+  maxDepth: number
+
+  /** Throat diameter [mm] */
+  throatDiameter: number
+
+  /** Horizontal coverage, full angle [degrees] */
+  coverageH: number
+
+  /** Vertical coverage, full angle [degrees] */
+  coverageV: number
+}
+
+/**
+ * Solved guides and how well they meet the targets.
+ */
+export interface InverseResult {
+  /** Proposed horizontal guide */
+  horizontal: ROSSEParams
+
+  /** Proposed vertical guide */
+  vertical: ROSSEParams
+
+  /** Axial length L of the horizontal guide [mm] */
+  lengthH: number
+
+  /** Axial length L of the vertical guide [mm] */
+  lengthV: number
+
+  /** Depth of the deeper guide, throat to its foremost point [mm] */
+  depth: number
+
+  /** Whether every constraint is met */
+  converged: boolean
+
+  /** Constraints that are not met */
+  issues: string[]
+}
+
+/** Largest accepted difference between the guide lengths [mm] */
+export const LENGTH_TOLERANCE = 0.5
+
+/** Weight of the constraint terms relative to the distance from the start */
+const CONSTRAINT_WEIGHT = 100
+
+/** Searched parameters: k and a0_deg of each guide, shared b */
+const ranges = PARAM_RANGES.rosse
+const SEARCH = [ranges.k, ranges.a0_deg, ranges.k, ranges.a0_deg, ranges.b]
+
+/**
+ * Targets outside the parameter ranges.
+ *
+ * @param targets - Design constraints
+ * @returns Messages (empty when the targets can be solved for)
+ */
+export function inverseIssues(targets: InverseTargets): string[] {
+  const issues: string[] = []
+  const check = (value: number, min: number, max: number, label: string, unit: string) => {
+    if (!Number.isFinite(value) || value < min || value > max) {
+      issues.push(`${label} must be between ${min} and ${max} ${unit}`)
+    }
+  }
+  check(targets.mouthWidth, 2 * ranges.R.min, 2 * ranges.R.max, 'Mouth width', 'mm')
+  check(targets.mouthHeight, 2 * ranges.R.min, 2 * ranges.R.max, 'Mouth height', 'mm')
+  check(targets.throatDiameter, 2 * ranges.r0.min, 2 * ranges.r0.max, 'Throat diameter', 'mm')
+  check(targets.coverageH, 2 * ranges.a_deg.min, 2 * ranges.a_deg.max, 'H coverage', '°')
+  check(targets.coverageV, 2 * ranges.a_deg.min, 2 * ranges.a_deg.max, 'V coverage', '°')
+  if (!(targets.maxDepth > 0)) issues.push('Maximum depth must be positive')
+  return issues
+}
+
+/**
+ * Axial length L and depth of a guide, or null for invalid geometry.
+ *
+ * The depth is the largest x along the profile: the lip rolls back at the
+ * mouth, so the mouth point (t=1) lies short of the foremost point.
+ */
+function guideLength(params: ROSSEParams): { L: number; depth: number } | null {
+  const result = computeROSSE(params)
+  return result ? { L: result.L, depth: Math.max(...result.points.map((p) => p.x)) } : null
+}
+
+/**
+ * Solve both guides for the targets.
+ *
+ * @param start - Current guides (starting point; supplies rho, m and q)
+ * @param targets - Design constraints (see inverseIssues)
+ * @param lengthTolerance - Accepted difference between the guide lengths [mm]
+ * @returns Proposed guides, their lengths and depth, and any unmet constraints
+ */
+export function solveGuides(
+  start: { horizontal: ROSSEParams; vertical: ROSSEParams },
+  targets: InverseTargets,
+  lengthTolerance: number = LENGTH_TOLERANCE,
+): InverseResult {
+  const r0 = targets.throatDiameter / 2
+  const baseH: ROSSEParams = {
+    ...start.horizontal,
+    R: targets.mouthWidth / 2,
+    r0,
+    a_deg: targets.coverageH / 2,
+  }
+  const baseV: ROSSEParams = {
+    ...start.vertical,
+    R: targets.mouthHeight / 2,
+    r0,
+    a_deg: targets.coverageV / 2,
+  }
+
+  const x0 = [
+    start.horizontal.k,
+    start.horizontal.a0_deg,
+    start.vertical.k,
+    start.vertical.a0_deg,
+    (start.horizontal.b + start.vertical.b) / 2,
+  ].map((v, i) => clamp(v, SEARCH[i].min, SEARCH[i].max))
+
+  const guides = (x: number[]): [ROSSEParams, ROSSEParams] => {
+    const [kH, a0H, kV, a0V, b] = x.map((v, i) => clamp(v, SEARCH[i].min, SEARCH[i].max))
+    return [
+      { ...baseH, k: kH, a0_deg: a0H, b },
+      { ...baseV, k: kV, a0_deg: a0V, b },
+    ]
+  }
+
+  // Aim slightly inside the depth limit so the quadratic penalty lands below it
+  const depthLimit = targets.maxDepth - lengthTolerance / 2
+
+  const objective = (x: number[]): number => {
+    const [h, v] = guides(x)
+    const gh = guideLength(h)
+    const gv = guideLength(v)
+    if (!gh || !gv) return 1e9
+
+    let outside = 0
+    let distance = 0
+    for (const [i, { min, max }] of SEARCH.entries()) {
+      outside += (Math.max(0, min - x[i]) + Math.max(0, x[i] - max)) / (max - min)
+      distance += ((x[i] - x0[i]) / (max - min)) ** 2
+    }
+    const mismatch = (gh.L - gv.L) / lengthTolerance
+    const excess = Math.max(0, Math.max(gh.depth, gv.depth) - depthLimit) / lengthTolerance
+
+    return CONSTRAINT_WEIGHT * (mismatch ** 2 + excess ** 2) + distance + 1e3 * outside ** 2
+  }
+
+  // Restart once from the result: a collapsed simplex can stall on the penalty edges
+  const steps = SEARCH.map(({ min, max }) => (max - min) / 10)
+  const first = nelderMead(objective, x0, steps, { maxIterations: 3000 })
+  const { x } = nelderMead(
+    objective,
+    first.x,
+    steps.map((s) => s / 5),
+    { maxIterations: 3000 },
+  )
+
+  const [horizontal, vertical] = guides(x)
+  const gh = guideLength(horizontal)
+  const gv = guideLength(vertical)
+  const lengthH = gh?.L ?? Number.NaN
+  const lengthV = gv?.L ?? Number.NaN
+  const depth = Math.max(gh?.depth ?? Number.NaN, gv?.depth ?? Number.NaN)
+
+  const issues: string[] = []
+  if (!gh || !gv) {
+    issues.push('No valid geometry for these targets')
+  } else {
+    if (Math.abs(lengthH - lengthV) > lengthTolerance) {
+      issues.push(
+        `Guide lengths differ by ${Math.abs(lengthH - lengthV).toFixed(1)} mm (tolerance ${lengthTolerance} mm)`,
+      )
+    }
+    if (depth > targets.maxDepth) {
+      issues.push(`Depth ${depth.toFixed(1)} mm exceeds the maximum of ${targets.maxDepth} mm`)
+    }
+  }
+
+  return {
+    horizontal,
+    vertical,
+    lengthH,
+    lengthV,
+    depth,
+    converged: issues.length === 0,
+    issues,
+  }
+}
@@ -12,7 +12,7 @@
  *    b. Compute superellipse exponent with smoothstep blending
  *    c. Generate superellipse cross-section points
  *    d. Apply combined X and Cardinal modulation with shared blend zone
- *    e. Position the ring at the axial coordinate from H guide
+ *    e. Position the ring axially (H guide depth, or per-angle H/V blend)
  * 3. Connect rings with quad faces to form a watertight mesh
  *
  * New in v2:
@@ -23,34 +23,58 @@
 
 import type {
   CardinalModParams,
+  DepthMode,
   DiagonalModParams,
   MeshData,
   MeshRing,
   ModulationBlendParams,
+  MouthFlangeParams,
+  RingDistribution,
   ROSSEResult,
   ShapeBlendParams,
+  WaveguideState,
 } from '../types/waveguide'
 import { smoothLerp } from './blending'
+import { buildMouthFlange } from './flange'
 import { combinedModulation, prepModParams } from './modulation'
-import { lookupX, lookupY } from './rosse'
+import { computeROSSE, lookupX, lookupY } from './rosse'
+import { computeRingStations } from './sampler'
 
 /**
- * Build complete 3D waveguide mesh with v2 dual modulation and smoothstep blending.
- *
- * This function generates a 3D mesh by:
- * - Using two independent R-OSSE curves for horizontal and vertical expansion
- * - Applying smoothstep blending for C1 continuous transitions
- * - Supporting both X (diagonal) and Cardinal (+) modulations
- * - Using separate blend zones for shape and modulation
- *
- * The mesh consists of:
- * - numRings + 1 cross-sectional rings from throat (t=0) to mouth (t=1)
- * - numSlices + 1 points per ring (including closing point at θ=2π)
- * - Quad faces connecting adjacent rings
+ * Optional settings for mesh generation.
+ */
+export interface MeshBuildOptions {
+  /** Axial positioning mode (default: 'common') */
+  depthMode?: DepthMode
+
+  /** Axial ring spacing (default: 'uniform-t') */
+  distribution?: RingDistribution
+
+  /** Mouth roll-back and baffle flange (default: none) */
+  mouthFlange?: MouthFlangeParams
+}
+
+/**
+ * Station data for one cross-section (a ring without its points).
+ */
+export type MeshStation = Omit<MeshRing, 'ring'>
+
+/**
+ * Evaluator for the continuous waveguide surface.
  *
- * Coordinate system:
- * - X, Y: cross-sectional plane (X = horizontal, Y = vertical)
- * - Z: axial direction (along the horn, from throat to mouth)
+ * Shared by the fixed-resolution mesh builder and the adaptive tessellator,
+ * so both produce points on exactly the same surface.
+ */
+export interface SurfaceEvaluator {
+  /** Compute guide dimensions and shape exponent at parameter t */
+  station: (t: number) => MeshStation
+
+  /** Compute the surface point at angle theta [rad] on a station */
+  point: (station: MeshStation, theta: number) => [number, number, number]
+}
+
+/**
+ * Create an evaluator for the waveguide surface S(t, θ).
  *
  * @param hData - Horizontal R-OSSE guide curve result
  * @param vData - Vertical R-OSSE guide curve result
@@ -58,26 +82,20 @@ import { lookupX, lookupY } from './rosse'
  * @param modBlend - Modulation blend zone parameters
  * @param diagonalModParams - X-shape (diagonal) modulation parameters
  * @param cardModParams - Cardinal (+) modulation parameters
- * @param numRings - Number of rings to generate (default: 50)
- * @param numSlices - Angular divisions per ring (default: 72)
- * @returns Mesh data structure with rings and metadata, or null if invalid input
+ * @param depthMode - Axial positioning mode (default: 'common')
+ * @returns Surface evaluator
  */
-export function buildMesh(
-  hData: ROSSEResult | null,
-  vData: ROSSEResult | null,
+export function createSurfaceEvaluator(
+  hData: ROSSEResult,
+  vData: ROSSEResult,
   shapeBlend: ShapeBlendParams,
   modBlend: ModulationBlendParams,
   diagonalModParams: DiagonalModParams,
   cardModParams: CardinalModParams,
-  numRings: number = 50,
-  numSlices: number = 72,
-): MeshData | null {
-  // Validate input
-  if (!hData || !vData) return null
-
+  depthMode: DepthMode = 'common',
+): SurfaceEvaluator {
   const hPts = hData.points
   const vPts = vData.points
-  const rings: MeshRing[] = []
 
   // Get throat radius (assuming circular at throat)
   const r0 = hPts[0].y
@@ -85,13 +103,10 @@ export function buildMesh(
   // Precompute modulation normalization
   const modPrep = prepModParams(diagonalModParams, cardModParams)
 
-  // Generate each cross-sectional ring
-  for (let ri = 0; ri <= numRings; ri++) {
-    // Parameter position along the horn [0..1]
-    const t = ri / numRings
-
-    // Get axial position from horizontal guide
+  const station = (t: number): MeshStation => {
+    // Get axial positions from both guides
     const xH = lookupX(hPts, t)
+    const xV = lookupX(vPts, t)
 
     // Get raw guide values
     const yH_raw = lookupY(hPts, t) // Raw H guide radius
@@ -125,50 +140,178 @@ export function buildMesh(
       shapeBlend.shapePow,
     )
 
+    return { t, xH, xV, yH, yV, n }
+  }
+
+  const point = (st: MeshStation, theta: number): [number, number, number] => {
+    const c = Math.cos(theta)
+    const s = Math.sin(theta)
+
+    // Generate base superellipse point
+    // Parametric equation: (x, y) = (hw·sgn(cos)·|cos|^(2/n), hh·sgn(sin)·|sin|^(2/n))
+    let px = st.yH * Math.sign(c) * Math.abs(c) ** (2 / st.n)
+    let py = st.yV * Math.sign(s) * Math.abs(s) ** (2 / st.n)
+
+    // Apply combined modulation (X + Cardinal)
+    const mod = combinedModulation(theta, st.t, modPrep, modBlend)
+    px *= mod
+    py *= mod
+
+    // Axial position: H guide depth, or blended towards the V guide by sin²θ
+    const pz = depthMode === 'true' ? st.xH + (st.xV - st.xH) * s * s : st.xH
+
+    // Point as [x, y, z] where z is axial position
+    return [px, py, pz]
+  }
+
+  return { station, point }
+}
+
+/**
+ * Build complete 3D waveguide mesh with v2 dual modulation and smoothstep blending.
+ *
+ * This function generates a 3D mesh by:
+ * - Using two independent R-OSSE curves for horizontal and vertical expansion
+ * - Applying smoothstep blending for C1 continuous transitions
+ * - Supporting both X (diagonal) and Cardinal (+) modulations
+ * - Using separate blend zones for shape and modulation
+ *
+ * The mesh consists of:
+ * - numRings + 1 cross-sectional rings from throat (t=0) to mouth (t=1),
+ *   spaced according to the ring distribution (see computeRingStations)
+ * - numSlices + 1 points per ring (including closing point at θ=2π)
+ * - Quad faces connecting adjacent rings
+ *
+ * Coordinate system:
+ * - X, Y: cross-sectional plane (X = horizontal, Y = vertical)
+ * - Z: axial direction (along the horn, from throat to mouth)
+ *
+ * Depth modes:
+ * - common: z = xH(t) for every point, so each ring (and the mouth) is planar
+ * - true: z = xH(t) + (xV(t) - xH(t))·sin²θ, so the wall at θ=0° follows the
+ *   H guide and the wall at θ=90° follows the V guide's own axial coordinate.
+ *   For a superellipse point, sin²θ is exactly the normalized V-axis weight
+ *   |py/hh|^n, so the blend is consistent with the cross-section shape.
+ *
+ * @param hData - Horizontal R-OSSE guide curve result
+ * @param vData - Vertical R-OSSE guide curve result
+ * @param shapeBlend - Shape blend zone parameters
+ * @param modBlend - Modulation blend zone parameters
+ * @param diagonalModParams - X-shape (diagonal) modulation parameters
+ * @param cardModParams - Cardinal (+) modulation parameters
+ * @param numRings - Number of rings to generate (default: 50)
+ * @param numSlices - Angular divisions per ring (default: 72)
+ * @param options - Optional generation settings (depth mode, ring distribution, mouth flange)
+ * @returns Mesh data structure with rings and metadata, or null if invalid input
+ */
+export function buildMesh(
+  hData: ROSSEResult | null,
+  vData: ROSSEResult | null,
+  shapeBlend: ShapeBlendParams,
+  modBlend: ModulationBlendParams,
+  diagonalModParams: DiagonalModParams,
+  cardModParams: CardinalModParams,
+  numRings: number = 50,
+  numSlices: number = 72,
+  options: MeshBuildOptions = {},
+): MeshData | null {
+  // Validate input
+  if (!hData || !vData) return null
+
+  const surface = createSurfaceEvaluator(
+    hData,
+    vData,
+    shapeBlend,
+    modBlend,
+    diagonalModParams,
+    cardModParams,
+    options.depthMode,
+  )
+  const stations = computeRingStations(hData, vData, numRings, options.distribution ?? 'uniform-t')
+  const rings: MeshRing[] = []
+
+  // Angular position of each slice around the ring
+  const thetas = Array.from({ length: numSlices + 1 }, (_, si) => (2 * Math.PI * si) / numSlices)
+
+  // Generate each cross-sectional ring
+  for (let ri = 0; ri <= numRings; ri++) {
+    // Parameter position along the horn [0..1]
+    const station = surface.station(stations[ri])
+
     // Generate points around this ring
-    const ring: [number, number, number][] = []
-    for (let si = 0; si <= numSlices; si++) {
-      // Angular position around the ring
-      const theta = (2 * Math.PI * si) / numSlices
-      const c = Math.cos(theta)
-      const s = Math.sin(theta)
-
-      // Generate base superellipse point
-      // Parametric equation: (x, y) = (hw·sgn(cos)·|cos|^(2/n), hh·sgn(sin)·|sin|^(2/n))
-      let px = yH * Math.sign(c) * Math.abs(c) ** (2 / n)
-      let py = yV * Math.sign(s) * Math.abs(s) ** (2 / n)
-
-      // Apply combined modulation (X + Cardinal)
-      const mod = combinedModulation(theta, t, modPrep, modBlend)
-      px *= mod
-      py *= mod
-
-      // Store point as [x, y, z] where z is axial position
-      ring.push([px, py, xH])
-    }
+    const ring = thetas.map((theta) => surface.point(station, theta))
 
     // Store ring with metadata
-    rings.push({ t, ring, xH, yH, yV, n })
+    rings.push({ ...station, ring })
+  }
+
+  if (options.mouthFlange?.enabled) {
+    return { rings, numSlices, flangeRings: buildMouthFlange(surface, thetas, options.mouthFlange) }
   }
 
   return { rings, numSlices }
 }
 
+/**
+ * Build the display mesh of a complete waveguide state, guides included
+ * (used where no memoized guides are at hand: comparison, optimizer, sweeps).
+ *
+ * @param state - Waveguide state
+ * @param numRings - Number of rings (default: the state's mesh resolution)
+ * @param numSlices - Number of slices (default: the state's mesh resolution)
+ * @returns Mesh data, or null for invalid guide parameters
+ */
+export function buildStateMesh(
+  state: WaveguideState,
+  numRings: number = state.meshResolution.rings,
+  numSlices: number = state.meshResolution.slices,
+): MeshData | null {
+  return buildMesh(
+    computeROSSE(state.horizontal),
+    computeROSSE(state.vertical),
+    state.shapeBlend,
+    state.modBlend,
+    state.diagonalMod,
+    state.cardinalMod,
+    numRings,
+    numSlices,
+    {
+      depthMode: state.depthMode,
+      distribution: state.meshResolution.distribution,
+      mouthFlange: state.mouthFlange,
+    },
+  )
+}
+
+/**
+ * Get all surface rings of a mesh in order: waveguide rings from throat to
+ * mouth, followed by the mouth flange rings (if any).
+ *
+ * @param meshData - Generated mesh data
+ * @returns Point rings with numSlices + 1 points each
+ */
+export function surfaceRings(meshData: MeshData): [number, number, number][][] {
+  const rings = meshData.rings.map((r) => r.ring)
+  return meshData.flangeRings ? rings.concat(meshData.flangeRings) : rings
+}
+
 /**
  * Calculate computed geometry metrics from mesh data.
  *
  * Extracts key dimensions for display:
  * - Throat radius (at t=0)
  * - Mouth dimensions (at t=1)
- * - Axial depth (throat to mouth)
- * - Coverage angle (estimated from final dimensions)
+ * - Axial depth (throat to the foremost wall point, the lip apex; the lip
+ *   rolls back behind it, so the mouth ring is not the deepest)
+ * - Depth mismatch between the V and H guides at the mouth
  *
  * @param meshData - Generated mesh data
- * @returns Object with throat, depth, mouthWidth, mouthHeight, or null if invalid
+ * @returns Object with throat, depth, depthMismatch, mouthWidth, mouthHeight, or null if invalid
  */
 export function computeMeshMetrics(meshData: MeshData | null): {
   throat: number
   depth: number
+  depthMismatch: number
   mouthWidth: number
   mouthHeight: number
 } | null {
@@ -176,10 +319,15 @@ export function computeMeshMetrics(meshData: MeshData | null): {
 
   const firstRing = meshData.rings[0]
   const lastRing = meshData.rings[meshData.rings.length - 1]
+  let depth = -Infinity
+  for (const { ring } of meshData.rings) {
+    for (const p of ring) depth = Math.max(depth, p[2])
+  }
 
   return {
     throat: firstRing.yH, // Throat radius (assuming circular)
-    depth: lastRing.xH, // Axial depth from throat to mouth
+    depth, // Axial depth from throat to the foremost point
+    depthMismatch: lastRing.xV - lastRing.xH, // V guide depth minus H guide depth
     mouthWidth: lastRing.yH * 2, // Mouth width (horizontal diameter)
     mouthHeight: lastRing.yV * 2, // Mouth height (vertical diameter)
   }
@@ -0,0 +1,338 @@
+/**
+ * Throat Driver Mounting Flange
+ * ==============================
+ *
+ * Generates a flat compression-driver mounting plate at the throat (t=0) on
+ * top of the shell mesh, with through-holes on a standard or custom bolt
+ * circle.
+ *
+ * The plate occupies z = -thickness..0 behind the throat plane:
+ * - Front face (z=0): from the shell's outer throat ring to the plate outline
+ * - Back face (z=-thickness): from the throat bore to the plate outline
+ * - Throat bore: continues the acoustic throat through the plate
+ * - Outline side wall and one cylindrical wall per bolt hole
+ *
+ * Together with the shell (whose outer throat ring is flattened onto z=0)
+ * this replaces the throat edge strip and keeps the export a closed manifold.
+ */
+
+import { THROAT_MOUNT_PARAMS } from '../config/parameterConfig'
+import type { BoltPattern, BoltPatternId, ShellParams, ThroatMountParams } from '../types/waveguide'
+import { triangulatePolygon } from './triangulate'
+
+/** Triangle as three 3D points */
+type Triangle = [[number, number, number], [number, number, number], [number, number, number]]
+
+/** Minimum material left between holes, throat and outline [mm] */
+const MIN_WALL = 1
+
+/** Segments per bolt hole */
+const HOLE_SEGMENTS = 24
+
+/** Segments for a circular outline */
+const OUTLINE_SEGMENTS = 96
+
+/** Segments per rounded corner of a square outline */
+const CORNER_SEGMENTS = 8
+
+/**
+ * Standard bolt patterns for common compression driver exits.
+ */
+export const BOLT_PATTERNS: Record<
+  Exclude<BoltPatternId, 'custom'>,
+  BoltPattern & { label: string }
+> = {
+  '1in-2bolt': { label: '1" 2-BOLT', count: 2, circleDiameter: 76, holeDiameter: 6.5, rotation: 0 },
+  '1in-3bolt': {
+    label: '1" 3-BOLT',
+    count: 3,
+    circleDiameter: 57,
+    holeDiameter: 4.5,
+    rotation: 90,
+  },
+  '1in-4bolt': {
+    label: '1" 4-BOLT',
+    count: 4,
+    circleDiameter: 76,
+    holeDiameter: 6.5,
+    rotation: 45,
+  },
+  '1.4in-4bolt': {
+    label: '1.4" 4-BOLT',
+    count: 4,
+    circleDiameter: 101.6,
+    holeDiameter: 6.5,
+    rotation: 45,
+  },
+  '2in-4bolt': {
+    label: '2" 4-BOLT',
+    count: 4,
+    circleDiameter: 127,
+    holeDiameter: 8.5,
+    rotation: 45,
+  },
+}
+
+/**
+ * Get the active bolt pattern (preset or custom).
+ */
+export function resolveBoltPattern(params: ThroatMountParams): BoltPattern {
+  return params.pattern === 'custom' ? params.custom : BOLT_PATTERNS[params.pattern]
+}
+
+/**
+ * Centers of the bolt holes on the bolt circle.
+ */
+export function boltHoleCenters(pattern: BoltPattern): [number, number][] {
+  const r = pattern.circleDiameter / 2
+  const start = (pattern.rotation * Math.PI) / 180
+  return Array.from({ length: pattern.count }, (_, i) => {
+    const a = start + (2 * Math.PI * i) / pattern.count
+    return [r * Math.cos(a), r * Math.sin(a)]
+  })
+}
+
+/**
+ * Counter-clockwise points on a circle.
+ */
+export function circlePoints(
+  cx: number,
+  cy: number,
+  radius: number,
+  segments: number,
+): [number, number][] {
+  return Array.from({ length: segments }, (_, i) => {
+    const a = (2 * Math.PI * i) / segments
+    return [cx + radius * Math.cos(a), cy + radius * Math.sin(a)]
+  })
+}
+
+/**
+ * Counter-clockwise points on a rectangle with rounded corners, centered
+ * at the origin.
+ *
+ * @param width - Outer width [mm]
+ * @param height - Outer height [mm]
+ * @param radius - Corner radius [mm] (clamped to half the shorter side)
+ * @param cornerSegments - Segments per corner arc
+ */
+export function roundedRectPoints(
+  width: number,
+  height: number,
+  radius: number,
+  cornerSegments: number = CORNER_SEGMENTS,
+): [number, number][] {
+  const hw = width / 2
+  const hh = height / 2
+  const r = Math.max(0, Math.min(radius, hw, hh))
+
+  if (r === 0) {
+    return [
+      [hw, -hh],
+      [hw, hh],
+      [-hw, hh],
+      [-hw, -hh],
+    ]
+  }
+
+  // Corner centers, counter-clockwise from the bottom-right corner
+  const corners: [number, number, number][] = [
+    [hw - r, -hh + r, -Math.PI / 2],
+    [hw - r, hh - r, 0],
+    [-hw + r, hh - r, Math.PI / 2],
+    [-hw + r, -hh + r, Math.PI],
+  ]
+
+  const points: [number, number][] = []
+  for (const [cx, cy, a0] of corners) {
+    for (let k = 0; k <= cornerSegments; k++) {
+      const a = a0 + ((Math.PI / 2) * k) / cornerSegments
+      points.push([cx + r * Math.cos(a), cy + r * Math.sin(a)])
+    }
+  }
+  return points
+}
+
+/**
+ * Counter-clockwise outline of the mounting plate.
+ */
+export function mountOutline(params: ThroatMountParams): [number, number][] {
+  if (params.shape === 'circle') {
+    return circlePoints(0, 0, params.size / 2, OUTLINE_SEGMENTS)
+  }
+  return roundedRectPoints(params.size, params.size, params.cornerRadius)
+}
+
+/**
+ * Signed distance from a point to a rounded rectangle centered at the origin
+ * (negative inside).
+ */
+export function roundedRectDistance(
+  width: number,
+  height: number,
+  radius: number,
+  x: number,
+  y: number,
+): number {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+  const qx = Math.abs(x) - width / 2 + r
+  const qy = Math.abs(y) - height / 2 + r
+  return Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) + Math.min(Math.max(qx, qy), 0) - r
+}
+
+/**
+ * Signed distance from a point to the plate outline (negative inside).
+ */
+function outlineDistance(params: ThroatMountParams, x: number, y: number): number {
+  if (params.shape === 'circle') return Math.hypot(x, y) - params.size / 2
+  return roundedRectDistance(params.size, params.size, params.cornerRadius, x, y)
+}
+
+/**
+ * Grow the plate so that its bolt holes keep the minimum edge distance.
+ *
+ * Used when the bolt pattern or outline shape changes, so that larger
+ * presets (1.4", 2") do not silently drop the mount at the default size.
+ *
+ * @param params - Mount parameters
+ * @returns Parameters with the size increased (whole mm, up to the slider
+ *   maximum) where needed; unchanged when the plate is large enough
+ */
+export function fitMountSize(params: ThroatMountParams): ThroatMountParams {
+  const pattern = resolveBoltPattern(params)
+  const holeR = pattern.holeDiameter / 2
+  const centers = boltHoleCenters(pattern)
+  const fits = (size: number) =>
+    centers.every(([x, y]) => outlineDistance({ ...params, size }, x, y) <= -holeR - MIN_WALL)
+
+  if (fits(params.size)) return params
+
+  const maxSize = THROAT_MOUNT_PARAMS.size.max
+  let size = Math.ceil(params.size)
+  while (!fits(size) && size < maxSize) size++
+  return { ...params, size }
+}
+
+/**
+ * Check that the mounting plate can be built around the throat.
+ *
+ * The shell's outer throat ring lies at most one shell thickness outside
+ * the acoustic throat, so it is estimated from the throat ring alone.
+ *
+ * @param throatRing - Waveguide throat ring (t=0)
+ * @param shellParams - Shell parameters (thickness and throat mount)
+ * @returns Human-readable problems (empty when the plate is valid)
+ */
+export function checkThroatMount(
+  throatRing: [number, number, number][],
+  shellParams: ShellParams,
+): string[] {
+  const params = shellParams.throatMount
+  const issues: string[] = []
+
+  const throatR = Math.max(...throatRing.map((p) => Math.hypot(p[0], p[1])))
+  const shellR = throatR + shellParams.thickness
+
+  if (
+    throatRing.some((p) => outlineDistance(params, p[0], p[1]) > -shellParams.thickness - MIN_WALL)
+  ) {
+    issues.push('Plate is too small for the throat and shell wall')
+  }
+
+  const pattern = resolveBoltPattern(params)
+  const holeR = pattern.holeDiameter / 2
+  const centers = boltHoleCenters(pattern)
+
+  if (pattern.circleDiameter / 2 - holeR < shellR + MIN_WALL) {
+    issues.push('Bolt holes cut into the throat wall')
+  }
+  if (centers.some(([x, y]) => outlineDistance(params, x, y) > -holeR - MIN_WALL)) {
+    issues.push('Bolt holes extend past the plate edge')
+  }
+  if (pattern.count > 1) {
+    const spacing = pattern.circleDiameter * Math.sin(Math.PI / pattern.count)
+    if (spacing < 2 * holeR + MIN_WALL) issues.push('Bolt holes overlap each other')
+  }
+
+  return issues
+}
+
+/**
+ * Quad strip between two matching closed loops, as triangles (a0, a1, b1), (a0, b1, b0).
+ */
+export function loopStrip(
+  loopA: [number, number, number][],
+  loopB: [number, number, number][],
+  triangles: Triangle[],
+): void {
+  const n = loopA.length
+  for (let k = 0; k < n; k++) {
+    const a0 = loopA[k]
+    const a1 = loopA[(k + 1) % n]
+    const b0 = loopB[k]
+    const b1 = loopB[(k + 1) % n]
+    triangles.push([a0, a1, b1], [a0, b1, b0])
+  }
+}
+
+/**
+ * Build the mounting plate triangles.
+ *
+ * Loop orientation follows the shell: ring points run counter-clockwise
+ * seen from +z. Triangles are wound so that all normals point out of the
+ * solid (front face +z, back face -z, bore and holes towards their axes,
+ * outline side wall outward).
+ *
+ * @param innerThroat - Acoustic throat ring (numSlices + 1 points, closed)
+ * @param outerThroat - Shell outer throat ring, already flattened onto the throat plane
+ * @param params - Throat mount parameters
+ * @returns Plate triangles
+ */
+export function buildThroatMount(
+  innerThroat: [number, number, number][],
+  outerThroat: [number, number, number][],
+  params: ThroatMountParams,
+): Triangle[] {
+  const z0 = innerThroat[0][2]
+  const zb = z0 - params.thickness
+
+  // Open loops (drop the duplicated seam point)
+  const inner = innerThroat.slice(0, -1)
+  const outer = outerThroat.slice(0, -1)
+  const outline = mountOutline(params)
+  const pattern = resolveBoltPattern(params)
+  const holes = boltHoleCenters(pattern).map(([x, y]) =>
+    circlePoints(x, y, pattern.holeDiameter / 2, HOLE_SEGMENTS),
+  )
+
+  const at = (loop: [number, number][] | [number, number, number][], z: number) =>
+    loop.map((p): [number, number, number] => [p[0], p[1], z])
+  const flat = (loop: [number, number, number][]) => loop.map((p): [number, number] => [p[0], p[1]])
+
+  const triangles: Triangle[] = []
+
+  // Front face: outline with the shell's outer throat ring and the bolt holes cut out
+  const frontLoops = [flat(outer), ...holes]
+  const frontPts = [...at(outline, z0), ...frontLoops.flatMap((l) => at(l, z0))]
+  for (const [a, b, c] of triangulatePolygon(outline, frontLoops)) {
+    triangles.push([frontPts[a], frontPts[b], frontPts[c]])
+  }
+
+  // Back face: outline with the throat bore and the bolt holes cut out (facing -z)
+  const backLoops = [flat(inner), ...holes]
+  const backPts = [...at(outline, zb), ...backLoops.flatMap((l) => at(l, zb))]
+  for (const [a, b, c] of triangulatePolygon(outline, backLoops)) {
+    triangles.push([backPts[a], backPts[c], backPts[b]])
+  }
+
+  // Throat bore (inner ring extruded through the plate), facing the axis
+  loopStrip(inner, at(inner, zb), triangles)
+
+  // Bolt hole walls, facing the hole axes
+  for (const hole of holes) loopStrip(at(hole, z0), at(hole, zb), triangles)
+
+  // Outline side wall, facing outward (reverse strip)
+  loopStrip(at(outline, zb), at(outline, z0), triangles)
+
+  return triangles
+}
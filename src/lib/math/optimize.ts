@@ -0,0 +1,135 @@
+/**
+ * Nelder–Mead Minimization
+ * ========================
+ *
+ * Derivative-free downhill simplex search for small parameter sets. The
+ * objective may be noisy or piecewise (clamped parameters, penalties for
+ * invalid geometry); no gradients are needed.
+ *
+ * Standard coefficients: reflection 1, expansion 2, contraction ½,
+ * shrink ½.
+ */
+
+/**
+ * Search settings.
+ */
+export interface NelderMeadOptions {
+  /** Largest number of iterations (default: 2000) */
+  maxIterations?: number
+
+  /** Largest number of objective evaluations (default: unlimited) */
+  maxEvaluations?: number
+
+  /** Stop when the objective values of the simplex differ by less (default: 1e-10) */
+  tolerance?: number
+
+  /** Stop when the simplex is smaller than this in every coordinate (default: 1e-8) */
+  stepTolerance?: number
+}
+
+/**
+ * Search result.
+ */
+export interface NelderMeadResult {
+  /** Best point found */
+  x: number[]
+
+  /** Objective at x */
+  value: number
+
+  /** Iterations used */
+  iterations: number
+
+  /** Whether a tolerance was met before the iteration limit */
+  converged: boolean
+}
+
+/**
+ * Minimize a function of several variables.
+ *
+ * @param objective - Function to minimize
+ * @param x0 - Start point
+ * @param steps - Initial simplex edge per coordinate (the expected scale of each variable)
+ * @param options - Iteration limit and tolerances
+ * @returns Best point and its value
+ */
+export function nelderMead(
+  objective: (x: number[]) => number,
+  x0: number[],
+  steps: number[],
+  options: NelderMeadOptions = {},
+): NelderMeadResult {
+  const {
+    maxIterations = 2000,
+    maxEvaluations = Number.POSITIVE_INFINITY,
+    tolerance = 1e-10,
+    stepTolerance = 1e-8,
+  } = options
+  const n = x0.length
+  let evaluations = 0
+  const f = (x: number[]) => {
+    evaluations++
+    return objective(x)
+  }
+
+  // Initial simplex: the start point plus one step along each axis
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + steps[i] : v)))]
+  let values = simplex.map(f)
+
+  const combine = (a: number[], b: number[], t: number) => a.map((v, i) => v + t * (b[i] - v))
+
+  let iterations = 0
+  let converged = false
+  while (iterations < maxIterations && evaluations < maxEvaluations) {
+    // Sort best to worst
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+    simplex = order.map((i) => simplex[i])
+    values = order.map((i) => values[i])
+
+    const spread = values[n] - values[0]
+    const size = Math.max(
+      ...simplex.slice(1).flatMap((p) => p.map((v, i) => Math.abs(v - simplex[0][i]))),
+    )
+    if (spread <= tolerance * (Math.abs(values[0]) + tolerance) || size <= stepTolerance) {
+      converged = true
+      break
+    }
+    iterations++
+
+    // Centroid of all but the worst point
+    const centroid = simplex[0].map((_, i) => simplex.slice(0, n).reduce((s, p) => s + p[i], 0) / n)
+    const worst = simplex[n]
+
+    const reflected = combine(centroid, worst, -1)
+    const fr = f(reflected)
+    if (fr < values[0]) {
+      const expanded = combine(centroid, worst, -2)
+      const fe = f(expanded)
+      simplex[n] = fe < fr ? expanded : reflected
+      values[n] = Math.min(fe, fr)
+      continue
+    }
+    if (fr < values[n - 1]) {
+      simplex[n] = reflected
+      values[n] = fr
+      continue
+    }
+
+    // Contract towards the better of the worst and reflected points
+    const outside = fr < values[n]
+    const contracted = combine(centroid, outside ? reflected : worst, 0.5)
+    const fc = f(contracted)
+    if (fc < (outside ? fr : values[n])) {
+      simplex[n] = contracted
+      values[n] = fc
+      continue
+    }
+
+    // Shrink towards the best point
+    simplex = simplex.map((p, i) => (i === 0 ? p : combine(simplex[0], p, 0.5)))
+    values = simplex.map((p, i) => (i === 0 ? values[0] : f(p)))
+  }
+
+  const best = values.indexOf(Math.min(...values))
+  return { x: simplex[best], value: values[best], iterations, converged }
+}
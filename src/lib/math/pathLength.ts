@@ -0,0 +1,100 @@
+/**
+ * Wall Path-Length Analysis
+ * =========================
+ *
+ * Sound hugging the wall travels from the throat to the mouth along the
+ * wall's meridian, and that path is longer for the wider guides of a
+ * rectangular horn. The difference between angles is the wavefront
+ * distortion that diagonal/cardinal modulation is meant to correct
+ * ("cross wavefront syndrome"), and it reads directly as group delay:
+ * Δt = ΔL / c.
+ *
+ * Per slice of the ring stack the arc length is summed along the mesh wall
+ * from the throat ring to the mouth aperture (the foremost ring, see
+ * simulationMesh.ts); the excess over the straight axial path to the same
+ * depth is what the polar plot and the heat map show.
+ */
+
+import type { MeshData } from '../types/waveguide'
+import { apertureRing, SPEED_OF_SOUND } from './simulationMesh'
+
+/**
+ * Wall path lengths of a mesh.
+ */
+export interface PathLengthAnalysis {
+  /** Slice angles [rad], numSlices values */
+  angles: number[]
+
+  /** Path length from throat to mouth along the wall, per slice [mm] */
+  lengths: number[]
+
+  /** Axial distance from throat to mouth, per slice [mm] */
+  axial: number[]
+
+  /** Excess of the wall path over the axial path, per slice [mm] */
+  delta: number[]
+
+  /** Excess path per ring (up to the aperture) and slice [mm] */
+  excess: number[][]
+
+  /** Longest minus shortest wall path [mm] */
+  maxDifference: number
+
+  /** Group delay of the path difference [µs] */
+  groupDelay: number
+}
+
+/**
+ * Phase of a path difference at a frequency.
+ *
+ * @param difference - Path difference [mm]
+ * @param frequency - Frequency [Hz]
+ * @returns Phase [degrees]
+ */
+export function pathPhase(difference: number, frequency: number): number {
+  return (360 * difference * frequency) / SPEED_OF_SOUND
+}
+
+/**
+ * Measure the wall path length from throat to mouth for every slice.
+ *
+ * @param meshData - Generated mesh data
+ * @returns Path lengths, excess over the axial path and their spread
+ */
+export function analyzePathLengths(meshData: MeshData): PathLengthAnalysis {
+  const { numSlices } = meshData
+  const rings = meshData.rings.slice(0, apertureRing(meshData) + 1).map((r) => r.ring)
+  const throat = rings[0]
+
+  const excess: number[][] = []
+  const running = new Array<number>(numSlices + 1).fill(0)
+  for (const [i, ring] of rings.entries()) {
+    if (i > 0) {
+      const prev = rings[i - 1]
+      for (let j = 0; j <= numSlices; j++) {
+        const [x0, y0, z0] = prev[j]
+        const [x1, y1, z1] = ring[j]
+        running[j] += Math.hypot(x1 - x0, y1 - y0, z1 - z0)
+      }
+    }
+    excess.push(running.map((length, j) => length - (ring[j][2] - throat[j][2])))
+  }
+
+  const mouth = rings[rings.length - 1]
+  const lengths = running.slice(0, numSlices)
+  const axial = lengths.map((_, j) => mouth[j][2] - throat[j][2])
+  const maxDifference = Math.max(...lengths) - Math.min(...lengths)
+
+  return {
+    angles: Array.from(
+      { length: numSlices },
+      (_, j) => meshData.thetas?.[j] ?? (2 * Math.PI * j) / numSlices,
+    ),
+    lengths,
+    axial,
+    delta: lengths.map((length, j) => length - axial[j]),
+    excess,
+    maxDifference,
+    groupDelay: (maxDifference / SPEED_OF_SOUND) * 1e6,
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * Mouth Mounting Plate
+ * =====================
+ *
+ * Generates a flat rectangular plate around the mouth (t=1) for
+ * front-mounting the waveguide in a cabinet baffle, with screw holes near
+ * the plate edge and optional counterbores for the screw heads.
+ *
+ * The plate occupies z = zm - thickness..zm, where zm is the mouth plane:
+ * - Front face (z=zm): from the acoustic mouth ring to the plate outline
+ * - Back face (z=zm-thickness): from the bore under the mouth lip to the outline
+ * - Bore: drops straight from the shell's outer mouth ring to the back face
+ * - Outline side wall, screw hole walls and counterbore steps
+ *
+ * Together with the shell this replaces the mouth edge strip and keeps the
+ * export a closed manifold. A rolled-back mouth lip sits on the plate like a
+ * collar; the space under the lip stays open towards the baffle.
+ *
+ * The body behind the plate's back face has to pass through the cabinet
+ * baffle; its outline defines the baffle cutout (see baffleCutout).
+ */
+
+import type { MouthPlateParams, ShellParams } from '../types/waveguide'
+import { circlePoints, loopStrip, roundedRectDistance, roundedRectPoints } from './mount'
+import { triangulatePolygon } from './triangulate'
+
+/** 2D point [x, y] */
+type Vec2 = [number, number]
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/** Triangle as three 3D points */
+type Triangle = [Vec3, Vec3, Vec3]
+
+/** Minimum material left between holes, mouth, body and outline [mm] */
+const MIN_WALL = 1
+
+/** Segments per screw hole and counterbore */
+const HOLE_SEGMENTS = 24
+
+/** Directions sampled around the baffle cutout */
+const CUTOUT_SEGMENTS = 360
+
+/** Maximum z spread of a mouth ring that still counts as planar [mm] */
+const PLANAR_TOLERANCE = 1e-6
+
+/**
+ * Plate outline and screw positions derived from the mouth.
+ */
+export interface MouthPlateLayout {
+  /** Plate width [mm] */
+  width: number
+
+  /** Plate height [mm] */
+  height: number
+
+  /** Counter-clockwise plate outline */
+  outline: Vec2[]
+
+  /** Screw hole centers, counter-clockwise around the plate */
+  screws: Vec2[]
+}
+
+/**
+ * Whether the plate has counterbored screw holes.
+ */
+export function hasCounterbore(params: MouthPlateParams): boolean {
+  return params.counterboreDepth > 0 && params.counterboreDiameter > params.screwDiameter
+}
+
+/**
+ * Screw hole centers along the four plate edges (corners shared).
+ */
+function screwCenters(width: number, height: number, params: MouthPlateParams): Vec2[] {
+  const ax = width / 2 - params.screwInset
+  const ay = height / 2 - params.screwInset
+  const nx = Math.max(2, Math.round(params.screwsX))
+  const ny = Math.max(2, Math.round(params.screwsY))
+
+  const centers: Vec2[] = []
+  for (let i = 0; i < nx; i++) centers.push([-ax + (2 * ax * i) / (nx - 1), -ay])
+  for (let i = 1; i < ny - 1; i++) centers.push([ax, -ay + (2 * ay * i) / (ny - 1)])
+  for (let i = 0; i < nx; i++) centers.push([ax - (2 * ax * i) / (nx - 1), ay])
+  for (let i = 1; i < ny - 1; i++) centers.push([-ax, ay - (2 * ay * i) / (ny - 1)])
+  return centers
+}
+
+/**
+ * Plate layout: the mouth's extent plus the margin on each side, centered
+ * on the horn axis.
+ *
+ * @param mouthRing - Waveguide mouth ring (t=1)
+ * @param params - Mouth plate parameters
+ */
+export function mouthPlateLayout(mouthRing: Vec3[], params: MouthPlateParams): MouthPlateLayout {
+  const width = 2 * (Math.max(...mouthRing.map((p) => Math.abs(p[0]))) + params.margin)
+  const height = 2 * (Math.max(...mouthRing.map((p) => Math.abs(p[1]))) + params.margin)
+  return {
+    width,
+    height,
+    outline: roundedRectPoints(width, height, params.cornerRadius),
+    screws: screwCenters(width, height, params),
+  }
+}
+
+/**
+ * Signed distance from a point to a closed polygon (negative inside).
+ */
+function loopDistance(loop: Vec2[], x: number, y: number): number {
+  let best = Infinity
+  let inside = false
+  for (let k = 0; k < loop.length; k++) {
+    const [ax, ay] = loop[k]
+    const [bx, by] = loop[(k + 1) % loop.length]
+
+    if (ay > y !== by > y && x < ax + ((y - ay) / (by - ay)) * (bx - ax)) inside = !inside
+
+    const dx = bx - ax
+    const dy = by - ay
+    const len2 = dx * dx + dy * dy
+    const u = len2 > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / len2)) : 0
+    best = Math.min(best, Math.hypot(x - ax - u * dx, y - ay - u * dy))
+  }
+  return inside ? -best : best
+}
+
+/**
+ * Trim a ring sequence at an axial plane.
+ *
+ * Each slice is cut where it first rises through z (walking from the
+ * throat). Rings before the earliest cut are kept; the rest are resampled
+ * per slice between that ring and the cut, so that the last ring lies
+ * exactly on the plane without degenerate quads.
+ *
+ * @param rings - Rings from the throat outward (numSlices + 1 points each)
+ * @param z - Plane position [mm]
+ * @returns Trimmed rings ending on the plane, or null if a slice never reaches it
+ */
+export function trimRingsAtPlane(rings: Vec3[][], z: number): Vec3[][] | null {
+  const numSlices = rings[0].length - 1
+
+  // Fractional ring index of the first crossing per slice
+  const cuts: number[] = []
+  for (let j = 0; j <= numSlices; j++) {
+    if (rings[0][j][2] >= z) return null
+    let cut = -1
+    for (let i = 0; i < rings.length - 1; i++) {
+      const za = rings[i][j][2]
+      const zb = rings[i + 1][j][2]
+      if (za < z && zb >= z) {
+        cut = i + (z - za) / (zb - za)
+        break
+      }
+    }
+    if (cut < 0) return null
+    cuts.push(cut)
+  }
+
+  const pointAt = (j: number, s: number): Vec3 => {
+    const i = Math.min(Math.floor(s), rings.length - 2)
+    const f = s - i
+    const a = rings[i][j]
+    const b = rings[i + 1][j]
+    return [a[0] + f * (b[0] - a[0]), a[1] + f * (b[1] - a[1]), a[2] + f * (b[2] - a[2])]
+  }
+
+  const base = Math.max(0, Math.ceil(Math.min(...cuts)) - 1)
+  const extra = Math.max(1, Math.ceil(Math.max(...cuts)) - base)
+
+  const trimmed = rings.slice(0, base + 1).map((ring) => ring.map((p): Vec3 => [...p]))
+  for (let k = 1; k <= extra; k++) {
+    const ring = cuts.map((cut, j) => pointAt(j, base + ((cut - base) * k) / extra))
+    ring[numSlices] = [...ring[0]]
+    trimmed.push(ring)
+  }
+  for (const p of trimmed[trimmed.length - 1]) p[2] = z
+
+  return trimmed
+}
+
+/**
+ * Check that the mounting plate can be built around the mouth.
+ *
+ * The baffle cutout is estimated from the shell's outer surface where it
+ * crosses the plate's back plane (the body that has to pass through the
+ * baffle); screws must land in the baffle outside the cutout.
+ *
+ * @param innerRings - Inner surface rings (waveguide, then mouth flange if any)
+ * @param outerRings - Shell outer surface rings
+ * @param mouthRingIndex - Index of the waveguide mouth ring (t=1)
+ * @param shellParams - Shell parameters (mouth plate)
+ * @returns Human-readable problems (empty when the plate is valid)
+ */
+export function checkMouthPlate(
+  innerRings: Vec3[][],
+  outerRings: Vec3[][],
+  mouthRingIndex: number,
+  shellParams: ShellParams,
+): string[] {
+  if (innerRings.length > mouthRingIndex + 1) return ['Mouth flange is enabled']
+
+  const params = shellParams.mouthPlate
+  const mouthRing = innerRings[mouthRingIndex]
+  const lipRing = outerRings[mouthRingIndex]
+
+  const zs = mouthRing.map((p) => p[2])
+  if (Math.max(...zs) - Math.min(...zs) > PLANAR_TOLERANCE) {
+    return ['Mouth is not planar (use common depth mode)']
+  }
+  const zb = zs[0] - params.thickness
+  if (lipRing.some((p) => p[2] - zb < MIN_WALL)) {
+    return ['Plate is thinner than the shell wall at the mouth']
+  }
+
+  const issues: string[] = []
+  const { width, height, screws } = mouthPlateLayout(mouthRing, params)
+  const flat = (ring: Vec3[]) => ring.slice(0, -1).map((p): Vec2 => [p[0], p[1]])
+  const mouth = flat(mouthRing)
+  const lip = flat(lipRing)
+  const bodyRings = trimRingsAtPlane(outerRings.slice(0, mouthRingIndex + 1), zb)
+  const body = bodyRings ? flat(bodyRings[bodyRings.length - 1]) : []
+  const edge = (x: number, y: number) =>
+    roundedRectDistance(width, height, params.cornerRadius, x, y)
+
+  if ([...mouth, ...lip].some(([x, y]) => edge(x, y) > -MIN_WALL)) {
+    issues.push('Plate is too small for the mouth')
+  }
+  if (body.some(([x, y]) => edge(x, y) > -params.cutoutClearance - MIN_WALL)) {
+    issues.push('Plate is too small to cover the baffle cutout')
+  }
+
+  const screwR = params.screwDiameter / 2
+  const headR = Math.max(params.screwDiameter, params.counterboreDiameter) / 2
+
+  if (screws.some(([x, y]) => edge(x, y) > -headR - MIN_WALL)) {
+    issues.push('Screw holes extend past the plate edge')
+  }
+  const opening = (loop: Vec2[]) =>
+    loop.length > 0 && screws.some(([x, y]) => loopDistance(loop, x, y) < headR + MIN_WALL)
+  if (opening(mouth) || opening(lip)) {
+    issues.push('Screw holes cut into the mouth opening')
+  }
+  if (
+    body.length > 0 &&
+    screws.some(([x, y]) => loopDistance(body, x, y) < screwR + params.cutoutClearance + MIN_WALL)
+  ) {
+    issues.push('Screw holes fall inside the baffle cutout')
+  }
+  const overlap = screws.some(([x, y], i) =>
+    screws.slice(i + 1).some(([u, v]) => Math.hypot(x - u, y - v) < 2 * headR + MIN_WALL),
+  )
+  if (overlap) issues.push('Screw holes overlap each other')
+
+  if (params.counterboreDiameter > 0 && params.counterboreDepth > 0) {
+    if (params.counterboreDiameter <= params.screwDiameter) {
+      issues.push('Counterbores must be wider than the screw holes')
+    }
+    if (params.counterboreDepth > params.thickness - MIN_WALL) {
+      issues.push('Counterbores are too deep for the plate')
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Build the mounting plate triangles.
+ *
+ * Loop orientation follows the shell: ring points run counter-clockwise
+ * seen from +z. Triangles are wound so that all normals point out of the
+ * solid (front face +z, back face -z, bore and holes towards their axes,
+ * outline side wall outward).
+ *
+ * @param mouthRing - Acoustic mouth ring (numSlices + 1 points, planar)
+ * @param lipRing - Shell outer ring at the mouth
+ * @param params - Mouth plate parameters
+ * @returns Plate triangles
+ */
+export function buildMouthPlate(
+  mouthRing: Vec3[],
+  lipRing: Vec3[],
+  params: MouthPlateParams,
+): Triangle[] {
+  const z0 = mouthRing[0][2]
+  const zb = z0 - params.thickness
+  const zc = hasCounterbore(params) ? z0 - params.counterboreDepth : z0
+
+  // Open loops (drop the duplicated seam point)
+  const mouth = mouthRing.slice(0, -1)
+  const lip = lipRing.slice(0, -1)
+  const { outline, screws } = mouthPlateLayout(mouthRing, params)
+  const holes = screws.map(([x, y]) => circlePoints(x, y, params.screwDiameter / 2, HOLE_SEGMENTS))
+  const bores =
+    zc < z0
+      ? screws.map(([x, y]) => circlePoints(x, y, params.counterboreDiameter / 2, HOLE_SEGMENTS))
+      : holes
+
+  const at = (loop: Vec2[] | Vec3[], z: number) => loop.map((p): Vec3 => [p[0], p[1], z])
+  const flat = (loop: Vec3[]) => loop.map((p): Vec2 => [p[0], p[1]])
+
+  const triangles: Triangle[] = []
+
+  // Front face: outline with the mouth and the screw holes (or counterbores) cut out
+  const frontPts = [...at(outline, z0), ...mouth, ...bores.flatMap((l) => at(l, z0))]
+  for (const [a, b, c] of triangulatePolygon(outline, [flat(mouth), ...bores])) {
+    triangles.push([frontPts[a], frontPts[b], frontPts[c]])
+  }
+
+  // Back face: outline with the bore under the lip and the screw holes cut out (facing -z)
+  const backPts = [...at(outline, zb), ...at(lip, zb), ...holes.flatMap((l) => at(l, zb))]
+  for (const [a, b, c] of triangulatePolygon(outline, [flat(lip), ...holes])) {
+    triangles.push([backPts[a], backPts[c], backPts[b]])
+  }
+
+  // Bore from the shell's outer mouth ring down to the back face, facing the axis
+  loopStrip(lip, at(lip, zb), triangles)
+
+  // Counterbore walls and the annular steps at their bottom (facing +z)
+  if (zc < z0) {
+    for (const [k, bore] of bores.entries()) {
+      loopStrip(at(bore, z0), at(bore, zc), triangles)
+      const stepPts = [...at(bore, zc), ...at(holes[k], zc)]
+      for (const [a, b, c] of triangulatePolygon(bore, [holes[k]])) {
+        triangles.push([stepPts[a], stepPts[b], stepPts[c]])
+      }
+    }
+  }
+
+  // Screw hole walls, facing the hole axes
+  for (const hole of holes) loopStrip(at(hole, zc), at(hole, zb), triangles)
+
+  // Outline side wall, facing outward (reverse strip)
+  loopStrip(at(outline, zb), at(outline, z0), triangles)
+
+  return triangles
+}
+
+/**
+ * Baffle cutout around the waveguide body.
+ *
+ * The outline is the outermost extent of all given loops in each of a fixed
+ * set of directions around the axis, offset outward by the clearance.
+ *
+ * @param loops - Closed loops in the XY plane (rings of the body behind the baffle)
+ * @param clearance - Gap between the body and the cutout edge [mm]
+ * @returns Counter-clockwise cutout outline
+ */
+export function baffleCutout(loops: Vec2[][], clearance: number): Vec2[] {
+  // Farthest intersection of each direction ray with any loop edge
+  const contour: Vec2[] = []
+  for (let k = 0; k < CUTOUT_SEGMENTS; k++) {
+    const a = (2 * Math.PI * k) / CUTOUT_SEGMENTS
+    const dx = Math.cos(a)
+    const dy = Math.sin(a)
+    let reach = 0
+    for (const loop of loops) {
+      for (let i = 0; i < loop.length; i++) {
+        const [px, py] = loop[i]
+        const [qx, qy] = loop[(i + 1) % loop.length]
+        const ex = qx - px
+        const ey = qy - py
+        const den = dx * ey - dy * ex
+        if (Math.abs(den) < 1e-12) continue
+        const s = (px * ey - py * ex) / den
+        const u = (px * dy - py * dx) / den
+        if (s > reach && u >= 0 && u <= 1) reach = s
+      }
+    }
+    contour.push([reach * dx, reach * dy])
+  }
+
+  // Offset each vertex along its mitered normal
+  const n = contour.length
+  return contour.map(([x, y], k): Vec2 => {
+    const [px, py] = contour[(k - 1 + n) % n]
+    const [qx, qy] = contour[(k + 1) % n]
+    const l1 = Math.hypot(x - px, y - py) || 1
+    const l2 = Math.hypot(qx - x, qy - y) || 1
+    const n1: Vec2 = [(y - py) / l1, -(x - px) / l1]
+    const n2: Vec2 = [(qy - y) / l2, -(qx - x) / l2]
+    const mx = n1[0] + n2[0]
+    const my = n1[1] + n2[1]
+    const ml = Math.hypot(mx, my) || 1
+    const miter = clearance / Math.max(0.25, (mx * n1[0] + my * n1[1]) / ml)
+    return [x + (mx / ml) * miter, y + (my / ml) * miter]
+  })
+}
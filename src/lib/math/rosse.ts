@@ -9,6 +9,7 @@
  */
 
 import type { ROSSEParams, ROSSEPoint, ROSSEResult } from '../types/waveguide'
+import { interpolateProfile } from './sampler'
 
 /**
  * Compute R-OSSE axisymmetric waveguide profile.
@@ -103,28 +104,26 @@ export function computeROSSE(params: ROSSEParams, numPoints: number = 300): ROSS
 /**
  * Look up Y (radial) value at parameter t from precomputed ROSSE points.
  *
- * Uses nearest-neighbor lookup for fast retrieval. For smooth interpolation,
- * consider using linear or cubic interpolation instead.
+ * Uses monotone cubic interpolation between the precomputed samples, so
+ * ring positions vary smoothly at any mesh resolution (no stair-stepping).
  *
  * @param points - Precomputed ROSSE profile points
  * @param t - Parameter value [0..1]
  * @returns Radial distance at parameter t [mm]
  */
 export function lookupY(points: ROSSEPoint[], t: number): number {
-  const index = Math.min(Math.round(t * (points.length - 1)), points.length - 1)
-  return points[index].y
+  return interpolateProfile(points, t, 'y')
 }
 
 /**
  * Look up X (axial) value at parameter t from precomputed ROSSE points.
  *
- * Uses nearest-neighbor lookup for fast retrieval.
+ * Uses monotone cubic interpolation between the precomputed samples.
  *
  * @param points - Precomputed ROSSE profile points
  * @param t - Parameter value [0..1]
  * @returns Axial distance at parameter t [mm]
  */
 export function lookupX(points: ROSSEPoint[], t: number): number {
-  const index = Math.min(Math.round(t * (points.length - 1)), points.length - 1)
-  return points[index].x
+  return interpolateProfile(points, t, 'x')
 }
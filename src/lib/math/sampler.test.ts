@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PARAMS } from '../types/waveguide'
+import { computeROSSE } from './rosse'
+import { computeRingStations, createProfileSampler, interpolateSamples } from './sampler'
+
+const hData = computeROSSE(DEFAULT_PARAMS.horizontal)
+const vData = computeROSSE(DEFAULT_PARAMS.vertical)
+if (!hData || !vData) throw new Error('Default guides are invalid')
+
+describe('interpolateSamples', () => {
+  it('does not overshoot a step with the monotone method', () => {
+    const ts = [0, 1, 2, 3]
+    const vs = [0, 0, 1, 1]
+    for (let t = 0; t <= 3; t += 0.05) {
+      const v = interpolateSamples(ts, vs, t, 'monotone')
+      expect(v).toBeGreaterThanOrEqual(0)
+      expect(v).toBeLessThanOrEqual(1)
+    }
+    // Catmull-Rom rings past the step
+    expect(interpolateSamples(ts, vs, 0.5, 'cubic')).toBeLessThan(0)
+  })
+})
+
+describe('createProfileSampler', () => {
+  const sampler = createProfileSampler(hData)
+
+  it('samples by arc length consistently with arcLengthAt', () => {
+    for (const s of [0, sampler.length / 3, sampler.length / 2, sampler.length]) {
+      expect(sampler.arcLengthAt(sampler.atS(s).t)).toBeCloseTo(s, 6)
+    }
+  })
+
+  it('samples by depth up to the foremost point of the lip', () => {
+    expect(sampler.atX(20).x).toBeCloseTo(20, 1)
+    expect(sampler.atX(sampler.maxDepth).x).toBeCloseTo(sampler.maxDepth, 3)
+    expect(sampler.atX(sampler.maxDepth + 10).x).toBeCloseTo(sampler.maxDepth, 3)
+  })
+})
+
+describe('computeRingStations', () => {
+  it('spaces rings evenly in the chosen measure, from throat to mouth', () => {
+    for (const distribution of ['uniform-depth', 'arc-length', 'curvature'] as const) {
+      const stations = computeRingStations(hData, vData, 20, distribution)
+      expect(stations).toHaveLength(21)
+      expect(stations[0]).toBe(0)
+      expect(stations[20]).toBe(1)
+      for (let i = 0; i < 20; i++) expect(stations[i + 1]).toBeGreaterThan(stations[i])
+    }
+
+    // Arc length: equal wall steps on the averaged guides
+    const h = createProfileSampler(hData)
+    const v = createProfileSampler(vData)
+    const steps = computeRingStations(hData, vData, 10, 'arc-length').map(
+      (t) => (h.arcLengthAt(t) / h.length + v.arcLengthAt(t) / v.length) / 2,
+    )
+    for (let i = 0; i <= 10; i++) expect(steps[i]).toBeCloseTo(i / 10, 2)
+  })
+})
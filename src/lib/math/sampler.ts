@@ -0,0 +1,359 @@
+/**
+ * Profile Sampling and Ring Distribution
+ * =======================================
+ *
+ * Interpolates precomputed R-OSSE profiles and resamples them by parameter t,
+ * by axial depth x, or by arc length s. Also distributes mesh ring stations
+ * along the horn so that ring spacing can follow physical distance or
+ * curvature instead of the raw parameter t.
+ *
+ * Interpolation methods:
+ * - linear: piecewise linear between samples (C0)
+ * - cubic: Catmull-Rom cubic Hermite (C1, may overshoot)
+ * - monotone: Fritsch-Butland cubic Hermite (C1, no overshoot between samples)
+ */
+
+import type { RingDistribution, ROSSEPoint, ROSSEResult } from '../types/waveguide'
+
+/**
+ * Interpolation method for profile sampling.
+ */
+export type InterpolationMethod = 'linear' | 'cubic' | 'monotone'
+
+/**
+ * Sampler over a single R-OSSE profile.
+ */
+export interface ProfileSampler {
+  /** Total arc length of the profile [mm] */
+  length: number
+
+  /** Maximum axial depth reached by the profile [mm] */
+  maxDepth: number
+
+  /** Sample the profile at parameter t [0..1] */
+  atT: (t: number) => ROSSEPoint
+
+  /** Sample the profile at axial depth x [mm] (first crossing from the throat) */
+  atX: (x: number) => ROSSEPoint
+
+  /** Sample the profile at arc length s [mm] from the throat */
+  atS: (s: number) => ROSSEPoint
+
+  /** Arc length from the throat to parameter t [mm] */
+  arcLengthAt: (t: number) => number
+}
+
+/**
+ * Find the index i such that values[i] <= v <= values[i + 1] in a
+ * non-decreasing array (clamped to the valid interval range).
+ */
+function findInterval(values: ArrayLike<number>, v: number): number {
+  let lo = 0
+  let hi = values.length - 1
+  if (v <= values[lo]) return 0
+  if (v >= values[hi]) return hi - 1
+
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1
+    if (values[mid] <= v) lo = mid
+    else hi = mid
+  }
+  return lo
+}
+
+/**
+ * Tangent at sample i for cubic Hermite interpolation.
+ */
+function hermiteSlope(
+  ts: ArrayLike<number>,
+  vs: ArrayLike<number>,
+  i: number,
+  method: InterpolationMethod,
+): number {
+  const last = ts.length - 1
+  if (i <= 0) return (vs[1] - vs[0]) / (ts[1] - ts[0])
+  if (i >= last) return (vs[last] - vs[last - 1]) / (ts[last] - ts[last - 1])
+
+  const d0 = (vs[i] - vs[i - 1]) / (ts[i] - ts[i - 1])
+  const d1 = (vs[i + 1] - vs[i]) / (ts[i + 1] - ts[i])
+
+  if (method === 'cubic') {
+    // Catmull-Rom: central difference over the two neighbours
+    return (vs[i + 1] - vs[i - 1]) / (ts[i + 1] - ts[i - 1])
+  }
+
+  // Fritsch-Butland: harmonic mean of the secants, zero at local extrema
+  if (d0 * d1 <= 0) return 0
+  return (2 * d0 * d1) / (d0 + d1)
+}
+
+/**
+ * Interpolate a sampled channel at position t.
+ *
+ * @param ts - Sample positions (non-decreasing)
+ * @param vs - Sample values
+ * @param t - Query position
+ * @param method - Interpolation method
+ * @returns Interpolated value
+ */
+export function interpolateSamples(
+  ts: ArrayLike<number>,
+  vs: ArrayLike<number>,
+  t: number,
+  method: InterpolationMethod = 'monotone',
+): number {
+  if (ts.length === 1) return vs[0]
+
+  const i = findInterval(ts, t)
+  const h = ts[i + 1] - ts[i]
+  if (h <= 0) return vs[i]
+
+  const u = Math.max(0, Math.min(1, (t - ts[i]) / h))
+  if (method === 'linear') return vs[i] + u * (vs[i + 1] - vs[i])
+
+  // Cubic Hermite basis
+  const m0 = hermiteSlope(ts, vs, i, method) * h
+  const m1 = hermiteSlope(ts, vs, i + 1, method) * h
+  const u2 = u * u
+  const u3 = u2 * u
+
+  return (
+    (2 * u3 - 3 * u2 + 1) * vs[i] +
+    (u3 - 2 * u2 + u) * m0 +
+    (-2 * u3 + 3 * u2) * vs[i + 1] +
+    (u3 - u2) * m1
+  )
+}
+
+/**
+ * Interpolate the x or y channel of a profile at parameter t.
+ *
+ * Uses a local stencil so no precomputation is needed.
+ *
+ * @param points - Precomputed ROSSE profile points
+ * @param t - Parameter value [0..1]
+ * @param channel - 'x' (axial) or 'y' (radial)
+ * @param method - Interpolation method (default: monotone)
+ * @returns Interpolated coordinate [mm]
+ */
+export function interpolateProfile(
+  points: ROSSEPoint[],
+  t: number,
+  channel: 'x' | 'y',
+  method: InterpolationMethod = 'monotone',
+): number {
+  const n = points.length
+  if (n === 1) return points[0][channel]
+
+  // computeROSSE samples t uniformly, so the interval index is direct;
+  // other sample layouts fall back to a binary search
+  let i = Math.max(0, Math.min(n - 2, Math.floor(t * (n - 1))))
+  if (Math.abs(points[i].t - i / (n - 1)) > 1e-9) {
+    i = findInterval(
+      points.map((p) => p.t),
+      t,
+    )
+  }
+
+  // Evaluate on a small window around the target interval
+
+  const lo = Math.max(0, i - 1)
+  const hi = Math.min(n - 1, i + 2)
+  const ts: number[] = []
+  const vs: number[] = []
+  for (let k = lo; k <= hi; k++) {
+    ts.push(points[k].t)
+    vs.push(points[k][channel])
+  }
+
+  return interpolateSamples(ts, vs, t, method)
+}
+
+/**
+ * Create a sampler for an R-OSSE profile.
+ *
+ * @param result - R-OSSE computation result
+ * @param method - Interpolation method (default: monotone)
+ * @returns Profile sampler
+ *
+ * @example
+ * ```typescript
+ * const sampler = createProfileSampler(computeROSSE(params)!, 'monotone')
+ * const halfway = sampler.atS(sampler.length / 2)
+ * const at40mm = sampler.atX(40)
+ * ```
+ */
+export function createProfileSampler(
+  result: ROSSEResult,
+  method: InterpolationMethod = 'monotone',
+): ProfileSampler {
+  const { points } = result
+  const n = points.length
+
+  const ts = new Float64Array(n)
+  const xs = new Float64Array(n)
+  const ys = new Float64Array(n)
+  const arc = new Float64Array(n)
+  const xEnvelope = new Float64Array(n)
+
+  for (let i = 0; i < n; i++) {
+    ts[i] = points[i].t
+    xs[i] = points[i].x
+    ys[i] = points[i].y
+    if (i > 0) {
+      arc[i] = arc[i - 1] + Math.hypot(xs[i] - xs[i - 1], ys[i] - ys[i - 1])
+      // Running maximum makes depth invertible past the mouth roll-back
+      xEnvelope[i] = Math.max(xEnvelope[i - 1], xs[i])
+    } else {
+      xEnvelope[i] = xs[i]
+    }
+  }
+
+  const atT = (t: number): ROSSEPoint => {
+    const tc = Math.max(0, Math.min(1, t))
+    return {
+      t: tc,
+      x: interpolateSamples(ts, xs, tc, method),
+      y: interpolateSamples(ts, ys, tc, method),
+    }
+  }
+
+  const atS = (s: number): ROSSEPoint => atT(interpolateSamples(arc, ts, s, 'linear'))
+
+  const atX = (x: number): ROSSEPoint => {
+    // First sample whose envelope reaches x, then refine linearly within it.
+    // The envelope is flat past the foremost point, so search for the first
+    // sample at or beyond x rather than the last one below it.
+    const xc = Math.min(x, xEnvelope[n - 1])
+    let i = 0
+    let hi = n - 1
+    while (hi - i > 1) {
+      const mid = (i + hi) >> 1
+      if (xEnvelope[mid] < xc) i = mid
+      else hi = mid
+    }
+    const x0 = xEnvelope[i]
+    const x1 = xEnvelope[i + 1]
+    const u = x1 > x0 ? Math.max(0, Math.min(1, (xc - x0) / (x1 - x0))) : 0
+    return atT(ts[i] + u * (ts[i + 1] - ts[i]))
+  }
+
+  return {
+    length: arc[n - 1],
+    maxDepth: xEnvelope[n - 1],
+    atT,
+    atX,
+    atS,
+    arcLengthAt: (t: number) => interpolateSamples(ts, arc, t, 'linear'),
+  }
+}
+
+/**
+ * Per-segment spacing weights for one profile.
+ *
+ * Segment i spans samples i and i+1; the returned weights are normalized
+ * to sum to 1 so that H and V profiles contribute equally.
+ */
+function segmentWeights(points: ROSSEPoint[], distribution: RingDistribution): Float64Array {
+  const n = points.length - 1
+  const weights = new Float64Array(n)
+
+  if (distribution === 'uniform-t') {
+    weights.fill(1 / n)
+    return weights
+  }
+
+  const ds = new Float64Array(n)
+  const dx = new Float64Array(n)
+  const heading = new Float64Array(n)
+  let totalS = 0
+  let totalX = 0
+  for (let i = 0; i < n; i++) {
+    const ex = points[i + 1].x - points[i].x
+    const ey = points[i + 1].y - points[i].y
+    ds[i] = Math.hypot(ex, ey)
+    dx[i] = Math.abs(ex)
+    heading[i] = Math.atan2(ey, ex)
+    totalS += ds[i]
+    totalX += dx[i]
+  }
+
+  if (distribution === 'uniform-depth') {
+    for (let i = 0; i < n; i++) weights[i] = totalX > 0 ? dx[i] / totalX : 1 / n
+    return weights
+  }
+
+  if (distribution === 'arc-length') {
+    for (let i = 0; i < n; i++) weights[i] = totalS > 0 ? ds[i] / totalS : 1 / n
+    return weights
+  }
+
+  // Curvature-adaptive: blend arc length with the turning angle of the wall,
+  // which concentrates rings at the throat and at the mouth roll-back
+  const turning = new Float64Array(n)
+  let totalTurning = 0
+  for (let i = 0; i < n; i++) {
+    const prev = heading[Math.max(0, i - 1)]
+    const next = heading[Math.min(n - 1, i + 1)]
+    turning[i] = Math.abs(next - prev) / 2
+    totalTurning += turning[i]
+  }
+
+  const curvatureShare = 0.6
+  for (let i = 0; i < n; i++) {
+    const arcPart = totalS > 0 ? ds[i] / totalS : 1 / n
+    const turnPart = totalTurning > 0 ? turning[i] / totalTurning : 1 / n
+    weights[i] = (1 - curvatureShare) * arcPart + curvatureShare * turnPart
+  }
+  return weights
+}
+
+/**
+ * Compute parameter values for mesh ring stations.
+ *
+ * The spacing weights of the H and V profiles are averaged, accumulated and
+ * inverted, so the returned t values are equally spaced in the chosen measure:
+ * - uniform-t: equal steps in the R-OSSE parameter (original behaviour)
+ * - uniform-depth: equal steps in axial depth
+ * - arc-length: equal steps in wall arc length
+ * - curvature: denser where the wall turns (throat and mouth roll-back)
+ *
+ * @param hData - Horizontal R-OSSE guide curve result
+ * @param vData - Vertical R-OSSE guide curve result
+ * @param numRings - Number of ring intervals
+ * @param distribution - Ring distribution mode
+ * @returns numRings + 1 parameter values from 0 to 1
+ */
+export function computeRingStations(
+  hData: ROSSEResult,
+  vData: ROSSEResult,
+  numRings: number,
+  distribution: RingDistribution,
+): number[] {
+  if (distribution === 'uniform-t' || hData.points.length !== vData.points.length) {
+    return Array.from({ length: numRings + 1 }, (_, i) => i / numRings)
+  }
+
+  const wH = segmentWeights(hData.points, distribution)
+  const wV = segmentWeights(vData.points, distribution)
+
+  // Cumulative weight at each sample
+  const cumulative = new Float64Array(wH.length + 1)
+  const ts = new Float64Array(wH.length + 1)
+  ts[0] = hData.points[0].t
+  for (let i = 0; i < wH.length; i++) {
+    cumulative[i + 1] = cumulative[i] + (wH[i] + wV[i]) / 2
+    ts[i + 1] = hData.points[i + 1].t
+  }
+  const total = cumulative[cumulative.length - 1]
+
+  const stations: number[] = []
+  for (let ri = 0; ri <= numRings; ri++) {
+    stations.push(interpolateSamples(cumulative, ts, (ri / numRings) * total, 'linear'))
+  }
+
+  // Pin the end stations exactly
+  stations[0] = 0
+  stations[numRings] = 1
+  return stations
+}
@@ -0,0 +1,67 @@
+/**
+ * Print Sections
+ * ==============
+ *
+ * Splits the waveguide shell into separate closed bodies along the axis, so
+ * that a horn taller than the print volume can be printed in parts.
+ *
+ * Cuts follow mesh rings: each cut closes both neighbouring sections with a
+ * strip from the inner ring to the outer ring, like the throat and mouth
+ * edge strips. The first section carries the driver mount, the last one the
+ * mouth plate and mouth flange.
+ */
+
+import type { MeshData, ShellParams } from '../types/waveguide'
+import { generateShellMesh } from './shell'
+import { shellTriMesh, surfaceCaps, surfaceTriMesh, type TriMesh } from './trimesh'
+
+/**
+ * Ring indices where the shell is cut into sections of about equal depth.
+ *
+ * Each cut is the first waveguide ring past its share of the depth; cuts
+ * never fall on the throat or mouth ring, so fewer sections than requested
+ * are possible on very coarse meshes.
+ *
+ * @param meshData - Generated mesh data
+ * @param count - Number of sections requested
+ * @returns Increasing ring indices of the cuts (count - 1 at most)
+ */
+export function sectionCuts(meshData: MeshData, count: number): number[] {
+  const { rings } = meshData
+  const mouthIndex = rings.length - 1
+  const z0 = rings[0].xH
+  const depth = Math.max(...rings.map((r) => r.xH)) - z0
+
+  const cuts: number[] = []
+  let ri = 1
+  for (let k = 1; k < count; k++) {
+    const target = z0 + (depth * k) / count
+    while (ri < mouthIndex && rings[ri].xH < target) ri++
+    if (ri >= mouthIndex) break
+    cuts.push(ri)
+    ri++
+  }
+  return cuts
+}
+
+/**
+ * Split the exported body into print sections.
+ *
+ * Without the shell there is nothing to split; the waveguide surface is
+ * returned as a single part (like the STL export, with the selected caps).
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters (including the section count)
+ * @returns Mesh of each section, from throat to mouth
+ */
+export function printSections(meshData: MeshData, shellParams: ShellParams): TriMesh[] {
+  const shellData = generateShellMesh(meshData, shellParams)
+  if (!shellData) return [surfaceTriMesh(meshData, surfaceCaps(shellParams))]
+
+  const bounds = [
+    0,
+    ...sectionCuts(meshData, shellParams.sections),
+    shellData.innerRings.length - 1,
+  ]
+  return bounds.slice(1).map((to, k) => shellTriMesh(shellData, bounds[k], to))
+}
@@ -7,12 +7,15 @@
  */
 
 import type { MeshData, ShellParams } from '../types/waveguide'
+import { surfaceRings } from './mesh'
+import { buildThroatMount, checkThroatMount } from './mount'
+import { buildMouthPlate, checkMouthPlate } from './plate'
 
 /**
- * Shell mesh data with inner surface (acoustic path), outer surface (structure), and caps.
+ * Shell mesh data with inner surface (acoustic path), outer surface (structure), and end plates.
  */
 export interface ShellMeshData {
-  /** Inner surface rings (acoustic waveguide - original R-OSSE design) */
+  /** Inner surface rings (acoustic waveguide - original R-OSSE design, then mouth flange) */
   innerRings: [number, number, number][][]
 
   /** Outer surface rings (structural shell - design + thickness offset outward) */
@@ -24,11 +27,24 @@ export interface ShellMeshData {
   /** Number of slices per ring */
   numSlices: number
 
-  /** Whether throat cap should be generated */
-  hasThroatCap: boolean
+  /** Index of the waveguide mouth ring (t=1); later rings belong to the mouth flange */
+  mouthRingIndex: number
 
-  /** Whether mouth cap should be generated */
-  hasMouthCap: boolean
+  /** Driver mounting plate triangles (replace the throat edge strip), or null */
+  throatMount:
+    | [[number, number, number], [number, number, number], [number, number, number]][]
+    | null
+
+  /** Baffle mounting plate triangles (replace the mouth edge strip), or null */
+  mouthPlate:
+    | [[number, number, number], [number, number, number], [number, number, number]][]
+    | null
+
+  /** Problems preventing the driver mounting plate (empty when built or disabled) */
+  throatMountIssues: string[]
+
+  /** Problems preventing the mouth plate (empty when built or disabled) */
+  mouthPlateIssues: string[]
 }
 
 /**
@@ -43,11 +59,14 @@ function normalize(x: number, y: number, z: number): [number, number, number] {
 /**
  * Calculate vertex normals by averaging adjacent face normals.
  *
- * @param meshData - Original mesh data
+ * @param rings - Surface rings (waveguide and mouth flange)
+ * @param numSlices - Number of slices per ring
  * @returns Array of normalized normals for each vertex
  */
-function calculateVertexNormals(meshData: MeshData): [number, number, number][] {
-  const { rings, numSlices } = meshData
+function calculateVertexNormals(
+  rings: [number, number, number][][],
+  numSlices: number,
+): [number, number, number][] {
   const vertsPerRing = numSlices + 1
   const totalVerts = rings.length * vertsPerRing
 
@@ -64,9 +83,9 @@ function calculateVertexNormals(meshData: MeshData): [number, number, number][]
       const c = (ri + 1) * vertsPerRing + si + 1
       const d = (ri + 1) * vertsPerRing + si
 
-      const vA = rings[ri].ring[si]
-      const vB = rings[ri].ring[si + 1]
-      const vD = rings[ri + 1].ring[si]
+      const vA = rings[ri][si]
+      const vB = rings[ri][si + 1]
+      const vD = rings[ri + 1][si]
 
       // Calculate face normal from two edges
       const e1x = vB[0] - vA[0]
@@ -137,9 +156,12 @@ function calculateVertexNormals(meshData: MeshData): [number, number, number][]
  * Generate shell mesh with inner and outer surfaces.
  *
  * Creates a hollow shell by:
- * 1. Using original mesh as INNER surface (acoustic waveguide - exact R-OSSE design)
+ * 1. Using original mesh (and mouth flange) as INNER surface (acoustic waveguide - exact R-OSSE design)
  * 2. Offsetting vertices OUTWARD along normals for OUTER surface (structural shell)
  * 3. Optionally generating cap faces at throat and/or mouth
+ * 4. Optionally adding a driver mounting plate at the throat (see mount.ts);
+ *    the outer throat ring is then flattened onto the throat plane
+ * 5. Optionally adding a baffle mounting plate at the mouth (see plate.ts)
  *
  * This ensures the acoustic path matches your designed R-OSSE geometry exactly,
  * with thickness added on the exterior for structural strength.
@@ -154,25 +176,25 @@ export function generateShellMesh(
 ): ShellMeshData | null {
   if (!meshData || !shellParams.enabled) return null
 
-  const { rings, numSlices } = meshData
-  const { thickness, throatCap, mouthCap } = shellParams
+  const { numSlices } = meshData
+  const { thickness } = shellParams
 
-  // Calculate normals for all vertices
-  const normals = calculateVertexNormals(meshData)
+  // Original mesh becomes INNER surface (acoustic waveguide path), including the mouth flange
+  const innerRings = surfaceRings(meshData)
 
-  // Original mesh becomes INNER surface (acoustic waveguide path)
-  const innerRings = rings.map((r) => r.ring)
+  // Calculate normals for all vertices
+  const normals = calculateVertexNormals(innerRings, numSlices)
 
   // Generate OUTER surface by offsetting vertices OUTWARD (structural shell)
   const outerRings: [number, number, number][][] = []
   const vertsPerRing = numSlices + 1
 
-  for (let ri = 0; ri < rings.length; ri++) {
+  for (let ri = 0; ri < innerRings.length; ri++) {
     const outerRing: [number, number, number][] = []
 
     for (let si = 0; si <= numSlices; si++) {
       const vertIdx = ri * vertsPerRing + si
-      const [x, y, z] = rings[ri].ring[si]
+      const [x, y, z] = innerRings[ri][si]
       const [nx, ny, nz] = normals[vertIdx]
 
       // Offset OUTWARD (add thickness to exterior)
@@ -189,12 +211,60 @@ export function generateShellMesh(
     outerRings.push(outerRing)
   }
 
+  // Driver mounting plate (skipped when the plate cannot be built around the throat)
+  let throatMount: ShellMeshData['throatMount'] = null
+  let throatMountIssues: string[] = []
+  if (shellParams.throatMount?.enabled) {
+    throatMountIssues = checkThroatMount(innerRings[0], shellParams)
+    if (throatMountIssues.length === 0) {
+      const z0 = innerRings[0][0][2]
+      for (const p of outerRings[0]) p[2] = z0
+      throatMount = buildThroatMount(innerRings[0], outerRings[0], shellParams.throatMount)
+    }
+  }
+
+  // Baffle mounting plate (skipped when the plate cannot be built around the mouth)
+  const mouthRingIndex = meshData.rings.length - 1
+  let mouthPlate: ShellMeshData['mouthPlate'] = null
+  let mouthPlateIssues: string[] = []
+  if (shellParams.mouthPlate?.enabled) {
+    mouthPlateIssues = checkMouthPlate(innerRings, outerRings, mouthRingIndex, shellParams)
+    if (mouthPlateIssues.length === 0) {
+      mouthPlate = buildMouthPlate(
+        innerRings[mouthRingIndex],
+        outerRings[mouthRingIndex],
+        shellParams.mouthPlate,
+      )
+    }
+  }
+
   return {
     innerRings,
     outerRings,
     normals,
     numSlices,
-    hasThroatCap: throatCap,
-    hasMouthCap: mouthCap,
+    mouthRingIndex,
+    throatMount,
+    mouthPlate,
+    throatMountIssues,
+    mouthPlateIssues,
+  }
+}
+
+/**
+ * Parts of the shell that were requested but could not be built.
+ *
+ * @param shell - Shell mesh, or null when the shell is disabled
+ * @returns One message per omitted part (empty when everything was built)
+ */
+export function shellIssues(shell: ShellMeshData | null): string[] {
+  if (!shell) return []
+  const issues: string[] = []
+  if (shell.throatMountIssues.length > 0) {
+    issues.push(`Driver mount not exported: ${shell.throatMountIssues.join(', ')}`)
+  }
+  if (shell.mouthPlateIssues.length > 0) {
+    issues.push(`Mouth plate not exported: ${shell.mouthPlateIssues.join(', ')}`)
   }
+  return issues
 }
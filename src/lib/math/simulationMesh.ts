@@ -0,0 +1,289 @@
+/**
+ * Simulation Mesh for BEM/FEM Export
+ * ==================================
+ *
+ * Builds a closed, tagged triangle mesh of the air path for acoustic solvers
+ * (Gmsh .msh export). Element size follows the shortest wavelength to be
+ * simulated: h = c / f_max / (elements per wavelength).
+ *
+ * Surfaces (physical groups):
+ * - throat: driving surface closing the throat ring
+ * - wall: waveguide surface up to the aperture
+ * - mouth: aperture across the foremost ring (see apertureRing)
+ * - baffle: lip roll-back, flange roll-back and flat baffle (only with the
+ *   mouth flange)
+ *
+ * Throat, wall and mouth form a closed surface around the horn's air volume
+ * (every edge used by exactly two triangles), with all normals pointing
+ * into it. The R-OSSE lip rolls back behind the aperture: without the
+ * flange it is left out and the mouth radiates into free field; with the
+ * flange it starts the baffle, a separate open surface with its own nodes
+ * along the aperture ring, so the closed surface stays a 2-manifold.
+ *
+ * Wall and baffle are refined by subdividing the ring grid (bilinear, so the
+ * result follows the export mesh); caps are filled with concentric loops
+ * shrinking towards the ring centroid.
+ */
+
+import type { MeshData } from '../types/waveguide'
+import { surfaceRings } from './mesh'
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/** Speed of sound in air at 20 °C [mm/s] */
+export const SPEED_OF_SOUND = 343000
+
+/** Physical groups of the simulation mesh, in tag order (tag = index + 1) */
+export const SIMULATION_GROUPS = ['throat', 'wall', 'mouth', 'baffle'] as const
+
+/** Physical group name */
+export type SimulationGroup = (typeof SIMULATION_GROUPS)[number]
+
+/**
+ * Tagged triangle mesh for acoustic simulation.
+ */
+export interface SimulationMesh {
+  /** Vertex positions [mm] */
+  vertices: Vec3[]
+
+  /** Triangles (vertex indices) of each physical group */
+  groups: Record<SimulationGroup, [number, number, number][]>
+
+  /** Target element size [mm] */
+  elementSize: number
+}
+
+/**
+ * Target element size for a frequency and mesh density.
+ *
+ * @param maxFrequency - Highest frequency to resolve [Hz]
+ * @param elementsPerWavelength - Elements per wavelength at that frequency
+ * @returns Maximum element edge length [mm]
+ */
+export function elementSize(maxFrequency: number, elementsPerWavelength: number): number {
+  return SPEED_OF_SOUND / maxFrequency / elementsPerWavelength
+}
+
+function lerp3(a: Vec3, b: Vec3, s: number): Vec3 {
+  return [a[0] + (b[0] - a[0]) * s, a[1] + (b[1] - a[1]) * s, a[2] + (b[2] - a[2]) * s]
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+/**
+ * Index of the wall ring that closes the air volume: the foremost one.
+ *
+ * The R-OSSE profile rolls back at the mouth, so a cap across the last ring
+ * would cut through the wall; the ring with the largest mean depth is the
+ * lip apex (exactly so with common depth, where rings are planar).
+ *
+ * @param meshData - Generated mesh data
+ * @returns Ring index of the mouth aperture
+ */
+export function apertureRing(meshData: MeshData): number {
+  let best = 0
+  let bestDepth = -Infinity
+  meshData.rings.forEach(({ ring }, i) => {
+    const depth = ring.reduce((sum, p) => sum + p[2], 0) / ring.length
+    if (depth > bestDepth) {
+      best = i
+      bestDepth = depth
+    }
+  })
+  return best
+}
+
+/**
+ * Subdivide a ring grid so that no edge is longer than the element size.
+ *
+ * Every ring interval and every slice interval is split into as many equal
+ * parts as its longest edge needs; counts are shared by all rings (slices),
+ * so the refined grid stays conforming.
+ *
+ * @returns Refined rings (seam point duplicated)
+ */
+function refineGrid(rings: Vec3[][], size: number): Vec3[][] {
+  const slices = rings[0].length - 1
+
+  const sliceSplits: number[] = []
+  for (let j = 0; j < slices; j++) {
+    const longest = Math.max(...rings.map((ring) => distance(ring[j], ring[j + 1])))
+    sliceSplits.push(Math.max(1, Math.ceil(longest / size)))
+  }
+
+  const refineRing = (ring: Vec3[]): Vec3[] => {
+    const points: Vec3[] = []
+    for (let j = 0; j < slices; j++) {
+      for (let b = 0; b < sliceSplits[j]; b++)
+        points.push(lerp3(ring[j], ring[j + 1], b / sliceSplits[j]))
+    }
+    points.push(points[0])
+    return points
+  }
+
+  const refined: Vec3[][] = []
+  for (let i = 0; i < rings.length - 1; i++) {
+    let longest = 0
+    for (let j = 0; j < slices; j++)
+      longest = Math.max(longest, distance(rings[i][j], rings[i + 1][j]))
+    const splits = Math.max(1, Math.ceil(longest / size))
+    for (let a = 0; a < splits; a++) {
+      const row = rings[i].map((p, j) => lerp3(p, rings[i + 1][j], a / splits))
+      refined.push(refineRing(row))
+    }
+  }
+  refined.push(refineRing(rings[rings.length - 1]))
+
+  return refined
+}
+
+/**
+ * Build the tagged simulation mesh.
+ *
+ * @param meshData - Generated mesh data (wall and optional mouth flange)
+ * @param size - Target element size [mm]
+ * @returns Closed throat/wall/mouth surface plus the baffle
+ */
+export function buildSimulationMesh(meshData: MeshData, size: number): SimulationMesh {
+  const vertices: Vec3[] = []
+  const groups: SimulationMesh['groups'] = { throat: [], wall: [], mouth: [], baffle: [] }
+  const rings = surfaceRings(meshData)
+  const aperture = apertureRing(meshData)
+
+  // Wall up to the aperture, closed by the throat and mouth caps (the throat
+  // faces into the horn, the aperture back towards the throat)
+  const wall = gridRows(refineGrid(rings.slice(0, aperture + 1), size), vertices)
+  stitchGrid(wall, vertices, groups.wall)
+  fillCap(wall[0], vertices, size, groups.throat, false)
+  fillCap(wall[wall.length - 1], vertices, size, groups.mouth, true)
+
+  // Lip and flange from the aperture on, as a separate surface
+  if (meshData.flangeRings) {
+    const baffle = gridRows(refineGrid(rings.slice(aperture), size), vertices)
+    stitchGrid(baffle, vertices, groups.baffle)
+  }
+
+  return { vertices, groups, elementSize: size }
+}
+
+/**
+ * Add the vertices of a refined grid; the seam duplicate shares the first
+ * vertex of its ring.
+ *
+ * @returns Vertex indices per ring (seam duplicated)
+ */
+function gridRows(rings: Vec3[][], vertices: Vec3[]): number[][] {
+  return rings.map((ring) => {
+    const ids = ring.slice(0, -1).map((p) => vertices.push(p) - 1)
+    return [...ids, ids[0]]
+  })
+}
+
+/**
+ * Quads between neighbouring rows, with normals into the air path (as in
+ * the surface export), split along the shorter diagonal.
+ */
+function stitchGrid(
+  rows: number[][],
+  vertices: Vec3[],
+  triangles: [number, number, number][],
+): void {
+  for (let ri = 0; ri < rows.length - 1; ri++) {
+    for (let si = 0; si < rows[ri].length - 1; si++) {
+      const v1 = rows[ri][si]
+      const v2 = rows[ri][si + 1]
+      const v3 = rows[ri + 1][si + 1]
+      const v4 = rows[ri + 1][si]
+      if (distance(vertices[v1], vertices[v3]) <= distance(vertices[v2], vertices[v4])) {
+        triangles.push([v1, v4, v3], [v1, v3, v2])
+      } else {
+        triangles.push([v1, v4, v2], [v4, v3, v2])
+      }
+    }
+  }
+}
+
+/**
+ * Fill a closed ring with triangles of about the element size.
+ *
+ * Concentric loops shrink the ring towards its centroid, with point counts
+ * proportional to their size; neighbouring loops are stitched by always
+ * advancing along the loop that lags behind.
+ *
+ * @param ring - Vertex indices of the ring (counter-clockwise seen from +z, seam duplicated)
+ * @param vertices - Vertex list (new vertices are appended)
+ * @param size - Target element size [mm]
+ * @param triangles - Output triangle list
+ * @param reversed - Reverse the winding (normal towards -z)
+ */
+function fillCap(
+  ring: number[],
+  vertices: Vec3[],
+  size: number,
+  triangles: [number, number, number][],
+  reversed: boolean,
+): void {
+  const outer = ring.slice(0, -1)
+  const count = outer.length
+  const points = outer.map((i) => vertices[i])
+  const center: Vec3 = [0, 1, 2].map(
+    (k) => points.reduce((sum, p) => sum + p[k], 0) / count,
+  ) as Vec3
+  const radius = Math.max(...points.map((p) => distance(p, center)))
+  const levels = Math.max(1, Math.ceil(radius / size))
+
+  const push = (a: number, b: number, c: number): void => {
+    triangles.push(reversed ? [a, c, b] : [a, b, c])
+  }
+
+  // Point on the outer ring at a fraction of its index range
+  const along = (u: number): Vec3 => {
+    const x = u * count
+    const j = Math.floor(x) % count
+    return lerp3(points[j], points[(j + 1) % count], x - Math.floor(x))
+  }
+
+  let loop = outer
+  for (let level = 1; level < levels; level++) {
+    const scale = 1 - level / levels
+    const n = Math.max(3, Math.round(count * scale))
+    const next = Array.from({ length: n }, (_, j) => {
+      vertices.push(lerp3(center, along(j / n), scale))
+      return vertices.length - 1
+    })
+    stitchLoops(loop, next, push)
+    loop = next
+  }
+
+  vertices.push(center)
+  const apex = vertices.length - 1
+  for (let j = 0; j < loop.length; j++) push(loop[j], loop[(j + 1) % loop.length], apex)
+}
+
+/**
+ * Triangulate the band between an outer and an inner closed loop.
+ *
+ * Both loops start at the same angle and run the same way round.
+ */
+function stitchLoops(
+  outer: number[],
+  inner: number[],
+  push: (a: number, b: number, c: number) => void,
+): void {
+  const a = outer.length
+  const b = inner.length
+  let i = 0
+  let j = 0
+  while (i < a || j < b) {
+    if (j === b || (i < a && (i + 1) / a < (j + 1) / b)) {
+      push(outer[i], outer[(i + 1) % a], inner[j % b])
+      i++
+    } else {
+      push(outer[i % a], inner[(j + 1) % b], inner[j])
+      j++
+    }
+  }
+}
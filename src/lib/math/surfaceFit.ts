@@ -0,0 +1,284 @@
+/**
+ * B-Spline Fit of the Waveguide Surface
+ * ======================================
+ *
+ * Fits bicubic B-spline surfaces to the waveguide wall (and the outer wall
+ * of the shell) for CAD export. The fit interpolates a tensor-product grid
+ * of exact surface points, starting from the ring grid of the mesh:
+ * - u runs from the throat to the mouth (rings)
+ * - v runs once around the axis (slices); the surface is closed in v
+ *
+ * Data parameters are averaged chord lengths (Piegl & Tiller §9.2.5), not
+ * t and θ: the superellipse parameterization has infinite slope on the axes
+ * for n > 2, which a cubic cannot follow, while the chord length does not.
+ *
+ * Refinement works like the adaptive tessellator: after each fit, the exact
+ * surface is sampled at every interval midpoint and cell center, and
+ * intervals whose samples are further than the tolerance from the fitted
+ * surface get split. The reported deviation is the largest distance found
+ * in the final check.
+ */
+
+import type { MeshData } from '../types/waveguide'
+import { type BSplineSurface, interpolateSurface, surfacePoint } from './bspline'
+import type { MeshStation, SurfaceEvaluator } from './mesh'
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/** Finite-difference step for surface normals (in t and θ) */
+const NORMAL_STEP = 1e-5
+
+/** Finite-difference step for the fitted surface derivatives (in u and v) */
+const PARAM_STEP = 1e-6
+
+/** Gauss-Newton iterations when projecting a sample onto the fitted surface */
+const PROJECTION_ITERATIONS = 4
+
+/** Projection stops when the distance improves by less than this [mm] */
+const CONVERGED = 1e-5
+
+/**
+ * Optional settings for the surface fit.
+ */
+export interface SurfaceFitOptions {
+  /** Upper bound on ring intervals (default: 400) */
+  maxRings?: number
+
+  /** Upper bound on slice intervals (default: 512) */
+  maxSlices?: number
+
+  /** Maximum refinement passes (default: 8) */
+  maxPasses?: number
+}
+
+/**
+ * Fitted waveguide surfaces.
+ */
+export interface WaveguideSurfaceFit {
+  /** Inner (acoustic) surface */
+  inner: BSplineSurface
+
+  /** Outer surface offset by the wall thickness, or null without a shell */
+  outer: BSplineSurface | null
+
+  /** Largest sampled distance between the exact and the fitted surfaces [mm] */
+  maxDeviation: number
+
+  /** Number of interpolated rings */
+  rings: number
+
+  /** Number of interpolated slices (excluding the closing point) */
+  slices: number
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+/**
+ * Averaged, normalized cumulative chord lengths along a set of polylines
+ * with the same number of points.
+ */
+function chordParams(lines: Vec3[][]): number[] {
+  const count = lines[0].length
+  const params = new Array<number>(count).fill(0)
+  let used = 0
+
+  for (const line of lines) {
+    const cumulative = [0]
+    for (let k = 1; k < count; k++) {
+      cumulative.push(cumulative[k - 1] + Math.hypot(...sub(line[k], line[k - 1])))
+    }
+    const total = cumulative[count - 1]
+    if (total < 1e-9) continue
+    for (let k = 0; k < count; k++) params[k] += cumulative[k] / total
+    used++
+  }
+
+  // Degenerate lines only: fall back to uniform parameters
+  if (used === 0) return params.map((_, k) => k / (count - 1))
+
+  const result = params.map((p) => p / used)
+  result[0] = 0
+  result[count - 1] = 1
+  return result
+}
+
+/**
+ * Distance from a point to the fitted surface, projecting from a start guess.
+ *
+ * Gauss-Newton on the squared distance, stopped once it no longer improves
+ * by more than CONVERGED; the best point found is kept, so the result is
+ * never below the true distance.
+ */
+function surfaceDistance(fit: BSplineSurface, target: Vec3, u0: number, v0: number): number {
+  let u = u0
+  let v = v0
+  let p = surfacePoint(fit, u, v)
+  let best = Math.hypot(p[0] - target[0], p[1] - target[1], p[2] - target[2])
+
+  for (let k = 0; k < PROJECTION_ITERATIONS && best > CONVERGED; k++) {
+    const hu = u + PARAM_STEP <= 1 ? PARAM_STEP : -PARAM_STEP
+    const hv = v + PARAM_STEP <= 1 ? PARAM_STEP : -PARAM_STEP
+    const pu = surfacePoint(fit, u + hu, v)
+    const pv = surfacePoint(fit, u, v + hv)
+    const su: Vec3 = [(pu[0] - p[0]) / hu, (pu[1] - p[1]) / hu, (pu[2] - p[2]) / hu]
+    const sv: Vec3 = [(pv[0] - p[0]) / hv, (pv[1] - p[1]) / hv, (pv[2] - p[2]) / hv]
+    const r = sub(p, target)
+
+    // Normal equations of the linearized problem
+    const a = dot(su, su)
+    const b = dot(su, sv)
+    const c = dot(sv, sv)
+    const det = a * c - b * b
+    if (Math.abs(det) < 1e-18) break
+    const du = (-dot(su, r) * c + dot(sv, r) * b) / det
+    const dv = (-dot(sv, r) * a + dot(su, r) * b) / det
+
+    u = Math.min(Math.max(u + du, 0), 1)
+    v = Math.min(Math.max(v + dv, 0), 1)
+    p = surfacePoint(fit, u, v)
+    const d = Math.hypot(p[0] - target[0], p[1] - target[1], p[2] - target[2])
+    const improvement = best - d
+    best = Math.min(best, d)
+    if (improvement < CONVERGED) break
+  }
+
+  return best
+}
+
+/**
+ * Fit bicubic B-spline surfaces to the waveguide (and its outer wall).
+ *
+ * Refinement loop (each pass):
+ * 1. Sample the exact surfaces on the current (t, θ) grid and interpolate
+ * 2. Measure the distance of the exact surfaces to the fit at every ring
+ *    interval midpoint, slice interval midpoint and cell center
+ * 3. Stop when all samples are within the tolerance (or limits are
+ *    reached); otherwise split the offending intervals
+ *
+ * The outer wall is the exact offset of the waveguide along its unit normal
+ * (the mesh shell averages face normals instead).
+ *
+ * @param surface - Waveguide surface evaluator
+ * @param meshData - Mesh whose ring grid starts the refinement
+ * @param thickness - Wall thickness [mm], or 0 for the waveguide surface only
+ * @param tolerance - Maximum distance between exact and fitted surface [mm]
+ * @param options - Optional refinement limits
+ * @returns Fitted surfaces and the largest sampled deviation
+ */
+export function fitWaveguideSurfaces(
+  surface: SurfaceEvaluator,
+  meshData: MeshData,
+  thickness: number,
+  tolerance: number,
+  options: SurfaceFitOptions = {},
+): WaveguideSurfaceFit {
+  const { maxRings = 400, maxSlices = 512, maxPasses = 8 } = options
+
+  // Cache stations by t: sampling revisits the same values many times
+  const stationCache = new Map<number, MeshStation>()
+  const innerPoint = (t: number, theta: number): Vec3 => {
+    let st = stationCache.get(t)
+    if (!st) {
+      st = surface.station(t)
+      stationCache.set(t, st)
+    }
+    return surface.point(st, theta)
+  }
+
+  // Offset along the outward normal Sθ × St (the same side as the mesh shell)
+  const outerPoint = (t: number, theta: number): Vec3 => {
+    const p = innerPoint(t, theta)
+    const st = sub(
+      innerPoint(Math.min(t + NORMAL_STEP, 1), theta),
+      innerPoint(Math.max(t - NORMAL_STEP, 0), theta),
+    )
+    const sth = sub(innerPoint(t, theta + NORMAL_STEP), innerPoint(t, theta - NORMAL_STEP))
+    const n: Vec3 = [
+      sth[1] * st[2] - sth[2] * st[1],
+      sth[2] * st[0] - sth[0] * st[2],
+      sth[0] * st[1] - sth[1] * st[0],
+    ]
+    const len = Math.hypot(...n)
+    if (len < 1e-12) return p
+    const k = thickness / len
+    return [p[0] + n[0] * k, p[1] + n[1] * k, p[2] + n[2] * k]
+  }
+
+  // Start from the mesh grid (the adaptive mesh carries its own angles)
+  let ts = meshData.rings.map((r) => r.t)
+  ts[0] = 0
+  ts[ts.length - 1] = 1
+  let thetas =
+    meshData.thetas ??
+    Array.from({ length: meshData.numSlices + 1 }, (_, j) => (2 * Math.PI * j) / meshData.numSlices)
+
+  for (let pass = 0; ; pass++) {
+    const innerGrid = ts.map((t) => thetas.map((theta) => innerPoint(t, theta)))
+    const outerGrid =
+      thickness > 0 ? ts.map((t) => thetas.map((theta) => outerPoint(t, theta))) : null
+
+    // Shared parameters, so that both surfaces have the same knots in v
+    const us = chordParams(thetas.map((_, j) => innerGrid.map((row) => row[j])))
+    const vs = chordParams(innerGrid)
+    const inner = interpolateSurface(innerGrid, us, vs, true)
+    const outer = outerGrid ? interpolateSurface(outerGrid, us, vs, true) : null
+
+    const deviation = (t: number, theta: number, u: number, v: number): number => {
+      const d = surfaceDistance(inner, innerPoint(t, theta), u, v)
+      return outer ? Math.max(d, surfaceDistance(outer, outerPoint(t, theta), u, v)) : d
+    }
+
+    // Worst sample per ring interval and per slice interval
+    const ringDev = new Array<number>(ts.length - 1).fill(0)
+    const sliceDev = new Array<number>(thetas.length - 1).fill(0)
+    for (let i = 0; i < ts.length; i++) {
+      for (let j = 0; j < thetas.length - 1; j++) {
+        const thm = (thetas[j] + thetas[j + 1]) / 2
+        const vm = (vs[j] + vs[j + 1]) / 2
+        sliceDev[j] = Math.max(sliceDev[j], deviation(ts[i], thm, us[i], vm))
+        if (i === ts.length - 1) continue
+
+        const tm = (ts[i] + ts[i + 1]) / 2
+        const um = (us[i] + us[i + 1]) / 2
+        ringDev[i] = Math.max(ringDev[i], deviation(tm, thetas[j], um, vs[j]))
+        const center = deviation(tm, thm, um, vm)
+        ringDev[i] = Math.max(ringDev[i], center)
+        sliceDev[j] = Math.max(sliceDev[j], center)
+      }
+    }
+
+    const maxDeviation = Math.max(...ringDev, ...sliceDev)
+    const done =
+      maxDeviation <= tolerance ||
+      pass >= maxPasses ||
+      (ts.length - 1 >= maxRings && thetas.length - 1 >= maxSlices)
+    if (done) {
+      return { inner, outer, maxDeviation, rings: ts.length, slices: thetas.length - 1 }
+    }
+
+    // Split every interval over the tolerance (within the limits)
+    const nextTs = [ts[0]]
+    for (let i = 0; i < ts.length - 1; i++) {
+      if (ringDev[i] > tolerance && nextTs.length + (ts.length - 1 - i) < maxRings) {
+        nextTs.push((ts[i] + ts[i + 1]) / 2)
+      }
+      nextTs.push(ts[i + 1])
+    }
+    const nextThetas = [thetas[0]]
+    for (let j = 0; j < thetas.length - 1; j++) {
+      if (sliceDev[j] > tolerance && nextThetas.length + (thetas.length - 1 - j) < maxSlices) {
+        nextThetas.push((thetas[j] + thetas[j + 1]) / 2)
+      }
+      nextThetas.push(thetas[j + 1])
+    }
+    ts = nextTs
+    thetas = nextThetas
+  }
+}
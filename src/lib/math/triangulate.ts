@@ -0,0 +1,230 @@
+/**
+ * Polygon Triangulation
+ * ======================
+ *
+ * Ear-clipping triangulation for simple polygons with holes, used for flat
+ * plate faces (mounting flanges, baffles) that have to join an existing
+ * mesh edge-for-edge.
+ *
+ * Holes are joined to the outer boundary with bridge edges (Eberly,
+ * "Triangulation by Ear Clipping"), which turns the polygon with holes into
+ * a single weakly simple polygon that is then clipped ear by ear. No new
+ * vertices are introduced, so every boundary edge of the result is an
+ * edge of the input rings.
+ */
+
+/** 2D point [x, y] */
+type Vec2 = [number, number]
+
+/**
+ * Signed area of a polygon (positive for counter-clockwise).
+ */
+export function signedArea(points: Vec2[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const [x0, y0] = points[i]
+    const [x1, y1] = points[(i + 1) % points.length]
+    area += x0 * y1 - x1 * y0
+  }
+  return area / 2
+}
+
+/**
+ * Twice the signed area of triangle abc (positive for counter-clockwise).
+ */
+function cross(a: Vec2, b: Vec2, c: Vec2): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])
+}
+
+/**
+ * Whether p lies inside or on the counter-clockwise triangle abc.
+ */
+function pointInTriangle(p: Vec2, a: Vec2, b: Vec2, c: Vec2): boolean {
+  return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0
+}
+
+/**
+ * Whether two points coincide (bridge edges duplicate vertices).
+ */
+function samePoint(a: Vec2, b: Vec2): boolean {
+  return a[0] === b[0] && a[1] === b[1]
+}
+
+/**
+ * Whether direction v→p lies inside the interior wedge of a counter-clockwise
+ * boundary at vertex v (between the edges prev→v and v→next).
+ */
+function inWedge(prev: Vec2, v: Vec2, next: Vec2, p: Vec2): boolean {
+  const leftOfIn = cross(prev, v, p) > 0
+  const leftOfOut = cross(v, next, p) > 0
+  return cross(prev, v, next) >= 0 ? leftOfIn && leftOfOut : leftOfIn || leftOfOut
+}
+
+/**
+ * Join one clockwise hole into the counter-clockwise boundary.
+ *
+ * @param pts - All vertices
+ * @param boundary - Current boundary (vertex indices)
+ * @param hole - Hole (vertex indices, clockwise)
+ * @returns New boundary with the hole spliced in via a bridge edge
+ */
+function bridgeHole(pts: Vec2[], boundary: number[], hole: number[]): number[] {
+  // Rightmost hole vertex M
+  let hm = 0
+  for (let k = 1; k < hole.length; k++) {
+    if (pts[hole[k]][0] > pts[hole[hm]][0]) hm = k
+  }
+  const m = pts[hole[hm]]
+
+  // Cast a ray from M towards +x and find the closest boundary edge it hits
+  let bestX = Infinity
+  let bestPos = -1
+  for (let k = 0; k < boundary.length; k++) {
+    const a = pts[boundary[k]]
+    const b = pts[boundary[(k + 1) % boundary.length]]
+    if (a[1] > m[1] === b[1] > m[1]) continue
+    const x = a[0] + ((m[1] - a[1]) / (b[1] - a[1])) * (b[0] - a[0])
+    if (x < m[0] || x >= bestX) continue
+    bestX = x
+    // Candidate: the edge endpoint with the larger x
+    bestPos = a[0] > b[0] ? k : (k + 1) % boundary.length
+  }
+  if (bestPos < 0) return boundary
+
+  // A reflex boundary vertex inside triangle (M, I, P) would block the bridge;
+  // use the one with the smallest angle to the ray instead
+  const intersection: Vec2 = [bestX, m[1]]
+  const p = pts[boundary[bestPos]]
+  const [ta, tb, tc]: [Vec2, Vec2, Vec2] =
+    cross(m, intersection, p) >= 0 ? [m, intersection, p] : [m, p, intersection]
+  let bestAngle = Infinity
+  let bestDist = Infinity
+  for (let k = 0; k < boundary.length; k++) {
+    if (k === bestPos) continue
+    const v = pts[boundary[k]]
+    if (samePoint(v, p)) continue
+    const prev = pts[boundary[(k - 1 + boundary.length) % boundary.length]]
+    const next = pts[boundary[(k + 1) % boundary.length]]
+    if (cross(prev, v, next) > 0) continue // convex
+    if (!pointInTriangle(v, ta, tb, tc)) continue
+
+    const dx = v[0] - m[0]
+    const dy = v[1] - m[1]
+    const angle = Math.abs(Math.atan2(dy, dx))
+    const dist = dx * dx + dy * dy
+    if (angle < bestAngle || (angle === bestAngle && dist < bestDist)) {
+      bestAngle = angle
+      bestDist = dist
+      bestPos = k
+    }
+  }
+
+  // Earlier bridges may have duplicated P; splice at the copy whose wedge
+  // contains the bridge so that bridges never cross
+  const target = boundary[bestPos]
+  for (let k = 0; k < boundary.length; k++) {
+    if (boundary[k] !== target) continue
+    const prev = pts[boundary[(k - 1 + boundary.length) % boundary.length]]
+    const next = pts[boundary[(k + 1) % boundary.length]]
+    if (inWedge(prev, pts[target], next, m)) {
+      bestPos = k
+      break
+    }
+  }
+
+  // Splice: ..., P, M, hole..., M, P, ...
+  const rotated = [...hole.slice(hm), ...hole.slice(0, hm), hole[hm]]
+  return [
+    ...boundary.slice(0, bestPos + 1),
+    ...rotated,
+    boundary[bestPos],
+    ...boundary.slice(bestPos + 1),
+  ]
+}
+
+/**
+ * Triangulate a simple polygon with holes by ear clipping.
+ *
+ * Vertices are numbered in input order: the outer boundary first, then each
+ * hole in turn. Winding of the inputs does not matter; the returned
+ * triangles are always counter-clockwise (normal +z in the XY plane).
+ *
+ * @param outer - Outer boundary (without a repeated closing point)
+ * @param holes - Holes inside the boundary (non-overlapping)
+ * @returns Triangles as vertex index triples
+ *
+ * @example
+ * ```typescript
+ * const square: [number, number][] = [[0, 0], [10, 0], [10, 10], [0, 10]]
+ * const hole: [number, number][] = [[4, 4], [6, 4], [6, 6], [4, 6]]
+ * const tris = triangulatePolygon(square, [hole]) // 8 triangles
+ * ```
+ */
+export function triangulatePolygon(
+  outer: Vec2[],
+  holes: Vec2[][] = [],
+): [number, number, number][] {
+  const pts: Vec2[] = [...outer, ...holes.flat()]
+
+  // Outer boundary counter-clockwise, holes clockwise
+  let boundary = outer.map((_, i) => i)
+  if (signedArea(outer) < 0) boundary.reverse()
+
+  let offset = outer.length
+  const holeRings: number[][] = []
+  for (const hole of holes) {
+    const ring = hole.map((_, i) => offset + i)
+    if (signedArea(hole) > 0) ring.reverse()
+    holeRings.push(ring)
+    offset += hole.length
+  }
+
+  // Bridge holes from right to left so earlier bridges never cross later ones
+  const maxX = (ring: number[]) => Math.max(...ring.map((i) => pts[i][0]))
+  holeRings.sort((a, b) => maxX(b) - maxX(a))
+  for (const ring of holeRings) boundary = bridgeHole(pts, boundary, ring)
+
+  // Ear clipping
+  const triangles: [number, number, number][] = []
+  const remaining = boundary
+  let i = 0
+  let sinceLastEar = 0
+
+  while (remaining.length > 3) {
+    const n = remaining.length
+    const ia = remaining[(i - 1 + n) % n]
+    const ib = remaining[i % n]
+    const ic = remaining[(i + 1) % n]
+    const a = pts[ia]
+    const b = pts[ib]
+    const c = pts[ic]
+
+    let isEar = cross(a, b, c) > 0
+    if (isEar) {
+      for (const j of remaining) {
+        const v = pts[j]
+        if (samePoint(v, a) || samePoint(v, b) || samePoint(v, c)) continue
+        if (pointInTriangle(v, a, b, c)) {
+          isEar = false
+          break
+        }
+      }
+    }
+
+    // Degenerate input: after a full pass without an ear, clip anyway so
+    // that every boundary edge stays connected
+    if (isEar || sinceLastEar > n) {
+      triangles.push([ia, ib, ic])
+      remaining.splice(i % n, 1)
+      i = Math.max(0, (i % n) - 1)
+      sinceLastEar = 0
+    } else {
+      i = (i + 1) % n
+      sinceLastEar++
+    }
+  }
+
+  if (remaining.length === 3) triangles.push([remaining[0], remaining[1], remaining[2]])
+
+  return triangles
+}
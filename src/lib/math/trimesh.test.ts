@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PARAMS, type ShellParams } from '../types/waveguide'
+import { buildStateMesh } from './mesh'
+import { buildExportMesh, checkManifold, isClosedExport, type TriMesh } from './trimesh'
+
+const meshData = buildStateMesh({
+  ...DEFAULT_PARAMS,
+  mouthFlange: { ...DEFAULT_PARAMS.mouthFlange, enabled: true },
+})
+if (!meshData) throw new Error('Default design has no mesh')
+
+const shellParams = (changes: Partial<ShellParams>): ShellParams => ({
+  ...DEFAULT_PARAMS.shellParams,
+  ...changes,
+})
+
+/** Signed volume enclosed by a mesh (negative with inward normals) */
+function signedVolume({ vertices, triangles }: TriMesh): number {
+  let volume = 0
+  for (const [a, b, c] of triangles) {
+    const [p, q, r] = [vertices[a], vertices[b], vertices[c]]
+    volume +=
+      (p[0] * (q[1] * r[2] - q[2] * r[1]) +
+        p[1] * (q[2] * r[0] - q[0] * r[2]) +
+        p[2] * (q[0] * r[1] - q[1] * r[0])) /
+      6
+  }
+  return volume
+}
+
+describe('buildExportMesh', () => {
+  it('leaves the bare surface open at both ends', () => {
+    const params = shellParams({ enabled: false, throatCap: false, mouthCap: false })
+    const report = checkManifold(buildExportMesh(meshData, params))
+    expect(isClosedExport(params)).toBe(false)
+    expect(report.openEdges).toBe(2 * meshData.numSlices)
+    expect(report.nonManifoldEdges).toBe(0)
+    expect(report.flippedEdges).toBe(0)
+  })
+
+  it('closes the surface with both caps, normals into the air path', () => {
+    const params = shellParams({ enabled: false, throatCap: true, mouthCap: true })
+    const mesh = buildExportMesh(meshData, params)
+    const report = checkManifold(mesh)
+    expect(isClosedExport(params)).toBe(true)
+    expect(report).toMatchObject({ openEdges: 0, nonManifoldEdges: 0, flippedEdges: 0 })
+    expect(signedVolume(mesh)).toBeLessThan(0)
+  })
+
+  it('builds a closed shell with the flange', () => {
+    const params = shellParams({ enabled: true })
+    const mesh = buildExportMesh(meshData, params)
+    const report = checkManifold(mesh)
+    expect(report).toMatchObject({ openEdges: 0, nonManifoldEdges: 0, flippedEdges: 0 })
+    expect(signedVolume(mesh)).toBeGreaterThan(0)
+  })
+})
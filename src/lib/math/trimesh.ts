@@ -0,0 +1,321 @@
+/**
+ * Indexed Triangle Mesh for Export
+ * =================================
+ *
+ * Single source of the exported geometry: STL, OBJ and 3MF all write the
+ * same indexed triangle mesh, so every format contains identical triangles.
+ *
+ * The mesh is built from the ring grid:
+ * - Ring vertices are shared between neighbouring quads; the seam duplicate
+ *   (si = numSlices) is welded to the first vertex of its ring
+ * - Without the shell: the waveguide surface (and mouth flange), wound so
+ *   that normals point into the air path, optionally closed by flat discs
+ *   at the throat and the mouth aperture
+ * - With the shell: inner and outer surfaces closed by the throat and mouth
+ *   edge strips (or by the driver mount and mouth plate in their place), with
+ *   all normals pointing out of the solid
+ *
+ * A manifold check runs before every export and reports open edges,
+ * edges shared by more than two triangles, and flipped faces.
+ */
+
+import type { MeshData, ShellParams } from '../types/waveguide'
+import { surfaceRings } from './mesh'
+import { generateShellMesh, type ShellMeshData } from './shell'
+import { apertureRing } from './simulationMesh'
+
+/** 3D point [x, y, z] */
+type Vec3 = [number, number, number]
+
+/**
+ * Indexed triangle mesh.
+ */
+export interface TriMesh {
+  /** Vertex positions */
+  vertices: Vec3[]
+
+  /** Triangles as vertex indices (counter-clockwise seen from outside) */
+  triangles: [number, number, number][]
+}
+
+/**
+ * Result of the manifold check.
+ */
+export interface ManifoldReport {
+  /** Number of vertices */
+  vertices: number
+
+  /** Number of triangles */
+  triangles: number
+
+  /** Edges used by a single triangle (holes or boundaries) */
+  openEdges: number
+
+  /** Edges used by more than two triangles */
+  nonManifoldEdges: number
+
+  /** Edges used twice in the same direction (a neighbouring face is flipped) */
+  flippedEdges: number
+}
+
+/**
+ * Incremental mesh builder that welds vertices by exact position.
+ */
+function createTriMeshBuilder() {
+  const vertices: Vec3[] = []
+  const triangles: [number, number, number][] = []
+  const index = new Map<string, number>()
+
+  const vertex = (p: Vec3): number => {
+    const key = `${p[0]},${p[1]},${p[2]}`
+    let i = index.get(key)
+    if (i === undefined) {
+      i = vertices.length
+      index.set(key, i)
+      vertices.push(p)
+    }
+    return i
+  }
+
+  // Ring vertices; the seam duplicate shares the first vertex (its position
+  // can differ in the last bits, so it is registered explicitly)
+  const ring = (points: Vec3[]): number[] => {
+    const ids = points.slice(0, -1).map(vertex)
+    const seam = points[points.length - 1]
+    index.set(`${seam[0]},${seam[1]},${seam[2]}`, ids[0])
+    return [...ids, ids[0]]
+  }
+
+  // Triangles collapsing to an edge are dropped
+  const triangle = (a: number, b: number, c: number): void => {
+    if (a !== b && b !== c && c !== a) triangles.push([a, b, c])
+  }
+
+  // Quads between two rings: 'inward' for the waveguide surface, 'outward' for the outer shell
+  const band = (r0: number[], r1: number[], facing: 'inward' | 'outward'): void => {
+    for (let si = 0; si < r0.length - 1; si++) {
+      const v1 = r0[si]
+      const v2 = r0[si + 1]
+      const v3 = r1[si + 1]
+      const v4 = r1[si]
+      if (facing === 'inward') {
+        triangle(v1, v4, v3)
+        triangle(v1, v3, v2)
+      } else {
+        triangle(v1, v2, v3)
+        triangle(v1, v3, v4)
+      }
+    }
+  }
+
+  // Strip from an outer to an inner ring: 'back' faces the throat, 'front' the mouth
+  const strip = (outer: number[], inner: number[], facing: 'back' | 'front'): void => {
+    for (let si = 0; si < outer.length - 1; si++) {
+      const o1 = outer[si]
+      const o2 = outer[si + 1]
+      const i1 = inner[si]
+      const i2 = inner[si + 1]
+      if (facing === 'back') {
+        triangle(o1, i1, i2)
+        triangle(o1, i2, o2)
+      } else {
+        triangle(o1, o2, i2)
+        triangle(o1, i2, i1)
+      }
+    }
+  }
+
+  // Flat disc over a ring, fanned from its centroid: 'back' faces the throat, 'front' the mouth
+  const disc = (r: number[], facing: 'back' | 'front'): void => {
+    const count = r.length - 1
+    const center = [0, 1, 2].map(
+      (k) => r.slice(0, count).reduce((sum, i) => sum + vertices[i][k], 0) / count,
+    ) as Vec3
+    const c = vertex(center)
+    for (let si = 0; si < count; si++) {
+      if (facing === 'front') triangle(c, r[si], r[si + 1])
+      else triangle(c, r[si + 1], r[si])
+    }
+  }
+
+  const mesh = (): TriMesh => ({ vertices, triangles })
+
+  return { vertex, ring, triangle, band, strip, disc, mesh }
+}
+
+/**
+ * Ends of the bare waveguide surface closed by flat discs.
+ */
+export interface SurfaceCaps {
+  /** Disc across the throat ring */
+  throat: boolean
+
+  /** Disc across the mouth aperture (the foremost ring, see apertureRing) */
+  mouth: boolean
+}
+
+/**
+ * Triangle mesh of the waveguide surface only (no shell).
+ *
+ * With the mouth cap, the surface ends at the aperture: the rolled-back lip
+ * and the mouth flange lie behind the disc and are left out. With both caps
+ * the mesh is the closed air volume of the horn.
+ *
+ * @param meshData - Generated mesh data
+ * @param caps - Ends to close (default: none)
+ * @returns Surface mesh with normals into the air path
+ */
+export function surfaceTriMesh(
+  meshData: MeshData,
+  caps: SurfaceCaps = { throat: false, mouth: false },
+): TriMesh {
+  const builder = createTriMeshBuilder()
+  const points = surfaceRings(meshData)
+  const rings = (caps.mouth ? points.slice(0, apertureRing(meshData) + 1) : points).map(
+    builder.ring,
+  )
+  for (let ri = 0; ri < rings.length - 1; ri++) {
+    builder.band(rings[ri], rings[ri + 1], 'inward')
+  }
+  if (caps.throat) builder.disc(rings[0], 'front')
+  if (caps.mouth) builder.disc(rings[rings.length - 1], 'back')
+  return builder.mesh()
+}
+
+/**
+ * Surface caps selected by the shell parameters (used without the shell).
+ */
+export function surfaceCaps(shellParams: ShellParams): SurfaceCaps {
+  return { throat: shellParams.throatCap, mouth: shellParams.mouthCap }
+}
+
+/**
+ * Whether the export mesh is a closed body: the shell, or the bare surface
+ * with both caps.
+ *
+ * @param shellParams - Shell parameters
+ */
+export function isClosedExport(shellParams: ShellParams): boolean {
+  return shellParams.enabled || (shellParams.throatCap && shellParams.mouthCap)
+}
+
+/**
+ * Triangle mesh of the shell between two rings, closed at both ends.
+ *
+ * The throat end is closed by the driver mount (if built) or an edge strip,
+ * the mouth end by the mouth plate (if built) or an edge strip. Ends inside
+ * the shell (print section cuts) are closed by edge strips.
+ *
+ * @param shellData - Shell mesh data
+ * @param from - First ring index (default: throat)
+ * @param to - Last ring index (default: last ring)
+ * @returns Closed shell mesh with normals out of the solid
+ */
+export function shellTriMesh(
+  shellData: ShellMeshData,
+  from: number = 0,
+  to: number = shellData.innerRings.length - 1,
+): TriMesh {
+  const builder = createTriMeshBuilder()
+  const last = shellData.innerRings.length - 1
+  const inner = shellData.innerRings.slice(from, to + 1).map(builder.ring)
+  const outer = shellData.outerRings.slice(from, to + 1).map(builder.ring)
+
+  for (let ri = 0; ri < inner.length - 1; ri++) {
+    builder.band(inner[ri], inner[ri + 1], 'inward')
+    builder.band(outer[ri], outer[ri + 1], 'outward')
+  }
+
+  if (from === 0 && shellData.throatMount) {
+    for (const [a, b, c] of shellData.throatMount) {
+      builder.triangle(builder.vertex(a), builder.vertex(b), builder.vertex(c))
+    }
+  } else {
+    builder.strip(outer[0], inner[0], 'back')
+  }
+
+  if (to === last && shellData.mouthPlate) {
+    for (const [a, b, c] of shellData.mouthPlate) {
+      builder.triangle(builder.vertex(a), builder.vertex(b), builder.vertex(c))
+    }
+  } else {
+    builder.strip(outer[outer.length - 1], inner[inner.length - 1], 'front')
+  }
+
+  return builder.mesh()
+}
+
+/**
+ * Build the export mesh: the closed shell when enabled, else the surface.
+ *
+ * @param meshData - Generated mesh data
+ * @param shellParams - Shell parameters
+ * @returns Indexed triangle mesh shared by all mesh export formats
+ */
+export function buildExportMesh(meshData: MeshData, shellParams: ShellParams): TriMesh {
+  const shellData = generateShellMesh(meshData, shellParams)
+  return shellData ? shellTriMesh(shellData) : surfaceTriMesh(meshData, surfaceCaps(shellParams))
+}
+
+/**
+ * Check a triangle mesh for open, non-manifold and flipped edges.
+ *
+ * Every edge of a closed, consistently wound mesh is used exactly twice, in
+ * opposite directions.
+ *
+ * @param mesh - Triangle mesh
+ * @returns Edge statistics
+ */
+export function checkManifold(mesh: TriMesh): ManifoldReport {
+  const n = mesh.vertices.length
+  const directed = new Map<number, number>()
+  for (const [a, b, c] of mesh.triangles) {
+    for (const [p, q] of [
+      [a, b],
+      [b, c],
+      [c, a],
+    ]) {
+      const key = p * n + q
+      directed.set(key, (directed.get(key) ?? 0) + 1)
+    }
+  }
+
+  let openEdges = 0
+  let nonManifoldEdges = 0
+  let flippedEdges = 0
+  for (const [key, count] of directed) {
+    const p = Math.floor(key / n)
+    const q = key % n
+    const reverse = directed.get(q * n + p) ?? 0
+
+    // Count each undirected edge once
+    if (reverse > 0 && p > q) continue
+    const total = count + reverse
+    if (total === 1) openEdges++
+    else if (total > 2) nonManifoldEdges++
+    else if (reverse === 0) flippedEdges++
+  }
+
+  return {
+    vertices: n,
+    triangles: mesh.triangles.length,
+    openEdges,
+    nonManifoldEdges,
+    flippedEdges,
+  }
+}
+
+/**
+ * Problems found by the manifold check, as readable messages.
+ *
+ * @param report - Manifold check result
+ * @param closed - Whether the mesh should be closed (open edges are expected on a bare surface)
+ * @returns Problem descriptions (empty for a clean mesh)
+ */
+export function manifoldIssues(report: ManifoldReport, closed: boolean): string[] {
+  const issues: string[] = []
+  if (closed && report.openEdges > 0) issues.push(`${report.openEdges} open edges`)
+  if (report.nonManifoldEdges > 0) issues.push(`${report.nonManifoldEdges} non-manifold edges`)
+  if (report.flippedEdges > 0) issues.push(`${report.flippedEdges} flipped edges`)
+  return issues
+}
@@ -0,0 +1,132 @@
+/**
+ * Webster Horn Equation
+ * =====================
+ *
+ * One-dimensional acoustic model of the waveguide: plane waves travelling
+ * along the equivalent area profile S(x) (see area.ts), obeying Webster's
+ * horn equation
+ *
+ *   p'' + (S'/S)·p' + k²·p = 0
+ *
+ * Written for the specific impedance ζ = Z·S/(ρc) (normalized to the local
+ * area), it becomes the Riccati equation
+ *
+ *   dζ/dx = j·k·(ζ² − 1) + (S'/S)·ζ
+ *
+ * which is integrated with RK4 from the mouth back to the throat. The radius
+ * is interpolated linearly between profile points (conical pieces). The mouth
+ * is terminated by the radiation impedance of a baffled circular piston of
+ * the same area.
+ *
+ * The model ignores higher-order modes and losses, so it shows the loading
+ * cutoff and the ripple caused by mouth reflections, not the exact response.
+ */
+
+import type { AreaPoint } from './area'
+import { SPEED_OF_SOUND } from './simulationMesh'
+import { besselJ1, struveH1 } from './special'
+
+/** Complex number [re, im] */
+type Complex = [number, number]
+
+/**
+ * Normalized acoustic impedance at one frequency.
+ */
+export interface ImpedancePoint {
+  /** Frequency [Hz] */
+  frequency: number
+
+  /** Resistance, normalized to ρc/S */
+  resistance: number
+
+  /** Reactance, normalized to ρc/S */
+  reactance: number
+}
+
+/** Largest phase (k·h) or area change (Δ ln S) per integration step */
+const MAX_STEP = 0.05
+
+/**
+ * Radiation impedance of a circular piston in an infinite baffle.
+ *
+ * @param ka - Wavenumber times piston radius
+ * @returns Impedance [resistance, reactance], normalized to ρc/S
+ */
+export function pistonImpedance(ka: number): Complex {
+  if (ka <= 0) return [0, 0]
+  return [1 - besselJ1(2 * ka) / ka, struveH1(2 * ka) / ka]
+}
+
+/**
+ * Logarithmically spaced frequencies, both ends included.
+ *
+ * @param minFrequency - Lowest frequency [Hz]
+ * @param maxFrequency - Highest frequency [Hz]
+ * @param pointsPerOctave - Resolution (default: 24)
+ * @returns Frequencies [Hz]
+ */
+export function logFrequencies(
+  minFrequency: number,
+  maxFrequency: number,
+  pointsPerOctave: number = 24,
+): number[] {
+  const count = Math.max(1, Math.ceil(Math.log2(maxFrequency / minFrequency) * pointsPerOctave))
+  return Array.from(
+    { length: count + 1 },
+    (_, i) => minFrequency * (maxFrequency / minFrequency) ** (i / count),
+  )
+}
+
+/**
+ * Normalized throat impedance of an area profile.
+ *
+ * @param profile - Area profile from throat to mouth (increasing x)
+ * @param frequencies - Frequencies [Hz]
+ * @returns Throat impedance per frequency, normalized to ρc/S_throat
+ */
+export function throatImpedance(profile: AreaPoint[], frequencies: number[]): ImpedancePoint[] {
+  if (profile.length < 2) return []
+
+  const radii = profile.map((p) => Math.sqrt(p.area / Math.PI))
+  const mouth = radii[radii.length - 1]
+
+  return frequencies.map((frequency) => {
+    const k = (2 * Math.PI * frequency) / SPEED_OF_SOUND
+    let zeta = pistonImpedance(k * mouth)
+
+    // Mouth → throat, one conical piece at a time
+    for (let i = profile.length - 2; i >= 0; i--) {
+      const x0 = profile[i].x
+      const length = profile[i + 1].x - x0
+      const r0 = radii[i]
+      const slope = (radii[i + 1] - r0) / length
+
+      // dζ/dx, with S'/S = 2·r'/r for the conical piece
+      const derivative = (x: number, [re, im]: Complex): Complex => {
+        const g = (2 * slope) / (r0 + slope * (x - x0))
+        return [-2 * k * re * im + g * re, k * (re * re - im * im - 1) + g * im]
+      }
+
+      const steps = Math.max(
+        1,
+        Math.ceil((k * length) / MAX_STEP),
+        Math.ceil(Math.abs(2 * Math.log(radii[i + 1] / r0)) / MAX_STEP),
+      )
+      const h = -length / steps
+      let x = x0 + length
+      for (let s = 0; s < steps; s++) {
+        const k1 = derivative(x, zeta)
+        const k2 = derivative(x + h / 2, [zeta[0] + (h / 2) * k1[0], zeta[1] + (h / 2) * k1[1]])
+        const k3 = derivative(x + h / 2, [zeta[0] + (h / 2) * k2[0], zeta[1] + (h / 2) * k2[1]])
+        const k4 = derivative(x + h, [zeta[0] + h * k3[0], zeta[1] + h * k3[1]])
+        zeta = [
+          zeta[0] + (h / 6) * (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]),
+          zeta[1] + (h / 6) * (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]),
+        ]
+        x += h
+      }
+    }
+
+    return { frequency, resistance: zeta[0], reactance: zeta[1] }
+  })
+}
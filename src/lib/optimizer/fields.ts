@@ -0,0 +1,103 @@
+/**
+ * Optimizable Fields
+ * ==================
+ *
+ * The numeric WaveguideState fields an optimizer (or a sweep) may vary,
+ * addressed by dotted path, with their allowed ranges from PARAM_RANGES.
+ * The throat radius r0 is left out: it is fixed by the driver.
+ */
+
+import { PARAM_RANGES } from '../config/parameterConfig'
+import type { WaveguideState } from '../types/waveguide'
+
+/**
+ * A numeric state field that can be varied.
+ */
+export interface FreeField {
+  /** Dotted path in WaveguideState (e.g. `horizontal.k`) */
+  path: string
+
+  /** Display label */
+  label: string
+
+  /** Smallest allowed value */
+  min: number
+
+  /** Largest allowed value */
+  max: number
+}
+
+const ROSSE_LABELS: Record<string, string> = {
+  R: 'R',
+  a0_deg: 'a0',
+  a_deg: 'a',
+  k: 'k',
+  rho: 'rho',
+  b: 'b',
+  m: 'm',
+  q: 'q',
+}
+
+/**
+ * Fields of one parameter group with ranges.
+ */
+function group(
+  prefix: string,
+  label: string,
+  ranges: Record<string, { min: number; max: number }>,
+  keys: string[] = Object.keys(ranges),
+): FreeField[] {
+  return keys.map((key) => ({
+    path: `${prefix}.${key}`,
+    label: `${label} ${ROSSE_LABELS[key] ?? key}`,
+    min: ranges[key].min,
+    max: ranges[key].max,
+  }))
+}
+
+const rosseKeys = Object.keys(ROSSE_LABELS)
+
+/** All fields that can be varied, in control panel order */
+export const FREE_FIELDS: FreeField[] = [
+  ...group('horizontal', 'H', PARAM_RANGES.rosse, rosseKeys),
+  ...group('vertical', 'V', PARAM_RANGES.rosse, rosseKeys),
+  ...group('shapeBlend', 'Shape', PARAM_RANGES.shapeBlend),
+  ...group('modBlend', 'Mod', PARAM_RANGES.modBlend),
+  ...group('diagonalMod', 'Diag', PARAM_RANGES.modulation),
+  ...group('cardinalMod', 'Card', PARAM_RANGES.modulation),
+]
+
+/**
+ * Look up a free field by path.
+ *
+ * @param path - Dotted path
+ * @returns Field, or undefined for unknown paths
+ */
+export function findField(path: string): FreeField | undefined {
+  return FREE_FIELDS.find((field) => field.path === path)
+}
+
+/**
+ * Value of a numeric field.
+ *
+ * @param state - Waveguide state
+ * @param path - Dotted path of a two-level field (group.key)
+ */
+export function getField(state: WaveguideState, path: string): number {
+  const [groupKey, key] = path.split('.')
+  return (state as unknown as Record<string, Record<string, number>>)[groupKey][key]
+}
+
+/**
+ * Copy of the state with one numeric field changed.
+ *
+ * @param state - Waveguide state
+ * @param path - Dotted path of a two-level field (group.key)
+ * @param value - New value
+ * @returns New state (only the changed group is copied)
+ */
+export function setField(state: WaveguideState, path: string, value: number): WaveguideState {
+  const [groupKey, key] = path.split('.')
+  const groups = state as unknown as Record<string, Record<string, number>>
+  return { ...state, [groupKey]: { ...groups[groupKey], [key]: value } }
+}
@@ -0,0 +1,37 @@
+/**
+ * Design Optimizer
+ * ================
+ *
+ * Barrel export for the free fields, objectives, optimizer and parameter
+ * sweep.
+ */
+
+export { FREE_FIELDS, findField, getField, setField } from './fields'
+export {
+  CURVATURE_SCALE,
+  curvatureRoughness,
+  DEPTH_SCALE,
+  EVAL_RINGS,
+  EVAL_SLICES,
+  evaluateObjectives,
+  OBJECTIVES,
+  PATH_SPREAD_SCALE,
+} from './objectives'
+export {
+  DEFAULT_OPTIMIZER_CONFIG,
+  INVALID_SCORE,
+  optimize,
+  optimizerIssues,
+  scoreState,
+} from './optimizer'
+export {
+  axisValues,
+  defaultAxis,
+  findSweepCell,
+  MAX_SWEEP_STEPS,
+  runSweep,
+  SWEEP_METRICS,
+  sweepIssues,
+  sweepMetrics,
+  sweepState,
+} from './sweep'
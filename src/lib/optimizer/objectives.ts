@@ -0,0 +1,134 @@
+/**
+ * Optimizer Objectives
+ * ====================
+ *
+ * Shape-quality terms of a design, each scaled so that 1 is a noticeable
+ * amount; the optimizer minimizes their weighted sum.
+ *
+ * - pathSpread: longest minus shortest wall path, throat to mouth, per
+ *   PATH_SPREAD_SCALE (see pathLength.ts)
+ * - curvature: RMS rate of change of the wall meridian curvature, made
+ *   dimensionless with the mean wall length (κ'·L²). Kinks and abrupt
+ *   changes of bending (from the shape or modulation blends) raise it; a
+ *   smoothly flaring wall keeps it low.
+ * - depth: depth over the budget, per DEPTH_SCALE, squared (zero within
+ *   the budget). The depth is the full axial extent of the wall, to the
+ *   foremost point of the lip (see computeMeshMetrics).
+ *
+ * Path spread and curvature are measured from the throat to the mouth
+ * aperture (the foremost ring, see simulationMesh.ts); the mouth roll-back
+ * is ignored.
+ */
+
+import { buildStateMesh, computeMeshMetrics } from '../math/mesh'
+import { analyzePathLengths } from '../math/pathLength'
+import { apertureRing } from '../math/simulationMesh'
+import type { MeshData, WaveguideState } from '../types/waveguide'
+
+/** Objective identifiers */
+export type ObjectiveId = 'pathSpread' | 'curvature' | 'depth'
+
+/** Value of every objective term */
+export type ObjectiveTerms = Record<ObjectiveId, number>
+
+/**
+ * Objective metadata for the UI.
+ */
+export interface ObjectiveInfo {
+  id: ObjectiveId
+  label: string
+  description: string
+}
+
+/** Objectives in display order */
+export const OBJECTIVES: ObjectiveInfo[] = [
+  { id: 'pathSpread', label: 'Path spread', description: 'Wall path-length spread (per 10 mm)' },
+  { id: 'curvature', label: 'Curvature', description: 'Curvature continuity of the walls' },
+  { id: 'depth', label: 'Depth budget', description: 'Depth over the budget (per 5 mm, squared)' },
+]
+
+/** Path-length spread counted as one unit [mm] */
+export const PATH_SPREAD_SCALE = 10
+
+/** Depth excess counted as one unit [mm] */
+export const DEPTH_SCALE = 5
+
+/** Curvature rate (κ'·L², RMS) counted as one unit */
+export const CURVATURE_SCALE = 10
+
+/** Mesh resolution used for evaluating candidates (rings, slices) */
+export const EVAL_RINGS = 40
+export const EVAL_SLICES = 64
+
+/**
+ * Dimensionless RMS curvature rate of the wall meridians.
+ *
+ * Each slice's wall is taken as a curve in its (r, z) half-plane; the
+ * curvature at a ring is the turning angle between neighbouring segments
+ * over their mean length.
+ *
+ * @param meshData - Generated mesh data
+ * @returns RMS of dκ/ds · L² over all slices, per CURVATURE_SCALE
+ */
+export function curvatureRoughness(meshData: MeshData): number {
+  const last = apertureRing(meshData)
+  const rings = meshData.rings.slice(0, last + 1).map((r) => r.ring)
+  if (rings.length < 4) return 0
+
+  let sum = 0
+  let count = 0
+  let totalLength = 0
+  const rates: number[][] = []
+
+  for (let j = 0; j < meshData.numSlices; j++) {
+    const curve = rings.map((ring) => [Math.hypot(ring[j][0], ring[j][1]), ring[j][2]])
+    const lengths = curve.slice(1).map((p, i) => Math.hypot(p[0] - curve[i][0], p[1] - curve[i][1]))
+    totalLength += lengths.reduce((a, b) => a + b, 0)
+
+    // Curvature at interior points
+    const kappa: number[] = []
+    for (let i = 1; i < curve.length - 1; i++) {
+      const a1 = Math.atan2(curve[i][1] - curve[i - 1][1], curve[i][0] - curve[i - 1][0])
+      const a2 = Math.atan2(curve[i + 1][1] - curve[i][1], curve[i + 1][0] - curve[i][0])
+      let turn = a2 - a1
+      if (turn > Math.PI) turn -= 2 * Math.PI
+      if (turn < -Math.PI) turn += 2 * Math.PI
+      kappa.push(turn / Math.max(1e-9, (lengths[i - 1] + lengths[i]) / 2))
+    }
+
+    // Rate of change between neighbouring interior points
+    rates.push(kappa.slice(1).map((k, i) => (k - kappa[i]) / Math.max(1e-9, lengths[i + 1])))
+  }
+
+  const meanLength = totalLength / meshData.numSlices
+  for (const slice of rates) {
+    for (const rate of slice) {
+      sum += (rate * meanLength * meanLength) ** 2
+      count++
+    }
+  }
+  return count > 0 ? Math.sqrt(sum / count) / CURVATURE_SCALE : 0
+}
+
+/**
+ * Evaluate the objective terms of a design.
+ *
+ * @param state - Candidate design
+ * @param depthBudget - Largest depth without penalty [mm]
+ * @returns Terms, or null when the design has no valid geometry
+ */
+export function evaluateObjectives(
+  state: WaveguideState,
+  depthBudget: number,
+): ObjectiveTerms | null {
+  const meshData = buildStateMesh(state, EVAL_RINGS, EVAL_SLICES)
+  const metrics = computeMeshMetrics(meshData)
+  if (!meshData || !metrics) return null
+
+  const excess = Math.max(0, metrics.depth - depthBudget) / DEPTH_SCALE
+  return {
+    pathSpread: analyzePathLengths(meshData).maxDifference / PATH_SPREAD_SCALE,
+    curvature: curvatureRoughness(meshData),
+    depth: excess * excess,
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Design Optimizer
+ * ================
+ *
+ * Minimizes the weighted objective terms (see objectives.ts) over a chosen
+ * set of free fields, with Nelder–Mead or CMA-ES.
+ *
+ * The search runs in normalized coordinates: every free field maps to
+ * [0, 1] across its PARAM_RANGES range. Points outside are clamped onto
+ * the range and penalized by their distance, so the search is steered back
+ * and every reported candidate stays inside the ranges. Candidates that
+ * fail validation (e.g. shapeStart ≥ shapeEnd) or have no geometry score
+ * INVALID_SCORE plus the same distance penalty.
+ */
+
+import { cmaEs } from '../math/cmaes'
+import { nelderMead } from '../math/optimize'
+import type { WaveguideState } from '../types/waveguide'
+import { validateWaveguideState } from '../validation/waveguideValidator'
+import { findField, getField, setField } from './fields'
+import { evaluateObjectives, type ObjectiveTerms } from './objectives'
+
+/** Search method */
+export type OptimizerMethod = 'nelder-mead' | 'cma-es'
+
+/**
+ * Optimizer settings.
+ */
+export interface OptimizerConfig {
+  /** Search method */
+  method: OptimizerMethod
+
+  /** Dotted paths of the fields to vary (see FREE_FIELDS) */
+  free: string[]
+
+  /** Weight of each objective term */
+  weights: ObjectiveTerms
+
+  /** Largest depth without penalty [mm] */
+  depthBudget: number
+
+  /** Largest number of candidate evaluations */
+  maxEvaluations: number
+}
+
+/**
+ * A scored design.
+ */
+export interface OptimizerCandidate {
+  /** Design (free fields changed, everything else as the start) */
+  state: WaveguideState
+
+  /** Weighted sum of the terms */
+  score: number
+
+  /** Unweighted objective terms */
+  terms: ObjectiveTerms
+
+  /** Evaluation at which the candidate was found */
+  evaluation: number
+}
+
+/**
+ * Progress of a running search.
+ */
+export interface OptimizerProgress {
+  /** Score of the start design */
+  startScore: number
+
+  /** Candidates evaluated so far */
+  evaluations: number
+
+  /** Best valid candidate so far */
+  best: OptimizerCandidate
+}
+
+/**
+ * Search result.
+ */
+export interface OptimizerResult extends OptimizerProgress {
+  /** Whether the search converged before the evaluation limit */
+  converged: boolean
+}
+
+/** Score of an invalid candidate, before the range penalty */
+export const INVALID_SCORE = 1000
+
+/** Penalty per squared normalized distance outside the ranges */
+const RANGE_PENALTY = 100
+
+/** Default settings */
+export const DEFAULT_OPTIMIZER_CONFIG: OptimizerConfig = {
+  method: 'nelder-mead',
+  free: ['horizontal.k', 'horizontal.b', 'vertical.k', 'vertical.b'],
+  weights: { pathSpread: 1, curvature: 1, depth: 10 },
+  depthBudget: 120,
+  maxEvaluations: 600,
+}
+
+/**
+ * Check optimizer settings.
+ *
+ * @param config - Optimizer settings
+ * @returns Human-readable issues (empty when the settings are usable)
+ */
+export function optimizerIssues(config: OptimizerConfig): string[] {
+  const issues: string[] = []
+  if (config.free.length === 0) issues.push('Select at least one free parameter')
+  for (const path of config.free) {
+    if (!findField(path)) issues.push(`${path} cannot be optimized`)
+  }
+  if (Object.values(config.weights).every((w) => !(w > 0))) {
+    issues.push('Give at least one objective a positive weight')
+  }
+  if (Object.values(config.weights).some((w) => !(w >= 0))) {
+    issues.push('Weights must not be negative')
+  }
+  if (!(config.depthBudget > 0)) issues.push('Depth budget must be positive')
+  if (!(config.maxEvaluations >= 10)) issues.push('Allow at least 10 evaluations')
+  return issues
+}
+
+/**
+ * Score a design.
+ *
+ * @param state - Candidate design
+ * @param config - Optimizer settings
+ * @returns Weighted score and terms, or null when the design is invalid
+ */
+export function scoreState(
+  state: WaveguideState,
+  config: OptimizerConfig,
+): { score: number; terms: ObjectiveTerms } | null {
+  if (!validateWaveguideState(state).valid) return null
+  const terms = evaluateObjectives(state, config.depthBudget)
+  if (!terms) return null
+  const score = (Object.keys(terms) as (keyof ObjectiveTerms)[]).reduce(
+    (sum, id) => sum + config.weights[id] * terms[id],
+    0,
+  )
+  return Number.isFinite(score) ? { score, terms } : null
+}
+
+/**
+ * Optimize a design.
+ *
+ * The start design is always a candidate, so the result is never worse.
+ *
+ * @param start - Start design
+ * @param config - Optimizer settings (check with optimizerIssues first)
+ * @param onProgress - Called after every evaluation
+ * @returns Best candidate, or null when the start design is invalid
+ */
+export function optimize(
+  start: WaveguideState,
+  config: OptimizerConfig,
+  onProgress?: (progress: OptimizerProgress) => void,
+): OptimizerResult | null {
+  const startScore = scoreState(start, config)
+  if (!startScore) return null
+
+  const fields = config.free.map((path) => findField(path)).filter((f) => f !== undefined)
+  const toState = (u: number[]) =>
+    fields.reduce(
+      (state, field, i) =>
+        setField(
+          state,
+          field.path,
+          field.min + Math.min(1, Math.max(0, u[i])) * (field.max - field.min),
+        ),
+      start,
+    )
+
+  let evaluations = 0
+  let best: OptimizerCandidate = { state: start, ...startScore, evaluation: 0 }
+
+  const objective = (u: number[]) => {
+    evaluations++
+    const outside = u.reduce((s, v) => s + Math.max(0, -v, v - 1) ** 2, 0)
+    const state = toState(u)
+    const result = scoreState(state, config)
+    if (result && result.score < best.score) {
+      best = { state, ...result, evaluation: evaluations }
+    }
+    onProgress?.({ startScore: startScore.score, evaluations, best })
+    return (result?.score ?? INVALID_SCORE) + RANGE_PENALTY * outside
+  }
+
+  const u0 = fields.map((field) =>
+    Math.min(1, Math.max(0, (getField(start, field.path) - field.min) / (field.max - field.min))),
+  )
+  const { converged } =
+    config.method === 'cma-es'
+      ? cmaEs(objective, u0, {
+          sigma: 0.15,
+          maxEvaluations: config.maxEvaluations,
+          tolerance: 1e-6,
+          stepTolerance: 1e-4,
+        })
+      : nelderMead(
+          objective,
+          u0,
+          u0.map((u) => (u > 0.9 ? -0.1 : 0.1)),
+          { maxEvaluations: config.maxEvaluations, tolerance: 1e-6, stepTolerance: 1e-4 },
+        )
+
+  return { startScore: startScore.score, evaluations, best, converged }
+}
@@ -0,0 +1,255 @@
+/**
+ * Parameter Sweep
+ * ===============
+ *
+ * Evaluates a design over a grid of one or two free fields (see
+ * fields.ts), everything else held at the base design, and collects the
+ * key metrics of every grid point for sensitivity maps. Each point also
+ * keeps a coarse preview mesh for small-multiple thumbnails.
+ */
+
+import { diffStates } from '../history/diff'
+import { areaProfile, areaRoughness } from '../math/area'
+import { designMetrics } from '../math/comparison'
+import { buildStateMesh } from '../math/mesh'
+import type { MeshData, WaveguideState } from '../types/waveguide'
+import { validateWaveguideState } from '../validation/waveguideValidator'
+import { findField, getField, setField } from './fields'
+import { EVAL_RINGS, EVAL_SLICES } from './objectives'
+
+/**
+ * One swept field.
+ */
+export interface SweepAxis {
+  /** Dotted path of the field (see FREE_FIELDS) */
+  path: string
+
+  /** First value */
+  min: number
+
+  /** Last value */
+  max: number
+
+  /** Number of values, min and max included */
+  steps: number
+}
+
+/**
+ * Sweep settings.
+ */
+export interface SweepConfig {
+  /** Field along the columns */
+  x: SweepAxis
+
+  /** Field along the rows, or null for a one-parameter sweep */
+  y: SweepAxis | null
+}
+
+/**
+ * Metrics of one grid point.
+ */
+export interface SweepMetrics {
+  /** Axial depth from throat to the foremost point of the lip [mm] */
+  depth: number
+
+  /** Mouth width (horizontal) [mm] */
+  mouthWidth: number
+
+  /** Mouth height (vertical) [mm] */
+  mouthHeight: number
+
+  /** Area-expansion roughness (see areaRoughness, lower is smoother) */
+  areaRoughness: number
+
+  /** Spread of the wall path lengths, longest minus shortest [mm] */
+  pathSpread: number
+}
+
+/**
+ * One evaluated grid point.
+ */
+export interface SweepCell {
+  /** Value of the x field */
+  x: number
+
+  /** Value of the y field (null for a one-parameter sweep) */
+  y: number | null
+
+  /** Metrics, or null when the design is invalid or has no geometry */
+  metrics: SweepMetrics | null
+
+  /** Coarse mesh for thumbnails, or null */
+  preview: MeshData | null
+}
+
+/**
+ * Evaluated sweep.
+ */
+export interface SweepResult {
+  config: SweepConfig
+
+  /** Design the sweep varies */
+  base: WaveguideState
+
+  /** Grid points, row by row (y outer, x inner) */
+  cells: SweepCell[]
+}
+
+/** Metric labels and units in display order */
+export const SWEEP_METRICS: { key: keyof SweepMetrics; label: string; unit: string }[] = [
+  { key: 'depth', label: 'Depth', unit: 'mm' },
+  { key: 'mouthWidth', label: 'Mouth W', unit: 'mm' },
+  { key: 'mouthHeight', label: 'Mouth H', unit: 'mm' },
+  { key: 'areaRoughness', label: 'Area roughness', unit: '' },
+  { key: 'pathSpread', label: 'Path Δ max', unit: 'mm' },
+]
+
+/** Largest number of values per axis */
+export const MAX_SWEEP_STEPS = 25
+
+/** Preview mesh resolution (rings, slices) */
+const PREVIEW_RINGS = 12
+const PREVIEW_SLICES = 24
+
+/**
+ * Values of an axis, evenly spaced from min to max.
+ */
+export function axisValues(axis: SweepAxis): number[] {
+  if (axis.steps < 2) return [axis.min]
+  return Array.from(
+    { length: axis.steps },
+    (_, i) => axis.min + ((axis.max - axis.min) * i) / (axis.steps - 1),
+  )
+}
+
+/**
+ * Default axis for a field: its full range in 9 steps.
+ *
+ * @param path - Dotted path of a free field
+ * @returns Axis, or null for unknown fields
+ */
+export function defaultAxis(path: string): SweepAxis | null {
+  const field = findField(path)
+  return field ? { path, min: field.min, max: field.max, steps: 9 } : null
+}
+
+/**
+ * Check sweep settings.
+ *
+ * @param config - Sweep settings
+ * @returns Human-readable issues (empty when the settings are usable)
+ */
+export function sweepIssues(config: SweepConfig): string[] {
+  const issues: string[] = []
+  for (const axis of config.y ? [config.x, config.y] : [config.x]) {
+    const field = findField(axis.path)
+    if (!field) {
+      issues.push(`${axis.path} cannot be swept`)
+      continue
+    }
+    if (!Number.isInteger(axis.steps) || axis.steps < 2 || axis.steps > MAX_SWEEP_STEPS) {
+      issues.push(`${field.label}: steps must be a whole number from 2 to ${MAX_SWEEP_STEPS}`)
+    }
+    if (!(axis.min < axis.max)) issues.push(`${field.label}: from must be less than to`)
+    if (axis.min < field.min || axis.max > field.max) {
+      issues.push(`${field.label}: range must be within ${field.min}–${field.max}`)
+    }
+  }
+  if (config.y && config.y.path === config.x.path) issues.push('Sweep two different parameters')
+  return issues
+}
+
+/**
+ * Design at a grid point.
+ *
+ * @param base - Design the sweep varies
+ * @param config - Sweep settings
+ * @param x - Value of the x field
+ * @param y - Value of the y field (ignored for a one-parameter sweep)
+ */
+export function sweepState(
+  base: WaveguideState,
+  config: SweepConfig,
+  x: number,
+  y: number | null,
+): WaveguideState {
+  const state = setField(base, config.x.path, x)
+  return config.y && y !== null ? setField(state, config.y.path, y) : state
+}
+
+/**
+ * Grid point a design corresponds to: the design must differ from the
+ * sweep's base design in the swept fields only.
+ *
+ * @param result - Evaluated sweep
+ * @param state - Design to locate
+ * @returns Cell index, or -1
+ */
+export function findSweepCell(result: SweepResult, state: WaveguideState): number {
+  const { config, base, cells } = result
+  const swept = config.y ? [config.x.path, config.y.path] : [config.x.path]
+  if (diffStates(base, state).some((change) => !swept.includes(change.path))) return -1
+
+  const x = getField(state, config.x.path)
+  const y = config.y ? getField(state, config.y.path) : null
+  const near = (a: number, b: number, axis: SweepAxis) =>
+    Math.abs(a - b) <= 1e-9 * Math.max(1, axis.max - axis.min)
+  return cells.findIndex(
+    (cell) =>
+      near(cell.x, x, config.x) &&
+      (config.y === null || (cell.y !== null && y !== null && near(cell.y, y, config.y))),
+  )
+}
+
+/**
+ * Evaluate the metrics of one design.
+ *
+ * @returns Metrics, or null when the design has no valid geometry
+ */
+export function sweepMetrics(state: WaveguideState): SweepMetrics | null {
+  const meshData = buildStateMesh(state, EVAL_RINGS, EVAL_SLICES)
+  const metrics = designMetrics(meshData)
+  if (!meshData || !metrics) return null
+  return {
+    depth: metrics.depth,
+    mouthWidth: metrics.mouthWidth,
+    mouthHeight: metrics.mouthHeight,
+    areaRoughness: areaRoughness(areaProfile(meshData)),
+    pathSpread: metrics.pathSpread,
+  }
+}
+
+/**
+ * Evaluate a sweep.
+ *
+ * @param base - Design to vary
+ * @param config - Sweep settings (check with sweepIssues first)
+ * @param onProgress - Called after every grid point with (done, total)
+ * @returns Evaluated grid
+ */
+export function runSweep(
+  base: WaveguideState,
+  config: SweepConfig,
+  onProgress?: (done: number, total: number) => void,
+): SweepResult {
+  const xs = axisValues(config.x)
+  const ys = config.y ? axisValues(config.y) : [null]
+  const total = xs.length * ys.length
+
+  const cells: SweepCell[] = []
+  for (const y of ys) {
+    for (const x of xs) {
+      const state = sweepState(base, config, x, y)
+      const metrics = validateWaveguideState(state).valid ? sweepMetrics(state) : null
+      cells.push({
+        x,
+        y,
+        metrics,
+        preview: metrics ? buildStateMesh(state, PREVIEW_RINGS, PREVIEW_SLICES) : null,
+      })
+      onProgress?.(cells.length, total)
+    }
+  }
+
+  return { config, base, cells }
+}
@@ -0,0 +1,316 @@
+/**
+ * Design Library (IndexedDB)
+ * ==========================
+ *
+ * Persistent browser storage for named designs and the autosaved working
+ * state. Designs are stored as project YAML (exportToYAML/importFromYAML),
+ * so a stored design loads through the same validation as an imported file.
+ *
+ * Records live in one object store keyed by id; the autosave is the record
+ * with id AUTOSAVE_ID and never appears in the design list.
+ */
+
+import { exportToYAML, formatValidationErrors, importFromYAML } from '../export/yaml'
+import type { WaveguideState } from '../types/waveguide'
+
+/**
+ * Stored design.
+ */
+export interface DesignRecord {
+  /** Unique id */
+  id: string
+
+  /** Display name */
+  name: string
+
+  /** Project YAML */
+  yaml: string
+
+  /** 3D view thumbnail (image data URL, empty when unavailable) */
+  thumbnail: string
+
+  /** Free-form tags */
+  tags: string[]
+
+  /** Creation time [ms since epoch] */
+  created: number
+
+  /** Last save time [ms since epoch] */
+  modified: number
+
+  /** Last time the design was opened (0 = never) [ms since epoch] */
+  opened: number
+}
+
+/** Fields given when saving a design */
+export type DesignInput = Pick<DesignRecord, 'name' | 'tags' | 'thumbnail'>
+
+const DB_NAME = 'horn-designer'
+const DB_VERSION = 1
+const STORE = 'designs'
+
+/** Id of the autosaved working state */
+export const AUTOSAVE_ID = 'autosave'
+
+/** Designs in the "recently opened" list */
+export const RECENT_COUNT = 5
+
+let database: Promise<IDBDatabase> | null = null
+
+/**
+ * Promise for the result of an IndexedDB read request.
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'))
+  })
+}
+
+/**
+ * Open (and on first use create) the library database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'))
+        return
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: 'id' })
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error ?? new Error('Could not open the design library'))
+    })
+    // Allow a retry after a failure
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+/**
+ * Object store of a new read-only transaction.
+ */
+async function readStore(): Promise<IDBObjectStore> {
+  const db = await openDatabase()
+  return db.transaction(STORE, 'readonly').objectStore(STORE)
+}
+
+/**
+ * Run a write in a new transaction.
+ *
+ * Resolves once the transaction has committed (a request's success only
+ * means it was queued), and rejects when it fails or is aborted.
+ */
+async function write(operation: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(STORE, 'readwrite')
+  operation(tx.objectStore(STORE))
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB write failed'))
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB write aborted'))
+  })
+}
+
+async function getRecord(id: string): Promise<DesignRecord> {
+  const record = await request<DesignRecord | undefined>((await readStore()).get(id))
+  if (!record) throw new Error('Design not found in the library')
+  return record
+}
+
+async function putRecord(record: DesignRecord): Promise<DesignRecord> {
+  await write((store) => store.put(record))
+  return record
+}
+
+/**
+ * Parse the YAML of a stored design.
+ */
+function parseRecord(record: DesignRecord): WaveguideState {
+  const result = importFromYAML(record.yaml)
+  if (!result.success || !result.state) {
+    throw new Error(
+      result.validation
+        ? formatValidationErrors(result.validation)
+        : (result.error ?? 'Invalid design'),
+    )
+  }
+  return result.state
+}
+
+/**
+ * All named designs, most recently saved first.
+ */
+export async function listDesigns(): Promise<DesignRecord[]> {
+  const records = await request<DesignRecord[]>((await readStore()).getAll())
+  return records.filter((r) => r.id !== AUTOSAVE_ID).sort((a, b) => b.modified - a.modified)
+}
+
+/**
+ * Save the state as a new design.
+ *
+ * @param state - Design to store
+ * @param input - Name, tags and thumbnail
+ * @returns Stored record
+ */
+export function createDesign(state: WaveguideState, input: DesignInput): Promise<DesignRecord> {
+  const now = Date.now()
+  return putRecord({
+    id: crypto.randomUUID(),
+    ...input,
+    yaml: exportToYAML(state),
+    created: now,
+    modified: now,
+    opened: now,
+  })
+}
+
+/**
+ * Overwrite a stored design with the state.
+ *
+ * @param id - Design id
+ * @param state - Design to store
+ * @param thumbnail - New thumbnail
+ * @returns Updated record
+ */
+export async function updateDesign(
+  id: string,
+  state: WaveguideState,
+  thumbnail: string,
+): Promise<DesignRecord> {
+  const record = await getRecord(id)
+  return putRecord({ ...record, yaml: exportToYAML(state), thumbnail, modified: Date.now() })
+}
+
+/**
+ * Load a stored design and mark it as opened.
+ *
+ * @param id - Design id
+ * @returns Record and validated state
+ */
+export async function openDesign(
+  id: string,
+): Promise<{ record: DesignRecord; state: WaveguideState }> {
+  const record = await getRecord(id)
+  const state = parseRecord(record)
+  return { record: await putRecord({ ...record, opened: Date.now() }), state }
+}
+
+/**
+ * Load a stored design without marking it as opened (e.g. for comparison).
+ *
+ * @param id - Design id
+ * @returns Validated state
+ */
+export async function readDesign(id: string): Promise<WaveguideState> {
+  return parseRecord(await getRecord(id))
+}
+
+/**
+ * Rename a stored design.
+ */
+export async function renameDesign(id: string, name: string): Promise<DesignRecord> {
+  return putRecord({ ...(await getRecord(id)), name, modified: Date.now() })
+}
+
+/**
+ * Replace the tags of a stored design.
+ */
+export async function tagDesign(id: string, tags: string[]): Promise<DesignRecord> {
+  return putRecord({ ...(await getRecord(id)), tags, modified: Date.now() })
+}
+
+/**
+ * Copy a stored design under a new id ("<name> copy").
+ */
+export async function duplicateDesign(id: string): Promise<DesignRecord> {
+  const record = await getRecord(id)
+  const now = Date.now()
+  return putRecord({
+    ...record,
+    id: crypto.randomUUID(),
+    name: `${record.name} copy`,
+    created: now,
+    modified: now,
+    opened: 0,
+  })
+}
+
+/**
+ * Delete a stored design.
+ */
+export async function deleteDesign(id: string): Promise<void> {
+  await write((store) => store.delete(id))
+}
+
+/**
+ * Store the working state as the autosave.
+ */
+export async function saveAutosave(state: WaveguideState): Promise<void> {
+  const now = Date.now()
+  await putRecord({
+    id: AUTOSAVE_ID,
+    name: 'Autosave',
+    yaml: exportToYAML(state),
+    thumbnail: '',
+    tags: [],
+    created: now,
+    modified: now,
+    opened: 0,
+  })
+}
+
+/**
+ * The autosaved working state, if any.
+ */
+export async function loadAutosave(): Promise<WaveguideState | null> {
+  const record = await request<DesignRecord | undefined>((await readStore()).get(AUTOSAVE_ID))
+  return record ? parseRecord(record) : null
+}
+
+/**
+ * Split a comma-separated tag list (trimmed, lower case, unique).
+ */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag) => tag.length > 0)
+  return [...new Set(tags)]
+}
+
+/**
+ * Designs whose name or tags contain every search term (case-insensitive).
+ *
+ * @param designs - Designs to search
+ * @param query - Whitespace-separated terms
+ * @returns Matching designs, in the given order
+ */
+export function searchDesigns(designs: DesignRecord[], query: string): DesignRecord[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  return designs.filter((design) => {
+    const text = [design.name, ...design.tags].join(' ').toLowerCase()
+    return terms.every((term) => text.includes(term))
+  })
+}
+
+/**
+ * Most recently opened designs.
+ *
+ * @param designs - Designs to pick from
+ * @param count - Length of the list (default: RECENT_COUNT)
+ */
+export function recentDesigns(
+  designs: DesignRecord[],
+  count: number = RECENT_COUNT,
+): DesignRecord[] {
+  return designs
+    .filter((design) => design.opened > 0)
+    .sort((a, b) => b.opened - a.opened)
+    .slice(0, count)
+}
@@ -125,6 +125,16 @@ export interface CardinalModParams {
   exp: number
 }
 
+/**
+ * Distribution of mesh rings along the horn axis.
+ *
+ * - uniform-t: equal steps in the R-OSSE parameter t
+ * - uniform-depth: equal steps in axial depth
+ * - arc-length: equal steps in wall arc length
+ * - curvature: denser where the wall turns (throat and mouth roll-back)
+ */
+export type RingDistribution = 'uniform-t' | 'uniform-depth' | 'arc-length' | 'curvature'
+
 /**
  * Mesh resolution parameters for 3D geometry generation.
  *
@@ -137,13 +147,143 @@ export interface MeshResolution {
 
   /** Number of slices (angular divisions) [36..256] */
   slices: number
+
+  /** Axial ring spacing */
+  distribution: RingDistribution
+
+  /** Use curvature-adaptive tessellation for export */
+  adaptive: boolean
+
+  /** Maximum chordal deviation for adaptive tessellation [0.02..2] mm */
+  tolerance: number
+
+  /** Maximum deviation of the STEP B-spline fit [0.005..1] mm */
+  stepTolerance: number
+
+  /** Highest frequency the simulation mesh must resolve [1000..40000] Hz */
+  maxFrequency: number
+
+  /** Simulation mesh elements per wavelength at the maximum frequency [3..12] */
+  elementsPerWavelength: number
+}
+
+/**
+ * Bolt pattern preset for the throat driver mount.
+ *
+ * - 1in-2bolt / 1in-4bolt: 1" drivers on a 76 mm circle
+ * - 1in-3bolt: 1" screw-on pattern on a 57 mm circle
+ * - 1.4in-4bolt: 1.4" drivers on a 101.6 mm circle
+ * - 2in-4bolt: 2" drivers on a 127 mm circle
+ * - custom: user-defined pattern (ThroatMountParams.custom)
+ */
+export type BoltPatternId =
+  | '1in-2bolt'
+  | '1in-3bolt'
+  | '1in-4bolt'
+  | '1.4in-4bolt'
+  | '2in-4bolt'
+  | 'custom'
+
+/**
+ * Bolt-circle hole pattern.
+ */
+export interface BoltPattern {
+  /** Number of holes [1..12] */
+  count: number
+
+  /** Bolt circle diameter in mm [20..250] */
+  circleDiameter: number
+
+  /** Through-hole diameter in mm [2..14] */
+  holeDiameter: number
+
+  /** Angle of the first hole from the +X axis in degrees [0..180] */
+  rotation: number
+}
+
+/**
+ * Outer shape of the throat mounting flange.
+ */
+export type MountShape = 'circle' | 'square'
+
+/**
+ * Throat driver mounting flange parameters.
+ *
+ * A flat plate behind the throat plane (z = -thickness..0) with through-holes
+ * on a bolt circle. Only generated together with the shell.
+ */
+export interface ThroatMountParams {
+  /** Enable/disable the driver mounting flange */
+  enabled: boolean
+
+  /** Plate thickness in mm [2..20] */
+  thickness: number
+
+  /** Outer shape */
+  shape: MountShape
+
+  /** Outer diameter (circle) or side length (square) in mm [40..300] */
+  size: number
+
+  /** Corner radius for the square shape in mm [0..50] */
+  cornerRadius: number
+
+  /** Bolt pattern preset */
+  pattern: BoltPatternId
+
+  /** Hole pattern used when pattern is 'custom' */
+  custom: BoltPattern
+}
+
+/**
+ * Mouth mounting plate parameters.
+ *
+ * A flat rectangular plate around the mouth for front-mounting the waveguide
+ * in a cabinet baffle. The front face lies in the mouth plane; screws go
+ * through counterbored holes near the plate edge. Only generated together
+ * with the shell (and without the mouth flange).
+ */
+export interface MouthPlateParams {
+  /** Enable/disable the mouth mounting plate */
+  enabled: boolean
+
+  /** Plate thickness in mm [2..20] */
+  thickness: number
+
+  /** Plate extent beyond the mouth outline on each side in mm [5..100] */
+  margin: number
+
+  /** Plate corner radius in mm [0..50] */
+  cornerRadius: number
+
+  /** Screw holes along the top and bottom edges, corners included [2..8] */
+  screwsX: number
+
+  /** Screw holes along the left and right edges, corners included [2..8] */
+  screwsY: number
+
+  /** Distance from the plate edge to the screw hole centers in mm [4..50] */
+  screwInset: number
+
+  /** Screw through-hole diameter in mm [2..10] */
+  screwDiameter: number
+
+  /** Counterbore diameter in mm [0..20] (0 = no counterbore) */
+  counterboreDiameter: number
+
+  /** Counterbore depth from the front face in mm [0..10] */
+  counterboreDepth: number
+
+  /** Clearance around the waveguide body in the baffle cutout in mm [0..10] */
+  cutoutClearance: number
 }
 
 /**
  * Shell thickness parameters for CAD export.
  *
- * Controls wall thickness and caps for manufacturing-ready models.
- * When disabled, exports surface-only mesh.
+ * Controls wall thickness for manufacturing-ready models. When disabled,
+ * exports the surface only, optionally closed by flat caps; the shell is
+ * always closed (by edge strips, the driver mount or the mouth plate).
  */
 export interface ShellParams {
   /** Enable/disable shell thickness */
@@ -152,13 +292,51 @@ export interface ShellParams {
   /** Wall thickness in mm [0.5..20] */
   thickness: number
 
-  /** Close throat end with cap face */
+  /** Close the throat of the surface-only export with a flat disc */
   throatCap: boolean
 
-  /** Close mouth end with cap face */
+  /** Close the surface-only export with a flat disc at the mouth aperture (drops the lip and flange) */
   mouthCap: boolean
+
+  /** Number of print sections along the axis (3MF export) [1..6] */
+  sections: number
+
+  /** Driver mounting flange at the throat */
+  throatMount: ThroatMountParams
+
+  /** Baffle mounting plate at the mouth */
+  mouthPlate: MouthPlateParams
+}
+
+/**
+ * Mouth flange parameters.
+ *
+ * Extends the mesh past the mouth (t=1) with a rounded roll-back arc that
+ * blends the wall into a flat baffle plane, ending at an outer rectangle.
+ */
+export interface MouthFlangeParams {
+  /** Enable/disable the mouth flange */
+  enabled: boolean
+
+  /** Roll-back radius of curvature in mm [2..60] */
+  radius: number
+
+  /** Outer baffle width in mm [60..800] */
+  width: number
+
+  /** Outer baffle height in mm [60..800] */
+  height: number
 }
 
+/**
+ * Axial positioning mode for the mesh rings.
+ *
+ * - common: every ring lies in a plane at the H guide's depth (flat mouth plane)
+ * - true: each angular direction blends the H and V guides' own axial
+ *   coordinates, so the V-plane wall follows the designed V profile
+ */
+export type DepthMode = 'common' | 'true'
+
 /**
  * Complete waveguide state containing all design parameters.
  */
@@ -187,8 +365,25 @@ export interface WaveguideState {
   /** Shell thickness for CAD export */
   shellParams: ShellParams
 
+  /** Mouth roll-back and baffle flange */
+  mouthFlange: MouthFlangeParams
+
+  /** Axial positioning of the rings (common depth or true profile) */
+  depthMode: DepthMode
+
   /** Current visualization mode */
-  visualizationMode: 'guides' | 'cross' | 'xmod' | '3d' | 'blend'
+  visualizationMode:
+    | 'guides'
+    | 'area'
+    | 'impedance'
+    | 'directivity'
+    | 'bem'
+    | 'paths'
+    | 'sweep'
+    | 'cross'
+    | 'xmod'
+    | '3d'
+    | 'blend'
 }
 
 /**
@@ -257,6 +452,9 @@ export interface MeshRing {
   /** Axial position (horizontal guide) */
   xH: number
 
+  /** Axial position (vertical guide) */
+  xV: number
+
   /** Half-width (horizontal guide radius) */
   yH: number
 
@@ -276,6 +474,18 @@ export interface MeshData {
 
   /** Number of slices (angular divisions) per ring */
   numSlices: number
+
+  /** Slice angles [rad], numSlices + 1 values (omitted when uniformly spaced) */
+  thetas?: number[]
+
+  /** Mouth flange rings beyond the mouth, numSlices + 1 points each (when enabled) */
+  flangeRings?: [number, number, number][][]
+
+  /** Largest chordal deviation of an adaptive mesh [mm] (adaptive meshes only) */
+  maxDeviation?: number
+
+  /** Whether an adaptive mesh met its tolerance before the ring/slice limits */
+  toleranceMet?: boolean
 }
 
 /**
@@ -285,6 +495,9 @@ export interface WaveguideMetadata {
   /** App version string */
   version: string
 
+  /** State schema version (absent in files from the first release) */
+  schemaVersion?: number
+
   /** ISO 8601 timestamp */
   created: string
 
@@ -365,12 +578,53 @@ export const DEFAULT_PARAMS: WaveguideState = {
   meshResolution: {
     rings: 50,
     slices: 72,
+    distribution: 'uniform-t',
+    adaptive: false,
+    tolerance: 0.1,
+    stepTolerance: 0.05,
+    maxFrequency: 20000,
+    elementsPerWavelength: 6,
   },
   shellParams: {
     enabled: false,
     thickness: 3.0,
     throatCap: false,
-    mouthCap: true,
+    mouthCap: false,
+    sections: 1,
+    throatMount: {
+      enabled: false,
+      thickness: 6,
+      shape: 'circle',
+      size: 110,
+      cornerRadius: 8,
+      pattern: '1in-4bolt',
+      custom: {
+        count: 4,
+        circleDiameter: 76,
+        holeDiameter: 6.5,
+        rotation: 45,
+      },
+    },
+    mouthPlate: {
+      enabled: false,
+      thickness: 8,
+      margin: 20,
+      cornerRadius: 10,
+      screwsX: 3,
+      screwsY: 2,
+      screwInset: 10,
+      screwDiameter: 4.5,
+      counterboreDiameter: 9,
+      counterboreDepth: 3,
+      cutoutClearance: 1,
+    },
+  },
+  mouthFlange: {
+    enabled: false,
+    radius: 15,
+    width: 360,
+    height: 260,
   },
+  depthMode: 'common',
   visualizationMode: '3d',
 }
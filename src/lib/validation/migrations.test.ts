@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PARAMS } from '../types/waveguide'
+import { MIGRATIONS, migrateState, SCHEMA_VERSION, upgradeState } from './migrations'
+
+/** A design as saved by the first release (without the version 2 fields) */
+function versionOneState(): Record<string, unknown> {
+  const { mouthFlange, depthMode, ...state } = structuredClone(DEFAULT_PARAMS)
+  const {
+    distribution,
+    adaptive,
+    tolerance,
+    stepTolerance,
+    maxFrequency,
+    elementsPerWavelength,
+    ...meshResolution
+  } = state.meshResolution
+  const { sections, throatMount, mouthPlate, ...shellParams } = state.shellParams
+  return { ...state, meshResolution, shellParams }
+}
+
+describe('upgradeState', () => {
+  it('has one migration per version step', () => {
+    expect(MIGRATIONS.map((migration) => migration.from)).toEqual(
+      Array.from({ length: SCHEMA_VERSION - 1 }, (_, i) => i + 1),
+    )
+  })
+
+  it('upgrades a version 1 design with a warning per filled field', () => {
+    const saved = versionOneState()
+    const result = upgradeState(saved, 1)
+
+    expect(result.validation.valid).toBe(true)
+    expect(result.validation.warnings).toHaveLength(11)
+    expect(result.state?.mouthFlange.enabled).toBe(false)
+    expect(result.state?.meshResolution.distribution).toBe('uniform-t')
+    expect(result.state?.shellParams.throatMount.enabled).toBe(false)
+    expect(result.validation.warnings).toContain("depthMode missing, using 'common'")
+    expect(result.validation.warnings).toContain(
+      'shellParams.throatMount missing, using defaults (disabled)',
+    )
+
+    // The saved object is left untouched
+    expect(saved.mouthFlange).toBeUndefined()
+  })
+
+  it('drops fields that are not part of the schema', () => {
+    const { state, warnings } = migrateState(
+      { ...structuredClone(DEFAULT_PARAMS), legacy: 1 },
+      SCHEMA_VERSION,
+    )
+    expect(state).not.toHaveProperty('legacy')
+    expect(warnings).toEqual(['legacy is not a known field, dropped'])
+  })
+
+  it('refuses designs from a newer schema', () => {
+    const result = upgradeState(structuredClone(DEFAULT_PARAMS), SCHEMA_VERSION + 1)
+    expect(result.state).toBeNull()
+    expect(result.validation.errors[0].path).toBe('schemaVersion')
+  })
+})
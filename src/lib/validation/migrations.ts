@@ -0,0 +1,225 @@
+/**
+ * Schema Versions and Migrations
+ * ==============================
+ * Saved designs (project YAML, share links, library entries) record the
+ * schema version of the state they hold. Older states are upgraded one
+ * version at a time through MIGRATIONS before validation, so a design saved
+ * by any earlier release loads as today's WaveguideState.
+ *
+ * Version 1 is the first release; saved designs without a schema version
+ * are version 1. Every field a migration fills in or drops is reported as a
+ * warning in the ValidationResult.
+ *
+ * To change the shape of WaveguideState, bump SCHEMA_VERSION and append a
+ * migration from the previous version. Migrations use the values the new
+ * fields had when they were introduced (not DEFAULT_PARAMS, which may
+ * change later), chosen to reproduce the old behaviour.
+ */
+
+import { DEFAULT_PARAMS, type WaveguideState } from '../types/waveguide'
+import type { ValidationResult } from './waveguideValidator'
+import { validateWaveguideState } from './waveguideValidator'
+
+/** Schema version of the current WaveguideState */
+export const SCHEMA_VERSION = 2
+
+type StateObject = Record<string, unknown>
+
+/**
+ * Upgrade from one schema version to the next.
+ */
+export interface Migration {
+  /** Version the migration upgrades from (to `from + 1`) */
+  from: number
+
+  /** What changed in the next version */
+  description: string
+
+  /** Upgrade a state in place, adding a warning per defaulted or dropped field */
+  migrate: (state: StateObject, warnings: string[]) => void
+}
+
+/**
+ * Result of upgrading and validating a saved state.
+ */
+export interface UpgradeResult {
+  /** Current-schema state (only if validation passed) */
+  state: WaveguideState | null
+
+  /** Validation result, with the migration warnings first */
+  validation: ValidationResult
+}
+
+function isObject(value: unknown): value is StateObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Warning text for a defaulted value.
+ */
+function describeDefault(value: unknown): string {
+  if (isObject(value)) return value.enabled === false ? 'defaults (disabled)' : 'defaults'
+  return typeof value === 'string' ? `'${value}'` : String(value)
+}
+
+/**
+ * Set a missing field to its default, with a warning.
+ * Does nothing when the parent is not an object (the validator reports it).
+ */
+function fillDefault(
+  parent: unknown,
+  path: string,
+  key: string,
+  value: unknown,
+  warnings: string[],
+): void {
+  if (!isObject(parent) || parent[key] !== undefined) return
+  parent[key] = structuredClone(value)
+  warnings.push(`${path ? `${path}.` : ''}${key} missing, using ${describeDefault(value)}`)
+}
+
+/**
+ * Remove fields that are not part of the current schema, with a warning.
+ */
+function dropUnknown(data: StateObject, schema: StateObject, path: string, warnings: string[]) {
+  for (const key of Object.keys(data)) {
+    const fieldPath = path ? `${path}.${key}` : key
+    if (!(key in schema)) {
+      delete data[key]
+      warnings.push(`${fieldPath} is not a known field, dropped`)
+    } else if (isObject(data[key]) && isObject(schema[key])) {
+      dropUnknown(data[key] as StateObject, schema[key] as StateObject, fieldPath, warnings)
+    }
+  }
+}
+
+/**
+ * Fields added in version 2, with the values that reproduce version 1 designs.
+ */
+const V2_MESH_RESOLUTION = {
+  distribution: 'uniform-t',
+  adaptive: false,
+  tolerance: 0.1,
+  stepTolerance: 0.05,
+  maxFrequency: 20000,
+  elementsPerWavelength: 6,
+}
+
+const V2_SHELL_PARAMS = {
+  sections: 1,
+  throatMount: {
+    enabled: false,
+    thickness: 6,
+    shape: 'circle',
+    size: 110,
+    cornerRadius: 8,
+    pattern: '1in-4bolt',
+    custom: { count: 4, circleDiameter: 76, holeDiameter: 6.5, rotation: 45 },
+  },
+  mouthPlate: {
+    enabled: false,
+    thickness: 8,
+    margin: 20,
+    cornerRadius: 10,
+    screwsX: 3,
+    screwsY: 2,
+    screwInset: 10,
+    screwDiameter: 4.5,
+    counterboreDiameter: 9,
+    counterboreDepth: 3,
+    cutoutClearance: 1,
+  },
+}
+
+const V2_STATE = {
+  mouthFlange: { enabled: false, radius: 15, width: 360, height: 260 },
+  depthMode: 'common',
+}
+
+/**
+ * Migration chain; MIGRATIONS[i] upgrades version i + 1.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description:
+      'Mesh distribution and export settings, print sections, throat mount, mouth plate, mouth flange and depth mode',
+    migrate: (state, warnings) => {
+      for (const [key, value] of Object.entries(V2_MESH_RESOLUTION)) {
+        fillDefault(state.meshResolution, 'meshResolution', key, value, warnings)
+      }
+      for (const [key, value] of Object.entries(V2_SHELL_PARAMS)) {
+        fillDefault(state.shellParams, 'shellParams', key, value, warnings)
+      }
+      for (const [key, value] of Object.entries(V2_STATE)) {
+        fillDefault(state, '', key, value, warnings)
+      }
+    },
+  },
+]
+
+/**
+ * Upgrade a saved state to the current schema.
+ * The input is not modified. Non-object data is returned unchanged for the
+ * validator to report.
+ *
+ * @param data - Saved state
+ * @param version - Schema version it was saved with
+ * @returns Upgraded state and a warning per defaulted or dropped field
+ */
+export function migrateState(
+  data: unknown,
+  version: number,
+): { state: unknown; warnings: string[] } {
+  const warnings: string[] = []
+  if (!isObject(data)) return { state: data, warnings }
+
+  const state = structuredClone(data)
+  for (const migration of MIGRATIONS.slice(version - 1)) {
+    migration.migrate(state, warnings)
+  }
+  dropUnknown(state, DEFAULT_PARAMS as unknown as StateObject, '', warnings)
+
+  return { state, warnings }
+}
+
+/**
+ * Upgrade a saved state to the current schema and validate it.
+ *
+ * @param data - Saved state
+ * @param version - Schema version it was saved with (default: 1, for saves without one)
+ * @returns Validated state (or null) and the validation result
+ */
+export function upgradeState(data: unknown, version: unknown = 1): UpgradeResult {
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > SCHEMA_VERSION
+  ) {
+    const newer = typeof version === 'number' && version > SCHEMA_VERSION
+    return {
+      state: null,
+      validation: {
+        valid: false,
+        errors: [
+          {
+            path: 'schemaVersion',
+            message: newer
+              ? 'Saved by a newer version of the app; update to open it'
+              : 'Unknown schema version',
+            value: version,
+            expected: `integer 1-${SCHEMA_VERSION}`,
+          },
+        ],
+        warnings: [],
+      },
+    }
+  }
+
+  const { state, warnings } = migrateState(data, version)
+  const validation = validateWaveguideState(state)
+  validation.warnings.unshift(...warnings)
+
+  return { state: validation.valid ? (state as WaveguideState) : null, validation }
+}
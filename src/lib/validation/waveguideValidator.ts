@@ -3,6 +3,9 @@
  * ==========================================
  * Provides comprehensive validation for imported YAML/JSON data
  * to ensure type safety and parameter bounds.
+ *
+ * Validates the current schema only; older saved states are upgraded
+ * first (see migrations.ts).
  */
 
 import { PARAM_RANGES } from '../config/parameterConfig'
@@ -290,6 +293,169 @@ function validateMeshResolution(data: unknown, errors: ValidationError[]): boole
       errors,
     ) && valid
 
+  const validDistributions = ['uniform-t', 'uniform-depth', 'arc-length', 'curvature']
+  if (typeof obj.distribution !== 'string' || !validDistributions.includes(obj.distribution)) {
+    errors.push({
+      path: 'meshResolution.distribution',
+      message: `Must be one of: ${validDistributions.join(', ')}`,
+      value: obj.distribution,
+      expected: validDistributions.join(' | '),
+    })
+    valid = false
+  }
+
+  valid = validateBoolean(obj.adaptive, 'meshResolution.adaptive', errors) && valid
+  valid =
+    validateNumber(
+      obj.tolerance,
+      'meshResolution.tolerance',
+      ranges.tolerance.min,
+      ranges.tolerance.max,
+      errors,
+    ) && valid
+  valid =
+    validateNumber(
+      obj.stepTolerance,
+      'meshResolution.stepTolerance',
+      ranges.stepTolerance.min,
+      ranges.stepTolerance.max,
+      errors,
+    ) && valid
+  valid =
+    validateNumber(
+      obj.maxFrequency,
+      'meshResolution.maxFrequency',
+      ranges.maxFrequency.min,
+      ranges.maxFrequency.max,
+      errors,
+    ) && valid
+  valid =
+    validateNumber(
+      obj.elementsPerWavelength,
+      'meshResolution.elementsPerWavelength',
+      ranges.elementsPerWavelength.min,
+      ranges.elementsPerWavelength.max,
+      errors,
+    ) && valid
+
+  return valid
+}
+
+/**
+ * Validate ThroatMountParams object.
+ */
+function validateThroatMountParams(data: unknown, errors: ValidationError[]): boolean {
+  if (typeof data !== 'object' || data === null) {
+    errors.push({
+      path: 'shellParams.throatMount',
+      message: 'Must be an object',
+      value: data,
+      expected: 'ThroatMountParams object',
+    })
+    return false
+  }
+
+  const obj = data as Record<string, unknown>
+  const ranges = PARAM_RANGES.throatMount
+  let valid = true
+
+  valid = validateBoolean(obj.enabled, 'shellParams.throatMount.enabled', errors) && valid
+  for (const key of ['thickness', 'size', 'cornerRadius'] as const) {
+    valid =
+      validateNumber(
+        obj[key],
+        `shellParams.throatMount.${key}`,
+        ranges[key].min,
+        ranges[key].max,
+        errors,
+      ) && valid
+  }
+
+  const validShapes = ['circle', 'square']
+  if (typeof obj.shape !== 'string' || !validShapes.includes(obj.shape)) {
+    errors.push({
+      path: 'shellParams.throatMount.shape',
+      message: `Must be one of: ${validShapes.join(', ')}`,
+      value: obj.shape,
+      expected: validShapes.join(' | '),
+    })
+    valid = false
+  }
+
+  const validPatterns = [
+    '1in-2bolt',
+    '1in-3bolt',
+    '1in-4bolt',
+    '1.4in-4bolt',
+    '2in-4bolt',
+    'custom',
+  ]
+  if (typeof obj.pattern !== 'string' || !validPatterns.includes(obj.pattern)) {
+    errors.push({
+      path: 'shellParams.throatMount.pattern',
+      message: `Must be one of: ${validPatterns.join(', ')}`,
+      value: obj.pattern,
+      expected: validPatterns.join(' | '),
+    })
+    valid = false
+  }
+
+  if (typeof obj.custom !== 'object' || obj.custom === null) {
+    errors.push({
+      path: 'shellParams.throatMount.custom',
+      message: 'Must be an object',
+      value: obj.custom,
+      expected: 'BoltPattern object',
+    })
+    valid = false
+  } else {
+    const custom = obj.custom as Record<string, unknown>
+    const patternRanges = PARAM_RANGES.boltPattern
+    for (const key of ['count', 'circleDiameter', 'holeDiameter', 'rotation'] as const) {
+      valid =
+        validateNumber(
+          custom[key],
+          `shellParams.throatMount.custom.${key}`,
+          patternRanges[key].min,
+          patternRanges[key].max,
+          errors,
+        ) && valid
+    }
+  }
+
+  return valid
+}
+
+/**
+ * Validate MouthPlateParams object.
+ */
+function validateMouthPlateParams(data: unknown, errors: ValidationError[]): boolean {
+  if (typeof data !== 'object' || data === null) {
+    errors.push({
+      path: 'shellParams.mouthPlate',
+      message: 'Must be an object',
+      value: data,
+      expected: 'MouthPlateParams object',
+    })
+    return false
+  }
+
+  const obj = data as Record<string, unknown>
+  const ranges = PARAM_RANGES.mouthPlate
+  let valid = true
+
+  valid = validateBoolean(obj.enabled, 'shellParams.mouthPlate.enabled', errors) && valid
+  for (const key of Object.keys(ranges) as (keyof typeof ranges)[]) {
+    valid =
+      validateNumber(
+        obj[key],
+        `shellParams.mouthPlate.${key}`,
+        ranges[key].min,
+        ranges[key].max,
+        errors,
+      ) && valid
+  }
+
   return valid
 }
 
@@ -323,14 +489,84 @@ function validateShellParams(data: unknown, errors: ValidationError[]): boolean
   valid = validateBoolean(obj.throatCap, 'shellParams.throatCap', errors) && valid
   valid = validateBoolean(obj.mouthCap, 'shellParams.mouthCap', errors) && valid
 
+  valid =
+    validateNumber(
+      obj.sections,
+      'shellParams.sections',
+      ranges.sections.min,
+      ranges.sections.max,
+      errors,
+    ) && valid
+  valid = validateThroatMountParams(obj.throatMount, errors) && valid
+  valid = validateMouthPlateParams(obj.mouthPlate, errors) && valid
+
   return valid
 }
 
+/**
+ * Validate MouthFlangeParams object.
+ */
+function validateMouthFlangeParams(data: unknown, errors: ValidationError[]): boolean {
+  if (typeof data !== 'object' || data === null) {
+    errors.push({
+      path: 'mouthFlange',
+      message: 'Must be an object',
+      value: data,
+      expected: 'MouthFlangeParams object',
+    })
+    return false
+  }
+
+  const obj = data as Record<string, unknown>
+  const ranges = PARAM_RANGES.mouthFlange
+  let valid = true
+
+  valid = validateBoolean(obj.enabled, 'mouthFlange.enabled', errors) && valid
+  for (const key of ['radius', 'width', 'height'] as const) {
+    valid =
+      validateNumber(obj[key], `mouthFlange.${key}`, ranges[key].min, ranges[key].max, errors) &&
+      valid
+  }
+
+  return valid
+}
+
+/**
+ * Validate depth mode.
+ */
+function validateDepthMode(value: unknown, errors: ValidationError[]): boolean {
+  const validModes = ['common', 'true']
+
+  if (typeof value !== 'string' || !validModes.includes(value)) {
+    errors.push({
+      path: 'depthMode',
+      message: `Must be one of: ${validModes.join(', ')}`,
+      value,
+      expected: validModes.join(' | '),
+    })
+    return false
+  }
+
+  return true
+}
+
 /**
  * Validate visualization mode.
  */
 function validateVisualizationMode(value: unknown, errors: ValidationError[]): boolean {
-  const validModes = ['guides', 'cross', 'xmod', '3d', 'blend']
+  const validModes = [
+    'guides',
+    'area',
+    'impedance',
+    'directivity',
+    'bem',
+    'paths',
+    'sweep',
+    'cross',
+    'xmod',
+    '3d',
+    'blend',
+  ]
 
   if (typeof value !== 'string' || !validModes.includes(value)) {
     errors.push({
@@ -470,12 +706,26 @@ export function validateWaveguideState(data: unknown): ValidationResult {
     valid = validateShellParams(obj.shellParams, errors) && valid
   }
 
+  if (!obj.mouthFlange) {
+    errors.push({
+      path: 'mouthFlange',
+      message: 'Missing required field',
+      value: undefined,
+      expected: 'MouthFlangeParams object',
+    })
+    valid = false
+  } else {
+    valid = validateMouthFlangeParams(obj.mouthFlange, errors) && valid
+  }
+
+  valid = validateDepthMode(obj.depthMode, errors) && valid
+
   if (!obj.visualizationMode) {
     errors.push({
       path: 'visualizationMode',
       message: 'Missing required field',
       value: undefined,
-      expected: 'guides | cross | xmod | 3d | blend',
+      expected: 'guides | area | impedance | directivity | bem | paths | cross | xmod | 3d | blend',
     })
     valid = false
   } else {
@@ -0,0 +1,61 @@
+/**
+ * BEM Worker
+ * ==========
+ *
+ * Runs the axisymmetric BEM solver (see lib/math/bem.ts) off the main
+ * thread. Refuses designs that are not axisymmetric, reports progress after
+ * each frequency and posts the result (or the error) when done.
+ */
+
+import { axisymmetricIssues, type BEMResult, type BEMTermination, solveBEM } from '../lib/math/bem'
+import { computeROSSE } from '../lib/math/rosse'
+import type { WaveguideState } from '../lib/types/waveguide'
+
+/** Profile resolution of the BEM contour */
+const PROFILE_POINTS = 300
+
+/**
+ * Solve request posted to the worker.
+ */
+export interface BEMRequest {
+  state: WaveguideState
+  termination: BEMTermination
+  frequencies: number[]
+}
+
+/** Message posted back by the worker */
+export type BEMMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: BEMResult }
+  | { type: 'error'; message: string }
+
+function post(message: BEMMessage): void {
+  self.postMessage(message)
+}
+
+self.onmessage = (event: MessageEvent<BEMRequest>) => {
+  const { state, termination, frequencies } = event.data
+
+  const issues = axisymmetricIssues(state)
+  if (issues.length > 0) {
+    post({ type: 'error', message: `BEM needs an axisymmetric design: ${issues.join('; ')}` })
+    return
+  }
+
+  const rosse = computeROSSE(state.horizontal, PROFILE_POINTS)
+  if (!rosse) {
+    post({ type: 'error', message: 'Invalid R-OSSE parameters' })
+    return
+  }
+
+  try {
+    const result = solveBEM(
+      rosse.points,
+      { termination, frequencies, wallThickness: state.shellParams.thickness },
+      (done, total) => post({ type: 'progress', done, total }),
+    )
+    post({ type: 'result', result })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Optimizer Worker
+ * ================
+ *
+ * Runs the design optimizer (see lib/optimizer) off the main thread. Posts
+ * the evaluation count and best candidate so far as progress (at most
+ * every PROGRESS_INTERVAL ms) and the result (or the error) when done. The
+ * caller stops a run by terminating the worker and keeps the last best
+ * candidate it was sent.
+ */
+
+import {
+  type OptimizerConfig,
+  type OptimizerProgress,
+  type OptimizerResult,
+  optimize,
+  optimizerIssues,
+} from '../lib/optimizer/optimizer'
+import type { WaveguideState } from '../lib/types/waveguide'
+
+/** Shortest time between progress messages [ms] */
+const PROGRESS_INTERVAL = 100
+
+/**
+ * Optimization request posted to the worker.
+ */
+export interface OptimizerRequest {
+  state: WaveguideState
+  config: OptimizerConfig
+}
+
+/** Message posted back by the worker */
+export type OptimizerMessage =
+  | { type: 'progress'; progress: OptimizerProgress }
+  | { type: 'result'; result: OptimizerResult }
+  | { type: 'error'; message: string }
+
+function post(message: OptimizerMessage): void {
+  self.postMessage(message)
+}
+
+self.onmessage = (event: MessageEvent<OptimizerRequest>) => {
+  const { state, config } = event.data
+
+  const issues = optimizerIssues(config)
+  if (issues.length > 0) {
+    post({ type: 'error', message: issues.join('; ') })
+    return
+  }
+
+  let lastPost = 0
+  try {
+    const result = optimize(state, config, (progress) => {
+      const now = performance.now()
+      if (now - lastPost < PROGRESS_INTERVAL) return
+      lastPost = now
+      post({ type: 'progress', progress })
+    })
+    if (result) {
+      post({ type: 'result', result })
+    } else {
+      post({ type: 'error', message: 'The current design is not valid' })
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
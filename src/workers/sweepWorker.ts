@@ -0,0 +1,46 @@
+/**
+ * Sweep Worker
+ * ============
+ *
+ * Runs a parameter sweep (see lib/optimizer/sweep.ts) off the main thread.
+ * Reports progress after each grid point and posts the result (or the
+ * error) when done.
+ */
+
+import { runSweep, type SweepConfig, type SweepResult, sweepIssues } from '../lib/optimizer/sweep'
+import type { WaveguideState } from '../lib/types/waveguide'
+
+/**
+ * Sweep request posted to the worker.
+ */
+export interface SweepRequest {
+  state: WaveguideState
+  config: SweepConfig
+}
+
+/** Message posted back by the worker */
+export type SweepMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: SweepResult }
+  | { type: 'error'; message: string }
+
+function post(message: SweepMessage): void {
+  self.postMessage(message)
+}
+
+self.onmessage = (event: MessageEvent<SweepRequest>) => {
+  const { state, config } = event.data
+
+  const issues = sweepIssues(config)
+  if (issues.length > 0) {
+    post({ type: 'error', message: issues.join('; ') })
+    return
+  }
+
+  try {
+    const result = runSweep(state, config, (done, total) => post({ type: 'progress', done, total }))
+    post({ type: 'result', result })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
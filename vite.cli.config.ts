@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Command line build: `node dist-cli/horn-designer.js` (see src/cli/main.ts)
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/main.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'horn-designer.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  ssr: {
+    // Bundle the dependencies so the output runs on its own
+    noExternal: true,
+  },
+})
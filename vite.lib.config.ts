@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Library build of the geometry core (see src/lib/index.ts)
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    sourcemap: true,
+    lib: {
+      entry: 'src/lib/index.ts',
+      formats: ['es'],
+      fileName: 'horn-designer',
+    },
+    rollupOptions: {
+      external: ['js-yaml', 'lz-string'],
+    },
+  },
+})